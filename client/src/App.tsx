@@ -7,16 +7,24 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import Home from "@/pages/home";
 import PropertyDetail from "@/pages/property-detail";
+import Portfolio from "@/pages/portfolio";
+import Watchlist from "@/pages/watchlist";
+import Compare from "@/pages/compare";
 import AdminLogin from "@/pages/admin-login";
 import AdminDashboard from "@/pages/admin-dashboard";
+import AdminInvite from "@/pages/admin-invite";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/property/:id" component={PropertyDetail} />
+      <Route path="/portfolio" component={Portfolio} />
+      <Route path="/watchlist" component={Watchlist} />
+      <Route path="/compare" component={Compare} />
       <Route path="/admin/login" component={AdminLogin} />
       <Route path="/admin/dashboard" component={AdminDashboard} />
+      <Route path="/admin/invite/:token" component={AdminInvite} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -2,29 +2,57 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Trash2, Eye, Mail, Phone, User, Search, Filter, Calendar, TrendingUp, Users, MessageSquare, RefreshCw, Download } from "lucide-react";
-import { type Contact } from "@shared/schema";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Trash2, Eye, Mail, Phone, User, Search, Calendar, TrendingUp, Users, MessageSquare, RefreshCw, Download, AlarmClock, Building, ShieldAlert } from "lucide-react";
+import type { Contact } from "@shared/schema";
+import { LEAD_STAGES, LEAD_STAGE_LABELS, CLOSED_LEAD_STAGES, type Lead, type LeadStage } from "@shared/leads";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useMemo } from "react";
+import { LeadDetailDialog } from "./lead-detail-dialog";
+import { LeadDuplicatesCard } from "./lead-duplicates-card";
+import { LeadQuarantineList, QUARANTINE_QUERY_KEY } from "./lead-quarantine-list";
+
+const LEADS_QUERY_KEY = ["/api/admin/leads"];
+
+const STAGE_STYLES: Record<LeadStage, string> = {
+  new: "bg-blue-100 text-blue-800",
+  contacted: "bg-yellow-100 text-yellow-800",
+  qualified: "bg-purple-100 text-purple-800",
+  invested: "bg-green-100 text-green-800",
+  lost: "bg-gray-200 text-gray-700",
+};
+
+// Open leads whose follow-up date has passed
+const isFollowUpDue = (lead: Lead) =>
+  !!lead.followUpAt && !CLOSED_LEAD_STAGES.includes(lead.stage as LeadStage) && new Date(lead.followUpAt) <= new Date();
 
 export function AdminContactsTab() {
-  const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
-  const [isViewOpen, setIsViewOpen] = useState(false);
+  const [selectedLeadId, setSelectedLeadId] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [assigneeFilter, setAssigneeFilter] = useState("all");
+  const [tagFilter, setTagFilter] = useState("all");
   const [dateFilter, setDateFilter] = useState("all");
-  const [currentView, setCurrentView] = useState("grid");
+  const [currentView, setCurrentView] = useState("kanban");
+  const [section, setSection] = useState("pipeline");
+  const [dragOverStage, setDragOverStage] = useState<LeadStage | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
-  const { data: contacts = [], isLoading } = useQuery({
-    queryKey: ["/api/contacts"],
+  const { data: leads = [], isLoading } = useQuery<Lead[]>({
+    queryKey: LEADS_QUERY_KEY,
+  });
+
+  const { data: assignees = [] } = useQuery<Array<{ id: string; username: string }>>({
+    queryKey: ["/api/admin/leads/assignees"],
+  });
+
+  const { data: quarantined = [] } = useQuery<Contact[]>({
+    queryKey: QUARANTINE_QUERY_KEY,
   });
 
   const deleteMutation = useMutation({
@@ -33,6 +61,7 @@ export function AdminContactsTab() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
+      queryClient.invalidateQueries({ queryKey: LEADS_QUERY_KEY });
       toast({
         title: "Contact Deleted",
         description: "The contact inquiry has been successfully deleted.",
@@ -47,10 +76,31 @@ export function AdminContactsTab() {
     },
   });
 
-  const handleView = (contact: Contact) => {
-    setSelectedContact(contact);
-    setIsViewOpen(true);
-  };
+  // Moving a card updates the board immediately and rolls back if the server refuses
+  const stageMutation = useMutation({
+    mutationFn: async ({ id, stage }: { id: string; stage: LeadStage }) => {
+      return apiRequest(`/api/admin/leads/${id}`, "PUT", { stage });
+    },
+    onMutate: async ({ id, stage }) => {
+      await queryClient.cancelQueries({ queryKey: LEADS_QUERY_KEY });
+      const previous = queryClient.getQueryData<Lead[]>(LEADS_QUERY_KEY);
+      queryClient.setQueryData<Lead[]>(LEADS_QUERY_KEY, current =>
+        current?.map(lead => lead.id === id ? { ...lead, stage } : lead)
+      );
+      return { previous };
+    },
+    onError: (error: any, _variables, context) => {
+      queryClient.setQueryData(LEADS_QUERY_KEY, context?.previous);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move lead",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: LEADS_QUERY_KEY });
+    },
+  });
 
   const handleDelete = (id: string) => {
     if (window.confirm("Are you sure you want to delete this contact inquiry?")) {
@@ -58,45 +108,78 @@ export function AdminContactsTab() {
     }
   };
 
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString("en-IN", {
+  const handleDrop = (e: React.DragEvent, stage: LeadStage) => {
+    e.preventDefault();
+    setDragOverStage(null);
+    const id = e.dataTransfer.getData("text/plain");
+    const lead = leads.find(existing => existing.id === id);
+    if (lead && lead.stage !== stage) {
+      stageMutation.mutate({ id, stage });
+    }
+  };
+
+  const formatDate = (value: string | Date) => {
+    return new Date(value).toLocaleDateString("en-IN", {
       year: "numeric",
       month: "short",
       day: "numeric",
-      hour: "2-digit",
-      minute: "2-digit",
     });
   };
 
-  const formatCurrency = (amount: string) => {
-    const numAmount = parseFloat(amount.replace(/[^0-9.]/g, ''));
-    if (isNaN(numAmount)) return amount;
+  const formatRupees = (amount: number) => {
     return new Intl.NumberFormat("en-IN", {
       style: "currency",
       currency: "INR",
       minimumFractionDigits: 0,
-    }).format(numAmount);
+    }).format(amount);
   };
 
-  // Filter and search contacts
-  const filteredContacts = useMemo(() => {
-    let filtered = contacts;
+  // Parsed range when the free-text amount could be read, otherwise the text as submitted
+  const formatAmount = (lead: Lead) => {
+    if (lead.investmentMin === null) return lead.investmentAmount;
+    if (lead.investmentMax === null) return `${formatRupees(lead.investmentMin)}+`;
+    if (lead.investmentMin === lead.investmentMax) return formatRupees(lead.investmentMin);
+    return `${formatRupees(lead.investmentMin)} – ${formatRupees(lead.investmentMax)}`;
+  };
+
+  const allTags = useMemo(
+    () => Array.from(new Set(leads.flatMap(lead => lead.tags))).sort(),
+    [leads]
+  );
+
+  // Filter and search leads
+  const filteredLeads = useMemo(() => {
+    let filtered = leads;
 
     // Search filter
     if (searchTerm) {
-      filtered = filtered.filter((contact: Contact) =>
-        contact.firstName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        contact.lastName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        contact.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        contact.phone.includes(searchTerm)
+      const term = searchTerm.toLowerCase();
+      filtered = filtered.filter(lead =>
+        lead.name.toLowerCase().includes(term) ||
+        lead.email.toLowerCase().includes(term) ||
+        lead.phone.includes(searchTerm)
       );
     }
 
+    if (statusFilter !== "all") {
+      filtered = filtered.filter(lead => lead.stage === statusFilter);
+    }
+
+    if (assigneeFilter !== "all") {
+      filtered = filtered.filter(lead =>
+        assigneeFilter === "unassigned" ? !lead.assignedTo : lead.assignedTo === assigneeFilter
+      );
+    }
+
+    if (tagFilter !== "all") {
+      filtered = filtered.filter(lead => lead.tags.includes(tagFilter));
+    }
+
     // Date filter
     if (dateFilter !== "all") {
       const now = new Date();
       const filterDate = new Date();
-      
+
       switch (dateFilter) {
         case "today":
           filterDate.setHours(0, 0, 0, 0);
@@ -109,38 +192,50 @@ export function AdminContactsTab() {
           break;
       }
 
-      filtered = filtered.filter((contact: Contact) =>
-        new Date(contact.createdAt) >= filterDate
-      );
+      filtered = filtered.filter(lead => new Date(lead.createdAt) >= filterDate);
     }
 
     return filtered;
-  }, [contacts, searchTerm, statusFilter, dateFilter]);
-
-  // Contact statistics
-  const contactStats = useMemo(() => {
-    const total = contacts.length;
-    const today = contacts.filter((c: Contact) => {
-      const contactDate = new Date(c.createdAt);
-      const todayDate = new Date();
-      return contactDate.toDateString() === todayDate.toDateString();
-    }).length;
-    
-    const thisWeek = contacts.filter((c: Contact) => {
-      const contactDate = new Date(c.createdAt);
-      const weekAgo = new Date();
-      weekAgo.setDate(weekAgo.getDate() - 7);
-      return contactDate >= weekAgo;
-    }).length;
-
-    return { total, today, thisWeek };
-  }, [contacts]);
+  }, [leads, searchTerm, statusFilter, assigneeFilter, tagFilter, dateFilter]);
+
+  const hasFilters = !!searchTerm || statusFilter !== "all" || assigneeFilter !== "all" || tagFilter !== "all" || dateFilter !== "all";
+
+  const clearFilters = () => {
+    setSearchTerm("");
+    setStatusFilter("all");
+    setAssigneeFilter("all");
+    setTagFilter("all");
+    setDateFilter("all");
+  };
+
+  // Lead statistics
+  const leadStats = useMemo(() => {
+    const total = leads.length;
+    const today = leads.filter(lead => new Date(lead.createdAt).toDateString() === new Date().toDateString()).length;
+    const followUpsDue = leads.filter(isFollowUpDue).length;
+    const invested = leads.filter(lead => lead.stage === "invested").length;
+
+    return { total, today, followUpsDue, invested };
+  }, [leads]);
+
+  const renderStageBadge = (lead: Lead) => (
+    <Badge variant="secondary" className={`text-xs ${STAGE_STYLES[lead.stage as LeadStage] ?? ""}`}>
+      {LEAD_STAGE_LABELS[lead.stage as LeadStage] ?? lead.stage}
+    </Badge>
+  );
+
+  const renderFollowUp = (lead: Lead) => lead.followUpAt && (
+    <span className={`flex items-center text-xs ${isFollowUpDue(lead) ? "text-red-600 font-medium" : "text-gray-500"}`}>
+      <AlarmClock className="h-3 w-3 mr-1" />
+      {formatDate(lead.followUpAt)}
+    </span>
+  );
 
   if (isLoading) {
     return (
       <div className="flex items-center justify-center py-12">
         <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mr-3" />
-        <span className="text-lg">Loading contacts...</span>
+        <span className="text-lg">Loading leads...</span>
       </div>
     );
   }
@@ -150,12 +245,12 @@ export function AdminContactsTab() {
       {/* Header with Stats */}
       <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
         <div>
-          <h2 className="text-2xl font-bold text-gray-900">Contact Inquiries</h2>
-          <p className="text-gray-600 mt-1">Manage and respond to customer inquiries</p>
+          <h2 className="text-2xl font-bold text-gray-900">Leads</h2>
+          <p className="text-gray-600 mt-1">Track contact inquiries from first message to investment</p>
         </div>
-        
+
         <div className="flex gap-2">
-          <Button variant="outline" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/contacts"] })}>
+          <Button variant="outline" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: LEADS_QUERY_KEY })}>
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
@@ -166,345 +261,333 @@ export function AdminContactsTab() {
         </div>
       </div>
 
-      {/* Statistics Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-        <Card className="bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200">
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-blue-500 rounded-lg mr-4">
-                <Users className="h-6 w-6 text-white" />
-              </div>
-              <div>
-                <p className="text-sm font-medium text-blue-800">Total Contacts</p>
-                <p className="text-3xl font-bold text-blue-900">{contactStats.total}</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card className="bg-gradient-to-br from-green-50 to-green-100 border-green-200">
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-green-500 rounded-lg mr-4">
-                <Calendar className="h-6 w-6 text-white" />
-              </div>
-              <div>
-                <p className="text-sm font-medium text-green-800">Today</p>
-                <p className="text-3xl font-bold text-green-900">{contactStats.today}</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-
-        <Card className="bg-gradient-to-br from-purple-50 to-purple-100 border-purple-200">
-          <CardContent className="p-6">
-            <div className="flex items-center">
-              <div className="p-2 bg-purple-500 rounded-lg mr-4">
-                <TrendingUp className="h-6 w-6 text-white" />
-              </div>
-              <div>
-                <p className="text-sm font-medium text-purple-800">This Week</p>
-                <p className="text-3xl font-bold text-purple-900">{contactStats.thisWeek}</p>
-              </div>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
+      <Tabs value={section} onValueChange={setSection}>
+        <TabsList>
+          <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+          <TabsTrigger value="quarantine" className="gap-2">
+            <ShieldAlert className="h-4 w-4" />
+            Quarantine{quarantined.length > 0 && ` (${quarantined.length})`}
+          </TabsTrigger>
+        </TabsList>
+      </Tabs>
 
-      {/* Search and Filters */}
-      <Card>
-        <CardContent className="p-6">
-          <div className="flex flex-col md:flex-row gap-4 items-center">
-            <div className="relative flex-1">
-              <Search className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
-              <Input
-                placeholder="Search contacts by name, email, or phone..."
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
-                className="pl-10"
-              />
-            </div>
-            
-            <div className="flex gap-3">
-              <Select value={dateFilter} onValueChange={setDateFilter}>
-                <SelectTrigger className="w-40">
-                  <SelectValue placeholder="Filter by date" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Time</SelectItem>
-                  <SelectItem value="today">Today</SelectItem>
-                  <SelectItem value="week">Last 7 Days</SelectItem>
-                  <SelectItem value="month">Last Month</SelectItem>
-                </SelectContent>
-              </Select>
-
-              <Select value={currentView} onValueChange={setCurrentView}>
-                <SelectTrigger className="w-32">
-                  <SelectValue placeholder="View" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="grid">Grid View</SelectItem>
-                  <SelectItem value="table">Table View</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Content Area */}
-      {filteredContacts.length === 0 ? (
-        <Card>
-          <CardContent className="flex flex-col items-center justify-center py-16">
-            <MessageSquare className="h-16 w-16 text-gray-300 mb-4" />
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">
-              {searchTerm || dateFilter !== "all" ? "No matching contacts found" : "No contact inquiries yet"}
-            </h3>
-            <p className="text-gray-500 text-center max-w-md">
-              {searchTerm || dateFilter !== "all" 
-                ? "Try adjusting your search criteria or filters to find what you're looking for." 
-                : "When customers submit contact forms, they will appear here for you to review and respond."}
-            </p>
-            {(searchTerm || dateFilter !== "all") && (
-              <Button 
-                variant="outline" 
-                onClick={() => {
-                  setSearchTerm("");
-                  setDateFilter("all");
-                }}
-                className="mt-4"
-              >
-                Clear Filters
-              </Button>
-            )}
-          </CardContent>
-        </Card>
-      ) : currentView === "grid" ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredContacts.map((contact: Contact) => (
-            <Card key={contact.id} className="hover:shadow-lg transition-shadow duration-200 border-l-4 border-l-blue-500">
+      {section === "quarantine" ? (
+        <LeadQuarantineList />
+      ) : (
+        <>
+          {/* Statistics Cards */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <Card className="bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200">
               <CardContent className="p-6">
-                <div className="flex items-start justify-between mb-4">
-                  <div className="flex items-center">
-                    <div className="p-2 bg-blue-100 rounded-full mr-3">
-                      <User className="h-5 w-5 text-blue-600" />
-                    </div>
-                    <div>
-                      <h4 className="font-semibold text-gray-900">
-                        {contact.firstName} {contact.lastName}
-                      </h4>
-                      <Badge variant="secondary" className="text-xs mt-1">
-                        New Inquiry
-                      </Badge>
-                    </div>
+                <div className="flex items-center">
+                  <div className="p-2 bg-blue-500 rounded-lg mr-4">
+                    <Users className="h-6 w-6 text-white" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-blue-800">Total Leads</p>
+                    <p className="text-3xl font-bold text-blue-900">{leadStats.total}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gradient-to-br from-purple-50 to-purple-100 border-purple-200">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-purple-500 rounded-lg mr-4">
+                    <Calendar className="h-6 w-6 text-white" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-purple-800">Today</p>
+                    <p className="text-3xl font-bold text-purple-900">{leadStats.today}</p>
                   </div>
                 </div>
+              </CardContent>
+            </Card>
 
-                <div className="space-y-3 mb-4">
-                  <div className="flex items-center text-sm text-gray-600">
-                    <Mail className="h-4 w-4 mr-2 text-gray-400" />
-                    <span className="truncate">{contact.email}</span>
+            <Card className="bg-gradient-to-br from-red-50 to-red-100 border-red-200">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-red-500 rounded-lg mr-4">
+                    <AlarmClock className="h-6 w-6 text-white" />
                   </div>
-                  <div className="flex items-center text-sm text-gray-600">
-                    <Phone className="h-4 w-4 mr-2 text-gray-400" />
-                    <span>{contact.phone}</span>
+                  <div>
+                    <p className="text-sm font-medium text-red-800">Follow-ups Due</p>
+                    <p className="text-3xl font-bold text-red-900">{leadStats.followUpsDue}</p>
                   </div>
-                  {contact.investmentAmount && (
-                    <div className="flex items-center text-sm font-medium text-green-600">
-                      <TrendingUp className="h-4 w-4 mr-2" />
-                      <span>{formatCurrency(contact.investmentAmount)}</span>
-                    </div>
-                  )}
                 </div>
+              </CardContent>
+            </Card>
 
-                <div className="text-xs text-gray-500 mb-4">
-                  Submitted {formatDate(contact.createdAt)}
+            <Card className="bg-gradient-to-br from-green-50 to-green-100 border-green-200">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <div className="p-2 bg-green-500 rounded-lg mr-4">
+                    <TrendingUp className="h-6 w-6 text-white" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-green-800">Invested</p>
+                    <p className="text-3xl font-bold text-green-900">{leadStats.invested}</p>
+                  </div>
                 </div>
+              </CardContent>
+            </Card>
+          </div>
 
-                <div className="flex gap-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleView(contact)}
-                    className="flex-1"
-                  >
-                    <Eye className="h-4 w-4 mr-1" />
-                    View
-                  </Button>
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => handleDelete(contact.id)}
-                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </Button>
+          <LeadDuplicatesCard onViewLead={setSelectedLeadId} />
+
+          {/* Search and Filters */}
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex flex-col xl:flex-row gap-4 items-center">
+                <div className="relative flex-1 w-full">
+                  <Search className="h-4 w-4 absolute left-3 top-3 text-gray-400" />
+                  <Input
+                    placeholder="Search leads by name, email, or phone..."
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
+
+                <div className="flex flex-wrap gap-3">
+                  <Select value={statusFilter} onValueChange={setStatusFilter}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Stage" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Stages</SelectItem>
+                      {LEAD_STAGES.map(stage => (
+                        <SelectItem key={stage} value={stage}>{LEAD_STAGE_LABELS[stage]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue placeholder="Assignee" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Assignees</SelectItem>
+                      <SelectItem value="unassigned">Unassigned</SelectItem>
+                      {assignees.map(admin => (
+                        <SelectItem key={admin.id} value={admin.id}>{admin.username}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={tagFilter} onValueChange={setTagFilter}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Tag" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Tags</SelectItem>
+                      {allTags.map(tag => (
+                        <SelectItem key={tag} value={tag}>{tag}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={dateFilter} onValueChange={setDateFilter}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="Filter by date" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Time</SelectItem>
+                      <SelectItem value="today">Today</SelectItem>
+                      <SelectItem value="week">Last 7 Days</SelectItem>
+                      <SelectItem value="month">Last Month</SelectItem>
+                    </SelectContent>
+                  </Select>
+
+                  <Select value={currentView} onValueChange={setCurrentView}>
+                    <SelectTrigger className="w-36">
+                      <SelectValue placeholder="View" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="kanban">Kanban View</SelectItem>
+                      <SelectItem value="table">Table View</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Content Area */}
+          {leads.length === 0 || (currentView === "table" && filteredLeads.length === 0) ? (
+            <Card>
+              <CardContent className="flex flex-col items-center justify-center py-16">
+                <MessageSquare className="h-16 w-16 text-gray-300 mb-4" />
+                <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                  {hasFilters ? "No matching leads found" : "No contact inquiries yet"}
+                </h3>
+                <p className="text-gray-500 text-center max-w-md">
+                  {hasFilters
+                    ? "Try adjusting your search criteria or filters to find what you're looking for."
+                    : "When customers submit contact forms, they will appear here for you to review and respond."}
+                </p>
+                {hasFilters && (
+                  <Button variant="outline" onClick={clearFilters} className="mt-4">
+                    Clear Filters
+                  </Button>
+                )}
               </CardContent>
             </Card>
-          ))}
-        </div>
-      ) : (
-        <Card>
-          <CardContent className="p-0">
-            <div className="overflow-x-auto">
-              <Table>
-                <TableHeader>
-                  <TableRow className="bg-gray-50">
-                    <TableHead className="font-semibold">Contact Information</TableHead>
-                    <TableHead className="font-semibold">Investment Amount</TableHead>
-                    <TableHead className="font-semibold">Date Submitted</TableHead>
-                    <TableHead className="font-semibold text-center">Actions</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {filteredContacts.map((contact: Contact) => (
-                    <TableRow key={contact.id} className="hover:bg-gray-50">
-                      <TableCell>
-                        <div className="flex items-center">
-                          <div className="p-2 bg-blue-100 rounded-full mr-3">
-                            <User className="h-4 w-4 text-blue-600" />
-                          </div>
-                          <div>
-                            <div className="font-medium text-gray-900">
-                              {contact.firstName} {contact.lastName}
+          ) : currentView === "kanban" ? (
+            <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+              {LEAD_STAGES.filter(stage => statusFilter === "all" || stage === statusFilter).map(stage => {
+                const stageLeads = filteredLeads.filter(lead => lead.stage === stage);
+                return (
+                  <div
+                    key={stage}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragOverStage(stage);
+                    }}
+                    onDragLeave={() => setDragOverStage(current => current === stage ? null : current)}
+                    onDrop={(e) => handleDrop(e, stage)}
+                    className={`rounded-lg p-3 min-h-[200px] transition-colors ${dragOverStage === stage ? "bg-blue-50 ring-2 ring-blue-300" : "bg-gray-50"}`}
+                  >
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="font-semibold text-gray-900">{LEAD_STAGE_LABELS[stage]}</h3>
+                      <Badge variant="secondary" className={STAGE_STYLES[stage]}>{stageLeads.length}</Badge>
+                    </div>
+
+                    <div className="space-y-3">
+                      {stageLeads.map(lead => (
+                        <Card
+                          key={lead.id}
+                          draggable
+                          onDragStart={(e) => e.dataTransfer.setData("text/plain", lead.id)}
+                          onClick={() => setSelectedLeadId(lead.id)}
+                          className="cursor-grab hover:shadow-md transition-shadow"
+                        >
+                          <CardContent className="p-3 space-y-2">
+                            <div className="font-medium text-gray-900">{lead.name}</div>
+                            {lead.investmentAmount && (
+                              <div className="text-sm font-medium text-green-600">{formatAmount(lead)}</div>
+                            )}
+                            {lead.propertyName && (
+                              <div className="flex items-center text-xs text-gray-600">
+                                <Building className="h-3 w-3 mr-1" />
+                                <span className="truncate">{lead.propertyName}</span>
+                              </div>
+                            )}
+                            <div className="flex items-center justify-between gap-2">
+                              <span className="flex items-center text-xs text-gray-500">
+                                <User className="h-3 w-3 mr-1" />
+                                {lead.assigneeName ?? "Unassigned"}
+                              </span>
+                              {renderFollowUp(lead)}
                             </div>
+                            {lead.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {lead.tags.map(tag => (
+                                  <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>
+                                ))}
+                              </div>
+                            )}
+                          </CardContent>
+                        </Card>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="p-0">
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-gray-50">
+                        <TableHead className="font-semibold">Contact Information</TableHead>
+                        <TableHead className="font-semibold">Stage</TableHead>
+                        <TableHead className="font-semibold">Assignee</TableHead>
+                        <TableHead className="font-semibold">Investment Amount</TableHead>
+                        <TableHead className="font-semibold">Follow-up</TableHead>
+                        <TableHead className="font-semibold">Tags</TableHead>
+                        <TableHead className="font-semibold">Date Submitted</TableHead>
+                        <TableHead className="font-semibold text-center">Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {filteredLeads.map(lead => (
+                        <TableRow key={lead.id} className="hover:bg-gray-50">
+                          <TableCell>
+                            <div className="font-medium text-gray-900">{lead.name}</div>
                             <div className="text-sm text-gray-600 flex items-center mt-1">
                               <Mail className="h-3 w-3 mr-1" />
-                              {contact.email}
+                              {lead.email}
                             </div>
                             <div className="text-sm text-gray-600 flex items-center mt-1">
                               <Phone className="h-3 w-3 mr-1" />
-                              {contact.phone}
+                              {lead.phone}
                             </div>
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        {contact.investmentAmount ? (
-                          <div className="font-medium text-green-600">
-                            {formatCurrency(contact.investmentAmount)}
-                          </div>
-                        ) : (
-                          <span className="text-gray-400">Not specified</span>
-                        )}
-                      </TableCell>
-                      <TableCell>
-                        <div className="text-sm">
-                          <div className="font-medium">{formatDate(contact.createdAt)}</div>
-                          <Badge variant="secondary" className="text-xs mt-1">New</Badge>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <div className="flex gap-2 justify-center">
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleView(contact)}
-                          >
-                            <Eye className="h-4 w-4 mr-1" />
-                            View
-                          </Button>
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDelete(contact.id)}
-                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </div>
-                      </TableCell>
-                    </TableRow>
-                  ))}
-                </TableBody>
-              </Table>
-            </div>
-          </CardContent>
-        </Card>
-      )}
-
-      {/* Contact Detail Dialog */}
-      <Dialog open={isViewOpen} onOpenChange={setIsViewOpen}>
-        <DialogContent className="max-w-2xl">
-          <DialogHeader>
-            <DialogTitle className="flex items-center">
-              <User className="h-5 w-5 mr-2" />
-              Contact Details
-            </DialogTitle>
-            <DialogDescription>
-              Full information for this contact inquiry
-            </DialogDescription>
-          </DialogHeader>
-          
-          {selectedContact && (
-            <div className="space-y-6">
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <div className="space-y-4">
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Full Name</label>
-                    <p className="text-lg font-semibold text-gray-900">
-                      {selectedContact.firstName} {selectedContact.lastName}
-                    </p>
-                  </div>
-                  
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Email</label>
-                    <p className="text-gray-900 flex items-center">
-                      <Mail className="h-4 w-4 mr-2 text-gray-400" />
-                      {selectedContact.email}
-                    </p>
-                  </div>
-                  
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Phone</label>
-                    <p className="text-gray-900 flex items-center">
-                      <Phone className="h-4 w-4 mr-2 text-gray-400" />
-                      {selectedContact.phone}
-                    </p>
-                  </div>
-                </div>
-                
-                <div className="space-y-4">
-                  {selectedContact.investmentAmount && (
-                    <div>
-                      <label className="text-sm font-medium text-gray-700">Investment Amount</label>
-                      <p className="text-lg font-semibold text-green-600">
-                        {formatCurrency(selectedContact.investmentAmount)}
-                      </p>
-                    </div>
-                  )}
-                  
-                  <div>
-                    <label className="text-sm font-medium text-gray-700">Submitted Date</label>
-                    <p className="text-gray-900">{formatDate(selectedContact.createdAt)}</p>
-                  </div>
-                </div>
-              </div>
-              
-              {selectedContact.message && (
-                <div>
-                  <label className="text-sm font-medium text-gray-700">Message</label>
-                  <div className="mt-2 p-4 bg-gray-50 rounded-lg">
-                    <p className="text-gray-900 whitespace-pre-wrap">{selectedContact.message}</p>
-                  </div>
+                            {lead.propertyName && (
+                              <div className="text-sm text-gray-600 flex items-center mt-1">
+                                <Building className="h-3 w-3 mr-1" />
+                                {lead.propertyName}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>{renderStageBadge(lead)}</TableCell>
+                          <TableCell className="text-sm">{lead.assigneeName ?? <span className="text-gray-400">Unassigned</span>}</TableCell>
+                          <TableCell>
+                            {lead.investmentAmount ? (
+                              <div className="font-medium text-green-600">
+                                {formatAmount(lead)}
+                              </div>
+                            ) : (
+                              <span className="text-gray-400">Not specified</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{renderFollowUp(lead) || <span className="text-gray-400">—</span>}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {lead.tags.map(tag => (
+                                <Badge key={tag} variant="outline" className="text-xs font-normal">{tag}</Badge>
+                              ))}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-sm">{formatDate(lead.createdAt)}</TableCell>
+                          <TableCell>
+                            <div className="flex gap-2 justify-center">
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setSelectedLeadId(lead.id)}
+                              >
+                                <Eye className="h-4 w-4 mr-1" />
+                                View
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => handleDelete(lead.id)}
+                                className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
                 </div>
-              )}
-              
-              <div className="flex gap-3 pt-4 border-t">
-                <Button className="flex-1">
-                  <Mail className="h-4 w-4 mr-2" />
-                  Reply via Email
-                </Button>
-                <Button variant="outline" className="flex-1">
-                  <Phone className="h-4 w-4 mr-2" />
-                  Call Contact
-                </Button>
-              </div>
-            </div>
+              </CardContent>
+            </Card>
           )}
-        </DialogContent>
-      </Dialog>
+        </>
+      )}
+
+      <LeadDetailDialog
+        leadId={selectedLeadId}
+        onOpenChange={(open) => !open && setSelectedLeadId(null)}
+      />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,364 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, Search, RefreshCw, ShieldCheck, Clock, XCircle, FileText, CheckCircle } from "lucide-react";
+import type { KycRecord } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useState, useMemo } from "react";
+
+type KycQueueItem = Omit<KycRecord, "bankAccountNumberEncrypted"> & {
+  userName: string;
+  phoneNumber: string;
+};
+
+type KycReviewRecord = Omit<KycRecord, "bankAccountNumberEncrypted"> & {
+  bankAccountNumber: string;
+};
+
+const STATUS_BADGES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  approved: "bg-green-100 text-green-800 border-green-200",
+  rejected: "bg-red-100 text-red-800 border-red-200",
+};
+
+const DOCUMENTS = [
+  { kind: "pan", label: "PAN Card" },
+  { kind: "aadhaar", label: "Aadhaar" },
+  { kind: "selfie", label: "Selfie" },
+];
+
+export function AdminKycTab() {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("pending");
+  const [rejectionReason, setRejectionReason] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: records = [], isLoading } = useQuery<KycQueueItem[]>({
+    queryKey: ["/api/admin/kyc"],
+  });
+
+  const { data: selectedRecord } = useQuery<KycReviewRecord>({
+    queryKey: ["/api/admin/kyc", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, decision, reason }: { id: string; decision: "approve" | "reject"; reason?: string }) => {
+      return apiRequest(`/api/admin/kyc/${id}/review`, "POST", { decision, reason });
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/kyc"] });
+      toast({
+        title: variables.decision === "approve" ? "KYC Approved" : "KYC Rejected",
+        description: variables.decision === "approve"
+          ? "The investor can now invest."
+          : "The investor has been asked to resubmit.",
+      });
+      closeReview();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to review KYC",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const closeReview = () => {
+    setSelectedId(null);
+    setRejectionReason("");
+  };
+
+  const formatDate = (value: string | Date) => {
+    return new Date(value).toLocaleDateString("en-IN", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  const filteredRecords = useMemo(() => {
+    let filtered = records;
+
+    if (statusFilter !== "all") {
+      filtered = filtered.filter(record => record.status === statusFilter);
+    }
+
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase();
+      filtered = filtered.filter(record =>
+        record.fullName.toLowerCase().includes(term) ||
+        record.userName.toLowerCase().includes(term) ||
+        record.panNumber.toLowerCase().includes(term) ||
+        record.phoneNumber.includes(searchTerm)
+      );
+    }
+
+    return filtered;
+  }, [records, statusFilter, searchTerm]);
+
+  const kycStats = useMemo(() => ({
+    pending: records.filter(r => r.status === "pending").length,
+    approved: records.filter(r => r.status === "approved").length,
+    rejected: records.filter(r => r.status === "rejected").length,
+  }), [records]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mr-3" />
+        <span className="text-lg">Loading KYC submissions...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">KYC Review</h2>
+          <p className="text-gray-600 mt-1">Verify investor identity and bank details before they can invest</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/admin/kyc"] })}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="bg-gradient-to-br from-yellow-50 to-yellow-100 border-yellow-200">
+          <CardContent className="p-6">
+            <div className="flex items-center">
+              <div className="p-2 bg-yellow-500 rounded-lg mr-4">
+                <Clock className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-yellow-800">Awaiting Review</p>
+                <p className="text-3xl font-bold text-yellow-900">{kycStats.pending}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-green-50 to-green-100 border-green-200">
+          <CardContent className="p-6">
+            <div className="flex items-center">
+              <div className="p-2 bg-green-500 rounded-lg mr-4">
+                <ShieldCheck className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-green-800">Approved</p>
+                <p className="text-3xl font-bold text-green-900">{kycStats.approved}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="bg-gradient-to-br from-red-50 to-red-100 border-red-200">
+          <CardContent className="p-6">
+            <div className="flex items-center">
+              <div className="p-2 bg-red-500 rounded-lg mr-4">
+                <XCircle className="h-6 w-6 text-white" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-red-800">Rejected</p>
+                <p className="text-3xl font-bold text-red-900">{kycStats.rejected}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Submissions</CardTitle>
+          <CardDescription>Oldest pending submissions should be reviewed first</CardDescription>
+          <div className="flex flex-col md:flex-row gap-3 pt-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by name, PAN or phone..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="approved">Approved</SelectItem>
+                <SelectItem value="rejected">Rejected</SelectItem>
+                <SelectItem value="all">All</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Investor</TableHead>
+                <TableHead>PAN</TableHead>
+                <TableHead>Aadhaar</TableHead>
+                <TableHead>Submitted</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredRecords.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    No KYC submissions match the current filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredRecords.map(record => (
+                  <TableRow key={record.id}>
+                    <TableCell>
+                      <div className="font-medium">{record.fullName}</div>
+                      <div className="text-xs text-gray-500">{record.phoneNumber}</div>
+                    </TableCell>
+                    <TableCell className="font-mono">{record.panNumber}</TableCell>
+                    <TableCell className="font-mono">{record.aadhaarMasked}</TableCell>
+                    <TableCell>{formatDate(record.submittedAt)}</TableCell>
+                    <TableCell>
+                      <Badge className={STATUS_BADGES[record.status]}>{record.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-center">
+                      <Button variant="outline" size="sm" onClick={() => setSelectedId(record.id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && closeReview()}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>KYC Review</DialogTitle>
+            <DialogDescription>
+              Check the uploaded documents against the submitted details
+            </DialogDescription>
+          </DialogHeader>
+
+          {!selectedRecord ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-blue-600" />
+            </div>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <Label className="text-gray-500">Full Name</Label>
+                  <p className="font-medium">{selectedRecord.fullName}</p>
+                </div>
+                <div>
+                  <Label className="text-gray-500">Date of Birth</Label>
+                  <p className="font-medium">{formatDate(selectedRecord.dateOfBirth)}</p>
+                </div>
+                <div>
+                  <Label className="text-gray-500">PAN</Label>
+                  <p className="font-mono">{selectedRecord.panNumber}</p>
+                </div>
+                <div>
+                  <Label className="text-gray-500">Aadhaar</Label>
+                  <p className="font-mono">{selectedRecord.aadhaarMasked}</p>
+                </div>
+                <div className="col-span-2">
+                  <Label className="text-gray-500">Address</Label>
+                  <p>
+                    {selectedRecord.addressLine1}
+                    {selectedRecord.addressLine2 && `, ${selectedRecord.addressLine2}`}
+                    , {selectedRecord.city}, {selectedRecord.state} {selectedRecord.pincode}
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-gray-500">Account Holder</Label>
+                  <p className="font-medium">{selectedRecord.bankAccountName}</p>
+                </div>
+                <div>
+                  <Label className="text-gray-500">Account / IFSC</Label>
+                  <p className="font-mono">{selectedRecord.bankAccountNumber} · {selectedRecord.ifscCode}</p>
+                </div>
+              </div>
+
+              <div>
+                <Label className="text-gray-500">Documents</Label>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {DOCUMENTS.map(document => (
+                    <Button key={document.kind} variant="outline" size="sm" asChild>
+                      <a href={`/api/admin/kyc/${selectedRecord.id}/documents/${document.kind}`} target="_blank" rel="noopener noreferrer">
+                        <FileText className="h-4 w-4 mr-2" />
+                        {document.label}
+                      </a>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {selectedRecord.status === "rejected" && selectedRecord.rejectionReason && (
+                <div className="text-sm bg-red-50 border border-red-200 rounded-lg p-3 text-red-800">
+                  Rejected: {selectedRecord.rejectionReason}
+                </div>
+              )}
+
+              {selectedRecord.status === "pending" && (
+                <div className="space-y-3 border-t pt-4">
+                  <div>
+                    <Label htmlFor="rejectionReason">Rejection reason (required to reject)</Label>
+                    <Textarea
+                      id="rejectionReason"
+                      rows={2}
+                      value={rejectionReason}
+                      onChange={(e) => setRejectionReason(e.target.value)}
+                      placeholder="e.g. PAN image is unreadable"
+                    />
+                  </div>
+                  <div className="flex gap-2 justify-end">
+                    <Button
+                      variant="outline"
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      disabled={!rejectionReason.trim() || reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: selectedRecord.id, decision: "reject", reason: rejectionReason })}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                    <Button
+                      className="bg-green-600 hover:bg-green-700"
+                      disabled={reviewMutation.isPending}
+                      onClick={() => reviewMutation.mutate({ id: selectedRecord.id, decision: "approve" })}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
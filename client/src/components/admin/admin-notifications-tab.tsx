@@ -0,0 +1,256 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, RefreshCw, Send, CheckCircle, Clock, AlertTriangle, RotateCcw } from "lucide-react";
+import type { NotificationJobSummary } from "@shared/schema";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_JOB_STATUSES,
+  NOTIFICATION_JOB_STATUS_LABELS,
+  type NotificationChannel,
+  type NotificationJobStatus,
+} from "@shared/notifications";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useState, useMemo } from "react";
+
+export const DELIVERIES_QUERY_KEY = ["/api/admin/notifications/deliveries"];
+
+interface DeliveriesResponse {
+  jobs: NotificationJobSummary[];
+  counts: Partial<Record<NotificationJobStatus, number>>;
+}
+
+const STATUS_BADGES: Record<NotificationJobStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  processing: "bg-blue-100 text-blue-800 border-blue-200",
+  sent: "bg-sky-100 text-sky-800 border-sky-200",
+  delivered: "bg-green-100 text-green-800 border-green-200",
+  bounced: "bg-orange-100 text-orange-800 border-orange-200",
+  dead: "bg-red-100 text-red-800 border-red-200",
+};
+
+// Full class names so Tailwind keeps them
+const STAT_TONES = {
+  yellow: { card: "bg-gradient-to-br from-yellow-50 to-yellow-100 border-yellow-200", icon: "bg-yellow-500", label: "text-yellow-800", value: "text-yellow-900" },
+  blue: { card: "bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200", icon: "bg-blue-500", label: "text-blue-800", value: "text-blue-900" },
+  green: { card: "bg-gradient-to-br from-green-50 to-green-100 border-green-200", icon: "bg-green-500", label: "text-green-800", value: "text-green-900" },
+  red: { card: "bg-gradient-to-br from-red-50 to-red-100 border-red-200", icon: "bg-red-500", label: "text-red-800", value: "text-red-900" },
+};
+
+export function AdminNotificationsTab() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [channelFilter, setChannelFilter] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<DeliveriesResponse>({
+    queryKey: DELIVERIES_QUERY_KEY,
+    refetchInterval: 30 * 1000,
+  });
+  const jobs = data?.jobs ?? [];
+  const counts = data?.counts ?? {};
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest(`/api/admin/notifications/deliveries/${id}/retry`, "POST"),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: DELIVERIES_QUERY_KEY });
+      toast({ title: "Queued for retry", description: "The notification will be sent again shortly." });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to retry notification",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDateTime = (value: string | Date | null) => {
+    if (!value) return "—";
+    return new Date(value).toLocaleString("en-IN", {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  const filteredJobs = useMemo(() => {
+    let filtered = jobs;
+
+    if (statusFilter !== "all") {
+      filtered = filtered.filter(job => job.status === statusFilter);
+    }
+
+    if (channelFilter !== "all") {
+      filtered = filtered.filter(job => job.channel === channelFilter);
+    }
+
+    if (searchTerm) {
+      const term = searchTerm.toLowerCase();
+      filtered = filtered.filter(job =>
+        job.recipient.toLowerCase().includes(term) ||
+        (job.subject ?? "").toLowerCase().includes(term)
+      );
+    }
+
+    return filtered;
+  }, [jobs, statusFilter, channelFilter, searchTerm]);
+
+  const stats = [
+    { label: "Queued", value: (counts.pending ?? 0) + (counts.processing ?? 0), icon: Clock, tone: STAT_TONES.yellow },
+    { label: "Sent", value: counts.sent ?? 0, icon: Send, tone: STAT_TONES.blue },
+    { label: "Delivered", value: counts.delivered ?? 0, icon: CheckCircle, tone: STAT_TONES.green },
+    { label: "Bounced / Failed", value: (counts.bounced ?? 0) + (counts.dead ?? 0), icon: AlertTriangle, tone: STAT_TONES.red },
+  ];
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mr-3" />
+        <span className="text-lg">Loading deliveries...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Notification Deliveries</h2>
+          <p className="text-gray-600 mt-1">Recent email, SMS and in-app notifications with their delivery status</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: DELIVERIES_QUERY_KEY })}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        {stats.map(({ label, value, icon: Icon, tone }) => (
+          <Card key={label} className={tone.card}>
+            <CardContent className="p-6">
+              <div className="flex items-center">
+                <div className={`p-2 ${tone.icon} rounded-lg mr-4`}>
+                  <Icon className="h-6 w-6 text-white" />
+                </div>
+                <div>
+                  <p className={`text-sm font-medium ${tone.label}`}>{label}</p>
+                  <p className={`text-3xl font-bold ${tone.value}`}>{value}</p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Deliveries</CardTitle>
+          <CardDescription>Failed notifications are retried with backoff before they are marked as failed</CardDescription>
+          <div className="flex flex-col md:flex-row gap-3 pt-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <Input
+                placeholder="Search by recipient or subject..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={channelFilter} onValueChange={setChannelFilter}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All channels</SelectItem>
+                {NOTIFICATION_CHANNELS.map(channel => (
+                  <SelectItem key={channel} value={channel}>{NOTIFICATION_CHANNEL_LABELS[channel]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-full md:w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {NOTIFICATION_JOB_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{NOTIFICATION_JOB_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Channel</TableHead>
+                <TableHead>Subject</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Queued</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredJobs.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                    No deliveries match the current filters
+                  </TableCell>
+                </TableRow>
+              ) : (
+                filteredJobs.map(job => {
+                  const status = job.status as NotificationJobStatus;
+                  return (
+                    <TableRow key={job.id}>
+                      <TableCell>
+                        <div className="font-medium break-all">{job.recipient}</div>
+                        {job.lane === "high" && <div className="text-xs text-purple-600">Priority</div>}
+                      </TableCell>
+                      <TableCell>{NOTIFICATION_CHANNEL_LABELS[job.channel as NotificationChannel] ?? job.channel}</TableCell>
+                      <TableCell className="max-w-xs">
+                        <div className="font-medium truncate">{job.subject ?? <span className="text-gray-500">No subject</span>}</div>
+                        {job.lastError && <div className="text-xs text-red-600 truncate" title={job.lastError}>{job.lastError}</div>}
+                      </TableCell>
+                      <TableCell>{job.attempts} / {job.maxAttempts}</TableCell>
+                      <TableCell>
+                        <div>{formatDateTime(job.createdAt)}</div>
+                        {job.provider && <div className="text-xs text-gray-500">via {job.provider}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={STATUS_BADGES[status]}>{NOTIFICATION_JOB_STATUS_LABELS[status] ?? job.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-center">
+                        {(status === "dead" || status === "bounced") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={retryMutation.isPending}
+                            onClick={() => retryMutation.mutate(job.id)}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
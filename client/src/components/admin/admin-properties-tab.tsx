@@ -5,7 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
-import { Plus, Edit, Trash2, Eye, Upload, Link, X, FileText, Image, FileIcon, ToggleLeft, ToggleRight, AlertTriangle, CheckCircle, Search, Filter, Calendar, TrendingUp, BarChart3, RefreshCw, Download, Settings, Building, MapPin, DollarSign } from "lucide-react";
+import { Plus, Edit, Trash2, Eye, Upload, Link, X, FileText, Image, FileIcon, ToggleLeft, ToggleRight, AlertTriangle, CheckCircle, Search, Filter, Calendar, TrendingUp, BarChart3, RefreshCw, Download, Settings, Building, MapPin, DollarSign, PauseCircle, PlayCircle, LineChart } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -18,17 +18,25 @@ import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { insertPropertySchema, updatePropertySchema, type Property, type InsertProperty, type UpdateProperty } from "@shared/schema";
 import { CustomFieldsManager } from "./custom-fields-manager";
-import { FIELD_SECTIONS, SECTION_CONFIG, FIELD_TYPE_CONFIG, PRODUCTION_SAFETY_CONFIG, type CustomField } from "@shared/propertyTypes";
+import { CustomFieldInput } from "./custom-field-input";
+import { CustomFieldRulesEditor, describeVisibility } from "./custom-field-rules-editor";
+import { PropertyDistributionsDialog } from "./property-distributions-dialog";
+import { PropertyValuationsDialog } from "./property-valuations-dialog";
+import { PROPERTY_STATUSES, PROPERTY_STATUS_LABELS, PROPERTY_STATUS_TRANSITIONS, type PropertyStatus } from "@shared/propertyLifecycle";
+import { FIELD_SECTIONS, SECTION_CONFIG, FIELD_TYPE_CONFIG, CUSTOM_FIELD_TYPES, OPTION_FIELD_TYPES, FACET_FIELD_TYPES, RANGE_FIELD_TYPES, isCustomFieldVisible, type CustomField, type CustomFieldCondition, type CustomFieldType } from "@shared/propertyTypes";
 import { getStates, getCitiesByState } from "@/data/indian-states-cities";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCustomFieldEditor, CUSTOM_FIELD_CONFORMANCE_QUERY_KEY } from "@/hooks/use-custom-fields";
+import { validateCustomFields, type NonConformingProperty } from "@shared/customFieldValidation";
 import { z } from "zod";
 
 
-const propertyFormSchema = insertPropertySchema.extend({
+// Funding progress is derived server-side from confirmed investments; status changes via lifecycle actions
+const propertyFormSchema = insertPropertySchema.omit({ fundingProgress: true, status: true }).extend({
   totalValue: z.coerce.number().min(1, "Total value must be greater than 0"),
   minInvestment: z.coerce.number().min(1, "Minimum investment must be greater than 0"),
-  fundingProgress: z.coerce.number().min(0).max(100).default(0),
+  totalUnits: z.coerce.number().int().min(1, "Total units must be at least 1").default(10000),
   imageUrls: z.union([
     z.string().transform((str) => str.split('\n').map(url => url.trim()).filter(url => url.length > 0)),
     z.array(z.string())
@@ -40,14 +48,27 @@ const propertyFormSchema = insertPropertySchema.extend({
     size: z.number().optional(),
   })).default([]),
   customFields: z.record(z.any()).default({}),
+  // Date inputs give a day; the round stays open until the end of it
+  fundingDeadline: z.string().optional().transform(value => value ? new Date(`${value}T23:59:59`).toISOString() : null),
 });
 
 type PropertyForm = z.infer<typeof propertyFormSchema>;
 
+const STATUS_BADGE_STYLES: Record<PropertyStatus, string> = {
+  draft: "bg-gray-100 text-gray-700 border-gray-200",
+  under_review: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  live: "bg-blue-100 text-blue-800 border-blue-200",
+  fully_funded: "bg-green-100 text-green-800 border-green-200",
+  closed: "bg-orange-100 text-orange-800 border-orange-200",
+  exited: "bg-purple-100 text-purple-800 border-purple-200",
+};
+
 export function AdminPropertiesTab() {
   const [isCreateOpen, setIsCreateOpen] = useState(false);
   const [isEditOpen, setIsEditOpen] = useState(false);
   const [editingProperty, setEditingProperty] = useState<Property | null>(null);
+  const [distributionsProperty, setDistributionsProperty] = useState<Property | null>(null);
+  const [valuationsProperty, setValuationsProperty] = useState<Property | null>(null);
   const [googleDriveLink, setGoogleDriveLink] = useState("");
   const [attachments, setAttachments] = useState<Array<{name: string, url: string, type: "image" | "document" | "pdf"}>>([]);
   const [fileValidationMessage, setFileValidationMessage] = useState<string>("");
@@ -61,37 +82,9 @@ export function AdminPropertiesTab() {
   const [statusFilter, setStatusFilter] = useState("all");
   const [sortBy, setSortBy] = useState("newest");
   const [customFields, setCustomFields] = useState<Record<string, any>>({});
-  const [fieldDefinitions, setFieldDefinitions] = useState<CustomField[]>([]);
+  // Definitions live on the server; older browser-only definitions are imported on first load
+  const { fieldDefinitions, saveFieldDefinitions } = useCustomFieldEditor();
 
-  // Load field definitions from environment-specific localStorage on mount
-  useEffect(() => {
-    const storageKey = PRODUCTION_SAFETY_CONFIG.getCustomFieldStorageKey();
-    const savedDefinitions = localStorage.getItem(storageKey);
-    if (savedDefinitions) {
-      try {
-        const definitions = JSON.parse(savedDefinitions);
-        setFieldDefinitions(definitions);
-        
-        // Show production isolation warning if applicable
-        if (PRODUCTION_SAFETY_CONFIG.shouldIsolateData()) {
-          toast({
-            title: "Production Data Isolation",
-            description: PRODUCTION_SAFETY_CONFIG.getDataIsolationWarning(),
-            variant: "default"
-          });
-        }
-      } catch (error) {
-        console.error('Failed to load custom field definitions:', error);
-      }
-    }
-  }, []);
-
-  // Save field definitions to environment-specific localStorage whenever they change
-  useEffect(() => {
-    const storageKey = PRODUCTION_SAFETY_CONFIG.getCustomFieldStorageKey();
-    localStorage.setItem(storageKey, JSON.stringify(fieldDefinitions));
-  }, [fieldDefinitions]);
-  
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -182,6 +175,24 @@ export function AdminPropertiesTab() {
     queryKey: ["/api/admin/properties"],
   });
 
+  // Saved properties that fail the current definitions, e.g. after a field became required
+  const { data: nonConformingProperties = [] } = useQuery<NonConformingProperty[]>({
+    queryKey: CUSTOM_FIELD_CONFORMANCE_QUERY_KEY,
+  });
+
+  // Same checks the API applies, so the admin sees every failing field before submitting
+  const ensureCustomFieldsValid = (propertyType?: string) => {
+    const issues = validateCustomFields(fieldDefinitions, customFields, { propertyType });
+    if (issues.length === 0) return true;
+
+    toast({
+      title: "Custom Field Errors",
+      description: issues.map(issue => issue.message).join("; "),
+      variant: "destructive",
+    });
+    return false;
+  };
+
   const createForm = useForm<PropertyForm>({
     resolver: zodResolver(propertyFormSchema),
     defaultValues: {
@@ -193,7 +204,7 @@ export function AdminPropertiesTab() {
       totalValue: 0,
       minInvestment: 0,
       expectedReturn: "",
-      fundingProgress: 0,
+      totalUnits: 10000,
       imageUrls: [],
       propertyType: "residential",
       isActive: true,
@@ -424,6 +435,77 @@ export function AdminPropertiesTab() {
     }
   };
 
+  const toggleTrading = async (property: Property) => {
+    const halted = !property.tradingHalted;
+    if (halted && !window.confirm(`Halt secondary trading on "${property.name}"? Open orders will stop matching until trading resumes.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/properties/${property.id}/trading`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ halted }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update trading status");
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+
+      toast({
+        title: halted ? "Trading Halted" : "Trading Resumed",
+        description: `Secondary trading on ${property.name} is now ${halted ? 'halted' : 'open'}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update trading status.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const transitionStatus = async (property: Property, status: PropertyStatus) => {
+    if ((status === "closed" || status === "exited") &&
+        !window.confirm(`Move "${property.name}" to ${PROPERTY_STATUS_LABELS[status]}? This cannot be undone.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/admin/properties/${property.id}/status`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ status }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to update property status");
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+
+      toast({
+        title: "Status Updated",
+        description: `${property.name} is now ${PROPERTY_STATUS_LABELS[status]}.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update property status.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const createMutation = useMutation({
     mutationFn: async (data: PropertyForm) => {
       // The imageUrls field is already transformed by Zod validation
@@ -461,6 +543,7 @@ export function AdminPropertiesTab() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
       queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      queryClient.invalidateQueries({ queryKey: CUSTOM_FIELD_CONFORMANCE_QUERY_KEY });
       toast({
         title: "Property Created",
         description: "The property has been successfully created.",
@@ -522,6 +605,7 @@ export function AdminPropertiesTab() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
       queryClient.invalidateQueries({ queryKey: ["/api/properties"] });
+      queryClient.invalidateQueries({ queryKey: CUSTOM_FIELD_CONFORMANCE_QUERY_KEY });
       toast({
         title: "Property Updated",
         description: "The property has been successfully updated.",
@@ -570,7 +654,8 @@ export function AdminPropertiesTab() {
       totalValue: property.totalValue,
       minInvestment: property.minInvestment,
       expectedReturn: property.expectedReturn,
-      fundingProgress: property.fundingProgress,
+      totalUnits: property.totalUnits,
+      fundingDeadline: property.fundingDeadline ? new Date(property.fundingDeadline).toLocaleDateString('en-CA') : "",
       imageUrls: Array.isArray(property.imageUrls) ? property.imageUrls : [property.imageUrls].filter(Boolean),
       propertyType: property.propertyType as "residential" | "commercial",
       isActive: property.isActive,
@@ -632,10 +717,12 @@ export function AdminPropertiesTab() {
       filtered = filtered.filter(property => property.propertyType === filterType);
     }
 
-    if (statusFilter !== "all") {
+    if (statusFilter === "active" || statusFilter === "inactive") {
       filtered = filtered.filter(property => 
         statusFilter === "active" ? property.isActive : !property.isActive
       );
+    } else if (statusFilter !== "all") {
+      filtered = filtered.filter(property => property.status === statusFilter);
     }
 
     // Sort logic
@@ -728,8 +815,9 @@ export function AdminPropertiesTab() {
           section={FIELD_SECTIONS.BASIC}
           fieldDefinitions={fieldDefinitions}
           customFields={customFields}
+          propertyType={form.watch("propertyType")}
           onFieldsChange={setCustomFields}
-          onFieldDefinitionsChange={setFieldDefinitions}
+          onFieldDefinitionsChange={saveFieldDefinitions}
         />
       </div>
 
@@ -817,8 +905,9 @@ export function AdminPropertiesTab() {
           section={FIELD_SECTIONS.LOCATION}
           fieldDefinitions={fieldDefinitions}
           customFields={customFields}
+          propertyType={form.watch("propertyType")}
           onFieldsChange={setCustomFields}
-          onFieldDefinitionsChange={setFieldDefinitions}
+          onFieldDefinitionsChange={saveFieldDefinitions}
         />
       </div>
 
@@ -894,20 +983,41 @@ export function AdminPropertiesTab() {
           </div>
           
           <div className="space-y-3">
-            <Label htmlFor="fundingProgress" className="text-sm font-medium text-gray-700">
-              Funding Progress
+            <Label htmlFor="totalUnits" className="text-sm font-medium text-gray-700">
+              Total Ownership Units
             </Label>
-            <div className="relative">
-              <Input 
-                {...form.register("fundingProgress", { valueAsNumber: true })} 
-                type="number" 
-                placeholder="0" 
-                min="0" 
-                max="100"
-                className="pr-8 h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500 transition-colors"
-              />
-              <span className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-500 font-medium">%</span>
-            </div>
+            <Input 
+              {...form.register("totalUnits", { valueAsNumber: true })} 
+              type="number" 
+              placeholder="10000" 
+              min="1"
+              className="h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500 transition-colors"
+            />
+            <p className="text-xs text-gray-500">
+              Unit price is total value ÷ units. Funding progress is calculated from confirmed investments.
+            </p>
+            {form.formState.errors.totalUnits && (
+              <p className="text-sm text-red-500 flex items-center gap-1">
+                <span className="w-1 h-1 bg-red-500 rounded-full"></span>
+                {form.formState.errors.totalUnits.message}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-3">
+            <Label htmlFor="fundingDeadline" className="text-sm font-medium text-gray-700">
+              Funding Deadline
+            </Label>
+            <Input 
+              {...form.register("fundingDeadline")} 
+              type="date" 
+              className="h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500 transition-colors"
+            />
+            <p className="text-xs text-gray-500">
+              Optional. The funding round closes automatically once this date passes.
+            </p>
           </div>
         </div>
 
@@ -916,8 +1026,9 @@ export function AdminPropertiesTab() {
           section={FIELD_SECTIONS.INVESTMENT}
           fieldDefinitions={fieldDefinitions}
           customFields={customFields}
+          propertyType={form.watch("propertyType")}
           onFieldsChange={setCustomFields}
-          onFieldDefinitionsChange={setFieldDefinitions}
+          onFieldDefinitionsChange={saveFieldDefinitions}
         />
       </div>
 
@@ -1089,8 +1200,9 @@ export function AdminPropertiesTab() {
           section={FIELD_SECTIONS.FEATURES}
           fieldDefinitions={fieldDefinitions}
           customFields={customFields}
+          propertyType={form.watch("propertyType")}
           onFieldsChange={setCustomFields}
-          onFieldDefinitionsChange={setFieldDefinitions}
+          onFieldDefinitionsChange={saveFieldDefinitions}
         />
       </div>
 
@@ -1109,8 +1221,9 @@ export function AdminPropertiesTab() {
           section={FIELD_SECTIONS.LEGAL}
           fieldDefinitions={fieldDefinitions}
           customFields={customFields}
+          propertyType={form.watch("propertyType")}
           onFieldsChange={setCustomFields}
-          onFieldDefinitionsChange={setFieldDefinitions}
+          onFieldDefinitionsChange={saveFieldDefinitions}
         />
       </div>
 
@@ -1152,12 +1265,14 @@ export function AdminPropertiesTab() {
     section, 
     fieldDefinitions, 
     customFields, 
+    propertyType,
     onFieldsChange, 
     onFieldDefinitionsChange 
   }: {
     section: string;
     fieldDefinitions: CustomField[];
     customFields: Record<string, any>;
+    propertyType?: string;
     onFieldsChange: (fields: Record<string, any>) => void;
     onFieldDefinitionsChange: (definitions: CustomField[]) => void;
   }) => {
@@ -1165,9 +1280,12 @@ export function AdminPropertiesTab() {
     const [editingField, setEditingField] = useState<CustomField | null>(null);
     const [newField, setNewField] = useState({
       displayName: '',
-      type: 'text' as const,
+      type: 'text' as CustomFieldType,
       required: false,
-      defaultValue: ''
+      defaultValue: '',
+      options: [] as string[],
+      visibleWhen: [] as CustomFieldCondition[],
+      filterable: false
     });
 
     const sectionFields = fieldDefinitions.filter(f => f.section === section).sort((a, b) => (a.order || 0) - (b.order || 0));
@@ -1180,11 +1298,33 @@ export function AdminPropertiesTab() {
         displayName: '',
         type: 'text',
         required: false,
-        defaultValue: ''
+        defaultValue: '',
+        options: [],
+        visibleWhen: [],
+        filterable: false
       });
       setIsAddingField(true);
     };
 
+    // Options only apply to dropdowns; conditions without any chosen value are dropped
+    const fieldRules = () => ({
+      options: OPTION_FIELD_TYPES.includes(newField.type) ? newField.options : undefined,
+      visibleWhen: newField.visibleWhen.filter(condition => condition.values.length > 0),
+      filterable: newField.filterable && [...FACET_FIELD_TYPES, ...RANGE_FIELD_TYPES].includes(newField.type)
+    });
+
+    const hasRequiredOptions = () => {
+      if (OPTION_FIELD_TYPES.includes(newField.type) && newField.options.length === 0) {
+        toast({
+          title: "Error",
+          description: "Add at least one option for this field",
+          variant: "destructive"
+        });
+        return false;
+      }
+      return true;
+    };
+
     const handleSaveField = async () => {
       if (!newField.displayName.trim()) {
         toast({
@@ -1194,6 +1334,7 @@ export function AdminPropertiesTab() {
         });
         return;
       }
+      if (!hasRequiredOptions()) return;
 
       const nextOrder = sectionFields.length > 0 ? Math.max(...sectionFields.map(f => f.order || 0)) + 1 : 0;
       const fieldName = newField.displayName.toLowerCase().replace(/[^a-z0-9]/g, '_');
@@ -1207,10 +1348,11 @@ export function AdminPropertiesTab() {
         required: newField.required,
         defaultValue: newField.defaultValue,
         section: section,
-        order: nextOrder
+        order: nextOrder,
+        ...fieldRules()
       };
 
-      // Save to state and localStorage for persistence
+      // Persist the new definition for every admin
       onFieldDefinitionsChange([...fieldDefinitions, customField]);
       
       // Initialize field value
@@ -1233,7 +1375,10 @@ export function AdminPropertiesTab() {
         displayName: field.displayName,
         type: field.type,
         required: field.required,
-        defaultValue: field.defaultValue
+        defaultValue: field.defaultValue,
+        options: field.options ?? [],
+        visibleWhen: field.visibleWhen ?? [],
+        filterable: field.filterable ?? false
       });
       setIsAddingField(true);
     };
@@ -1247,13 +1392,15 @@ export function AdminPropertiesTab() {
         });
         return;
       }
+      if (!hasRequiredOptions()) return;
 
       const updatedField: CustomField = {
         ...editingField,
         displayName: newField.displayName,
         type: newField.type,
         required: newField.required,
-        defaultValue: newField.defaultValue
+        defaultValue: newField.defaultValue,
+        ...fieldRules()
       };
 
       const updatedDefinitions = fieldDefinitions.map(f => 
@@ -1287,73 +1434,23 @@ export function AdminPropertiesTab() {
 
     const renderFieldInput = (field: CustomField) => {
       const value = customFields[field.id] !== undefined ? customFields[field.id] : field.defaultValue;
-      
-      const handleChange = (newValue: any) => {
-        onFieldsChange({
-          ...customFields,
-          [field.id]: newValue
-        });
-      };
 
-      const config = FIELD_TYPE_CONFIG[field.type as keyof typeof FIELD_TYPE_CONFIG];
-      if (!config) return null;
-
-      switch (field.type) {
-        case 'text':
-        case 'email':
-        case 'url':
-          return (
-            <Input
-              value={value || ''}
-              onChange={(e) => handleChange(e.target.value)}
-              placeholder={`Enter ${field.displayName}`}
-              className="h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500"
-              type={field.type === 'email' ? 'email' : field.type === 'url' ? 'url' : 'text'}
-            />
-          );
-        case 'number':
-        case 'currency':
-        case 'percentage':
-          return (
-            <Input
-              type="number"
-              value={value || ''}
-              onChange={(e) => handleChange(parseFloat(e.target.value) || 0)}
-              placeholder={`Enter ${field.displayName}`}
-              className="h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500"
-            />
-          );
-        case 'boolean':
-          return (
-            <div className="flex items-center space-x-2">
-              <Switch
-                checked={Boolean(value)}
-                onCheckedChange={handleChange}
-              />
-              <Label>{Boolean(value) ? 'Yes' : 'No'}</Label>
-            </div>
-          );
-        case 'date':
-          return (
-            <Input
-              type="date"
-              value={value || ''}
-              onChange={(e) => handleChange(e.target.value)}
-              className="h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500"
-            />
-          );
-        default:
-          return (
-            <Input
-              value={value || ''}
-              onChange={(e) => handleChange(e.target.value)}
-              placeholder={`Enter ${field.displayName}`}
-              className="h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500"
-            />
-          );
-      }
+      return (
+        <CustomFieldInput
+          field={field}
+          value={value}
+          onChange={(newValue) => onFieldsChange({
+            ...customFields,
+            [field.id]: newValue
+          })}
+          className="h-11 bg-gray-50 border-gray-200 focus:bg-white focus:border-blue-500"
+        />
+      );
     };
 
+    // Values visibility conditions are evaluated against
+    const conditionValues = { ...customFields, propertyType };
+
     return (
       <div className="space-y-4">
         {sectionFields.length > 0 && (
@@ -1369,7 +1466,13 @@ export function AdminPropertiesTab() {
                       {FIELD_TYPE_CONFIG[field.type as keyof typeof FIELD_TYPE_CONFIG]?.label || field.type}
                     </Badge>
                   </Label>
-                  {renderFieldInput(field)}
+                  {isCustomFieldVisible(field, conditionValues) ? (
+                    renderFieldInput(field)
+                  ) : (
+                    <p className="text-sm text-gray-500 italic">
+                      Hidden for this property. Shown only when {describeVisibility(field.visibleWhen, fieldDefinitions)}.
+                    </p>
+                  )}
                 </div>
                 <div className="flex items-end gap-2">
                   <Button
@@ -1408,7 +1511,7 @@ export function AdminPropertiesTab() {
 
         {/* Add/Edit Field Dialog */}
         <Dialog open={isAddingField} onOpenChange={setIsAddingField}>
-          <DialogContent className="sm:max-w-[425px]">
+          <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>
                 {editingField ? 'Edit' : 'Add'} {sectionConfig.label} Field
@@ -1445,15 +1548,17 @@ export function AdminPropertiesTab() {
                   </SelectContent>
                 </Select>
               </div>
-              <div className="grid gap-2">
-                <Label htmlFor="defaultValue">Default Value (Optional)</Label>
-                <Input
-                  id="defaultValue"
-                  value={newField.defaultValue}
-                  onChange={(e) => setNewField({ ...newField, defaultValue: e.target.value })}
-                  placeholder={FIELD_TYPE_CONFIG[newField.type]?.placeholder || "Enter default value"}
-                />
-              </div>
+              {newField.type !== CUSTOM_FIELD_TYPES.MULTISELECT && newField.type !== CUSTOM_FIELD_TYPES.FILE && (
+                <div className="grid gap-2">
+                  <Label htmlFor="defaultValue">Default Value (Optional)</Label>
+                  <Input
+                    id="defaultValue"
+                    value={newField.defaultValue}
+                    onChange={(e) => setNewField({ ...newField, defaultValue: e.target.value })}
+                    placeholder={FIELD_TYPE_CONFIG[newField.type]?.placeholder || "Enter default value"}
+                  />
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <Switch
                   checked={newField.required}
@@ -1461,6 +1566,17 @@ export function AdminPropertiesTab() {
                 />
                 <Label>Required field</Label>
               </div>
+              <CustomFieldRulesEditor
+                fieldId={editingField?.id}
+                type={newField.type}
+                options={newField.options}
+                visibleWhen={newField.visibleWhen}
+                fieldDefinitions={fieldDefinitions}
+                filterable={newField.filterable}
+                onOptionsChange={(options) => setNewField({ ...newField, options })}
+                onVisibleWhenChange={(visibleWhen) => setNewField({ ...newField, visibleWhen })}
+                onFilterableChange={(filterable) => setNewField({ ...newField, filterable })}
+              />
             </div>
             <div className="flex justify-end gap-3">
               <Button variant="outline" onClick={() => setIsAddingField(false)}>
@@ -1535,7 +1651,7 @@ export function AdminPropertiesTab() {
                 totalValue: 0,
                 minInvestment: 0,
                 expectedReturn: "",
-                fundingProgress: 0,
+                totalUnits: 10000,
                 imageUrls: [],
                 propertyType: "residential",
                 isActive: true,
@@ -1584,7 +1700,7 @@ export function AdminPropertiesTab() {
             <div className="max-h-[calc(95vh-160px)] overflow-y-auto py-6 px-2 -mx-2 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-transparent">
               <PropertyForm
                 form={createForm}
-                onSubmit={(data) => createMutation.mutate(data)}
+                onSubmit={(data) => ensureCustomFieldsValid(data.propertyType) && createMutation.mutate(data)}
                 submitText="Create Property"
                 isSubmitting={createMutation.isPending}
               />
@@ -1594,6 +1710,25 @@ export function AdminPropertiesTab() {
         </div>
       </div>
 
+      {/* Custom Field Conformance */}
+      {nonConformingProperties.length > 0 && (
+        <Alert className="border-amber-200 bg-amber-50">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800">
+            <p className="font-medium mb-1">
+              {nonConformingProperties.length} propert{nonConformingProperties.length === 1 ? 'y has' : 'ies have'} custom field values that no longer match the field definitions:
+            </p>
+            <ul className="text-sm space-y-1">
+              {nonConformingProperties.map(item => (
+                <li key={item.propertyId}>
+                  <span className="font-medium">{item.propertyName}</span>: {item.issues.map(issue => issue.message).join("; ")}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Statistics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card className="bg-gradient-to-br from-blue-50 to-blue-100 border-blue-200">
@@ -1680,13 +1815,16 @@ export function AdminPropertiesTab() {
               </Select>
               
               <Select value={statusFilter} onValueChange={setStatusFilter}>
-                <SelectTrigger className="w-[120px]">
+                <SelectTrigger className="w-[140px]">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="active">Active</SelectItem>
                   <SelectItem value="inactive">Inactive</SelectItem>
+                  {PROPERTY_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{PROPERTY_STATUS_LABELS[status]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               
@@ -1800,11 +1938,34 @@ export function AdminPropertiesTab() {
                         <p className="text-sm font-medium mt-1">{property.fundingProgress}%</p>
                       </TableCell>
                       <TableCell>
-                        <Badge variant={property.isActive ? "default" : "secondary"} className={
-                          property.isActive ? "bg-green-100 text-green-800 border-green-200" : "bg-gray-100 text-gray-600"
-                        }>
-                          {property.isActive ? "✓ Active" : "○ Inactive"}
-                        </Badge>
+                        <div className="flex flex-col items-start">
+                          <Badge variant={property.isActive ? "default" : "secondary"} className={
+                            property.isActive ? "bg-green-100 text-green-800 border-green-200" : "bg-gray-100 text-gray-600"
+                          }>
+                            {property.isActive ? "✓ Active" : "○ Inactive"}
+                          </Badge>
+                          <Badge variant="outline" className={`mt-1 ${STATUS_BADGE_STYLES[property.status as PropertyStatus] ?? ""}`}>
+                            {PROPERTY_STATUS_LABELS[property.status as PropertyStatus] ?? property.status}
+                          </Badge>
+                          {property.fundingDeadline && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              Closes {new Date(property.fundingDeadline).toLocaleDateString()}
+                            </div>
+                          )}
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {(PROPERTY_STATUS_TRANSITIONS[property.status as PropertyStatus] ?? []).map(next => (
+                              <Button
+                                key={next}
+                                variant="ghost"
+                                size="sm"
+                                className="h-6 px-2 text-xs"
+                                onClick={() => transitionStatus(property, next)}
+                              >
+                                → {PROPERTY_STATUS_LABELS[next]}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-2 justify-center">
@@ -1819,6 +1980,21 @@ export function AdminPropertiesTab() {
                           <Button variant="outline" size="sm" onClick={() => handleEdit(property)}>
                             <Edit className="h-4 w-4" />
                           </Button>
+                          <Button variant="outline" size="sm" onClick={() => setDistributionsProperty(property)} title="Rental distributions">
+                            <DollarSign className="h-4 w-4" />
+                          </Button>
+                          <Button variant="outline" size="sm" onClick={() => setValuationsProperty(property)} title="Valuations">
+                            <LineChart className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => toggleTrading(property)}
+                            title={property.tradingHalted ? "Resume secondary trading" : "Halt secondary trading"}
+                            className={property.tradingHalted ? "text-green-600 hover:text-green-700 hover:bg-green-50" : "text-orange-600 hover:text-orange-700 hover:bg-orange-50"}
+                          >
+                            {property.tradingHalted ? <PlayCircle className="h-4 w-4" /> : <PauseCircle className="h-4 w-4" />}
+                          </Button>
                           <Button 
                             variant="outline" 
                             size="sm" 
@@ -1852,7 +2028,7 @@ export function AdminPropertiesTab() {
             {editingProperty && (
               <PropertyForm
                 form={editForm}
-                onSubmit={(data) => updateMutation.mutate({ id: editingProperty.id, data })}
+                onSubmit={(data) => ensureCustomFieldsValid(data.propertyType) && updateMutation.mutate({ id: editingProperty.id, data })}
                 submitText="Update Property"
                 isSubmitting={updateMutation.isPending}
               />
@@ -1860,6 +2036,16 @@ export function AdminPropertiesTab() {
           </div>
         </DialogContent>
       </Dialog>
+
+      <PropertyDistributionsDialog
+        property={distributionsProperty}
+        onOpenChange={(open) => !open && setDistributionsProperty(null)}
+      />
+
+      <PropertyValuationsDialog
+        property={valuationsProperty}
+        onOpenChange={(open) => !open && setValuationsProperty(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -4,7 +4,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
 import { Shield, Smartphone, Key, CheckCircle, AlertTriangle, BarChart3 } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import TOTPSetupDialog from "./totp-setup-dialog";
 import { AdminSecurityDashboard } from "./admin-security-dashboard";
@@ -12,6 +12,7 @@ import { AdminSecurityDashboard } from "./admin-security-dashboard";
 export default function AdminSecurityTab() {
   const [showTOTPSetup, setShowTOTPSetup] = useState(false);
   const { toast } = useToast();
+  const queryClient = useQueryClient();
 
   // Get admin TOTP status
   const { data: adminStatus, isLoading, refetch } = useQuery({
@@ -194,7 +195,11 @@ export default function AdminSecurityTab() {
         open={showTOTPSetup}
         onOpenChange={(open) => {
           setShowTOTPSetup(open);
-          if (!open) refetch(); // Refresh status when dialog closes
+          if (!open) {
+            // Refresh status when dialog closes; enrolling may lift a TOTP requirement on the profile
+            refetch();
+            queryClient.invalidateQueries({ queryKey: ['/api/admin/profile'] });
+          }
         }}
       />
     </div>
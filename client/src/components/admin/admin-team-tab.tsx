@@ -0,0 +1,356 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw, UserPlus, UserX, UserCheck, Mail, ShieldCheck, ShieldAlert, XCircle } from "lucide-react";
+import { ADMIN_ROLES, ADMIN_ROLE_LABELS, type AdminRole } from "@shared/adminRoles";
+import type { AdminInvite } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAdminPermissions } from "@/hooks/use-admin-permissions";
+import { useState } from "react";
+
+interface TeamMember {
+  id: string;
+  username: string;
+  email: string;
+  role: string;
+  totpEnabled: boolean;
+  isActive: boolean;
+  passwordExpiresAt: string;
+  deactivatedAt: string | null;
+}
+
+type InviteView = Omit<AdminInvite, "tokenHash"> & { status: "pending" | "accepted" | "expired" | "revoked" };
+
+const INVITE_BADGES: Record<InviteView["status"], string> = {
+  pending: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  accepted: "bg-green-100 text-green-800 border-green-200",
+  expired: "bg-gray-100 text-gray-700 border-gray-200",
+  revoked: "bg-red-100 text-red-800 border-red-200",
+};
+
+const EMPTY_INVITE = { email: "", phoneNumber: "", role: "read_only" as AdminRole };
+
+export function AdminTeamTab() {
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [invite, setInvite] = useState(EMPTY_INVITE);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { can } = useAdminPermissions();
+  const canManage = can("security:manage");
+
+  const { data: profile } = useQuery<{ id: string }>({
+    queryKey: ["/api/admin/profile"],
+  });
+
+  const { data, isLoading } = useQuery<{ admins: TeamMember[]; invites: InviteView[] }>({
+    queryKey: ["/api/admin/users"],
+  });
+  const admins = data?.admins ?? [];
+  const invites = data?.invites ?? [];
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Something went wrong",
+      variant: "destructive",
+    });
+  };
+
+  const onDone = (title: string) => (result: { message: string }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    toast({ title, description: result.message });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (values: typeof EMPTY_INVITE) => {
+      const res = await apiRequest("/api/admin/invites", "POST", {
+        email: values.email,
+        role: values.role,
+        phoneNumber: values.phoneNumber || undefined,
+      });
+      return res.json();
+    },
+    onSuccess: (result) => {
+      onDone("Invitation Sent")(result);
+      setInviteOpen(false);
+      setInvite(EMPTY_INVITE);
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => (await apiRequest(`/api/admin/invites/${id}`, "DELETE")).json(),
+    onSuccess: onDone("Invitation Revoked"),
+    onError,
+  });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: AdminRole }) =>
+      (await apiRequest(`/api/admin/users/${id}/role`, "PUT", { role })).json(),
+    onSuccess: onDone("Role Updated"),
+    onError,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "deactivate" | "reactivate" }) =>
+      (await apiRequest(`/api/admin/users/${id}/${action}`, "POST")).json(),
+    onSuccess: onDone("Admin Updated"),
+    onError,
+  });
+
+  const formatDate = (value: string | Date) => {
+    return new Date(value).toLocaleDateString("en-IN", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mr-3" />
+        <span className="text-lg">Loading admin team...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col lg:flex-row justify-between items-start lg:items-center gap-4">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Admin Team</h2>
+          <p className="text-gray-600 mt-1">Invite admins, assign roles and deactivate accounts that no longer need access</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] })}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+          {canManage && (
+            <Button size="sm" onClick={() => setInviteOpen(true)}>
+              <UserPlus className="h-4 w-4 mr-2" />
+              Invite Admin
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Admins</CardTitle>
+          <CardDescription>Deactivated admins are signed out everywhere and cannot sign in</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Admin</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Two-factor</TableHead>
+                <TableHead>Password expires</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {admins.map(admin => {
+                const isSelf = admin.id === profile?.id;
+                return (
+                  <TableRow key={admin.id} className={admin.isActive ? "" : "opacity-60"}>
+                    <TableCell>
+                      <div className="font-medium">{admin.username}{isSelf && <span className="text-gray-500"> (you)</span>}</div>
+                      <div className="text-sm text-gray-500">{admin.email}</div>
+                    </TableCell>
+                    <TableCell>
+                      {canManage && !isSelf ? (
+                        <Select
+                          value={admin.role}
+                          onValueChange={(role) => roleMutation.mutate({ id: admin.id, role: role as AdminRole })}
+                        >
+                          <SelectTrigger className="w-44">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ADMIN_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role].label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        ADMIN_ROLE_LABELS[admin.role as AdminRole]?.label ?? admin.role
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {admin.totpEnabled ? (
+                        <span className="flex items-center text-green-700"><ShieldCheck className="h-4 w-4 mr-1" />Enabled</span>
+                      ) : (
+                        <span className="flex items-center text-gray-500"><ShieldAlert className="h-4 w-4 mr-1" />Off</span>
+                      )}
+                    </TableCell>
+                    <TableCell className={new Date(admin.passwordExpiresAt) <= new Date() ? "text-red-600" : ""}>
+                      {formatDate(admin.passwordExpiresAt)}
+                    </TableCell>
+                    <TableCell>
+                      {admin.isActive ? (
+                        <Badge variant="outline" className="bg-green-100 text-green-800 border-green-200">Active</Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-red-100 text-red-800 border-red-200">Deactivated</Badge>
+                      )}
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {!isSelf && (admin.isActive ? (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={statusMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Deactivate ${admin.username}? They will be signed out immediately.`)) {
+                                statusMutation.mutate({ id: admin.id, action: "deactivate" });
+                              }
+                            }}
+                          >
+                            <UserX className="h-4 w-4 mr-1" />
+                            Deactivate
+                          </Button>
+                        ) : (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={statusMutation.isPending}
+                            onClick={() => statusMutation.mutate({ id: admin.id, action: "reactivate" })}
+                          >
+                            <UserCheck className="h-4 w-4 mr-1" />
+                            Reactivate
+                          </Button>
+                        ))}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invitations</CardTitle>
+          <CardDescription>Invite links are single-use and expire automatically</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {invites.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No invitations sent yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Sent</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canManage && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invites.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="flex items-center"><Mail className="h-4 w-4 mr-2 text-gray-400" />{item.email}</TableCell>
+                    <TableCell>{ADMIN_ROLE_LABELS[item.role as AdminRole]?.label ?? item.role}</TableCell>
+                    <TableCell>{formatDate(item.createdAt)}</TableCell>
+                    <TableCell>{formatDate(item.expiresAt)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={INVITE_BADGES[item.status]}>
+                        {item.status.charAt(0).toUpperCase() + item.status.slice(1)}
+                      </Badge>
+                    </TableCell>
+                    {canManage && (
+                      <TableCell className="text-right">
+                        {item.status === "pending" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            disabled={revokeMutation.isPending}
+                            onClick={() => revokeMutation.mutate(item.id)}
+                          >
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Revoke
+                          </Button>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={inviteOpen} onOpenChange={setInviteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Invite Admin</DialogTitle>
+            <DialogDescription>
+              We'll email a link to set up their account, and text it too if you add a mobile number.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="invite-email">Email</Label>
+              <Input
+                id="invite-email"
+                type="email"
+                value={invite.email}
+                onChange={(e) => setInvite({ ...invite, email: e.target.value })}
+                placeholder="name@fractown.com"
+              />
+            </div>
+            <div>
+              <Label htmlFor="invite-phone">Mobile number (optional)</Label>
+              <Input
+                id="invite-phone"
+                value={invite.phoneNumber}
+                onChange={(e) => setInvite({ ...invite, phoneNumber: e.target.value.replace(/\D/g, "").slice(0, 10) })}
+                placeholder="10-digit mobile number"
+              />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={invite.role} onValueChange={(role) => setInvite({ ...invite, role: role as AdminRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {ADMIN_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{ADMIN_ROLE_LABELS[role].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-sm text-gray-500 mt-1">{ADMIN_ROLE_LABELS[invite.role].description}</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setInviteOpen(false)}>Cancel</Button>
+            <Button
+              disabled={!invite.email || inviteMutation.isPending}
+              onClick={() => inviteMutation.mutate(invite)}
+            >
+              {inviteMutation.isPending ? "Sending..." : "Send Invitation"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileText, Upload, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { CUSTOM_FIELD_TYPES, type CustomField, type CustomFieldFileRef } from "@shared/propertyTypes";
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: any;
+  onChange: (value: any) => void;
+  className?: string;
+}
+
+/**
+ * Value editor for a single custom field, covering every CUSTOM_FIELD_TYPES entry
+ */
+export function CustomFieldInput({ field, value, onChange, className }: CustomFieldInputProps) {
+  const { toast } = useToast();
+  const [isUploading, setIsUploading] = useState(false);
+  const options = field.options ?? [];
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const uploadResponse = await fetch('/api/objects/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!uploadResponse.ok) {
+        throw new Error('Failed to get upload URL');
+      }
+      const { uploadURL } = await uploadResponse.json();
+
+      const uploadFileResponse = await fetch(uploadURL, {
+        method: 'PUT',
+        body: file,
+        headers: { 'Content-Type': file.type },
+      });
+      if (!uploadFileResponse.ok) {
+        throw new Error(`Failed to upload ${file.name}`);
+      }
+
+      const objectId = uploadURL.split('/').pop().split('?')[0];
+      onChange({ path: `/objects/uploads/${objectId}`, name: file.name });
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : `Failed to upload ${field.displayName}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  switch (field.type) {
+    case CUSTOM_FIELD_TYPES.NUMBER:
+    case CUSTOM_FIELD_TYPES.CURRENCY:
+    case CUSTOM_FIELD_TYPES.PERCENTAGE:
+      return (
+        <Input
+          type="number"
+          min={field.type === CUSTOM_FIELD_TYPES.PERCENTAGE ? "0" : undefined}
+          max={field.type === CUSTOM_FIELD_TYPES.PERCENTAGE ? "100" : undefined}
+          value={value ?? ''}
+          onChange={(e) => onChange(parseFloat(e.target.value) || 0)}
+          placeholder={`Enter ${field.displayName}`}
+          className={className}
+        />
+      );
+
+    case CUSTOM_FIELD_TYPES.BOOLEAN:
+      return (
+        <div className="flex items-center space-x-2">
+          <Switch
+            checked={Boolean(value)}
+            onCheckedChange={onChange}
+          />
+          <Label>{Boolean(value) ? 'Yes' : 'No'}</Label>
+        </div>
+      );
+
+    case CUSTOM_FIELD_TYPES.DATE:
+      return (
+        <Input
+          type="date"
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          className={className}
+        />
+      );
+
+    case CUSTOM_FIELD_TYPES.SELECT:
+      return (
+        <Select value={value || undefined} onValueChange={onChange}>
+          <SelectTrigger className={className}>
+            <SelectValue placeholder={`Select ${field.displayName}`} />
+          </SelectTrigger>
+          <SelectContent>
+            {options.map(option => (
+              <SelectItem key={option} value={option}>{option}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+
+    case CUSTOM_FIELD_TYPES.MULTISELECT: {
+      const selected: string[] = Array.isArray(value) ? value : [];
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm text-gray-700">
+              <Checkbox
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) => onChange(
+                  checked ? [...selected, option] : selected.filter(item => item !== option)
+                )}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case CUSTOM_FIELD_TYPES.LONGTEXT:
+      return (
+        <Textarea
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={`Enter ${field.displayName}`}
+          className={`min-h-[100px] ${className ?? ''}`}
+        />
+      );
+
+    case CUSTOM_FIELD_TYPES.FILE: {
+      const fileRef = value as CustomFieldFileRef | null;
+      return (
+        <div className="flex items-center gap-3">
+          {fileRef?.path ? (
+            <>
+              <a href={fileRef.path} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-sm text-blue-600 hover:underline">
+                <FileText className="h-4 w-4" />
+                {fileRef.name}
+              </a>
+              <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} title="Remove file">
+                <X className="h-4 w-4" />
+              </Button>
+            </>
+          ) : (
+            <Label className="flex items-center gap-2 cursor-pointer text-sm text-gray-600 border border-dashed border-gray-300 rounded-md px-3 py-2 hover:bg-gray-50">
+              <Upload className="h-4 w-4" />
+              {isUploading ? 'Uploading...' : `Upload ${field.displayName}`}
+              <input type="file" className="hidden" onChange={handleFileUpload} disabled={isUploading} />
+            </Label>
+          )}
+        </div>
+      );
+    }
+
+    case CUSTOM_FIELD_TYPES.EMAIL:
+    case CUSTOM_FIELD_TYPES.URL:
+    case CUSTOM_FIELD_TYPES.TEXT:
+    default:
+      return (
+        <Input
+          value={value || ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={`Enter ${field.displayName}`}
+          className={className}
+          type={field.type === CUSTOM_FIELD_TYPES.EMAIL ? 'email' : field.type === CUSTOM_FIELD_TYPES.URL ? 'url' : 'text'}
+        />
+      );
+  }
+}
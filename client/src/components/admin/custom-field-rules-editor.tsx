@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  CUSTOM_FIELD_TYPES,
+  CONDITION_PROPERTY_ATTRIBUTES,
+  OPTION_FIELD_TYPES,
+  FACET_FIELD_TYPES,
+  RANGE_FIELD_TYPES,
+  type CustomField,
+  type CustomFieldCondition,
+  type CustomFieldType
+} from "@shared/propertyTypes";
+
+interface CustomFieldRulesEditorProps {
+  fieldId?: string;
+  type: CustomFieldType;
+  options: string[];
+  visibleWhen: CustomFieldCondition[];
+  filterable: boolean;
+  fieldDefinitions: CustomField[];
+  onOptionsChange: (options: string[]) => void;
+  onVisibleWhenChange: (conditions: CustomFieldCondition[]) => void;
+  onFilterableChange: (filterable: boolean) => void;
+}
+
+interface ConditionSource {
+  id: string;
+  label: string;
+  options: string[];
+}
+
+const valueLabel = (value: string) => value === 'true' ? 'Yes' : value === 'false' ? 'No' : value;
+
+/**
+ * Options for dropdown fields, whether the field is a search filter, and the conditions under which it is shown
+ */
+export function CustomFieldRulesEditor({
+  fieldId,
+  type,
+  options,
+  visibleWhen,
+  filterable,
+  fieldDefinitions,
+  onOptionsChange,
+  onVisibleWhenChange,
+  onFilterableChange
+}: CustomFieldRulesEditorProps) {
+  // Kept as text so blank lines survive while typing
+  const [optionsText, setOptionsText] = useState(options.join('\n'));
+
+  // Property attributes plus other fields with a fixed set of values
+  const sources: ConditionSource[] = [
+    ...Object.entries(CONDITION_PROPERTY_ATTRIBUTES).map(([id, attribute]) => ({
+      id,
+      label: attribute.label,
+      options: [...attribute.options]
+    })),
+    ...fieldDefinitions
+      .filter(field => field.id !== fieldId && (OPTION_FIELD_TYPES.includes(field.type) || field.type === CUSTOM_FIELD_TYPES.BOOLEAN))
+      .map(field => ({
+        id: field.id,
+        label: field.displayName,
+        options: field.type === CUSTOM_FIELD_TYPES.BOOLEAN ? ['true', 'false'] : field.options ?? []
+      }))
+  ];
+
+  const updateCondition = (index: number, condition: CustomFieldCondition) => {
+    onVisibleWhenChange(visibleWhen.map((existing, i) => i === index ? condition : existing));
+  };
+
+  return (
+    <div className="space-y-4">
+      {OPTION_FIELD_TYPES.includes(type) && (
+        <div className="grid gap-2">
+          <Label htmlFor="field-options">Options (one per line)</Label>
+          <Textarea
+            id="field-options"
+            value={optionsText}
+            onChange={(e) => {
+              setOptionsText(e.target.value);
+              onOptionsChange(Array.from(new Set(
+                e.target.value.split('\n').map(option => option.trim()).filter(Boolean)
+              )));
+            }}
+            placeholder={"e.g.\nGround floor\nFirst floor"}
+            className="min-h-[90px]"
+          />
+        </div>
+      )}
+
+      {[...FACET_FIELD_TYPES, ...RANGE_FIELD_TYPES].includes(type) && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id="field-filterable"
+            checked={filterable}
+            onCheckedChange={onFilterableChange}
+          />
+          <Label htmlFor="field-filterable">Use as a filter in property search</Label>
+        </div>
+      )}
+
+      <div className="grid gap-2">
+        <Label>Show only when</Label>
+        {visibleWhen.length === 0 && (
+          <p className="text-xs text-gray-500">Always shown</p>
+        )}
+        {visibleWhen.map((condition, index) => {
+          const source = sources.find(candidate => candidate.id === condition.field);
+          return (
+            <div key={index} className="space-y-2 rounded-md border border-gray-200 p-3">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={condition.field}
+                  onValueChange={(field) => updateCondition(index, { field, values: [] })}
+                >
+                  <SelectTrigger className="flex-1">
+                    <SelectValue placeholder="Select field" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sources.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{candidate.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onVisibleWhenChange(visibleWhen.filter((_, i) => i !== index))}
+                  className="text-red-600"
+                  title="Remove condition"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {source && (
+                <div className="flex flex-wrap gap-3">
+                  {source.options.map(option => (
+                    <label key={option} className="flex items-center gap-2 text-sm text-gray-700 capitalize">
+                      <Checkbox
+                        checked={condition.values.includes(option)}
+                        onCheckedChange={(checked) => updateCondition(index, {
+                          ...condition,
+                          values: checked
+                            ? [...condition.values, option]
+                            : condition.values.filter(value => value !== option)
+                        })}
+                      />
+                      {valueLabel(option)}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onVisibleWhenChange([...visibleWhen, { field: sources[0].id, values: [] }])}
+          className="w-fit"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Condition
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * One-line summary of a field's visibility conditions, e.g. "Property Type is commercial"
+ */
+export function describeVisibility(conditions: CustomFieldCondition[] | null | undefined, fieldDefinitions: CustomField[]): string | null {
+  if (!conditions || conditions.length === 0) return null;
+  return conditions.map(condition => {
+    const label = CONDITION_PROPERTY_ATTRIBUTES[condition.field as keyof typeof CONDITION_PROPERTY_ATTRIBUTES]?.label
+      ?? fieldDefinitions.find(field => field.id === condition.field)?.displayName
+      ?? condition.field;
+    return `${label} is ${condition.values.map(valueLabel).join(' or ')}`;
+  }).join(' and ');
+}
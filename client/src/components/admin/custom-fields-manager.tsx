@@ -6,7 +6,9 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
 import { Trash2, Plus, Save, GripVertical } from "lucide-react";
-import { CUSTOM_FIELD_TYPES, FIELD_TYPE_CONFIG, FIELD_SECTIONS, SECTION_CONFIG, type CustomField } from "@shared/propertyTypes";
+import { CUSTOM_FIELD_TYPES, FIELD_TYPE_CONFIG, FIELD_SECTIONS, SECTION_CONFIG, OPTION_FIELD_TYPES, FACET_FIELD_TYPES, RANGE_FIELD_TYPES, type CustomField } from "@shared/propertyTypes";
+import { CustomFieldInput } from "./custom-field-input";
+import { CustomFieldRulesEditor } from "./custom-field-rules-editor";
 import { toast } from "@/hooks/use-toast";
 import {
   DndContext,
@@ -114,6 +116,15 @@ export function CustomFieldsManager({
       return;
     }
 
+    if (OPTION_FIELD_TYPES.includes(editingField.type || CUSTOM_FIELD_TYPES.TEXT) && !editingField.options?.length) {
+      toast({
+        title: "Error",
+        description: "Add at least one option for this field",
+        variant: "destructive"
+      });
+      return;
+    }
+
     // Validate field name format
     const fieldName = editingField.name.toLowerCase().replace(/[^a-z0-9_]/g, '_');
     if (fieldName !== editingField.name.toLowerCase()) {
@@ -129,7 +140,10 @@ export function CustomFieldsManager({
       required: editingField.required || false,
       defaultValue: editingField.defaultValue,
       section: editingField.section || FIELD_SECTIONS.BASIC,
-      order: editingField.order !== undefined ? editingField.order : Math.max(...fieldDefinitions.map(f => f.order || 0), 0) + 1
+      order: editingField.order !== undefined ? editingField.order : Math.max(...fieldDefinitions.map(f => f.order || 0), 0) + 1,
+      options: OPTION_FIELD_TYPES.includes(editingField.type || CUSTOM_FIELD_TYPES.TEXT) ? editingField.options : undefined,
+      visibleWhen: (editingField.visibleWhen ?? []).filter(condition => condition.values.length > 0),
+      filterable: editingField.filterable && [...FACET_FIELD_TYPES, ...RANGE_FIELD_TYPES].includes(editingField.type || CUSTOM_FIELD_TYPES.TEXT)
     };
 
     // Check if field already exists
@@ -202,86 +216,14 @@ export function CustomFieldsManager({
 
   const renderFieldInput = (field: CustomField) => {
     const value = localFields[field.id] !== undefined ? localFields[field.id] : (field.defaultValue || FIELD_TYPE_CONFIG[field.type].defaultValue);
-    
-    switch (field.type) {
-      case CUSTOM_FIELD_TYPES.TEXT:
-        return (
-          <Input
-            value={value}
-            onChange={(e) => handleFieldValueChange(field.id, e.target.value)}
-            placeholder={`Enter ${field.displayName}`}
-          />
-        );
-        
-      case CUSTOM_FIELD_TYPES.NUMBER:
-      case CUSTOM_FIELD_TYPES.CURRENCY:
-        return (
-          <Input
-            type="number"
-            value={value}
-            onChange={(e) => handleFieldValueChange(field.id, parseFloat(e.target.value) || 0)}
-            placeholder={`Enter ${field.displayName}`}
-          />
-        );
-        
-      case CUSTOM_FIELD_TYPES.PERCENTAGE:
-        return (
-          <Input
-            type="number"
-            min="0"
-            max="100"
-            value={value}
-            onChange={(e) => handleFieldValueChange(field.id, parseFloat(e.target.value) || 0)}
-            placeholder={`Enter ${field.displayName} (0-100)`}
-          />
-        );
-        
-      case CUSTOM_FIELD_TYPES.BOOLEAN:
-        return (
-          <Switch
-            checked={value}
-            onCheckedChange={(checked) => handleFieldValueChange(field.id, checked)}
-          />
-        );
-        
-      case CUSTOM_FIELD_TYPES.DATE:
-        return (
-          <Input
-            type="date"
-            value={value || ''}
-            onChange={(e) => handleFieldValueChange(field.id, e.target.value)}
-          />
-        );
-        
-      case CUSTOM_FIELD_TYPES.EMAIL:
-        return (
-          <Input
-            type="email"
-            value={value}
-            onChange={(e) => handleFieldValueChange(field.id, e.target.value)}
-            placeholder={`Enter ${field.displayName}`}
-          />
-        );
-        
-      case CUSTOM_FIELD_TYPES.URL:
-        return (
-          <Input
-            type="url"
-            value={value}
-            onChange={(e) => handleFieldValueChange(field.id, e.target.value)}
-            placeholder={`Enter ${field.displayName}`}
-          />
-        );
-        
-      default:
-        return (
-          <Input
-            value={value}
-            onChange={(e) => handleFieldValueChange(field.id, e.target.value)}
-            placeholder={`Enter ${field.displayName}`}
-          />
-        );
-    }
+
+    return (
+      <CustomFieldInput
+        field={field}
+        value={value}
+        onChange={(newValue) => handleFieldValueChange(field.id, newValue)}
+      />
+    );
   };
 
   // Group fields by section
@@ -394,6 +336,18 @@ export function CustomFieldsManager({
                 <Label htmlFor="required">Required Field</Label>
               </div>
             </div>
+
+            <CustomFieldRulesEditor
+              fieldId={editingField?.id || undefined}
+              type={editingField?.type || CUSTOM_FIELD_TYPES.TEXT}
+              options={editingField?.options ?? []}
+              visibleWhen={editingField?.visibleWhen ?? []}
+              filterable={editingField?.filterable ?? false}
+              fieldDefinitions={fieldDefinitions}
+              onOptionsChange={(options) => setEditingField({ ...editingField, options })}
+              onVisibleWhenChange={(visibleWhen) => setEditingField({ ...editingField, visibleWhen })}
+              onFilterableChange={(filterable) => setEditingField({ ...editingField, filterable })}
+            />
             
             <div className="flex justify-end space-x-2">
               <Button 
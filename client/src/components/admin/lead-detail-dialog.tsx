@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Mail, Phone, User, X, MessageSquare, ArrowRightLeft, UserCheck, Inbox, GitMerge, BadgeCheck } from "lucide-react";
+import type { Property } from "@shared/schema";
+import { LEAD_STAGES, LEAD_STAGE_LABELS, normalizeLeadTags, type Lead, type LeadActivityEntry, type LeadActivityType } from "@shared/leads";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface LeadDetailDialogProps {
+  leadId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+type LeadChanges = Partial<Pick<Lead, "stage" | "assignedTo" | "propertyId" | "tags">> & { followUpAt?: string | null };
+
+const UNSET = "none";
+
+const ACTIVITY_ICONS: Record<LeadActivityType, typeof MessageSquare> = {
+  note: MessageSquare,
+  stage_change: ArrowRightLeft,
+  assignment: UserCheck,
+  message: Inbox,
+  merge: GitMerge,
+};
+
+const formatDateTime = (value: string | Date) =>
+  new Date(value).toLocaleString("en-IN", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+// Errors from apiRequest look like "400: {"message":"..."}"
+const extractMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+export function LeadDetailDialog({ leadId, onOpenChange }: LeadDetailDialogProps) {
+  const [note, setNote] = useState("");
+  const [tagInput, setTagInput] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: lead } = useQuery<Lead & { activities: LeadActivityEntry[] }>({
+    queryKey: ["/api/admin/leads", leadId],
+    enabled: !!leadId,
+  });
+
+  const { data: assignees = [] } = useQuery<Array<{ id: string; username: string }>>({
+    queryKey: ["/api/admin/leads/assignees"],
+    enabled: !!leadId,
+  });
+
+  const { data: properties = [] } = useQuery<Property[]>({
+    queryKey: ["/api/admin/properties"],
+    enabled: !!leadId,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: LeadChanges) => {
+      const response = await apiRequest(`/api/admin/leads/${leadId}`, "PUT", changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/leads"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: extractMessage(error), variant: "destructive" });
+    },
+  });
+
+  const noteMutation = useMutation({
+    mutationFn: async (body: string) => {
+      const response = await apiRequest(`/api/admin/leads/${leadId}/notes`, "POST", { body });
+      return response.json();
+    },
+    onSuccess: () => {
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/leads"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: extractMessage(error), variant: "destructive" });
+    },
+  });
+
+  const addTags = () => {
+    if (!lead || !tagInput.trim()) return;
+    updateMutation.mutate({ tags: normalizeLeadTags([...lead.tags, ...tagInput.split(",")]) });
+    setTagInput("");
+  };
+
+  return (
+    <Dialog open={!!leadId} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <User className="h-5 w-5 mr-2" />
+            {lead?.name ?? "Lead"}
+          </DialogTitle>
+          <DialogDescription>
+            {lead ? `Submitted ${formatDateTime(lead.createdAt)}` : "Loading lead..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {lead && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2 text-sm">
+                <p className="flex items-center text-gray-900">
+                  <Mail className="h-4 w-4 mr-2 text-gray-400" />
+                  <a href={`mailto:${lead.email}`} className="hover:underline">{lead.email}</a>
+                </p>
+                <p className="flex items-center text-gray-900">
+                  <Phone className="h-4 w-4 mr-2 text-gray-400" />
+                  <a href={`tel:${lead.phone}`} className="hover:underline">{lead.phone}</a>
+                </p>
+                <p className="text-gray-600">Investment amount: <span className="font-medium text-green-600">{lead.investmentAmount}</span></p>
+                {lead.investorName && (
+                  <p className="flex items-center text-gray-900">
+                    <BadgeCheck className="h-4 w-4 mr-2 text-green-600" />
+                    Registered investor: {lead.investorName}
+                  </p>
+                )}
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg text-sm text-gray-900 whitespace-pre-wrap">{lead.message}</div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label className="mb-2 block">Stage</Label>
+                <Select value={lead.stage} onValueChange={(stage) => updateMutation.mutate({ stage: stage as Lead["stage"] })}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {LEAD_STAGES.map(stage => (
+                      <SelectItem key={stage} value={stage}>{LEAD_STAGE_LABELS[stage]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label className="mb-2 block">Assignee</Label>
+                <Select
+                  value={lead.assignedTo ?? UNSET}
+                  onValueChange={(value) => updateMutation.mutate({ assignedTo: value === UNSET ? null : value })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET}>Unassigned</SelectItem>
+                    {assignees.map(admin => (
+                      <SelectItem key={admin.id} value={admin.id}>{admin.username}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div>
+                <Label htmlFor="lead-follow-up" className="mb-2 block">Follow-up Date</Label>
+                <Input
+                  id="lead-follow-up"
+                  type="date"
+                  value={lead.followUpAt ? new Date(lead.followUpAt).toISOString().slice(0, 10) : ""}
+                  onChange={(e) => updateMutation.mutate({ followUpAt: e.target.value || null })}
+                />
+              </div>
+
+              <div>
+                <Label className="mb-2 block">Property of Interest</Label>
+                <Select
+                  value={lead.propertyId ?? UNSET}
+                  onValueChange={(value) => updateMutation.mutate({ propertyId: value === UNSET ? null : value })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSET}>None</SelectItem>
+                    {properties.map(property => (
+                      <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div>
+              <Label htmlFor="lead-tags" className="mb-2 block">Tags</Label>
+              <div className="flex flex-wrap gap-2 mb-2">
+                {lead.tags.length === 0 && <span className="text-sm text-gray-400">No tags</span>}
+                {lead.tags.map(tag => (
+                  <Badge key={tag} variant="secondary" className="gap-1">
+                    {tag}
+                    <button
+                      type="button"
+                      onClick={() => updateMutation.mutate({ tags: lead.tags.filter(existing => existing !== tag) })}
+                      title={`Remove ${tag}`}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Input
+                  id="lead-tags"
+                  placeholder="Add tags, separated by commas"
+                  value={tagInput}
+                  onChange={(e) => setTagInput(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      addTags();
+                    }
+                  }}
+                />
+                <Button variant="outline" onClick={addTags} disabled={!tagInput.trim()}>Add</Button>
+              </div>
+            </div>
+
+            <div className="border-t pt-4">
+              <Label htmlFor="lead-note" className="mb-2 block">Internal Notes</Label>
+              <Textarea
+                id="lead-note"
+                placeholder="Call summary, next steps..."
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+              />
+              <div className="flex justify-end mt-2">
+                <Button
+                  size="sm"
+                  onClick={() => noteMutation.mutate(note.trim())}
+                  disabled={!note.trim() || noteMutation.isPending}
+                >
+                  Add Note
+                </Button>
+              </div>
+
+              <ol className="mt-4 space-y-3">
+                {lead.activities.length === 0 && (
+                  <li className="text-sm text-gray-400">No activity yet</li>
+                )}
+                {lead.activities.map(activity => {
+                  const Icon = ACTIVITY_ICONS[activity.type as LeadActivityType] ?? MessageSquare;
+                  return (
+                    <li key={activity.id} className="flex gap-3">
+                      <div className="p-1.5 h-fit bg-gray-100 rounded-full">
+                        <Icon className="h-3.5 w-3.5 text-gray-600" />
+                      </div>
+                      <div className="flex-1">
+                        <p className={`text-sm ${activity.type === "note" || activity.type === "message" ? "text-gray-900 whitespace-pre-wrap" : "text-gray-600"}`}>
+                          {activity.body}
+                        </p>
+                        <p className="text-xs text-gray-400 mt-0.5">
+                          {activity.type === "message" ? "Earlier enquiry" : activity.adminName ?? "Unknown admin"} · {formatDateTime(activity.createdAt)}
+                        </p>
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,140 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Copy, GitMerge, Link2 } from "lucide-react";
+import type { LeadDuplicate, LeadDuplicateRecord } from "@shared/leads";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface LeadDuplicatesCardProps {
+  onViewLead: (id: string) => void;
+}
+
+const COLLAPSED_COUNT = 5;
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleDateString("en-IN");
+
+// Errors from apiRequest look like "400: {"message":"..."}"
+const extractMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+function RecordSummary({ record, onView }: { record: LeadDuplicateRecord; onView?: () => void }) {
+  return (
+    <div className="min-w-0">
+      <div className="flex items-center gap-2">
+        {onView ? (
+          <button type="button" className="font-medium text-gray-900 hover:underline truncate" onClick={onView}>
+            {record.name}
+          </button>
+        ) : (
+          <span className="font-medium text-gray-900 truncate">{record.name}</span>
+        )}
+        <Badge variant="outline" className="text-xs font-normal">
+          {record.kind === "user" ? "Investor" : "Lead"}
+        </Badge>
+      </div>
+      <div className="text-xs text-gray-500 truncate">
+        {[record.email, record.phone].filter(Boolean).join(" · ")} · {record.kind === "user" ? "Registered" : "Submitted"} {formatDate(record.createdAt)}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Lists likely duplicate leads; leads merge into the older submission and
+ * leads matching an investor account are linked to it
+ */
+export function LeadDuplicatesCard({ onViewLead }: LeadDuplicatesCardProps) {
+  const [showAll, setShowAll] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: duplicates = [] } = useQuery<LeadDuplicate[]>({
+    queryKey: ["/api/admin/leads", "duplicates"],
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async (duplicate: LeadDuplicate) => {
+      return duplicate.match.kind === "contact"
+        ? apiRequest(`/api/admin/leads/${duplicate.match.id}/merge`, "POST", { sourceId: duplicate.lead.id })
+        : apiRequest(`/api/admin/leads/${duplicate.lead.id}/link-investor`, "POST", { userId: duplicate.match.id });
+    },
+    onSuccess: (_response, duplicate) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/leads"] });
+      toast({
+        title: duplicate.match.kind === "contact" ? "Leads Merged" : "Lead Linked",
+        description: duplicate.match.kind === "contact"
+          ? `${duplicate.lead.name}'s enquiry now sits on the earlier lead's timeline.`
+          : `${duplicate.lead.name} is linked to investor ${duplicate.match.name}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: extractMessage(error), variant: "destructive" });
+    },
+  });
+
+  if (duplicates.length === 0) return null;
+
+  const visible = showAll ? duplicates : duplicates.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <Card className="border-amber-200">
+      <CardHeader>
+        <CardTitle className="flex items-center text-lg">
+          <Copy className="h-5 w-5 mr-2 text-amber-600" />
+          Possible Duplicates ({duplicates.length})
+        </CardTitle>
+        <CardDescription>
+          Merging keeps every message and note on the earlier lead's timeline.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {visible.map(duplicate => (
+          <div
+            key={`${duplicate.lead.id}:${duplicate.match.kind}:${duplicate.match.id}`}
+            className="flex flex-col lg:flex-row lg:items-center gap-3 p-3 rounded-lg bg-amber-50"
+          >
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 flex-1 min-w-0">
+              <RecordSummary record={duplicate.lead} onView={() => onViewLead(duplicate.lead.id)} />
+              <RecordSummary
+                record={duplicate.match}
+                onView={duplicate.match.kind === "contact" ? () => onViewLead(duplicate.match.id) : undefined}
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className="bg-amber-600">{duplicate.score}%</Badge>
+              {duplicate.reasons.map(reason => (
+                <Badge key={reason} variant="secondary" className="text-xs font-normal">{reason}</Badge>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resolveMutation.mutate(duplicate)}
+                disabled={resolveMutation.isPending}
+              >
+                {duplicate.match.kind === "contact" ? (
+                  <><GitMerge className="h-4 w-4 mr-1" />Merge</>
+                ) : (
+                  <><Link2 className="h-4 w-4 mr-1" />Link to Investor</>
+                )}
+              </Button>
+            </div>
+          </div>
+        ))}
+        {duplicates.length > COLLAPSED_COUNT && (
+          <Button variant="ghost" size="sm" onClick={() => setShowAll(!showAll)}>
+            {showAll ? "Show fewer" : `Show all ${duplicates.length}`}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ShieldAlert, ShieldCheck, Trash2 } from "lucide-react";
+import type { Contact } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+export const QUARANTINE_QUERY_KEY = ["/api/admin/leads", "quarantine"];
+
+const formatDate = (value: string | Date) =>
+  new Date(value).toLocaleString("en-IN", { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+
+/**
+ * Contact form submissions the spam scoring held back, with the signals that tripped
+ */
+export function LeadQuarantineList() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: quarantined = [], isLoading } = useQuery<Contact[]>({
+    queryKey: QUARANTINE_QUERY_KEY,
+  });
+
+  const releaseMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/admin/leads/${id}/release`, "POST");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/leads"] });
+      toast({ title: "Released", description: "The submission is now in the lead pipeline." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to release contact", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/contacts/${id}`, "DELETE");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUARANTINE_QUERY_KEY });
+      toast({ title: "Deleted", description: "The submission has been deleted." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete contact", variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="h-48 bg-gray-200 rounded animate-pulse"></div>;
+  }
+
+  if (quarantined.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex flex-col items-center justify-center py-16">
+          <ShieldCheck className="h-16 w-16 text-gray-300 mb-4" />
+          <h3 className="text-xl font-semibold text-gray-900 mb-2">Quarantine is empty</h3>
+          <p className="text-gray-500 text-center max-w-md">
+            Submissions that look like spam are held here for review instead of entering the pipeline.
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="font-semibold">Submission</TableHead>
+                <TableHead className="font-semibold">Message</TableHead>
+                <TableHead className="font-semibold">Spam Score</TableHead>
+                <TableHead className="font-semibold">Received</TableHead>
+                <TableHead className="font-semibold text-center">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {quarantined.map(contact => (
+                <TableRow key={contact.id} className="align-top">
+                  <TableCell>
+                    <div className="font-medium text-gray-900">{contact.name}</div>
+                    <div className="text-sm text-gray-600">{contact.email}</div>
+                    <div className="text-sm text-gray-600">{contact.phone}</div>
+                  </TableCell>
+                  <TableCell className="max-w-sm">
+                    <p className="text-sm text-gray-700 line-clamp-3 break-words">{contact.message}</p>
+                  </TableCell>
+                  <TableCell>
+                    <Badge className="bg-red-600 mb-2">
+                      <ShieldAlert className="h-3 w-3 mr-1" />
+                      {contact.spamScore}
+                    </Badge>
+                    <ul className="text-xs text-gray-600 space-y-0.5">
+                      {contact.spamReasons.map(reason => <li key={reason}>{reason}</li>)}
+                    </ul>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    <div>{formatDate(contact.createdAt)}</div>
+                    {contact.ipAddress && <div className="text-xs text-gray-500">IP {contact.ipAddress}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2 justify-center">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => releaseMutation.mutate(contact.id)}
+                        disabled={releaseMutation.isPending}
+                      >
+                        <ShieldCheck className="h-4 w-4 mr-1" />
+                        Not Spam
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => {
+                          if (window.confirm("Delete this submission permanently?")) {
+                            deleteMutation.mutate(contact.id);
+                          }
+                        }}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
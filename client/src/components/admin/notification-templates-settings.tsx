@@ -0,0 +1,376 @@
+import { useState, useEffect, useMemo } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, RotateCcw, RefreshCw, Eye, History } from "lucide-react";
+import type { NotificationTemplateVersion } from "@shared/schema";
+import { NOTIFICATION_CHANNEL_LABELS, type NotificationChannel } from "@shared/notifications";
+import {
+  GLOBAL_TEMPLATE_VARIABLES,
+  MAX_SMS_SEGMENTS,
+  NOTIFICATION_TEMPLATES,
+  NOTIFICATION_TEMPLATE_KEYS,
+  TEMPLATE_LOCALES,
+  TEMPLATE_LOCALE_LABELS,
+  renderTemplate,
+  smsLength,
+  templateChannels,
+  type NotificationTemplateKey,
+  type TemplateLocale,
+} from "@shared/notificationTemplates";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const TEMPLATES_QUERY_KEY = ["/api/admin/notification-templates"];
+
+interface TemplateSummary {
+  key: NotificationTemplateKey;
+  channel: NotificationChannel;
+  locale: TemplateLocale;
+  subject?: string;
+  body: string;
+  html?: string;
+  version: number;
+  isDefault: boolean;
+  updatedAt: string | null;
+  updatedBy: string | null;
+}
+
+type TemplateVersionEntry = NotificationTemplateVersion & { adminName: string | null };
+
+interface TemplateDraft {
+  subject: string;
+  body: string;
+  html: string;
+}
+
+export default function NotificationTemplatesSettings() {
+  const [templateKey, setTemplateKey] = useState<NotificationTemplateKey>(NOTIFICATION_TEMPLATE_KEYS[0]);
+  const [channel, setChannel] = useState<NotificationChannel>(templateChannels(NOTIFICATION_TEMPLATE_KEYS[0])[0]);
+  const [locale, setLocale] = useState<TemplateLocale>("en");
+  const [draft, setDraft] = useState<TemplateDraft>({ subject: "", body: "", html: "" });
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const definition = NOTIFICATION_TEMPLATES[templateKey];
+  const channels = templateChannels(templateKey);
+  const path = `/api/admin/notification-templates/${templateKey}/${channel}/${locale}`;
+  const versionsQueryKey = [...TEMPLATES_QUERY_KEY, templateKey, channel, locale, "versions"];
+
+  const { data: templates = [], isLoading } = useQuery<TemplateSummary[]>({
+    queryKey: TEMPLATES_QUERY_KEY,
+  });
+
+  const { data: versions = [] } = useQuery<TemplateVersionEntry[]>({
+    queryKey: versionsQueryKey,
+  });
+
+  const current = templates.find(template =>
+    template.key === templateKey && template.channel === channel && template.locale === locale
+  );
+
+  // Load the version in use whenever the selection or the saved content changes
+  useEffect(() => {
+    if (current) {
+      setDraft({ subject: current.subject ?? "", body: current.body, html: current.html ?? "" });
+    }
+  }, [current?.key, current?.channel, current?.locale, current?.version]);
+
+  const selectTemplate = (key: NotificationTemplateKey) => {
+    setTemplateKey(key);
+    if (!templateChannels(key).includes(channel)) {
+      setChannel(templateChannels(key)[0]);
+    }
+  };
+
+  const onSaved = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: TEMPLATES_QUERY_KEY });
+    toast({ title: "Template saved", description: message });
+  };
+
+  const onFailed = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save template",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest(path, "PUT", {
+      subject: channel === "sms" ? undefined : draft.subject,
+      body: draft.body,
+      html: channel === "email" && draft.html ? draft.html : undefined,
+    }),
+    onSuccess: (result: any) => onSaved(result.message),
+    onError: onFailed,
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (version: number) => apiRequest(`${path}/revert`, "POST", { version }),
+    onSuccess: (result: any) => onSaved(result.message),
+    onError: onFailed,
+  });
+
+  const sample = { ...GLOBAL_TEMPLATE_VARIABLES, ...definition.variables };
+  const preview = useMemo(() => ({
+    subject: renderTemplate(draft.subject, sample),
+    body: renderTemplate(draft.body, sample),
+    html: draft.html ? renderTemplate(draft.html, sample, { html: true }) : "",
+  }), [draft, templateKey]);
+  const sms = channel === "sms" ? smsLength(preview.body) : null;
+
+  const isDirty = !!current && (
+    draft.body !== current.body ||
+    draft.subject !== (current.subject ?? "") ||
+    draft.html !== (current.html ?? "")
+  );
+
+  const formatDateTime = (value: string | Date | null) => {
+    if (!value) return "—";
+    return new Date(value).toLocaleString("en-IN", {
+      month: "short",
+      day: "numeric",
+      year: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mr-3" />
+        <span className="text-lg">Loading templates...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Notification Templates</CardTitle>
+          <CardDescription>
+            Edit the SMS, email and in-app messages investors receive. Languages without their own version use the English one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Template</Label>
+              <Select value={templateKey} onValueChange={(value) => selectTemplate(value as NotificationTemplateKey)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NOTIFICATION_TEMPLATE_KEYS.map(key => (
+                    <SelectItem key={key} value={key}>{NOTIFICATION_TEMPLATES[key].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Channel</Label>
+              <Select value={channel} onValueChange={(value) => setChannel(value as NotificationChannel)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {channels.map(option => (
+                    <SelectItem key={option} value={option}>{NOTIFICATION_CHANNEL_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={locale} onValueChange={(value) => setLocale(value as TemplateLocale)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_LOCALES.map(option => (
+                    <SelectItem key={option} value={option}>{TEMPLATE_LOCALE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+            <span>{definition.description}.</span>
+            {current && (
+              <Badge variant="outline">
+                {current.isDefault ? "Built-in default" : `Version ${current.version}`}
+              </Badge>
+            )}
+            {current?.updatedBy && <span className="text-xs">Last edited by {current.updatedBy} on {formatDateTime(current.updatedAt)}</span>}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Variables</Label>
+            <div className="flex flex-wrap gap-2">
+              {Object.keys(sample).map(name => (
+                <Badge key={name} variant="secondary" className="font-mono text-xs" title={`Sample: ${sample[name as keyof typeof sample]}`}>
+                  {`{{${name}}}`}
+                </Badge>
+              ))}
+            </div>
+            <p className="text-xs text-gray-500">
+              Use <code>{"{{#if name}}...{{else}}...{{/if}}"}</code> for optional text. Values are escaped in HTML.
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Edit</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {channel !== "sms" && (
+              <div className="space-y-2">
+                <Label htmlFor="template-subject">{channel === "email" ? "Subject" : "Title"}</Label>
+                <Input
+                  id="template-subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="template-body">{channel === "email" ? "Plain text body" : "Message"}</Label>
+              <Textarea
+                id="template-body"
+                rows={channel === "email" ? 8 : 4}
+                value={draft.body}
+                onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+              />
+            </div>
+            {channel === "email" && (
+              <div className="space-y-2">
+                <Label htmlFor="template-html">HTML body (optional)</Label>
+                <Textarea
+                  id="template-html"
+                  rows={8}
+                  className="font-mono text-xs"
+                  value={draft.html}
+                  onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                />
+              </div>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={() => saveMutation.mutate()} disabled={!isDirty || saveMutation.isPending}>
+                {saveMutation.isPending ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+                Save as New Version
+              </Button>
+              <Button
+                variant="outline"
+                disabled={!isDirty}
+                onClick={() => current && setDraft({ subject: current.subject ?? "", body: current.body, html: current.html ?? "" })}
+              >
+                Discard Changes
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Eye className="h-5 w-5" />
+              Preview
+            </CardTitle>
+            <CardDescription>Rendered with sample data</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {channel !== "sms" && (
+              <div className="font-semibold text-gray-900">{preview.subject}</div>
+            )}
+            <div className="whitespace-pre-wrap rounded-md border bg-gray-50 p-3 text-sm text-gray-800">{preview.body}</div>
+            {channel === "email" && preview.html && (
+              <iframe
+                title="HTML preview"
+                sandbox=""
+                srcDoc={preview.html}
+                className="h-64 w-full rounded-md border bg-white"
+              />
+            )}
+            {sms && (
+              <div className={`text-sm ${sms.segments > MAX_SMS_SEGMENTS ? "text-red-600" : "text-gray-600"}`}>
+                {sms.characters} characters ({sms.encoding}, {sms.perSegment} per segment) · {sms.segments} of {MAX_SMS_SEGMENTS} segments
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Version History
+          </CardTitle>
+          <CardDescription>Reverting saves the chosen content as a new version</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="divide-y">
+            {versions.map(version => (
+              <div key={version.id} className="flex items-center justify-between py-3">
+                <div>
+                  <div className="font-medium text-gray-900">
+                    Version {version.version}
+                    {version.revertedFrom !== null && (
+                      <span className="ml-2 text-xs text-gray-500">
+                        restored from {version.revertedFrom === 0 ? "built-in default" : `version ${version.revertedFrom}`}
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDateTime(version.createdAt)}{version.adminName ? ` by ${version.adminName}` : ""}
+                  </div>
+                  <div className="text-xs text-gray-600 truncate max-w-xl">{version.subject || version.body}</div>
+                </div>
+                {version.version !== current?.version && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revertMutation.isPending}
+                    onClick={() => revertMutation.mutate(version.version)}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Revert
+                  </Button>
+                )}
+              </div>
+            ))}
+            <div className="flex items-center justify-between py-3">
+              <div>
+                <div className="font-medium text-gray-900">Built-in default</div>
+                <div className="text-xs text-gray-500">The text shipped with the platform</div>
+              </div>
+              {!current?.isDefault && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={revertMutation.isPending}
+                  onClick={() => revertMutation.mutate(0)}
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Revert
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertTriangle } from "lucide-react";
+import type { Distribution, Property } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PayoutLine {
+  userId: string;
+  units: number;
+  grossAmount: number;
+  tdsAmount: number;
+  netAmount: number;
+}
+
+interface DistributionPreview {
+  netAmount: number;
+  totalTds: number;
+  distributedUnits: number;
+  lines: PayoutLine[];
+}
+
+interface PropertyDistributionsDialogProps {
+  property: Property | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  periodStart: "",
+  periodEnd: "",
+  grossRent: "",
+  expenses: "0",
+  managementFee: "0",
+  tdsRate: "10",
+  notes: "",
+};
+
+const formatRupees = (amount: number | string) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', minimumFractionDigits: 2 }).format(Number(amount));
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleDateString('en-IN');
+
+// Errors from apiRequest look like "409: {"message":"..."}"
+const extractMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+export function PropertyDistributionsDialog({ property, onOpenChange }: PropertyDistributionsDialogProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [preview, setPreview] = useState<DistributionPreview | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const historyKey = ["/api/admin/properties", property?.id, "distributions"];
+  const { data: history = [] } = useQuery<Distribution[]>({
+    queryKey: historyKey,
+    enabled: !!property,
+  });
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+    // Any edit invalidates the preview so admins never commit stale numbers
+    setPreview(null);
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`/api/admin/properties/${property!.id}/distributions/preview`, "POST", form);
+      return res.json() as Promise<DistributionPreview>;
+    },
+    onSuccess: setPreview,
+    onError: (error: Error) => {
+      toast({ title: "Preview failed", description: extractMessage(error), variant: "destructive" });
+    },
+  });
+
+  const commitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest(`/api/admin/properties/${property!.id}/distributions`, "POST", form);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Distribution committed", description: "Payouts have been recorded in the investor ledger." });
+      queryClient.invalidateQueries({ queryKey: historyKey });
+      setForm(emptyForm);
+      setPreview(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Commit failed", description: extractMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) {
+      setForm(emptyForm);
+      setPreview(null);
+    }
+    onOpenChange(open);
+  };
+
+  return (
+    <Dialog open={!!property} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Rental Distributions</DialogTitle>
+          <DialogDescription>
+            {property?.name} — distribute net rental income pro-rata to confirmed unit holders
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="periodStart">Period Start</Label>
+              <Input id="periodStart" type="date" value={form.periodStart} onChange={(e) => updateField("periodStart", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="periodEnd">Period End</Label>
+              <Input id="periodEnd" type="date" value={form.periodEnd} onChange={(e) => updateField("periodEnd", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="grossRent">Gross Rent (₹)</Label>
+              <Input id="grossRent" type="number" min="0" step="0.01" value={form.grossRent} onChange={(e) => updateField("grossRent", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="expenses">Expenses (₹)</Label>
+              <Input id="expenses" type="number" min="0" step="0.01" value={form.expenses} onChange={(e) => updateField("expenses", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="managementFee">Management Fee (₹)</Label>
+              <Input id="managementFee" type="number" min="0" step="0.01" value={form.managementFee} onChange={(e) => updateField("managementFee", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="tdsRate">TDS Rate (%)</Label>
+              <Input id="tdsRate" type="number" min="0" max="100" step="0.01" value={form.tdsRate} onChange={(e) => updateField("tdsRate", e.target.value)} />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="distributionNotes">Notes</Label>
+            <Textarea id="distributionNotes" rows={2} value={form.notes} onChange={(e) => updateField("notes", e.target.value)} />
+          </div>
+
+          <div className="flex gap-2 justify-end">
+            <Button
+              variant="outline"
+              onClick={() => previewMutation.mutate()}
+              disabled={previewMutation.isPending || !form.periodStart || !form.periodEnd || !form.grossRent}
+            >
+              {previewMutation.isPending ? "Calculating..." : "Preview Payouts"}
+            </Button>
+            <Button
+              onClick={() => commitMutation.mutate()}
+              disabled={!preview || commitMutation.isPending}
+            >
+              {commitMutation.isPending ? "Committing..." : "Commit Distribution"}
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="space-y-3">
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  Net {formatRupees(preview.netAmount)} across {preview.distributedUnits.toLocaleString('en-IN')} units
+                  to {preview.lines.length} investor{preview.lines.length === 1 ? "" : "s"}; TDS withheld {formatRupees(preview.totalTds)}.
+                  Committed distributions cannot be edited.
+                </AlertDescription>
+              </Alert>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Investor</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead className="text-right">Gross</TableHead>
+                    <TableHead className="text-right">TDS</TableHead>
+                    <TableHead className="text-right">Net Payout</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.lines.map(line => (
+                    <TableRow key={line.userId}>
+                      <TableCell className="font-mono text-xs">{line.userId}</TableCell>
+                      <TableCell className="text-right">{line.units.toLocaleString('en-IN')}</TableCell>
+                      <TableCell className="text-right">{formatRupees(line.grossAmount)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(line.tdsAmount)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatRupees(line.netAmount)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Past Distributions</h3>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No distributions recorded for this property yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Gross Rent</TableHead>
+                    <TableHead className="text-right">Net Distributed</TableHead>
+                    <TableHead className="text-right">TDS</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map(distribution => (
+                    <TableRow key={distribution.id}>
+                      <TableCell>{formatDate(distribution.periodStart)} – {formatDate(distribution.periodEnd)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(distribution.grossRent)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(distribution.netAmount)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(distribution.totalTds)}</TableCell>
+                      <TableCell className="text-right">{distribution.distributedUnits.toLocaleString('en-IN')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
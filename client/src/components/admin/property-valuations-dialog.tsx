@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { FileText, Upload } from "lucide-react";
+import type { Property, PropertyValuation } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PropertyValuationsDialogProps {
+  property: Property | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const emptyForm = {
+  valuationDate: new Date().toISOString().slice(0, 10),
+  value: "",
+  source: "appraisal",
+  appraiserName: "",
+  documentPath: "",
+  notes: "",
+};
+
+const formatRupees = (amount: number | string) =>
+  new Intl.NumberFormat('en-IN', { style: 'currency', currency: 'INR', maximumFractionDigits: 2 }).format(Number(amount));
+
+const formatDate = (value: string | Date) => new Date(value).toLocaleDateString('en-IN');
+
+// Errors from apiRequest look like "400: {"message":"..."}"
+const extractMessage = (error: Error) => {
+  const body = error.message.replace(/^\d+:\s*/, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+};
+
+export function PropertyValuationsDialog({ property, onOpenChange }: PropertyValuationsDialogProps) {
+  const [form, setForm] = useState(emptyForm);
+  const [isUploading, setIsUploading] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const historyKey = ["/api/properties", property?.id, "valuations"];
+  const { data: history = [] } = useQuery<PropertyValuation[]>({
+    queryKey: historyKey,
+    enabled: !!property,
+  });
+
+  const updateField = (field: keyof typeof emptyForm, value: string) => {
+    setForm(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleDocumentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setIsUploading(true);
+    try {
+      const uploadResponse = await fetch('/api/objects/upload', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+      });
+      if (!uploadResponse.ok) {
+        throw new Error('Failed to get upload URL');
+      }
+      const { uploadURL } = await uploadResponse.json();
+
+      const uploadFileResponse = await fetch(uploadURL, {
+        method: 'PUT',
+        body: file,
+        headers: { 'Content-Type': file.type },
+      });
+      if (!uploadFileResponse.ok) {
+        throw new Error(`Failed to upload ${file.name}`);
+      }
+
+      const objectId = uploadURL.split('/').pop().split('?')[0];
+      updateField("documentPath", `/objects/uploads/${objectId}`);
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Failed to upload appraisal report",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+      e.target.value = "";
+    }
+  };
+
+  const publishMutation = useMutation({
+    mutationFn: async () => {
+      const payload = Object.fromEntries(Object.entries(form).filter(([, value]) => value !== ""));
+      const res = await apiRequest(`/api/admin/properties/${property!.id}/valuations`, "POST", payload);
+      return res.json();
+    },
+    onSuccess: (result) => {
+      toast({ title: "Valuation published", description: result.message });
+      queryClient.invalidateQueries({ queryKey: historyKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/properties"] });
+      setForm(emptyForm);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Publish failed", description: extractMessage(error), variant: "destructive" });
+    },
+  });
+
+  const handleOpenChange = (open: boolean) => {
+    if (!open) setForm(emptyForm);
+    onOpenChange(open);
+  };
+
+  const navPreview = property && Number(form.value) > 0 ? Number(form.value) / property.totalUnits : null;
+
+  return (
+    <Dialog open={!!property} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Valuations</DialogTitle>
+          <DialogDescription>
+            {property?.name} — publish a new valuation; the most recent one sets the property value and NAV per unit
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="valuationDate">Valuation Date</Label>
+              <Input id="valuationDate" type="date" value={form.valuationDate} onChange={(e) => updateField("valuationDate", e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="valuationValue">Property Value (₹)</Label>
+              <Input id="valuationValue" type="number" min="1" step="1" value={form.value} onChange={(e) => updateField("value", e.target.value)} />
+            </div>
+            <div>
+              <Label>Source</Label>
+              <Select value={form.source} onValueChange={(value) => updateField("source", value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="appraisal">Appraisal</SelectItem>
+                  <SelectItem value="admin">Admin</SelectItem>
+                  <SelectItem value="market">Market</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="appraiserName">Appraiser</Label>
+              <Input id="appraiserName" value={form.appraiserName} onChange={(e) => updateField("appraiserName", e.target.value)} />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="appraisalDocument">Appraisal Report</Label>
+              <div className="flex items-center gap-2">
+                <Input id="appraisalDocument" type="file" accept=".pdf,image/*" disabled={isUploading} onChange={handleDocumentUpload} />
+                {isUploading && <Upload className="h-4 w-4 animate-pulse text-gray-500" />}
+                {form.documentPath && !isUploading && <FileText className="h-4 w-4 text-green-600" />}
+              </div>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="valuationNotes">Notes</Label>
+            <Textarea id="valuationNotes" rows={2} value={form.notes} onChange={(e) => updateField("notes", e.target.value)} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {navPreview !== null && <>NAV per unit: <span className="font-medium">{formatRupees(navPreview)}</span></>}
+            </p>
+            <Button
+              onClick={() => publishMutation.mutate()}
+              disabled={publishMutation.isPending || isUploading || !form.valuationDate || !form.value}
+            >
+              {publishMutation.isPending ? "Publishing..." : "Publish Valuation"}
+            </Button>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Valuation History</h3>
+            {history.length === 0 ? (
+              <p className="text-sm text-gray-500">No valuations recorded for this property yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead className="text-right">Value</TableHead>
+                    <TableHead className="text-right">NAV / Unit</TableHead>
+                    <TableHead>Report</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {[...history].reverse().map(valuation => (
+                    <TableRow key={valuation.id}>
+                      <TableCell>{formatDate(valuation.valuationDate)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className="capitalize">{valuation.source}</Badge>
+                        {valuation.appraiserName && <div className="text-xs text-gray-500 mt-1">{valuation.appraiserName}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatRupees(valuation.value)}</TableCell>
+                      <TableCell className="text-right">{formatRupees(valuation.navPerUnit)}</TableCell>
+                      <TableCell>
+                        {valuation.documentPath ? (
+                          <a href={valuation.documentPath} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline text-sm">
+                            View
+                          </a>
+                        ) : "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,7 +9,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Phone, Mail, MapPin, MessageCircle, Linkedin, Twitter, Instagram, Youtube, Clock } from "lucide-react";
-import type { InsertContact } from "@shared/schema";
+import type { ContactSubmission } from "@shared/schema";
 
 export default function ContactSection() {
   const [formData, setFormData] = useState({
@@ -19,6 +19,8 @@ export default function ContactSection() {
     investmentAmount: "",
     message: ""
   });
+  // Honeypot: hidden from people, so anything typed here came from a bot
+  const [website, setWebsite] = useState("");
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -36,8 +38,14 @@ export default function ContactSection() {
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 
+  // Issued when the form renders; the server uses it to spot submissions made too quickly
+  const { data: formToken, refetch: refetchFormToken } = useQuery<{ token: string }>({
+    queryKey: ['/api/contact/token'],
+    staleTime: Infinity,
+  });
+
   const submitContactMutation = useMutation({
-    mutationFn: async (data: InsertContact) => {
+    mutationFn: async (data: ContactSubmission) => {
       const response = await apiRequest("/api/contact", "POST", data);
       return response.json();
     },
@@ -53,6 +61,7 @@ export default function ContactSection() {
         investmentAmount: "",
         message: ""
       });
+      refetchFormToken();
       queryClient.invalidateQueries({ queryKey: ["/api/contacts"] });
     },
     onError: () => {
@@ -74,7 +83,7 @@ export default function ContactSection() {
       });
       return;
     }
-    submitContactMutation.mutate(formData);
+    submitContactMutation.mutate({ ...formData, website, formToken: formToken?.token });
   };
 
   const handleInputChange = (field: string, value: string) => {
@@ -167,6 +176,18 @@ export default function ContactSection() {
             <CardContent className="p-8">
               <h3 className="text-2xl font-semibold mb-6">Get Started Today</h3>
               <form onSubmit={handleSubmit} className="space-y-6">
+                <div className="absolute -left-[9999px]" aria-hidden="true">
+                  <label htmlFor="contact-website">Website</label>
+                  <input
+                    id="contact-website"
+                    type="text"
+                    name="website"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={website}
+                    onChange={(e) => setWebsite(e.target.value)}
+                  />
+                </div>
                 <div>
                   <Label className="block text-sm font-medium text-gray-700 mb-2">Full Name *</Label>
                   <Input
@@ -3,15 +3,21 @@ import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { Menu } from "lucide-react";
 import { OTPLoginDialog } from "@/components/auth/otp-login-dialog";
+import { KycDialog, useKycStatus } from "@/components/kyc-dialog";
 import { useAuth } from "@/hooks/use-auth";
+import { NotificationBell } from "@/components/notification-bell";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 
 export default function Header() {
   const [isOpen, setIsOpen] = useState(false);
   const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const [showKycDialog, setShowKycDialog] = useState(false);
   const { user, isAuthenticated, login, logout } = useAuth();
   const [location, setLocation] = useLocation();
+  const { data: kyc } = useKycStatus(isAuthenticated);
+
+  const kycLabel = kyc?.status === "approved" ? "KYC Verified" : kyc?.status === "pending" ? "KYC Pending" : "Complete KYC";
 
   // Fetch site logo from admin settings
   const { data: siteSettings } = useQuery({
@@ -112,9 +118,34 @@ export default function Header() {
             <div className="flex items-center space-x-4">
               {isAuthenticated && user ? (
                 <div className="flex items-center space-x-3">
+                  <NotificationBell />
                   <span className="text-sm text-gray-700">
                     Welcome, <span className="font-medium text-fractown-primary">{user.name}</span>
                   </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-600 hover:text-fractown-primary"
+                    onClick={() => setLocation('/portfolio')}
+                  >
+                    Portfolio
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-600 hover:text-fractown-primary"
+                    onClick={() => setLocation('/watchlist')}
+                  >
+                    Watchlist
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-gray-600 hover:text-fractown-primary"
+                    onClick={() => setShowKycDialog(true)}
+                  >
+                    {kycLabel}
+                  </Button>
                   <Button 
                     variant="outline" 
                     size="sm"
@@ -146,7 +177,8 @@ export default function Header() {
               </Button>
             </div>
           </div>
-          <div className="md:hidden">
+          <div className="md:hidden flex items-center">
+            {isAuthenticated && user && <NotificationBell />}
             <Sheet open={isOpen} onOpenChange={setIsOpen}>
               <SheetTrigger asChild>
                 <Button variant="ghost" size="icon">
@@ -170,6 +202,36 @@ export default function Header() {
                         <p className="text-sm text-gray-700">
                           Welcome, <span className="font-medium text-fractown-primary">{user.name}</span>
                         </p>
+                        <Button
+                          variant="ghost"
+                          className="w-full justify-start"
+                          onClick={() => {
+                            setLocation('/portfolio');
+                            setIsOpen(false);
+                          }}
+                        >
+                          Portfolio
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="w-full justify-start"
+                          onClick={() => {
+                            setLocation('/watchlist');
+                            setIsOpen(false);
+                          }}
+                        >
+                          Watchlist
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          className="w-full justify-start"
+                          onClick={() => {
+                            setShowKycDialog(true);
+                            setIsOpen(false);
+                          }}
+                        >
+                          {kycLabel}
+                        </Button>
                         <Button 
                           variant="outline" 
                           className="w-full justify-start"
@@ -221,6 +283,8 @@ export default function Header() {
         onOpenChange={setShowLoginDialog}
         onSuccess={handleLoginSuccess}
       />
+
+      <KycDialog open={showKycDialog} onOpenChange={setShowKycDialog} />
     </header>
   );
 }
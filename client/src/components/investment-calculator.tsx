@@ -1,116 +1,282 @@
-import { useState } from "react";
-import { Card, CardContent } from "@/components/ui/card";
+import { useEffect, useState } from "react";
+import { useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-
-export default function InvestmentCalculator() {
-  const [investment, setInvestment] = useState(50000);
-  const [returnRate, setReturnRate] = useState([10]);
-  const [period, setPeriod] = useState("3");
-
-  const calculateReturns = () => {
-    const annualGrowthRate = returnRate[0] / 100;
-    const futureValue = investment * Math.pow(1 + annualGrowthRate, parseInt(period));
-    const totalReturn = futureValue - investment;
-    const roi = ((totalReturn / investment) * 100).toFixed(0);
-
-    return {
-      futureValue: futureValue.toLocaleString('en-IN'),
-      totalReturn: totalReturn.toLocaleString('en-IN'),
-      roi
-    };
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Calculator, Link2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Property } from "@shared/schema";
+import {
+  SCENARIO_LIMITS,
+  projectInvestment,
+  clampScenario,
+  encodeScenario,
+  decodeScenario,
+  defaultCapitalGainsTaxRate,
+  type CalculatorAssumptions,
+  type InvestmentScenario
+} from "@shared/investmentScenario";
+
+interface InvestmentCalculatorProps {
+  property: Property;
+}
+
+const formatRupees = (amount: number) => `₹${Math.round(amount).toLocaleString('en-IN')}`;
+
+function RateInput({ id, label, value, onChange, hint }: {
+  id: string;
+  label: string;
+  value: number;
+  onChange: (value: number) => void;
+  hint?: string;
+}) {
+  return (
+    <div>
+      <Label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-2">{label}</Label>
+      <Input
+        id={id}
+        type="number"
+        step="0.1"
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+      {hint && <p className="text-xs text-gray-500 mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+/**
+ * Projects an investment in a property year by year, with rental yield, appreciation,
+ * exit fee, TDS and capital gains tax; the scenario can be shared as a URL
+ */
+export default function InvestmentCalculator({ property }: InvestmentCalculatorProps) {
+  const search = useSearch();
+  const { toast } = useToast();
+  const [scenario, setScenario] = useState<InvestmentScenario | null>(null);
+  // Capital gains tax follows the holding period until the investor sets it
+  const [isTaxRateEdited, setIsTaxRateEdited] = useState(false);
+
+  const { data: assumptions } = useQuery<CalculatorAssumptions>({
+    queryKey: ["/api/properties", property.id, "calculator"],
+    queryFn: async () => {
+      const response = await fetch(`/api/properties/${property.id}/calculator`);
+      if (!response.ok) throw new Error("Failed to load calculator assumptions");
+      return response.json();
+    },
+  });
+
+  // Start from a shared scenario in the URL, otherwise from the property's assumptions
+  useEffect(() => {
+    if (!assumptions || scenario) return;
+    const params = new URLSearchParams(search);
+    const years = 5;
+    setScenario(decodeScenario(params, {
+      amount: assumptions.minInvestment,
+      years,
+      rentalYield: assumptions.rentalYield,
+      appreciationRate: assumptions.appreciationRate,
+      exitFeeRate: assumptions.exitFeeRate,
+      tdsRate: assumptions.tdsRate,
+      capitalGainsTaxRate: defaultCapitalGainsTaxRate(assumptions, Number(params.get("years")) || years),
+    }));
+    setIsTaxRateEdited(params.has("cgt"));
+  }, [assumptions, scenario, search]);
+
+  if (!assumptions || !scenario) {
+    return (
+      <Card>
+        <CardContent className="py-8">
+          <div className="h-64 bg-gray-200 rounded animate-pulse"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const update = (changes: Partial<InvestmentScenario>) => {
+    const next = clampScenario({ ...scenario, ...changes });
+    if (!isTaxRateEdited && changes.years !== undefined) {
+      next.capitalGainsTaxRate = defaultCapitalGainsTaxRate(assumptions, next.years);
+    }
+    setScenario(next);
   };
 
-  const returns = calculateReturns();
+  const projection = projectInvestment(scenario);
+
+  const shareScenario = async () => {
+    const url = `${window.location.origin}${window.location.pathname}?${encodeScenario(scenario)}#calculator`;
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({ title: "Link Copied", description: "Anyone with the link sees this scenario." });
+    } catch {
+      toast({ title: "Scenario Saved", description: "Copy the link from the address bar to share it." });
+    }
+  };
 
   return (
-    <section className="py-16 bg-gray-50">
-      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="text-center mb-12">
-          <h2 className="text-3xl md:text-4xl font-bold text-gray-900 mb-4">Calculate Your Returns</h2>
-          <p className="text-xl text-gray-600">See how your investment can grow over time</p>
+    <Card id="calculator">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+        <div>
+          <CardTitle className="flex items-center">
+            <Calculator className="w-5 h-5 mr-2" />
+            Investment Calculator
+          </CardTitle>
+          <CardDescription>
+            {assumptions.valuationCount >= 2
+              ? `Appreciation defaults to the growth across ${assumptions.valuationCount} published valuations; the rest of the ${assumptions.expectedReturn ?? 0}% expected return is rental yield`
+              : `No valuation history yet, so the ${assumptions.expectedReturn ?? 0}% expected return is treated as rental yield`}
+          </CardDescription>
         </div>
-        
-        <div className="max-w-4xl mx-auto bg-white rounded-2xl p-8 shadow-sm">
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            <div className="space-y-6">
+        <Button variant="outline" size="sm" onClick={shareScenario}>
+          <Link2 className="w-4 h-4 mr-2" />
+          Share Scenario
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
               <div>
-                <Label className="block text-sm font-medium text-gray-700 mb-2">Investment Amount</Label>
+                <Label htmlFor="calc-amount" className="block text-sm font-medium text-gray-700 mb-2">Investment Amount</Label>
                 <div className="relative">
                   <span className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-500">₹</span>
                   <Input
+                    id="calc-amount"
                     type="number"
-                    value={investment}
-                    onChange={(e) => setInvestment(Number(e.target.value))}
-                    placeholder="50000"
+                    value={scenario.amount}
+                    onChange={(e) => update({ amount: Number(e.target.value) })}
                     className="pl-8"
                   />
                 </div>
+                {scenario.amount < assumptions.minInvestment && (
+                  <p className="text-xs text-amber-600 mt-1">Minimum investment is {formatRupees(assumptions.minInvestment)}</p>
+                )}
               </div>
-              
-              <div>
-                <Label className="block text-sm font-medium text-gray-700 mb-2">Expected Annual Return</Label>
-                <div className="relative">
-                  <Slider
-                    value={returnRate}
-                    onValueChange={setReturnRate}
-                    max={15}
-                    min={6}
-                    step={0.1}
-                    className="w-full"
-                  />
-                  <div className="flex justify-between text-sm text-gray-500 mt-1">
-                    <span>6%</span>
-                    <span>{returnRate[0]}%</span>
-                    <span>15%</span>
-                  </div>
-                </div>
-              </div>
-              
               <div>
-                <Label className="block text-sm font-medium text-gray-700 mb-2">Investment Period</Label>
-                <Select value={period} onValueChange={setPeriod}>
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="1">1 Year</SelectItem>
-                    <SelectItem value="3">3 Years</SelectItem>
-                    <SelectItem value="5">5 Years</SelectItem>
-                    <SelectItem value="10">10 Years</SelectItem>
-                  </SelectContent>
-                </Select>
+                <Label htmlFor="calc-years" className="block text-sm font-medium text-gray-700 mb-2">Holding Period (years)</Label>
+                <Input
+                  id="calc-years"
+                  type="number"
+                  min={SCENARIO_LIMITS.years.min}
+                  max={SCENARIO_LIMITS.years.max}
+                  value={scenario.years}
+                  onChange={(e) => update({ years: Number(e.target.value) })}
+                />
               </div>
             </div>
-            
-            <Card className="shadow-sm">
-              <CardContent className="pt-6">
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Projected Returns</h3>
-                <div className="space-y-4">
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600">Initial Investment</span>
-                    <span className="font-semibold text-gray-900">₹{investment.toLocaleString('en-IN')}</span>
-                  </div>
-                  <div className="flex justify-between items-center">
-                    <span className="text-gray-600">Future Value ({period} Years)</span>
-                    <span className="font-semibold text-fractown-primary">₹{returns.futureValue}</span>
-                  </div>
-                  <hr className="border-gray-200" />
-                  <div className="flex justify-between items-center text-lg">
-                    <span className="font-semibold text-gray-900">Total Return ({period} Years)</span>
-                    <span className="font-bold text-fractown-accent text-xl">₹{returns.totalReturn}</span>
-                  </div>
-                  <div className="text-sm text-gray-500">
-                    Total ROI: <span className="font-semibold text-fractown-secondary">{returns.roi}%</span>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
+
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">Rental Yield: {scenario.rentalYield}% p.a.</Label>
+              <Slider
+                value={[scenario.rentalYield]}
+                onValueChange={([value]) => update({ rentalYield: value })}
+                min={0}
+                max={20}
+                step={0.1}
+              />
+            </div>
+
+            <div>
+              <Label className="block text-sm font-medium text-gray-700 mb-2">Capital Appreciation: {scenario.appreciationRate}% p.a.</Label>
+              <Slider
+                value={[scenario.appreciationRate]}
+                onValueChange={([value]) => update({ appreciationRate: value })}
+                min={-10}
+                max={20}
+                step={0.1}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <RateInput id="calc-exit-fee" label="Exit Fee (%)" value={scenario.exitFeeRate} onChange={(value) => update({ exitFeeRate: value })} />
+              <RateInput id="calc-tds" label="TDS on Rent (%)" value={scenario.tdsRate} onChange={(value) => update({ tdsRate: value })} />
+              <RateInput
+                id="calc-cgt"
+                label="Capital Gains Tax (%)"
+                value={scenario.capitalGainsTaxRate}
+                onChange={(value) => {
+                  setIsTaxRateEdited(true);
+                  update({ capitalGainsTaxRate: value });
+                }}
+                hint={scenario.years >= assumptions.longTermHoldingYears ? "Long-term rate" : "Short-term rate"}
+              />
+            </div>
+          </div>
+
+          <div className="rounded-xl border p-6 space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900">Projected Returns</h3>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600">Rental Income (after TDS)</span>
+              <span className="font-semibold text-gray-900">{formatRupees(projection.totalRentalIncome)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600">Sale Value ({scenario.years} {scenario.years === 1 ? "Year" : "Years"})</span>
+              <span className="font-semibold text-gray-900">{formatRupees(projection.grossSaleValue)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-gray-500">Exit Fee</span>
+              <span className="text-gray-700">−{formatRupees(projection.exitFee)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-gray-500">Capital Gains Tax</span>
+              <span className="text-gray-700">−{formatRupees(projection.capitalGainsTax)}</span>
+            </div>
+            <hr className="border-gray-200" />
+            <div className="flex justify-between items-center text-lg">
+              <span className="font-semibold text-gray-900">Total Return</span>
+              <span className={`font-bold text-xl ${projection.totalReturn >= 0 ? "text-fractown-accent" : "text-red-600"}`}>
+                {formatRupees(projection.totalReturn)}
+              </span>
+            </div>
+            <div className="text-sm text-gray-500">
+              IRR: <span className="font-semibold text-fractown-secondary">
+                {projection.irr === null ? "—" : `${projection.irr.toFixed(2)}%`}
+              </span>
+            </div>
           </div>
         </div>
-      </div>
-    </section>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Year</TableHead>
+              <TableHead className="text-right">Holding Value</TableHead>
+              <TableHead className="text-right">Rental Income</TableHead>
+              <TableHead className="text-right">TDS</TableHead>
+              <TableHead className="text-right">Sale Proceeds</TableHead>
+              <TableHead className="text-right">Cash Flow</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell>0</TableCell>
+              <TableCell className="text-right">{formatRupees(scenario.amount)}</TableCell>
+              <TableCell className="text-right">—</TableCell>
+              <TableCell className="text-right">—</TableCell>
+              <TableCell className="text-right">—</TableCell>
+              <TableCell className="text-right text-red-600">−{formatRupees(scenario.amount)}</TableCell>
+            </TableRow>
+            {projection.years.map(year => (
+              <TableRow key={year.year}>
+                <TableCell>{year.year}</TableCell>
+                <TableCell className="text-right">{formatRupees(year.closingValue)}</TableCell>
+                <TableCell className="text-right">{formatRupees(year.rentalIncome)}</TableCell>
+                <TableCell className="text-right">−{formatRupees(year.tds)}</TableCell>
+                <TableCell className="text-right">{year.saleProceeds ? formatRupees(year.saleProceeds) : "—"}</TableCell>
+                <TableCell className="text-right font-medium">{formatRupees(year.cashFlow)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <p className="text-xs text-gray-500">
+          Projections are illustrative and not guaranteed. TDS is shown as withheld cash; it may be credited against your income tax.
+        </p>
+      </CardContent>
+    </Card>
   );
 }
@@ -0,0 +1,398 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { CheckCircle, Clock, XCircle, Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getAuthHeaders } from '@/hooks/use-auth';
+import { kycSubmissionSchema, type KycSubmission } from '@shared/kycValidation';
+import type { KycRecord } from '@shared/schema';
+
+type KycStatusRecord = Omit<KycRecord, 'bankAccountNumberEncrypted'>;
+
+const DOCUMENT_FIELDS = [
+  { name: 'panDocumentPath', label: 'PAN Card' },
+  { name: 'aadhaarDocumentPath', label: 'Aadhaar (front and back)' },
+  { name: 'selfiePath', label: 'Selfie' },
+] as const;
+
+interface KycDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function useKycStatus(enabled: boolean) {
+  return useQuery<KycStatusRecord | null>({
+    queryKey: ['/api/me/kyc'],
+    enabled,
+    queryFn: async () => {
+      const response = await fetch('/api/me/kyc', { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error('Failed to load KYC status');
+      return response.json();
+    },
+  });
+}
+
+export function KycDialog({ open, onOpenChange }: KycDialogProps) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { data: kyc } = useKycStatus(open);
+
+  const form = useForm<KycSubmission>({
+    resolver: zodResolver(kycSubmissionSchema),
+    defaultValues: {
+      fullName: '',
+      dateOfBirth: '',
+      panNumber: '',
+      aadhaarNumber: '',
+      addressLine1: '',
+      addressLine2: '',
+      city: '',
+      state: '',
+      pincode: '',
+      bankAccountName: '',
+      bankAccountNumber: '',
+      ifscCode: '',
+      panDocumentPath: '',
+      aadhaarDocumentPath: '',
+      selfiePath: '',
+    },
+  });
+
+  const uploadDocument = async (fieldName: typeof DOCUMENT_FIELDS[number]['name'], file: File) => {
+    setUploading(fieldName);
+    try {
+      const uploadResponse = await fetch('/api/me/kyc/documents/upload', {
+        method: 'POST',
+        headers: getAuthHeaders(),
+      });
+      if (!uploadResponse.ok) {
+        throw new Error('Failed to get upload URL');
+      }
+
+      const { uploadURL } = await uploadResponse.json();
+      const fileResponse = await fetch(uploadURL, {
+        method: 'PUT',
+        body: file,
+        headers: { 'Content-Type': file.type },
+      });
+      if (!fileResponse.ok) {
+        throw new Error(`Failed to upload ${file.name}`);
+      }
+
+      // Extract object ID from upload URL and create normalized path
+      const objectId = uploadURL.split('/').pop().split('?')[0];
+      form.setValue(fieldName, `/objects/kyc/${objectId}`, { shouldValidate: true });
+    } catch (error: any) {
+      toast({
+        title: 'Upload Failed',
+        description: error.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const onSubmit = async (data: KycSubmission) => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/me/kyc', {
+        method: 'POST',
+        body: JSON.stringify(data),
+        headers: {
+          ...getAuthHeaders(),
+          'Content-Type': 'application/json',
+        },
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'KYC submission failed');
+      }
+
+      queryClient.setQueryData(['/api/me/kyc'], result);
+      toast({
+        title: 'KYC Submitted',
+        description: 'We will review your details shortly.',
+      });
+      form.reset();
+    } catch (error: any) {
+      toast({
+        title: 'Submission Failed',
+        description: error.message || 'Please try again.',
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showForm = !kyc || kyc.status === 'rejected';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[600px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>KYC Verification</DialogTitle>
+          <DialogDescription>
+            We verify your identity and bank account before you can invest.
+          </DialogDescription>
+        </DialogHeader>
+
+        {kyc?.status === 'approved' && (
+          <Alert className="border-green-200 bg-green-50">
+            <CheckCircle className="h-4 w-4 text-green-600" />
+            <AlertDescription className="text-green-800">
+              Your KYC is approved. Payouts go to the account ending {kyc.bankAccountLast4}.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {kyc?.status === 'pending' && (
+          <Alert className="border-yellow-200 bg-yellow-50">
+            <Clock className="h-4 w-4 text-yellow-600" />
+            <AlertDescription className="text-yellow-800">
+              Your KYC is under review. You can invest once it is approved.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {kyc?.status === 'rejected' && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertDescription>
+              Your KYC was rejected: {kyc.rejectionReason}. Please correct your details and resubmit.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {showForm && (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="fullName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full Name (as on PAN)</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="dateOfBirth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Date of Birth</FormLabel>
+                      <FormControl>
+                        <Input type="date" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="panNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>PAN</FormLabel>
+                      <FormControl>
+                        <Input placeholder="ABCPE1234F" className="uppercase" maxLength={10} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="aadhaarNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Aadhaar Number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="1234 5678 9012" maxLength={14} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="addressLine1"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="addressLine2"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormControl>
+                      <Input placeholder="Apartment, landmark (optional)" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="city"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>City</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="state"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>State</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="pincode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>PIN Code</FormLabel>
+                      <FormControl>
+                        <Input maxLength={6} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="bankAccountName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account Holder</FormLabel>
+                      <FormControl>
+                        <Input {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="bankAccountNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Account Number</FormLabel>
+                      <FormControl>
+                        <Input inputMode="numeric" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="ifscCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>IFSC</FormLabel>
+                      <FormControl>
+                        <Input placeholder="HDFC0001234" className="uppercase" maxLength={11} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="space-y-3">
+                {DOCUMENT_FIELDS.map(document => (
+                  <FormField
+                    key={document.name}
+                    control={form.control}
+                    name={document.name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{document.label}</FormLabel>
+                        <div className="flex items-center gap-3">
+                          <FormControl>
+                            <Input
+                              type="file"
+                              accept="image/*,application/pdf"
+                              disabled={uploading !== null}
+                              onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) uploadDocument(document.name, file);
+                              }}
+                            />
+                          </FormControl>
+                          {uploading === document.name && <Upload className="h-4 w-4 animate-pulse text-gray-500" />}
+                          {field.value && uploading !== document.name && <CheckCircle className="h-4 w-4 text-green-600" />}
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading || uploading !== null}>
+                {isLoading ? 'Submitting...' : 'Submit for Verification'}
+              </Button>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
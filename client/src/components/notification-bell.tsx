@@ -0,0 +1,95 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { Bell, Settings } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { NotificationPreferencesDialog } from "@/components/notification-preferences-dialog";
+import { useNotifications } from "@/hooks/use-notifications";
+
+const BELL_LIMIT = 8;
+
+const formatWhen = (value: string | Date) => {
+  const minutes = Math.round((Date.now() - new Date(value).getTime()) / 60000);
+  if (minutes < 1) return "just now";
+  if (minutes < 60) return `${minutes}m ago`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)}h ago`;
+  return new Date(value).toLocaleDateString("en-IN", { month: "short", day: "numeric" });
+};
+
+export function NotificationBell() {
+  const [, setLocation] = useLocation();
+  const [showPreferences, setShowPreferences] = useState(false);
+  const { notifications, unreadCount, markRead } = useNotifications();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative text-gray-600 hover:text-fractown-primary" aria-label="Notifications">
+            <Bell className="h-5 w-5" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-500 text-white text-[10px] leading-[1.1rem] text-center">
+                {unreadCount > 9 ? "9+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-80">
+          <DropdownMenuLabel className="flex items-center justify-between">
+            <span>Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                type="button"
+                className="text-xs font-normal text-fractown-primary hover:underline"
+                onClick={() => markRead()}
+              >
+                Mark all read
+              </button>
+            )}
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          {notifications.length === 0 ? (
+            <div className="px-2 py-6 text-center text-sm text-gray-500">You're all caught up.</div>
+          ) : (
+            notifications.slice(0, BELL_LIMIT).map(notification => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-0.5 cursor-pointer"
+                onSelect={() => {
+                  if (!notification.readAt) markRead([notification.id]);
+                  if (notification.propertyId) setLocation(`/property/${notification.propertyId}`);
+                }}
+              >
+                <div className="flex w-full items-center justify-between gap-2">
+                  <span className={`text-sm ${notification.readAt ? "text-gray-700" : "font-semibold text-gray-900"}`}>
+                    {notification.title}
+                  </span>
+                  {!notification.readAt && <span className="h-2 w-2 rounded-full bg-fractown-primary flex-shrink-0" />}
+                </div>
+                <span className="text-xs text-gray-600 line-clamp-2">{notification.message}</span>
+                <span className="text-[11px] text-gray-400">{formatWhen(notification.createdAt)}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => setLocation("/watchlist")} className="cursor-pointer">
+            View all
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setShowPreferences(true)} className="cursor-pointer">
+            <Settings className="h-4 w-4 mr-2" />
+            Notification preferences
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <NotificationPreferencesDialog open={showPreferences} onOpenChange={setShowPreferences} />
+    </>
+  );
+}
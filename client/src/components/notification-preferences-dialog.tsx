@@ -0,0 +1,107 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshCw } from "lucide-react";
+import { useNotificationPreferences } from "@/hooks/use-notifications";
+import {
+  NOTIFICATION_CHANNELS,
+  NOTIFICATION_CHANNEL_LABELS,
+  NOTIFICATION_TOPICS,
+  NOTIFICATION_TOPIC_CHANNELS,
+  NOTIFICATION_TOPIC_LABELS,
+  isRequiredNotificationPreference,
+} from "@shared/notifications";
+import { TEMPLATE_LOCALES, TEMPLATE_LOCALE_LABELS, type TemplateLocale } from "@shared/notificationTemplates";
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NotificationPreferencesDialog({ open, onOpenChange }: NotificationPreferencesDialogProps) {
+  const { preferences, locale, isLoading, setPreference, setLocale, isSaving } = useNotificationPreferences(open);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Notification Preferences</DialogTitle>
+          <DialogDescription>
+            Choose how fractOWN reaches you about each kind of update
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !preferences ? (
+          <div className="flex items-center justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin text-blue-600 mr-3" />
+            <span>Loading preferences...</span>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <div className="text-sm font-medium text-gray-900">Language</div>
+                <div className="text-xs text-gray-500">Used for SMS, email and in-app messages</div>
+              </div>
+              <Select value={locale} onValueChange={(value) => setLocale(value as TemplateLocale)} disabled={isSaving}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TEMPLATE_LOCALES.map(option => (
+                    <SelectItem key={option} value={option}>{TEMPLATE_LOCALE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left font-medium text-gray-700 py-2">Topic</th>
+                  {NOTIFICATION_CHANNELS.map(channel => (
+                    <th key={channel} className="text-center font-medium text-gray-700 py-2 w-20">
+                      {NOTIFICATION_CHANNEL_LABELS[channel]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {NOTIFICATION_TOPICS.map(topic => (
+                  <tr key={topic}>
+                    <td className="py-3 pr-4">
+                      <div className="font-medium text-gray-900">{NOTIFICATION_TOPIC_LABELS[topic].label}</div>
+                      <div className="text-xs text-gray-500">{NOTIFICATION_TOPIC_LABELS[topic].description}</div>
+                    </td>
+                    {NOTIFICATION_CHANNELS.map(channel => (
+                      <td key={channel} className="text-center py-3">
+                        {NOTIFICATION_TOPIC_CHANNELS[topic].includes(channel) ? (
+                          <Switch
+                            checked={preferences[topic][channel] ?? false}
+                            disabled={isSaving || isRequiredNotificationPreference(topic, channel)}
+                            onCheckedChange={(checked) => setPreference(topic, channel, checked)}
+                            aria-label={`${NOTIFICATION_TOPIC_LABELS[topic].label} by ${NOTIFICATION_CHANNEL_LABELS[channel]}`}
+                          />
+                        ) : (
+                          <span className="text-gray-300">—</span>
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+        <p className="text-xs text-gray-500">
+          Login codes by SMS are always sent. Email and SMS also depend on those channels being enabled for the platform.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
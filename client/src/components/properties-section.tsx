@@ -1,35 +1,68 @@
-import { useState, useMemo } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState } from "react";
+import { useInfiniteQuery, keepPreviousData } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Columns3, X } from "lucide-react";
 import PropertyCard from "./property-card";
-import type { Property } from "@shared/schema";
 import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
+import { useCustomFieldDefinitions } from "@/hooks/use-custom-fields";
+import { useCompareSelection } from "@/hooks/use-compare";
+import { PROPERTY_STATUS_LABELS, type PropertyStatus } from "@shared/propertyLifecycle";
+import { PROPERTY_SEARCH_SORTS, PROPERTY_SEARCH_SORT_LABELS, type PropertySearchResult, type PropertySearchSort } from "@shared/propertySearch";
+import { MIN_COMPARE_PROPERTIES, MAX_COMPARE_PROPERTIES } from "@shared/propertyComparison";
+
+const PAGE_SIZE = 9;
+
+const facetLabel = (value: string) => value === "true" ? "Yes" : value === "false" ? "No" : value;
 
 export default function PropertiesSection() {
   const [selectedCity, setSelectedCity] = useState<string>("all");
+  const [searchInput, setSearchInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [propertyType, setPropertyType] = useState("all");
+  const [status, setStatus] = useState("all");
+  const [sort, setSort] = useState<PropertySearchSort>("relevance");
+  const [customFieldFilters, setCustomFieldFilters] = useState<Record<string, string>>({});
   const [, setLocation] = useLocation();
-  
+  const { fieldDefinitions } = useCustomFieldDefinitions();
+  const compare = useCompareSelection();
+
   // Enable real-time updates
   useRealtimeUpdates();
 
-  const { data: properties, isLoading } = useQuery<Property[]>({
-    queryKey: ["/api/properties"],
+  const searchParams = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+  if (query) searchParams.set("q", query);
+  if (selectedCity !== "all") searchParams.set("city", selectedCity);
+  if (propertyType !== "all") searchParams.set("propertyType", propertyType);
+  if (status !== "all") searchParams.set("status", status);
+  Object.entries(customFieldFilters).forEach(([fieldId, value]) => searchParams.set(`cf[${fieldId}]`, value));
+
+  // Keyed under /api/properties so realtime property updates refresh the results
+  const { data, isLoading, isFetching, fetchNextPage, hasNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: ["/api/properties", "search", searchParams.toString()],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(searchParams);
+      if (pageParam) params.set("cursor", pageParam);
+      const response = await fetch(`/api/properties/search?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to search properties");
+      }
+      return response.json() as Promise<PropertySearchResult>;
+    },
+    initialPageParam: "",
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    placeholderData: keepPreviousData,
   });
 
-  // Dynamically generate city tabs based on actual property data
-  const availableCities = useMemo(() => {
-    if (!properties || properties.length === 0) return ["All Properties"];
-    
-    const citySet = new Set(properties.map(property => property.city));
-    const uniqueCities = Array.from(citySet);
-    return ["All Properties", ...uniqueCities.sort()];
-  }, [properties]);
+  const pages = data?.pages ?? [];
+  const properties = pages.flatMap(page => page.items);
+  const total = pages[0]?.total ?? 0;
+  // Facets come with the first page; each one ignores its own filter so the other choices stay listed
+  const facets = pages[0]?.facets;
 
-  const filteredProperties = properties?.filter(property => {
-    if (selectedCity === "all") return true;
-    return property.city.toLowerCase() === selectedCity.toLowerCase();
-  }) || [];
+  const facetFields = fieldDefinitions.filter(field => (facets?.customFields[field.id]?.length ?? 0) > 0);
 
   const handleViewDetails = (id: string) => {
     setLocation(`/property/${id}`);
@@ -39,8 +72,11 @@ export default function PropertiesSection() {
     }, 100);
   };
 
-  const handleCityFilter = (city: string) => {
-    setSelectedCity(city === "All Properties" ? "all" : city);
+  const handleCustomFieldFilter = (fieldId: string, value: string) => {
+    setCustomFieldFilters(current => {
+      const { [fieldId]: removed, ...rest } = current;
+      return value === "all" ? rest : { ...rest, [fieldId]: value };
+    });
   };
 
   if (isLoading) {
@@ -67,50 +103,153 @@ export default function PropertiesSection() {
             Handpicked premium properties across major Indian cities
           </p>
         </div>
-        
+
+        {/* Search and Filters */}
+        <div className="flex flex-col lg:flex-row gap-3 mb-6">
+          <form
+            className="flex flex-1 gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setQuery(searchInput.trim());
+            }}
+          >
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name, location or description"
+              className="bg-white"
+            />
+            <Button type="submit" className="bg-fractown-primary text-white">
+              <Search className="h-4 w-4" />
+            </Button>
+          </form>
+
+          <Select value={propertyType} onValueChange={setPropertyType}>
+            <SelectTrigger className="lg:w-44 bg-white">
+              <SelectValue placeholder="Property type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All types</SelectItem>
+              {facets?.propertyType.map(({ value, count }) => (
+                <SelectItem key={value} value={value} className="capitalize">{value} ({count})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={status} onValueChange={setStatus}>
+            <SelectTrigger className="lg:w-44 bg-white">
+              <SelectValue placeholder="Funding status" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Any status</SelectItem>
+              {facets?.status.map(({ value, count }) => (
+                <SelectItem key={value} value={value}>
+                  {PROPERTY_STATUS_LABELS[value as PropertyStatus] ?? value} ({count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {facetFields.map(field => (
+            <Select
+              key={field.id}
+              value={customFieldFilters[field.id] ?? "all"}
+              onValueChange={(value) => handleCustomFieldFilter(field.id, value)}
+            >
+              <SelectTrigger className="lg:w-44 bg-white">
+                <SelectValue placeholder={field.displayName} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any {field.displayName.toLowerCase()}</SelectItem>
+                {facets?.customFields[field.id].map(({ value, count }) => (
+                  <SelectItem key={value} value={value}>{facetLabel(value)} ({count})</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ))}
+
+          <Select value={sort} onValueChange={(value) => setSort(value as PropertySearchSort)}>
+            <SelectTrigger className="lg:w-56 bg-white">
+              <SelectValue placeholder="Sort by" />
+            </SelectTrigger>
+            <SelectContent>
+              {PROPERTY_SEARCH_SORTS.map(option => (
+                <SelectItem key={option} value={option}>{PROPERTY_SEARCH_SORT_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Dynamic City Filters */}
         <div className="flex flex-wrap justify-center gap-4 mb-8">
-          {availableCities.map((city) => (
+          {[{ value: "all", count: facets?.city.reduce((sum, city) => sum + city.count, 0) ?? total }, ...(facets?.city ?? [])].map(({ value, count }) => (
             <Button
-              key={city}
-              onClick={() => handleCityFilter(city)}
-              variant={selectedCity === (city === "All Properties" ? "all" : city.toLowerCase()) ? "default" : "outline"}
+              key={value}
+              onClick={() => setSelectedCity(value)}
+              variant={selectedCity === value ? "default" : "outline"}
               className={`px-6 py-2 rounded-full text-sm font-medium ${
-                selectedCity === (city === "All Properties" ? "all" : city.toLowerCase())
+                selectedCity === value
                   ? "bg-fractown-primary text-white"
                   : "bg-white text-gray-600 border hover:text-fractown-primary"
               }`}
             >
-              {city}
+              {value === "all" ? "All Properties" : value} ({count})
             </Button>
           ))}
         </div>
 
         {/* Properties Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {filteredProperties.map((property) => (
+        <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 ${isFetching && !isFetchingNextPage ? "opacity-60" : ""}`}>
+          {properties.map((property) => (
             <PropertyCard
               key={property.id}
               property={property}
               onViewDetails={handleViewDetails}
+              isCompared={compare.isSelected(property.id)}
+              compareDisabled={compare.isFull}
+              onToggleCompare={compare.toggle}
             />
           ))}
         </div>
-        
-        {filteredProperties.length === 0 && !isLoading && (
+
+        {properties.length === 0 && !isFetching && (
           <div className="text-center py-12">
-            <p className="text-gray-600">No properties found for the selected city.</p>
+            <p className="text-gray-600">No properties match your search.</p>
+          </div>
+        )}
+
+        {compare.selectedIds.length > 0 && (
+          <div className="sticky bottom-4 z-10 mt-8 mx-auto w-fit flex items-center gap-3 rounded-full bg-white px-5 py-3 shadow-lg border">
+            <span className="text-sm text-gray-700">
+              {compare.selectedIds.length} of {MAX_COMPARE_PROPERTIES} selected to compare
+            </span>
+            <Button
+              size="sm"
+              onClick={() => setLocation(`/compare?ids=${compare.selectedIds.join(",")}`)}
+              disabled={compare.selectedIds.length < MIN_COMPARE_PROPERTIES}
+              className="bg-fractown-primary text-white rounded-full"
+            >
+              <Columns3 className="h-4 w-4 mr-2" />
+              Compare
+            </Button>
+            <Button size="sm" variant="ghost" onClick={compare.clear} title="Clear selection">
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        )}
+
+        {hasNextPage && (
+          <div className="text-center mt-12">
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="bg-white text-fractown-primary border-fractown-primary px-8 py-4 text-lg font-semibold hover:bg-fractown-primary hover:text-white"
+            >
+              {isFetchingNextPage ? "Loading..." : `Load More Properties (${properties.length} of ${total})`}
+            </Button>
           </div>
         )}
-        
-        <div className="text-center mt-12">
-          <Button
-            variant="outline"
-            className="bg-white text-fractown-primary border-fractown-primary px-8 py-4 text-lg font-semibold hover:bg-fractown-primary hover:text-white"
-          >
-            View All Properties
-          </Button>
-        </div>
       </div>
     </section>
   );
@@ -1,15 +1,30 @@
+import { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { MapPin } from "lucide-react";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MapPin, Heart } from "lucide-react";
 import type { Property } from "@shared/schema";
+import { PROPERTY_STATUS_LABELS, type PropertyStatus } from "@shared/propertyLifecycle";
+import { OTPLoginDialog } from "@/components/auth/otp-login-dialog";
+import { useAuth } from "@/hooks/use-auth";
+import { useWatchlist } from "@/hooks/use-watchlist";
 
 interface PropertyCardProps {
   property: Property;
   onViewDetails: (id: string) => void;
+  // Shown only where the comparison tray is available
+  isCompared?: boolean;
+  compareDisabled?: boolean;
+  onToggleCompare?: (id: string) => void;
 }
 
-export default function PropertyCard({ property, onViewDetails }: PropertyCardProps) {
+export default function PropertyCard({ property, onViewDetails, isCompared = false, compareDisabled = false, onToggleCompare }: PropertyCardProps) {
+  const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const { login } = useAuth();
+  const { isAuthenticated, isWatched, toggleWatch, isToggling } = useWatchlist();
+  const watched = isWatched(property.id);
+
   const formatCurrency = (amount: number) => {
     if (amount >= 10000000) {
       return `₹${(amount / 10000000).toFixed(1)} Cr`;
@@ -28,6 +43,8 @@ export default function PropertyCard({ property, onViewDetails }: PropertyCardPr
   };
 
   const getFundingBadgeText = (progress: number) => {
+    // Outside the live round the lifecycle status says more than the progress
+    if (property.status !== "live") return PROPERTY_STATUS_LABELS[property.status as PropertyStatus] ?? property.status;
     if (progress >= 95) return "Nearly Sold Out";
     return `${progress}% Funded`;
   };
@@ -57,15 +74,27 @@ export default function PropertyCard({ property, onViewDetails }: PropertyCardPr
 
   return (
     <Card className="bg-white rounded-2xl shadow-sm hover:shadow-lg transition-shadow overflow-hidden">
-      <img
-        src={getFirstImage()}
-        alt={property.name}
-        className="w-full h-48 object-cover"
-        onError={(e) => {
-          // Fallback to placeholder if image fails to load
-          e.currentTarget.src = 'https://images.unsplash.com/photo-1560518883-ce09059eeffa?w=400&h=300&fit=crop';
-        }}
-      />
+      <div className="relative">
+        <img
+          src={getFirstImage()}
+          alt={property.name}
+          className="w-full h-48 object-cover"
+          onError={(e) => {
+            // Fallback to placeholder if image fails to load
+            e.currentTarget.src = 'https://images.unsplash.com/photo-1560518883-ce09059eeffa?w=400&h=300&fit=crop';
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => isAuthenticated ? toggleWatch(property.id) : setShowLoginDialog(true)}
+          disabled={isToggling}
+          className="absolute top-3 right-3 rounded-full bg-white/90 p-2 shadow hover:bg-white"
+          title={watched ? "Remove from watchlist" : "Add to watchlist"}
+          aria-pressed={watched}
+        >
+          <Heart className={`w-5 h-5 ${watched ? "fill-red-500 text-red-500" : "text-gray-600"}`} />
+        </button>
+      </div>
       <CardContent className="p-6">
         <div className="flex items-center justify-between mb-2">
           <Badge className={`${getFundingBadgeColor(property.fundingProgress)} text-white`}>
@@ -107,6 +136,17 @@ export default function PropertyCard({ property, onViewDetails }: PropertyCardPr
           ></div>
         </div>
         
+        {onToggleCompare && (
+          <label className={`flex items-center gap-2 mb-4 text-sm ${compareDisabled && !isCompared ? "text-gray-400" : "text-gray-700 cursor-pointer"}`}>
+            <Checkbox
+              checked={isCompared}
+              disabled={compareDisabled && !isCompared}
+              onCheckedChange={() => onToggleCompare(property.id)}
+            />
+            Add to compare
+          </label>
+        )}
+
         <Button
           onClick={() => onViewDetails(property.id)}
           disabled={isNearlyDone}
@@ -119,6 +159,15 @@ export default function PropertyCard({ property, onViewDetails }: PropertyCardPr
           {isNearlyDone ? "Nearly Sold Out" : "View Details & Invest"}
         </Button>
       </CardContent>
+      <OTPLoginDialog
+        open={showLoginDialog}
+        onOpenChange={setShowLoginDialog}
+        onSuccess={(userData: any, sessionToken: string) => {
+          login(userData, sessionToken);
+          setShowLoginDialog(false);
+          toggleWatch(property.id);
+        }}
+      />
     </Card>
   );
 }
@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ArrowLeftRight, PauseCircle, X } from "lucide-react";
+import type { MarketOrder, Trade } from "@shared/schema";
+import { useAuth, getAuthHeaders } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+interface OrderBookLevel {
+  price: number;
+  units: number;
+  orders: number;
+}
+
+interface OrderBook {
+  tradingHalted: boolean;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  lastTradePrice: number | null;
+  recentTrades: Array<Pick<Trade, "id" | "units" | "price" | "createdAt">>;
+}
+
+interface PropertyMarketProps {
+  propertyId: string;
+  unitPrice: number;
+}
+
+const formatPrice = (price: number | string) =>
+  `₹${Number(price).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const BOOK_DEPTH = 8;
+
+export function PropertyMarket({ propertyId, unitPrice }: PropertyMarketProps) {
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [price, setPrice] = useState(unitPrice.toFixed(2));
+  const [units, setUnits] = useState("1");
+  const { isAuthenticated } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const marketKey = ["/api/properties", propertyId, "market"];
+
+  const { data: book } = useQuery<OrderBook>({
+    queryKey: marketKey,
+  });
+
+  const { data: mine } = useQuery<{ orders: MarketOrder[]; trades: Trade[] }>({
+    queryKey: [...marketKey, "mine"],
+    enabled: isAuthenticated,
+    queryFn: async () => {
+      const response = await fetch(`/api/properties/${propertyId}/market/mine`, { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to load your orders");
+      return response.json();
+    },
+  });
+
+  const placeOrderMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch(`/api/properties/${propertyId}/market/orders`, {
+        method: "POST",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ side, price, units }),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || "Failed to place order");
+      return result;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: marketKey });
+      toast({ title: "Order Placed", description: result.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Order Rejected", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelOrderMutation = useMutation({
+    mutationFn: async (orderId: string) => {
+      const response = await fetch(`/api/market/orders/${orderId}`, {
+        method: "DELETE",
+        headers: getAuthHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || "Failed to cancel order");
+      return result;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: marketKey });
+      toast({ title: "Order Cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (!book) return null;
+
+  const openOrders = (mine?.orders || []).filter(order => order.status === "open" || order.status === "partially_filled");
+  const orderValue = Number(price) * Number(units);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ArrowLeftRight className="w-5 h-5 mr-2" />
+          Secondary Market
+        </CardTitle>
+        <CardDescription>
+          Buy units from existing investors or list your units for sale.
+          {book.lastTradePrice !== null && <> Last traded at <span className="font-medium">{formatPrice(book.lastTradePrice)}</span> per unit.</>}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {book.tradingHalted && (
+          <Alert>
+            <PauseCircle className="h-4 w-4" />
+            <AlertDescription>Trading on this property is currently halted. Open orders stay on the book and can be cancelled.</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Bids</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {book.bids.length === 0 ? (
+                  <TableRow><TableCell colSpan={2} className="text-center text-gray-500">No bids</TableCell></TableRow>
+                ) : book.bids.slice(0, BOOK_DEPTH).map(level => (
+                  <TableRow key={level.price}>
+                    <TableCell className="text-green-600 font-medium">{formatPrice(level.price)}</TableCell>
+                    <TableCell className="text-right">{level.units.toLocaleString('en-IN')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Asks</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {book.asks.length === 0 ? (
+                  <TableRow><TableCell colSpan={2} className="text-center text-gray-500">No asks</TableCell></TableRow>
+                ) : book.asks.slice(0, BOOK_DEPTH).map(level => (
+                  <TableRow key={level.price}>
+                    <TableCell className="text-red-600 font-medium">{formatPrice(level.price)}</TableCell>
+                    <TableCell className="text-right">{level.units.toLocaleString('en-IN')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-4">
+            <h4 className="font-medium text-gray-900">Place Order</h4>
+            {!isAuthenticated ? (
+              <p className="text-sm text-gray-600">Log in to trade units of this property.</p>
+            ) : (
+              <>
+                <Tabs value={side} onValueChange={(value) => setSide(value as "buy" | "sell")}>
+                  <TabsList className="grid w-full grid-cols-2">
+                    <TabsTrigger value="buy">Buy</TabsTrigger>
+                    <TabsTrigger value="sell">Sell</TabsTrigger>
+                  </TabsList>
+                </Tabs>
+                <div>
+                  <Label htmlFor="orderPrice">Price per unit (₹)</Label>
+                  <Input id="orderPrice" type="number" min="0.01" step="0.01" value={price} onChange={(e) => setPrice(e.target.value)} />
+                </div>
+                <div>
+                  <Label htmlFor="orderUnits">Units</Label>
+                  <Input id="orderUnits" type="number" min="1" step="1" value={units} onChange={(e) => setUnits(e.target.value)} />
+                </div>
+                <p className="text-sm text-gray-600">
+                  Order value: <span className="font-medium">{Number.isFinite(orderValue) ? formatPrice(orderValue) : "—"}</span>
+                </p>
+                <Button
+                  className={`w-full ${side === "buy" ? "bg-green-600 hover:bg-green-700" : "bg-red-600 hover:bg-red-700"}`}
+                  disabled={book.tradingHalted || placeOrderMutation.isPending || !(Number(price) > 0) || !(Number(units) >= 1)}
+                  onClick={() => placeOrderMutation.mutate()}
+                >
+                  {placeOrderMutation.isPending ? "Placing..." : side === "buy" ? "Place Bid" : "List Units"}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+
+        {openOrders.length > 0 && (
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Your Open Orders</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Side</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="text-right">Remaining</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {openOrders.map(order => (
+                  <TableRow key={order.id}>
+                    <TableCell>
+                      <Badge className={order.side === "buy" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                        {order.side}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{formatPrice(order.price)}</TableCell>
+                    <TableCell className="text-right">{order.remainingUnits} / {order.units}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={cancelOrderMutation.isPending}
+                        onClick={() => cancelOrderMutation.mutate(order.id)}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {book.recentTrades.length > 0 && (
+          <div>
+            <h4 className="font-medium text-gray-900 mb-2">Recent Trades</h4>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="text-right">Units</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {book.recentTrades.map(trade => (
+                  <TableRow key={trade.id}>
+                    <TableCell>{new Date(trade.createdAt).toLocaleString('en-IN')}</TableCell>
+                    <TableCell>{formatPrice(trade.price)}</TableCell>
+                    <TableCell className="text-right">{trade.units.toLocaleString('en-IN')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
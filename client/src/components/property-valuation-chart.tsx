@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { LineChart as LineChartIcon, FileText } from "lucide-react";
+import type { PropertyValuation } from "@shared/schema";
+
+interface PropertyValuationChartProps {
+  propertyId: string;
+}
+
+const SOURCE_LABELS: Record<string, string> = {
+  appraisal: "Independent appraisal",
+  admin: "Platform update",
+  market: "Market-based",
+};
+
+const chartConfig: ChartConfig = {
+  navPerUnit: { label: "NAV per unit", color: "#2563eb" },
+};
+
+const formatCurrency = (amount: number) => {
+  if (amount >= 10000000) {
+    return `₹${(amount / 10000000).toFixed(2)} Cr`;
+  } else if (amount >= 100000) {
+    return `₹${(amount / 100000).toFixed(2)} L`;
+  } else {
+    return `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+  }
+};
+
+const formatDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-IN', { day: "numeric", month: "short", year: "numeric" });
+
+export function PropertyValuationChart({ propertyId }: PropertyValuationChartProps) {
+  const { data: valuations = [] } = useQuery<PropertyValuation[]>({
+    queryKey: ["/api/properties", propertyId, "valuations"],
+  });
+
+  if (valuations.length === 0) return null;
+
+  const latest = valuations[valuations.length - 1];
+  const first = valuations[0];
+  const change = ((latest.value - first.value) / first.value) * 100;
+  const data = valuations.map(valuation => ({
+    date: formatDate(valuation.valuationDate),
+    navPerUnit: parseFloat(valuation.navPerUnit),
+    value: valuation.value,
+  }));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <LineChartIcon className="w-5 h-5 mr-2" />
+          Valuation History
+        </CardTitle>
+        <CardDescription>
+          Latest NAV <span className="font-medium">₹{parseFloat(latest.navPerUnit).toLocaleString('en-IN', { minimumFractionDigits: 2 })}</span> per unit
+          as of {formatDate(latest.valuationDate)} ({SOURCE_LABELS[latest.source] || latest.source})
+          {valuations.length > 1 && (
+            <span className={change >= 0 ? "text-green-600" : "text-red-600"}>
+              {" "}· {change >= 0 ? "+" : ""}{change.toFixed(2)}% since {formatDate(first.valuationDate)}
+            </span>
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ChartContainer config={chartConfig} className="aspect-auto h-[260px] w-full">
+          <LineChart data={data} margin={{ left: 12, right: 12 }}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+            <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={(value) => `₹${Number(value).toLocaleString('en-IN')}`} />
+            <ChartTooltip
+              content={<ChartTooltipContent formatter={(value, _name, item) => (
+                <div className="space-y-1">
+                  <div>NAV ₹{Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2 })} per unit</div>
+                  <div className="text-muted-foreground">Property value {formatCurrency(item.payload.value)}</div>
+                </div>
+              )} />}
+            />
+            <Line dataKey="navPerUnit" type="stepAfter" stroke="var(--color-navPerUnit)" strokeWidth={2} dot />
+          </LineChart>
+        </ChartContainer>
+
+        {latest.documentPath && (
+          <a
+            href={latest.documentPath}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center text-sm text-fractown-primary hover:underline"
+          >
+            <FileText className="w-4 h-4 mr-1" />
+            View latest appraisal report{latest.appraiserName ? ` by ${latest.appraiserName}` : ""}
+          </a>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,37 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AdminPermission, AdminRole } from '@shared/adminRoles';
+
+interface AdminProfile {
+  id: string;
+  username: string;
+  role: AdminRole;
+  permissions: AdminPermission[];
+  totpEnabled: boolean;
+  totpRequired: boolean;
+  passwordExpired: boolean;
+  passwordExpiresAt: string;
+}
+
+// Mirrors the server's accountRestriction: until resolved, only account settings work
+export type AdminAccountRestriction = 'PASSWORD_EXPIRED' | 'TOTP_REQUIRED';
+
+export function useAdminPermissions() {
+  const { data: profile, isLoading } = useQuery<AdminProfile>({
+    queryKey: ['/api/admin/profile'],
+  });
+
+  const restriction: AdminAccountRestriction | null = !profile ? null
+    : profile.passwordExpired ? 'PASSWORD_EXPIRED'
+    : profile.totpRequired && !profile.totpEnabled ? 'TOTP_REQUIRED'
+    : null;
+  const permissions = restriction ? [] : profile?.permissions ?? [];
+
+  return {
+    role: profile?.role,
+    permissions,
+    restriction,
+    passwordExpiresAt: profile?.passwordExpiresAt,
+    isLoading,
+    can: (permission: AdminPermission) => permissions.includes(permission),
+  };
+}
@@ -84,4 +84,9 @@ export function useAuth() {
     login,
     logout,
   };
-}
\ No newline at end of file
+}
+// Authorization header for investor API calls
+export function getAuthHeaders(): Record<string, string> {
+  const sessionToken = localStorage.getItem('sessionToken');
+  return sessionToken ? { 'Authorization': `Bearer ${sessionToken}` } : {};
+}
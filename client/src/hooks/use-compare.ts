@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { MAX_COMPARE_PROPERTIES } from "@shared/propertyComparison";
+
+const STORAGE_KEY = "compareProperties";
+
+const readSelection = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    return Array.isArray(saved) ? saved.filter((id): id is string => typeof id === "string").slice(0, MAX_COMPARE_PROPERTIES) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Properties picked for comparison, kept in localStorage so the selection survives navigation
+ */
+export function useCompareSelection() {
+  const [selectedIds, setSelectedIds] = useState<string[]>(readSelection);
+
+  const update = (ids: string[]) => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ids));
+    setSelectedIds(ids);
+  };
+
+  const isSelected = (id: string) => selectedIds.includes(id);
+
+  return {
+    selectedIds,
+    isSelected,
+    isFull: selectedIds.length >= MAX_COMPARE_PROPERTIES,
+    // Adding beyond the limit is ignored; the card disables the action instead
+    toggle: (id: string) => {
+      if (isSelected(id)) {
+        update(selectedIds.filter(selected => selected !== id));
+      } else if (selectedIds.length < MAX_COMPARE_PROPERTIES) {
+        update([...selectedIds, id]);
+      }
+    },
+    setSelection: update,
+    clear: () => update([]),
+  };
+}
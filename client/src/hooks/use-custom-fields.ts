@@ -0,0 +1,131 @@
+import { useEffect, useRef } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { PRODUCTION_SAFETY_CONFIG, type CustomField } from "@shared/propertyTypes";
+
+export const CUSTOM_FIELDS_QUERY_KEY = ["/api/custom-fields"];
+export const CUSTOM_FIELD_CONFORMANCE_QUERY_KEY = ["/api/admin/custom-fields/conformance"];
+
+// Only the fields the API accepts; server rows also carry timestamps
+const toPayload = (field: CustomField) => ({
+  id: field.id,
+  name: field.name,
+  displayName: field.displayName,
+  type: field.type,
+  required: field.required,
+  defaultValue: field.defaultValue ?? null,
+  section: field.section,
+  order: field.order ?? 0,
+  options: field.options ?? null,
+  validation: field.validation ?? null,
+  visibleWhen: field.visibleWhen?.length ? field.visibleWhen : null,
+  filterable: field.filterable ?? false,
+});
+
+const isLayoutChangeOnly = (next: CustomField, previous: CustomField) =>
+  JSON.stringify({ ...toPayload(next), section: "", order: 0 }) === JSON.stringify({ ...toPayload(previous), section: "", order: 0 });
+
+export function useCustomFieldDefinitions() {
+  const { data: fieldDefinitions = [], isLoading } = useQuery<CustomField[]>({
+    queryKey: CUSTOM_FIELDS_QUERY_KEY,
+  });
+  return { fieldDefinitions, isLoading };
+}
+
+/**
+ * Custom field definitions for the admin editor.
+ * saveFieldDefinitions takes the full updated list (as the editors produce it) and
+ * persists the difference; definitions left in this browser's localStorage are imported once.
+ */
+export function useCustomFieldEditor() {
+  const { fieldDefinitions, isLoading } = useCustomFieldDefinitions();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const importStarted = useRef(false);
+
+  useEffect(() => {
+    if (isLoading || importStarted.current) return;
+
+    const storageKey = PRODUCTION_SAFETY_CONFIG.getCustomFieldStorageKey();
+    const saved = localStorage.getItem(storageKey);
+    if (!saved) return;
+
+    let definitions: unknown;
+    try {
+      definitions = JSON.parse(saved);
+    } catch (error) {
+      console.error('Failed to read custom field definitions from localStorage:', error);
+      return;
+    }
+    if (!Array.isArray(definitions) || definitions.length === 0) {
+      localStorage.removeItem(storageKey);
+      return;
+    }
+
+    importStarted.current = true;
+    apiRequest("/api/admin/custom-fields/import", "POST", { definitions })
+      .then(res => res.json())
+      .then((result: { imported: number; skipped: string[]; invalid: Array<string | null> }) => {
+        // The server now owns these definitions; a failed request keeps them for the next visit
+        localStorage.removeItem(storageKey);
+        queryClient.invalidateQueries({ queryKey: CUSTOM_FIELDS_QUERY_KEY });
+        if (result.imported > 0 || result.invalid.length > 0) {
+          toast({
+            title: "Custom Fields Imported",
+            description: `Moved ${result.imported} field definition(s) from this browser to the server` +
+              (result.invalid.length > 0 ? `; ${result.invalid.length} invalid definition(s) were dropped.` : "."),
+          });
+        }
+      })
+      .catch(error => {
+        importStarted.current = false;
+        console.error('Failed to import custom field definitions:', error);
+      });
+  }, [isLoading]);
+
+  const saveFieldDefinitions = async (next: CustomField[]) => {
+    const previous = queryClient.getQueryData<CustomField[]>(CUSTOM_FIELDS_QUERY_KEY) || [];
+    queryClient.setQueryData(CUSTOM_FIELDS_QUERY_KEY, next);
+
+    const previousById = new Map(previous.map(field => [field.id, field]));
+    const nextIds = new Set(next.map(field => field.id));
+    const created = next.filter(field => !previousById.has(field.id));
+    const deleted = previous.filter(field => !nextIds.has(field.id));
+    const changed = next.filter(field => {
+      const before = previousById.get(field.id);
+      return before && JSON.stringify(toPayload(field)) !== JSON.stringify(toPayload(before));
+    });
+    const moved = changed.filter(field => isLayoutChangeOnly(field, previousById.get(field.id)!));
+    const edited = changed.filter(field => !moved.includes(field));
+
+    try {
+      for (const field of created) {
+        await apiRequest("/api/admin/custom-fields", "POST", toPayload(field));
+      }
+      for (const field of edited) {
+        const { id, ...changes } = toPayload(field);
+        await apiRequest(`/api/admin/custom-fields/${encodeURIComponent(id)}`, "PUT", changes);
+      }
+      if (moved.length > 0) {
+        await apiRequest("/api/admin/custom-fields/order", "PUT",
+          moved.map(field => ({ id: field.id, section: field.section, order: field.order ?? 0 })));
+      }
+      for (const field of deleted) {
+        await apiRequest(`/api/admin/custom-fields/${encodeURIComponent(field.id)}`, "DELETE");
+      }
+    } catch (error) {
+      console.error('Failed to save custom field definitions:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save custom field changes. The list has been refreshed.",
+        variant: "destructive",
+      });
+    } finally {
+      queryClient.invalidateQueries({ queryKey: CUSTOM_FIELDS_QUERY_KEY });
+      queryClient.invalidateQueries({ queryKey: CUSTOM_FIELD_CONFORMANCE_QUERY_KEY });
+    }
+  };
+
+  return { fieldDefinitions, isLoading, saveFieldDefinitions };
+}
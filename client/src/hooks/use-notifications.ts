@@ -0,0 +1,110 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { UserNotification } from "@shared/schema";
+import type { NotificationChannel, NotificationPreferences, NotificationTopic } from "@shared/notifications";
+import type { TemplateLocale } from "@shared/notificationTemplates";
+import { useAuth, getAuthHeaders } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+export const NOTIFICATIONS_QUERY_KEY = ["/api/me/notifications"];
+export const NOTIFICATION_PREFERENCES_QUERY_KEY = ["/api/me/notification-preferences"];
+
+interface NotificationPreferencesResponse {
+  topics: NotificationPreferences;
+  locale: TemplateLocale;
+}
+
+interface NotificationPreferencesUpdate {
+  preferences?: { topic: NotificationTopic; channel: NotificationChannel; enabled: boolean }[];
+  locale?: TemplateLocale;
+}
+
+interface NotificationList {
+  notifications: UserNotification[];
+  unreadCount: number;
+}
+
+export function useNotifications() {
+  const queryClient = useQueryClient();
+  const { isAuthenticated } = useAuth();
+
+  const { data, isLoading } = useQuery<NotificationList>({
+    queryKey: NOTIFICATIONS_QUERY_KEY,
+    enabled: isAuthenticated,
+    // Pages without a realtime connection still pick up new notifications
+    refetchInterval: 60 * 1000,
+    queryFn: async () => {
+      const response = await fetch("/api/me/notifications", { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to load notifications");
+      return response.json();
+    },
+  });
+
+  // Without ids every notification is updated
+  const setReadMutation = useMutation({
+    mutationFn: async ({ ids, read }: { ids?: string[]; read: boolean }) => {
+      const response = await fetch("/api/me/notifications", {
+        method: "PATCH",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify({ ids, read }),
+      });
+      if (!response.ok) throw new Error("Failed to update notifications");
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_QUERY_KEY });
+    },
+  });
+
+  return {
+    notifications: data?.notifications ?? [],
+    unreadCount: data?.unreadCount ?? 0,
+    isLoading,
+    markRead: (ids?: string[]) => setReadMutation.mutate({ ids, read: true }),
+    markUnread: (ids: string[]) => setReadMutation.mutate({ ids, read: false }),
+  };
+}
+
+export function useNotificationPreferences(enabled = true) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+
+  const { data, isLoading } = useQuery<NotificationPreferencesResponse>({
+    queryKey: NOTIFICATION_PREFERENCES_QUERY_KEY,
+    enabled: isAuthenticated && enabled,
+    queryFn: async () => {
+      const response = await fetch("/api/me/notification-preferences", { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to load notification preferences");
+      return response.json();
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (update: NotificationPreferencesUpdate) => {
+      const response = await fetch("/api/me/notification-preferences", {
+        method: "PATCH",
+        headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+        body: JSON.stringify(update),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || "Failed to update preferences");
+      return result as NotificationPreferencesResponse;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(NOTIFICATION_PREFERENCES_QUERY_KEY, updated);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Preferences Not Updated", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return {
+    preferences: data?.topics,
+    locale: data?.locale,
+    isLoading,
+    setPreference: (topic: NotificationTopic, channel: NotificationChannel, enabled: boolean) =>
+      updateMutation.mutate({ preferences: [{ topic, channel, enabled }] }),
+    setLocale: (locale: TemplateLocale) => updateMutation.mutate({ locale }),
+    isSaving: updateMutation.isPending,
+  };
+}
@@ -12,6 +12,11 @@ export function useRealtimeUpdates() {
 
       socket.onopen = () => {
       console.log('Real-time updates connected');
+      // Identify the investor so their own notifications are pushed to this connection
+      const sessionToken = localStorage.getItem('sessionToken');
+      if (sessionToken) {
+        socket.send(JSON.stringify({ type: 'AUTH', token: sessionToken }));
+      }
     };
 
     socket.onmessage = (event) => {
@@ -35,6 +40,32 @@ export function useRealtimeUpdates() {
           
         case 'CONTACT_CREATED':
           queryClient.invalidateQueries({ queryKey: ['/api/contacts'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/admin/leads'] });
+          break;
+
+        case 'CONTACT_UPDATED':
+        case 'CONTACT_QUARANTINED':
+          queryClient.invalidateQueries({ queryKey: ['/api/admin/leads'] });
+          break;
+
+        case 'CUSTOM_FIELDS_UPDATED':
+          queryClient.invalidateQueries({ queryKey: ['/api/custom-fields'] });
+          queryClient.invalidateQueries({ queryKey: ['/api/admin/custom-fields/conformance'] });
+          break;
+
+        case 'NOTIFICATION_CREATED':
+          // Only sent to the investor the notification belongs to
+          queryClient.invalidateQueries({ queryKey: ['/api/me/notifications'] });
+          break;
+
+        case 'NOTIFICATION_JOBS_UPDATED':
+        case 'NOTIFICATION_JOB_FAILED':
+          queryClient.invalidateQueries({ queryKey: ['/api/admin/notifications/deliveries'] });
+          break;
+
+        case 'MARKET_UPDATED':
+          // Refresh the order book and the investor's own orders for that property
+          queryClient.invalidateQueries({ queryKey: ['/api/properties', data.data?.propertyId, 'market'] });
           break;
       }
     };
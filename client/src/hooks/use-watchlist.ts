@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import type { Property, WatchlistItem } from "@shared/schema";
+import { useAuth, getAuthHeaders } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+export const WATCHLIST_QUERY_KEY = ["/api/me/watchlist"];
+
+export type WatchlistEntry = WatchlistItem & { property: Property };
+
+export function useWatchlist() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { isAuthenticated } = useAuth();
+
+  // Every property card shares this one query
+  const { data: watchlist = [], isLoading } = useQuery<WatchlistEntry[]>({
+    queryKey: WATCHLIST_QUERY_KEY,
+    enabled: isAuthenticated,
+    queryFn: async () => {
+      const response = await fetch("/api/me/watchlist", { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to load watchlist");
+      return response.json();
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ propertyId, watch }: { propertyId: string; watch: boolean }) => {
+      const response = await fetch(`/api/me/watchlist/${propertyId}`, {
+        method: watch ? "POST" : "DELETE",
+        headers: getAuthHeaders(),
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || "Failed to update watchlist");
+      return result;
+    },
+    onSuccess: (_result, { watch }) => {
+      queryClient.invalidateQueries({ queryKey: WATCHLIST_QUERY_KEY });
+      toast({ title: watch ? "Added to Watchlist" : "Removed from Watchlist" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Watchlist Not Updated", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isWatched = (propertyId: string) => watchlist.some(item => item.propertyId === propertyId);
+
+  return {
+    watchlist,
+    isLoading,
+    isAuthenticated,
+    isWatched,
+    toggleWatch: (propertyId: string) => toggleMutation.mutate({ propertyId, watch: !isWatched(propertyId) }),
+    isToggling: toggleMutation.isPending,
+  };
+}
@@ -3,20 +3,52 @@ import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AdminPropertiesTab } from "@/components/admin/admin-properties-tab";
 import { AdminContactsTab } from "@/components/admin/admin-contacts-tab";
+import { AdminKycTab } from "@/components/admin/admin-kyc-tab";
+import { AdminNotificationsTab } from "@/components/admin/admin-notifications-tab";
 import AdminSettingsTab from "@/components/admin/admin-settings-tab";
 import AdminStatisticsTab from "@/components/admin/admin-statistics-tab";
 import AdminHomepageSectionsTab from "@/components/admin/admin-homepage-sections-tab";
+import { AdminTeamTab } from "@/components/admin/admin-team-tab";
 import { EnhancedAdminDashboard } from "@/components/admin/enhanced-admin-dashboard";
-import { LogOut, Building, MessageSquare, Settings, BarChart3, TrendingUp, Home } from "lucide-react";
+import { LogOut, Building, MessageSquare, Settings, BarChart3, TrendingUp, Home, ShieldCheck, Send, Users, AlertTriangle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAdminPermissions } from "@/hooks/use-admin-permissions";
+import type { AdminPermission } from "@shared/adminRoles";
+
+// Full class names so Tailwind keeps them
+const TAB_GRID_COLUMNS: Record<number, string> = {
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-4",
+  5: "grid-cols-5",
+  6: "grid-cols-6",
+  7: "grid-cols-7",
+  8: "grid-cols-8",
+  9: "grid-cols-9",
+};
+
+// Permission behind each optional tab, in tab order; every admin sees Dashboard and Settings
+const TAB_PERMISSIONS: AdminPermission[] = [
+  "properties:view",
+  "contacts:view",
+  "users:view",
+  "security:view",
+  "settings:view",
+  "statistics:view",
+  "security:view",
+];
 
 export default function AdminDashboard() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [adminUser, setAdminUser] = useState<any>(null);
+  const [activeTab, setActiveTab] = useState("dashboard");
+  const { can, restriction } = useAdminPermissions();
+  const visibleTabs = 2 + TAB_PERMISSIONS.filter(can).length;
 
   // Fetch site logo from admin settings
   const { data: siteSettings } = useQuery({
@@ -109,28 +141,73 @@ export default function AdminDashboard() {
           </p>
         </div>
 
-        <Tabs defaultValue="dashboard" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6">
+        {restriction && (
+          <Alert variant="destructive" className="mb-6">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>
+              {restriction === "PASSWORD_EXPIRED" ? "Your password has expired" : "Two-factor authentication required"}
+            </AlertTitle>
+            <AlertDescription className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <span>
+                {restriction === "PASSWORD_EXPIRED"
+                  ? "Change your password under Settings → Profile to regain access to the dashboard."
+                  : "Your role requires an authenticator app. Set it up under Settings → Security to regain access."}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => setActiveTab("settings")}>
+                Open Settings
+              </Button>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className={`grid w-full ${TAB_GRID_COLUMNS[visibleTabs]}`}>
             <TabsTrigger value="dashboard" className="flex items-center space-x-2">
               <BarChart3 className="h-4 w-4" />
               <span>Dashboard</span>
             </TabsTrigger>
-            <TabsTrigger value="properties" className="flex items-center space-x-2">
-              <Building className="h-4 w-4" />
-              <span>Properties</span>
-            </TabsTrigger>
-            <TabsTrigger value="contacts" className="flex items-center space-x-2">
-              <MessageSquare className="h-4 w-4" />
-              <span>Contact Inquiries</span>
-            </TabsTrigger>
-            <TabsTrigger value="homepage" className="flex items-center space-x-2">
-              <Home className="h-4 w-4" />
-              <span>Homepage</span>
-            </TabsTrigger>
-            <TabsTrigger value="statistics" className="flex items-center space-x-2">
-              <TrendingUp className="h-4 w-4" />
-              <span>Statistics</span>
-            </TabsTrigger>
+            {can("properties:view") && (
+              <TabsTrigger value="properties" className="flex items-center space-x-2">
+                <Building className="h-4 w-4" />
+                <span>Properties</span>
+              </TabsTrigger>
+            )}
+            {can("contacts:view") && (
+              <TabsTrigger value="contacts" className="flex items-center space-x-2">
+                <MessageSquare className="h-4 w-4" />
+                <span>Contact Inquiries</span>
+              </TabsTrigger>
+            )}
+            {can("users:view") && (
+              <TabsTrigger value="kyc" className="flex items-center space-x-2">
+                <ShieldCheck className="h-4 w-4" />
+                <span>KYC Review</span>
+              </TabsTrigger>
+            )}
+            {can("security:view") && (
+              <TabsTrigger value="notifications" className="flex items-center space-x-2">
+                <Send className="h-4 w-4" />
+                <span>Deliveries</span>
+              </TabsTrigger>
+            )}
+            {can("settings:view") && (
+              <TabsTrigger value="homepage" className="flex items-center space-x-2">
+                <Home className="h-4 w-4" />
+                <span>Homepage</span>
+              </TabsTrigger>
+            )}
+            {can("statistics:view") && (
+              <TabsTrigger value="statistics" className="flex items-center space-x-2">
+                <TrendingUp className="h-4 w-4" />
+                <span>Statistics</span>
+              </TabsTrigger>
+            )}
+            {can("security:view") && (
+              <TabsTrigger value="team" className="flex items-center space-x-2">
+                <Users className="h-4 w-4" />
+                <span>Team</span>
+              </TabsTrigger>
+            )}
             <TabsTrigger value="settings" className="flex items-center space-x-2">
               <Settings className="h-4 w-4" />
               <span>Settings</span>
@@ -141,41 +218,67 @@ export default function AdminDashboard() {
             <EnhancedAdminDashboard />
           </TabsContent>
 
-          <TabsContent value="properties">
-            <Card>
-              <CardHeader>
-                <CardTitle>Property Management</CardTitle>
-                <CardDescription>
-                  Create, edit, and manage all properties on the platform
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <AdminPropertiesTab />
-              </CardContent>
-            </Card>
-          </TabsContent>
+          {can("properties:view") && (
+            <TabsContent value="properties">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Property Management</CardTitle>
+                  <CardDescription>
+                    Create, edit, and manage all properties on the platform
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AdminPropertiesTab />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
 
-          <TabsContent value="contacts">
-            <Card>
-              <CardHeader>
-                <CardTitle>Contact Inquiries</CardTitle>
-                <CardDescription>
-                  View and manage contact form submissions from users
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <AdminContactsTab />
-              </CardContent>
-            </Card>
-          </TabsContent>
+          {can("contacts:view") && (
+            <TabsContent value="contacts">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Contact Inquiries</CardTitle>
+                  <CardDescription>
+                    View and manage contact form submissions from users
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <AdminContactsTab />
+                </CardContent>
+              </Card>
+            </TabsContent>
+          )}
 
-          <TabsContent value="homepage">
-            <AdminHomepageSectionsTab />
-          </TabsContent>
+          {can("users:view") && (
+            <TabsContent value="kyc">
+              <AdminKycTab />
+            </TabsContent>
+          )}
 
-          <TabsContent value="statistics">
-            <AdminStatisticsTab />
-          </TabsContent>
+          {can("security:view") && (
+            <TabsContent value="notifications">
+              <AdminNotificationsTab />
+            </TabsContent>
+          )}
+
+          {can("settings:view") && (
+            <TabsContent value="homepage">
+              <AdminHomepageSectionsTab />
+            </TabsContent>
+          )}
+
+          {can("statistics:view") && (
+            <TabsContent value="statistics">
+              <AdminStatisticsTab />
+            </TabsContent>
+          )}
+
+          {can("security:view") && (
+            <TabsContent value="team">
+              <AdminTeamTab />
+            </TabsContent>
+          )}
 
           <TabsContent value="settings">
             <Card>
@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useLocation, useRoute } from "wouter";
+import { ArrowLeft, RefreshCw } from "lucide-react";
+import { ADMIN_ROLE_LABELS, adminRoleRequiresTotp, type AdminRole } from "@shared/adminRoles";
+
+const acceptSchema = z.object({
+  username: z.string().regex(/^[a-zA-Z0-9._-]{3,50}$/, "3-50 letters, numbers, dots, dashes or underscores"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  confirmPassword: z.string(),
+}).refine(data => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"],
+});
+
+type AcceptForm = z.infer<typeof acceptSchema>;
+
+interface InviteDetails {
+  email: string;
+  role: AdminRole;
+  expiresAt: string;
+}
+
+export default function AdminInvite() {
+  const [, setLocation] = useLocation();
+  const [, params] = useRoute("/admin/invite/:token");
+  const token = params?.token ?? "";
+  const { toast } = useToast();
+  const [error, setError] = useState<string | null>(null);
+
+  // Scroll to top when component mounts
+  useEffect(() => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, []);
+
+  const { data: invite, isLoading, isError } = useQuery<InviteDetails>({
+    queryKey: ["/api/admin-invites", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  const form = useForm<AcceptForm>({
+    resolver: zodResolver(acceptSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (data: AcceptForm) => {
+      const response = await fetch(`/api/admin-invites/${token}/accept`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ username: data.username, password: data.password }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to accept invitation");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Account Created",
+        description: invite && adminRoleRequiresTotp(invite.role)
+          ? "Sign in and set up two-factor authentication to get started."
+          : "You can now sign in to the admin dashboard.",
+      });
+      setLocation("/admin/login");
+    },
+    onError: (error: any) => {
+      setError(error.message || "Failed to accept invitation");
+    },
+  });
+
+  const onSubmit = (data: AcceptForm) => {
+    setError(null);
+    acceptMutation.mutate(data);
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center relative">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="absolute left-0 top-0"
+            onClick={() => setLocation("/")}
+          >
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Home
+          </Button>
+          <CardTitle className="text-2xl font-bold">Join the Admin Team</CardTitle>
+          <CardDescription>
+            {invite
+              ? `You've been invited to fractOWN as ${ADMIN_ROLE_LABELS[invite.role]?.label ?? invite.role}`
+              : "Set up your fractOWN admin account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <RefreshCw className="h-6 w-6 animate-spin text-blue-600 mr-3" />
+              <span>Checking invitation...</span>
+            </div>
+          ) : isError || !invite ? (
+            <Alert variant="destructive">
+              <AlertDescription>
+                This invitation is invalid or has expired. Ask an administrator to send a new one.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label>Email</Label>
+                <Input value={invite.email} disabled />
+                <p className="text-xs text-gray-500">
+                  This link expires {new Date(invite.expiresAt).toLocaleString("en-IN")}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  data-testid="input-invite-username"
+                  type="text"
+                  {...form.register("username")}
+                  placeholder="Choose a username"
+                />
+                {form.formState.errors.username && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.username.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  data-testid="input-invite-password"
+                  type="password"
+                  {...form.register("password")}
+                  placeholder="At least 8 characters with upper, lower, number and symbol"
+                />
+                {form.formState.errors.password && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.password.message}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  data-testid="input-invite-confirm-password"
+                  type="password"
+                  {...form.register("confirmPassword")}
+                  placeholder="Re-enter your password"
+                />
+                {form.formState.errors.confirmPassword && (
+                  <p className="text-sm text-red-500">
+                    {form.formState.errors.confirmPassword.message}
+                  </p>
+                )}
+              </div>
+
+              <Button
+                type="submit"
+                data-testid="button-accept-invite"
+                className="w-full"
+                disabled={acceptMutation.isPending}
+              >
+                {acceptMutation.isPending ? "Creating account..." : "Create Account"}
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -18,6 +18,7 @@ import TOTPPasswordResetDialog from "@/components/admin/totp-password-reset-dial
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
+  code: z.string().optional(),
 });
 
 type LoginForm = z.infer<typeof loginSchema>;
@@ -28,6 +29,9 @@ export default function AdminLogin() {
   const [error, setError] = useState<string | null>(null);
   const [showForgotPassword, setShowForgotPassword] = useState(false);
   const [showTOTPReset, setShowTOTPReset] = useState(false);
+  // Set once the server asks for a second factor; the code is sent with the same credentials
+  const [totpRequired, setTotpRequired] = useState(false);
+  const [useBackupCode, setUseBackupCode] = useState(false);
   
   // Scroll to top when component mounts
   useEffect(() => {
@@ -39,21 +43,28 @@ export default function AdminLogin() {
     defaultValues: {
       username: "",
       password: "",
+      code: "",
     },
   });
 
   const loginMutation = useMutation({
-    mutationFn: async (data: LoginForm) => {
+    mutationFn: async ({ code, ...credentials }: LoginForm) => {
+      const secondFactor = totpRequired && code
+        ? useBackupCode ? { backupCode: code.trim() } : { totpCode: code.trim() }
+        : {};
       const response = await fetch("/api/admin/login", {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify(data),
+        body: JSON.stringify({ ...credentials, ...secondFactor }),
       });
       
       if (!response.ok) {
         const errorData = await response.json();
+        if (errorData.totpRequired) {
+          setTotpRequired(true);
+        }
         throw new Error(errorData.message || "Login failed");
       }
       
@@ -65,7 +76,11 @@ export default function AdminLogin() {
       localStorage.setItem("adminUser", JSON.stringify({ username: "admin" }));
       toast({
         title: "Login Successful",
-        description: "Welcome to the admin dashboard!",
+        description: data.passwordExpired
+          ? "Your password has expired. Please change it to continue."
+          : data.totpSetupRequired
+            ? "Your role requires two-factor authentication. Please set it up to continue."
+            : "Welcome to the admin dashboard!",
       });
       setLocation("/admin/dashboard");
     },
@@ -137,6 +152,34 @@ export default function AdminLogin() {
               )}
             </div>
 
+            {totpRequired && (
+              <div className="space-y-2">
+                <Label htmlFor="code">{useBackupCode ? "Backup Code" : "Authentication Code"}</Label>
+                <Input
+                  id="code"
+                  data-testid="input-admin-totp-code"
+                  type="text"
+                  inputMode={useBackupCode ? "text" : "numeric"}
+                  autoComplete="one-time-code"
+                  autoFocus
+                  {...form.register("code")}
+                  placeholder={useBackupCode ? "8-character backup code" : "6-digit code from your authenticator app"}
+                />
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="p-0 h-auto text-sm"
+                  onClick={() => {
+                    setUseBackupCode(!useBackupCode);
+                    form.setValue("code", "");
+                  }}
+                >
+                  {useBackupCode ? "Use authenticator app instead" : "Use a backup code instead"}
+                </Button>
+              </div>
+            )}
+
             <Button
               type="submit"
               data-testid="button-admin-login"
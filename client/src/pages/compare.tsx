@@ -0,0 +1,172 @@
+import { useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Columns3, FileDown, X } from "lucide-react";
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import { useCompareSelection } from "@/hooks/use-compare";
+import { CUSTOM_FIELD_TYPES, type CustomFieldFileRef } from "@shared/propertyTypes";
+import { MIN_COMPARE_PROPERTIES, type ComparisonRow, type PropertyComparison } from "@shared/propertyComparison";
+
+const formatValue = (value: unknown, type: ComparisonRow["type"]) => {
+  if (value === null || value === undefined) return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (Array.isArray(value)) return value.join(", ");
+  switch (type) {
+    case CUSTOM_FIELD_TYPES.CURRENCY:
+      return `₹${Number(value).toLocaleString('en-IN')}`;
+    case CUSTOM_FIELD_TYPES.PERCENTAGE:
+      return `${value}%`;
+    case CUSTOM_FIELD_TYPES.DATE:
+      return new Date(String(value)).toLocaleDateString('en-IN');
+    case CUSTOM_FIELD_TYPES.FILE:
+      return (value as CustomFieldFileRef).name;
+    default:
+      return typeof value === "number" ? value.toLocaleString('en-IN') : String(value);
+  }
+};
+
+const cellClass = (row: ComparisonRow, index: number) =>
+  row.best.includes(index)
+    ? "bg-green-50 text-green-800 font-semibold"
+    : row.worst.includes(index)
+      ? "bg-red-50 text-red-700"
+      : "text-gray-700";
+
+export default function ComparePage() {
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const compare = useCompareSelection();
+  const ids = (new URLSearchParams(search).get("ids") ?? "").split(",").filter(Boolean);
+
+  // Keyed under /api/properties so realtime property updates refresh the comparison
+  const { data: comparison, isLoading, error } = useQuery<PropertyComparison>({
+    queryKey: ["/api/properties", "compare", ids.join(",")],
+    enabled: ids.length >= MIN_COMPARE_PROPERTIES,
+    queryFn: async () => {
+      const response = await fetch(`/api/properties/compare?ids=${encodeURIComponent(ids.join(","))}`);
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message || "Failed to compare properties");
+      return result;
+    },
+  });
+
+  const removeProperty = (id: string) => {
+    const remaining = ids.filter(existing => existing !== id);
+    compare.setSelection(remaining);
+    setLocation(remaining.length > 0 ? `/compare?ids=${remaining.join(",")}` : "/");
+  };
+
+  const renderBody = () => {
+    if (ids.length < MIN_COMPARE_PROPERTIES || error) {
+      return (
+        <Card>
+          <CardContent className="py-12 text-center">
+            <Columns3 className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+            <p className="text-gray-600 mb-4">
+              {error ? (error as Error).message : `Pick at least ${MIN_COMPARE_PROPERTIES} properties to compare.`}
+            </p>
+            <Button onClick={() => setLocation("/#properties")}>Browse Properties</Button>
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (isLoading || !comparison) {
+      return <div className="h-96 bg-gray-200 rounded animate-pulse"></div>;
+    }
+
+    const columnCount = comparison.properties.length + 1;
+
+    return (
+      <div className="overflow-x-auto rounded-lg border bg-white [print-color-adjust:exact]">
+        <table className="w-full text-sm">
+          <thead>
+            <tr>
+              <th className="w-48 p-4"></th>
+              {comparison.properties.map(property => (
+                <th key={property.id} className="p-4 text-left align-top">
+                  <div className="flex items-start justify-between gap-2">
+                    <button
+                      type="button"
+                      className="text-left font-semibold text-gray-900 hover:text-fractown-primary"
+                      onClick={() => setLocation(`/property/${property.id}`)}
+                    >
+                      {property.name}
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="print:hidden h-6 w-6 p-0"
+                      onClick={() => removeProperty(property.id)}
+                      title="Remove from comparison"
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <Badge variant="outline" className="mt-1 capitalize font-normal">{property.city}</Badge>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {comparison.sections.map(section => [
+              <tr key={section.key} className="bg-gray-50">
+                <td colSpan={columnCount} className="px-4 py-2 font-semibold text-gray-900">{section.label}</td>
+              </tr>,
+              ...section.rows.map(row => (
+                <tr key={`${section.key}:${row.key}`} className="border-t">
+                  <td className="px-4 py-3 text-gray-500">{row.label}</td>
+                  {row.values.map((value, index) => (
+                    <td key={index} className={`px-4 py-3 ${cellClass(row, index)}`}>
+                      {row.type === CUSTOM_FIELD_TYPES.FILE && value ? (
+                        <a href={(value as CustomFieldFileRef).path} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                          {formatValue(value, row.type)}
+                        </a>
+                      ) : formatValue(value, row.type)}
+                    </td>
+                  ))}
+                </tr>
+              ))
+            ])}
+          </tbody>
+        </table>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen">
+      <div className="print:hidden">
+        <Header />
+      </div>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Compare Properties</h1>
+            <p className="text-gray-600 mt-1">
+              <span className="inline-block w-3 h-3 rounded-sm bg-green-100 border border-green-300 mr-1 align-middle"></span>
+              Best
+              <span className="inline-block w-3 h-3 rounded-sm bg-red-100 border border-red-300 ml-4 mr-1 align-middle"></span>
+              Worst
+            </p>
+          </div>
+          {/* The browser's print dialog saves the comparison as a PDF */}
+          <Button variant="outline" className="print:hidden" onClick={() => window.print()} disabled={!comparison}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Export PDF
+          </Button>
+        </div>
+
+        {renderBody()}
+      </main>
+
+      <div className="print:hidden">
+        <Footer />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Pie, PieChart, Cell } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, ChartLegend, ChartLegendContent, type ChartConfig } from "@/components/ui/chart";
+import { Wallet, TrendingUp, IndianRupee, Percent, Building, LogIn } from "lucide-react";
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import { OTPLoginDialog } from "@/components/auth/otp-login-dialog";
+import { useAuth, getAuthHeaders } from "@/hooks/use-auth";
+
+interface PortfolioHolding {
+  propertyId: string;
+  propertyName: string;
+  city: string;
+  propertyType: string;
+  units: number;
+  ownershipPercent: number;
+  investedAmount: number;
+  currentValue: number;
+  distributionsReceived: number;
+  saleProceeds: number;
+  absoluteReturn: number;
+  xirr: number | null;
+}
+
+interface AllocationSlice {
+  name: string;
+  value: number;
+}
+
+interface Portfolio {
+  summary: {
+    investedAmount: number;
+    currentValue: number;
+    distributionsReceived: number;
+    saleProceeds: number;
+    absoluteReturn: number;
+    xirr: number | null;
+    propertyCount: number;
+  };
+  holdings: PortfolioHolding[];
+  allocation: {
+    byCity: AllocationSlice[];
+    byPropertyType: AllocationSlice[];
+  };
+}
+
+const ALLOCATION_COLORS = ["#2563eb", "#16a34a", "#f59e0b", "#db2777", "#7c3aed", "#0891b2", "#dc2626", "#65a30d"];
+
+const formatCurrency = (amount: number) => {
+  if (amount >= 10000000) {
+    return `₹${(amount / 10000000).toFixed(2)} Cr`;
+  } else if (amount >= 100000) {
+    return `₹${(amount / 100000).toFixed(2)} L`;
+  } else {
+    return `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+  }
+};
+
+const formatPercent = (value: number | null) => value === null ? "—" : `${value > 0 ? "+" : ""}${value.toFixed(2)}%`;
+
+const returnColor = (value: number | null) =>
+  value === null ? "text-gray-500" : value >= 0 ? "text-green-600" : "text-red-600";
+
+function AllocationChart({ title, data }: { title: string; data: AllocationSlice[] }) {
+  const config: ChartConfig = Object.fromEntries(
+    data.map((slice, index) => [slice.name, { label: slice.name, color: ALLOCATION_COLORS[index % ALLOCATION_COLORS.length] }])
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>By current value</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ChartContainer config={config} className="mx-auto aspect-square max-h-[280px]">
+          <PieChart>
+            <ChartTooltip content={<ChartTooltipContent nameKey="name" hideLabel formatter={(value, name) => `${name}: ${formatCurrency(Number(value))}`} />} />
+            <Pie data={data} dataKey="value" nameKey="name" innerRadius={60} strokeWidth={2}>
+              {data.map((slice, index) => (
+                <Cell key={slice.name} fill={ALLOCATION_COLORS[index % ALLOCATION_COLORS.length]} />
+              ))}
+            </Pie>
+            <ChartLegend content={<ChartLegendContent nameKey="name" />} className="flex-wrap capitalize" />
+          </PieChart>
+        </ChartContainer>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function PortfolioPage() {
+  const [, setLocation] = useLocation();
+  const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const { isAuthenticated, isLoading: isAuthLoading, login } = useAuth();
+
+  const { data: portfolio, isLoading } = useQuery<Portfolio>({
+    queryKey: ["/api/me/portfolio"],
+    enabled: isAuthenticated,
+    queryFn: async () => {
+      const response = await fetch("/api/me/portfolio", { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to load portfolio");
+      return response.json();
+    },
+  });
+
+  if (!isAuthenticated && !isAuthLoading) {
+    return (
+      <div className="min-h-screen">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <Wallet className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Your Portfolio</h1>
+          <p className="text-gray-600 mb-6">Log in to see your holdings, payouts and returns.</p>
+          <Button onClick={() => setShowLoginDialog(true)}>
+            <LogIn className="w-4 h-4 mr-2" />
+            Login
+          </Button>
+          <OTPLoginDialog
+            open={showLoginDialog}
+            onOpenChange={setShowLoginDialog}
+            onSuccess={(userData: any, sessionToken: string) => {
+              login(userData, sessionToken);
+              setShowLoginDialog(false);
+            }}
+          />
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  if (isLoading || isAuthLoading || !portfolio) {
+    return (
+      <div className="min-h-screen">
+        <Header />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/4 mb-6"></div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-6">
+              {[0, 1, 2, 3].map(i => <div key={i} className="h-28 bg-gray-200 rounded"></div>)}
+            </div>
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+        <Footer />
+      </div>
+    );
+  }
+
+  const { summary, holdings, allocation } = portfolio;
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Portfolio</h1>
+          <p className="text-gray-600 mt-1">
+            {summary.propertyCount} {summary.propertyCount === 1 ? "property" : "properties"} held
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center text-sm text-gray-600 mb-2">
+                <Wallet className="h-4 w-4 mr-2" />
+                Invested
+              </div>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.investedAmount)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center text-sm text-gray-600 mb-2">
+                <TrendingUp className="h-4 w-4 mr-2" />
+                Current Value
+              </div>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.currentValue)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center text-sm text-gray-600 mb-2">
+                <IndianRupee className="h-4 w-4 mr-2" />
+                Distributions Received
+              </div>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.distributionsReceived)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-6">
+              <div className="flex items-center text-sm text-gray-600 mb-2">
+                <Percent className="h-4 w-4 mr-2" />
+                Returns
+              </div>
+              <p className={`text-2xl font-bold ${returnColor(summary.absoluteReturn)}`}>{formatPercent(summary.absoluteReturn)}</p>
+              <p className="text-sm text-gray-600 mt-1">
+                XIRR <span className={`font-medium ${returnColor(summary.xirr)}`}>{formatPercent(summary.xirr)}</span>
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {holdings.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Building className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-600 mb-4">You have no confirmed investments yet.</p>
+              <Button onClick={() => setLocation("/")}>Browse Properties</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle>Holdings</CardTitle>
+                <CardDescription>Current value uses each property's latest valuation</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Property</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Invested</TableHead>
+                      <TableHead className="text-right">Current Value</TableHead>
+                      <TableHead className="text-right">Distributions</TableHead>
+                      <TableHead className="text-right">Return</TableHead>
+                      <TableHead className="text-right">XIRR</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {holdings.map(holding => (
+                      <TableRow
+                        key={holding.propertyId}
+                        className="cursor-pointer"
+                        onClick={() => setLocation(`/property/${holding.propertyId}`)}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{holding.propertyName}</div>
+                          <div className="text-xs text-gray-500 flex items-center gap-2">
+                            {holding.city}
+                            <Badge variant="outline" className="capitalize">{holding.propertyType}</Badge>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {holding.units.toLocaleString('en-IN')}
+                          <div className="text-xs text-gray-500">{holding.ownershipPercent}%</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(holding.investedAmount)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(holding.currentValue)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(holding.distributionsReceived)}</TableCell>
+                        <TableCell className={`text-right font-medium ${returnColor(holding.absoluteReturn)}`}>
+                          {formatPercent(holding.absoluteReturn)}
+                        </TableCell>
+                        <TableCell className={`text-right font-medium ${returnColor(holding.xirr)}`}>
+                          {formatPercent(holding.xirr)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <AllocationChart title="Allocation by City" data={allocation.byCity} />
+              <AllocationChart title="Allocation by Property Type" data={allocation.byPropertyType} />
+            </div>
+          </>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -9,9 +9,14 @@ import { MapPin, ArrowLeft, ChevronLeft, ChevronRight, Building, TrendingUp, Cal
 import Header from "@/components/header";
 import Footer from "@/components/footer";
 import type { Property } from "@shared/schema";
+import { PROPERTY_STATUS_LABELS, type PropertyStatus } from "@shared/propertyLifecycle";
 import { PropertyImageCarousel } from "@/components/property-image-carousel";
+import { PropertyMarket } from "@/components/property-market";
+import { PropertyValuationChart } from "@/components/property-valuation-chart";
+import InvestmentCalculator from "@/components/investment-calculator";
 import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
-import { FIELD_SECTIONS, SECTION_CONFIG, FIELD_TYPE_CONFIG, PRODUCTION_SAFETY_CONFIG, type CustomField } from "@shared/propertyTypes";
+import { useCustomFieldDefinitions } from "@/hooks/use-custom-fields";
+import { FIELD_SECTIONS, SECTION_CONFIG, FIELD_TYPE_CONFIG, PRODUCTION_SAFETY_CONFIG, isCustomFieldVisible, type CustomFieldFileRef } from "@shared/propertyTypes";
 
 export default function PropertyDetail() {
   const { id } = useParams();
@@ -31,6 +36,9 @@ export default function PropertyDetail() {
     queryKey: ["/api/properties", id],
     enabled: !!id,
   });
+
+  // Labels and sections for the property's custom field values
+  const { fieldDefinitions } = useCustomFieldDefinitions();
   
   // Debug logging
   React.useEffect(() => {
@@ -264,7 +272,9 @@ export default function PropertyDetail() {
             <div>
               <div className="flex items-center justify-between mb-2">
                 <Badge className={`${getFundingBadgeColor(property.fundingProgress)} text-white`}>
-                  {property.fundingProgress >= 95 ? "Nearly Sold Out" : `${property.fundingProgress}% Funded`}
+                  {property.status !== "live"
+                    ? PROPERTY_STATUS_LABELS[property.status as PropertyStatus] ?? property.status
+                    : property.fundingProgress >= 95 ? "Nearly Sold Out" : `${property.fundingProgress}% Funded`}
                 </Badge>
                 <span className="text-gray-500 flex items-center">
                   <MapPin className="w-4 h-4 mr-1" />
@@ -455,27 +465,6 @@ export default function PropertyDetail() {
             <h3 className="text-xl font-bold text-gray-900 mb-6">Property Details</h3>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {Object.entries(SECTION_CONFIG).map(([sectionKey, sectionConfig]) => {
-                // Load field definitions from environment-specific localStorage with production isolation
-                const storageKey = PRODUCTION_SAFETY_CONFIG.getCustomFieldStorageKey();
-                const savedDefinitions = localStorage.getItem(storageKey);
-                let fieldDefinitions: CustomField[] = [];
-                if (savedDefinitions) {
-                  try {
-                    fieldDefinitions = JSON.parse(savedDefinitions);
-                    // Log environment isolation status
-                    console.log('Field definitions loaded with production isolation:', {
-                      environment: PRODUCTION_SAFETY_CONFIG.getDatabaseEnvironment(),
-                      storageKey: storageKey,
-                      fieldCount: fieldDefinitions.length
-                    });
-                  } catch (error) {
-                    console.error('Failed to load custom field definitions:', error);
-                  }
-                } else if (PRODUCTION_SAFETY_CONFIG.isProduction()) {
-                  // In production, warn about missing field definitions but continue gracefully
-                  console.log(PRODUCTION_SAFETY_CONFIG.getDataIsolationWarning());
-                }
-
                 // Filter custom fields for this section with production-safe handling
                 const sectionFields = Object.entries(property.customFields || {})
                   .map(([fieldKey, value]) => {
@@ -492,6 +481,8 @@ export default function PropertyDetail() {
                     return { fieldKey, value: safeValue, definition: fieldDef };
                   })
                   .filter(({ definition, value }) => {
+                    if (Array.isArray(value) && value.length === 0) return false;
+
                     // In production, show fields even if definition is missing (graceful degradation)
                     if (PRODUCTION_SAFETY_CONFIG.isProduction() && !definition) {
                       return value !== null && value !== undefined && value !== '';
@@ -499,6 +490,7 @@ export default function PropertyDetail() {
                     
                     return definition && 
                            definition.section === sectionKey && 
+                           isCustomFieldVisible(definition, { ...(property.customFields as Record<string, unknown>), propertyType: property.propertyType }) &&
                            value !== null && 
                            value !== undefined && 
                            value !== '';
@@ -528,11 +520,24 @@ export default function PropertyDetail() {
                                 </span>
                               )}
                             </h4>
-                            <p className="text-gray-600">
-                              {typeof value === 'boolean' ? (value ? 'Yes' : 'No') : 
-                               typeof value === 'number' ? value.toLocaleString('en-IN') :
-                               String(value)}
-                            </p>
+                            {definition?.type === 'file' && (value as CustomFieldFileRef)?.path ? (
+                              <a
+                                href={(value as CustomFieldFileRef).path}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-blue-600 hover:underline flex items-center gap-1"
+                              >
+                                <FileText className="h-4 w-4" />
+                                {(value as CustomFieldFileRef).name}
+                              </a>
+                            ) : (
+                              <p className={`text-gray-600 ${definition?.type === 'longtext' ? 'whitespace-pre-line' : ''}`}>
+                                {typeof value === 'boolean' ? (value ? 'Yes' : 'No') : 
+                                 typeof value === 'number' ? value.toLocaleString('en-IN') :
+                                 Array.isArray(value) ? value.join(', ') :
+                                 String(value)}
+                              </p>
+                            )}
                           </div>
                         ))}
                       </div>
@@ -591,6 +596,21 @@ export default function PropertyDetail() {
           </Card>
         </div>
 
+        {/* Valuation History */}
+        <div className="mt-12">
+          <PropertyValuationChart propertyId={property.id} />
+        </div>
+
+        {/* Return Calculator */}
+        <div className="mt-12">
+          <InvestmentCalculator property={property} />
+        </div>
+
+        {/* Secondary Market */}
+        <div className="mt-12">
+          <PropertyMarket propertyId={property.id} unitPrice={property.totalValue / property.totalUnits} />
+        </div>
+
         {/* Image Carousel Modal */}
         {(() => {
           const imageUrls = Array.isArray(property.imageUrls) ? property.imageUrls : [];
@@ -0,0 +1,338 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Heart, Bell, LogIn, Trash2 } from "lucide-react";
+import Header from "@/components/header";
+import Footer from "@/components/footer";
+import PropertyCard from "@/components/property-card";
+import { OTPLoginDialog } from "@/components/auth/otp-login-dialog";
+import { useAuth, getAuthHeaders } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { useWatchlist } from "@/hooks/use-watchlist";
+import { useNotifications } from "@/hooks/use-notifications";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
+import { ALERT_RULE_TYPES, ALERT_RULE_LABELS, type AlertRuleType } from "@shared/alerts";
+import type { AlertRule } from "@shared/schema";
+
+const ALERTS_QUERY_KEY = ["/api/me/alerts"];
+
+type AlertRuleView = AlertRule & { propertyName: string | null };
+
+const describeRule = (rule: AlertRuleView) => {
+  const threshold = Number(rule.threshold);
+  switch (rule.type as AlertRuleType) {
+    case "funding_threshold":
+      return `${rule.propertyName} reaches ${threshold}% funded`;
+    case "valuation_published":
+      return `${rule.propertyName} gets a new valuation`;
+    case "live_in_city":
+      return `A property goes live in ${rule.city}`;
+    case "market_price_below":
+      return `${rule.propertyName} trades below ₹${threshold.toLocaleString('en-IN')} per unit`;
+    default:
+      return rule.type;
+  }
+};
+
+function AlertRulesCard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { watchlist, isAuthenticated } = useWatchlist();
+  const [type, setType] = useState<AlertRuleType>("funding_threshold");
+  const [propertyId, setPropertyId] = useState("");
+  const [city, setCity] = useState("");
+  const [threshold, setThreshold] = useState("");
+
+  const { data: rules = [] } = useQuery<AlertRuleView[]>({
+    queryKey: ALERTS_QUERY_KEY,
+    enabled: isAuthenticated,
+    queryFn: async () => {
+      const response = await fetch("/api/me/alerts", { headers: getAuthHeaders() });
+      if (!response.ok) throw new Error("Failed to load alerts");
+      return response.json();
+    },
+  });
+
+  const alertRequest = async (url: string, method: string, body?: unknown) => {
+    const response = await fetch(url, {
+      method,
+      headers: { ...getAuthHeaders(), "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.message || "Failed to update alert");
+    return result;
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => alertRequest("/api/me/alerts", "POST", {
+      type,
+      propertyId: type === "live_in_city" ? undefined : propertyId || undefined,
+      city: type === "live_in_city" ? city : undefined,
+      threshold: type === "funding_threshold" || type === "market_price_below" ? threshold || undefined : undefined,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ALERTS_QUERY_KEY });
+      setThreshold("");
+      setCity("");
+      toast({ title: "Alert Created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Alert Not Created", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, isActive }: { id: string; isActive: boolean }) => alertRequest(`/api/me/alerts/${id}`, "PUT", { isActive }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ALERTS_QUERY_KEY }),
+    onError: (error: Error) => {
+      toast({ title: "Alert Not Updated", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => alertRequest(`/api/me/alerts/${id}`, "DELETE"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ALERTS_QUERY_KEY }),
+    onError: (error: Error) => {
+      toast({ title: "Alert Not Deleted", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const needsProperty = type !== "live_in_city";
+  const needsThreshold = type === "funding_threshold" || type === "market_price_below";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Alerts</CardTitle>
+        <CardDescription>Threshold alerts fire once; switch them back on to be alerted again</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form
+          className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createMutation.mutate();
+          }}
+        >
+          <div className="grid gap-2">
+            <Label>Alert me when</Label>
+            <Select value={type} onValueChange={(value) => setType(value as AlertRuleType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ALERT_RULE_TYPES.map(option => (
+                  <SelectItem key={option} value={option}>{ALERT_RULE_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {needsProperty ? (
+            <div className="grid gap-2">
+              <Label>Property</Label>
+              <Select value={propertyId} onValueChange={setPropertyId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={watchlist.length === 0 ? "Watch a property first" : "Select property"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {watchlist.map(item => (
+                    <SelectItem key={item.propertyId} value={item.propertyId}>{item.property.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              <Label htmlFor="alert-city">City</Label>
+              <Input id="alert-city" value={city} onChange={(e) => setCity(e.target.value)} placeholder="e.g. Pune" />
+            </div>
+          )}
+          {needsThreshold ? (
+            <div className="grid gap-2">
+              <Label htmlFor="alert-threshold">
+                {type === "funding_threshold" ? "Funded (%)" : "Price per unit (₹)"}
+              </Label>
+              <Input
+                id="alert-threshold"
+                type="number"
+                min="0"
+                step={type === "funding_threshold" ? "1" : "0.01"}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+              />
+            </div>
+          ) : <div />}
+          <Button type="submit" disabled={createMutation.isPending} className="bg-fractown-primary text-white">
+            {createMutation.isPending ? "Saving..." : "Create Alert"}
+          </Button>
+        </form>
+
+        {rules.length === 0 ? (
+          <p className="text-sm text-gray-500">No alerts yet.</p>
+        ) : (
+          <div className="divide-y">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between py-3 gap-4">
+                <div>
+                  <p className="font-medium text-gray-900">{describeRule(rule)}</p>
+                  <p className="text-xs text-gray-500">
+                    {rule.lastTriggeredAt
+                      ? `Last triggered ${new Date(rule.lastTriggeredAt).toLocaleString('en-IN')}`
+                      : "Not triggered yet"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Switch
+                    checked={rule.isActive}
+                    onCheckedChange={(isActive) => updateMutation.mutate({ id: rule.id, isActive })}
+                    title={rule.isActive ? "Pause alert" : "Turn alert on"}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-red-600"
+                    onClick={() => deleteMutation.mutate(rule.id)}
+                    title="Delete alert"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WatchlistPage() {
+  const [, setLocation] = useLocation();
+  const [showLoginDialog, setShowLoginDialog] = useState(false);
+  const { isAuthenticated, isLoading: isAuthLoading, login } = useAuth();
+  const { watchlist, isLoading } = useWatchlist();
+  const { notifications, unreadCount, markRead } = useNotifications();
+
+  useRealtimeUpdates();
+
+  if (!isAuthenticated && !isAuthLoading) {
+    return (
+      <div className="min-h-screen">
+        <Header />
+        <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16 text-center">
+          <Heart className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Your Watchlist</h1>
+          <p className="text-gray-600 mb-6">Log in to follow properties and get alerts when they change.</p>
+          <Button onClick={() => setShowLoginDialog(true)}>
+            <LogIn className="w-4 h-4 mr-2" />
+            Login
+          </Button>
+          <OTPLoginDialog
+            open={showLoginDialog}
+            onOpenChange={setShowLoginDialog}
+            onSuccess={(userData: any, sessionToken: string) => {
+              login(userData, sessionToken);
+              setShowLoginDialog(false);
+            }}
+          />
+        </main>
+        <Footer />
+      </div>
+    );
+  }
+
+  const handleViewDetails = (id: string) => {
+    setLocation(`/property/${id}`);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  return (
+    <div className="min-h-screen">
+      <Header />
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-8">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">My Watchlist</h1>
+          <p className="text-gray-600 mt-1">
+            {watchlist.length} {watchlist.length === 1 ? "property" : "properties"} watched
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Bell className="h-5 w-5" />
+                Notifications
+                {unreadCount > 0 && <Badge className="bg-red-500 text-white">{unreadCount} new</Badge>}
+              </CardTitle>
+              <CardDescription>Your alerts plus KYC, distribution and launch updates</CardDescription>
+            </div>
+            {unreadCount > 0 && (
+              <Button variant="outline" size="sm" onClick={() => markRead()}>Mark all read</Button>
+            )}
+          </CardHeader>
+          <CardContent>
+            {notifications.length === 0 ? (
+              <p className="text-sm text-gray-500">No notifications yet.</p>
+            ) : (
+              <div className="divide-y">
+                {notifications.map(notification => (
+                  <button
+                    key={notification.id}
+                    type="button"
+                    className={`w-full text-left py-3 ${notification.readAt ? "" : "font-medium"}`}
+                    onClick={() => {
+                      if (!notification.readAt) markRead([notification.id]);
+                      if (notification.propertyId) handleViewDetails(notification.propertyId);
+                    }}
+                  >
+                    <div className="flex items-center justify-between gap-4">
+                      <span className="text-gray-900">{notification.title}</span>
+                      <span className="text-xs text-gray-500 whitespace-nowrap">
+                        {new Date(notification.createdAt).toLocaleString('en-IN')}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 font-normal">{notification.message}</p>
+                  </button>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <AlertRulesCard />
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8 animate-pulse">
+            {[0, 1, 2].map(i => <div key={i} className="h-96 bg-gray-200 rounded-2xl"></div>)}
+          </div>
+        ) : watchlist.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center">
+              <Heart className="h-12 w-12 mx-auto text-gray-400 mb-4" />
+              <p className="text-gray-600 mb-4">Tap the heart on any property to watch it.</p>
+              <Button onClick={() => setLocation("/")}>Browse Properties</Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+            {watchlist.map(item => (
+              <PropertyCard key={item.id} property={item.property} onViewDetails={handleViewDetails} />
+            ))}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
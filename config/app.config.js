@@ -75,7 +75,10 @@ export default {
     adminSettings: {
       sessionTimeout: 60 * 60 * 1000, // 1 hour
       maxLoginAttempts: 5,
-      lockoutDuration: 15 * 60 * 1000 // 15 minutes
+      lockoutDuration: 15 * 60 * 1000, // 15 minutes
+      passwordExpiryDays: 90, // admins must choose a new password after this long
+      passwordHistorySize: 5, // the last N passwords cannot be reused
+      inviteExpiryHours: 72
     }
   },
 
@@ -85,6 +88,7 @@ export default {
     description: 'Democratizing real estate investment through fractional ownership',
     version: '1.0.0',
     supportEmail: 'support@fractown.com',
+    url: process.env.APP_URL || 'http://localhost:5000', // public base URL for links in notifications
     
     // Feature flags
     features: {
@@ -99,6 +103,20 @@ export default {
       minInvestmentAmount: 10000, // ₹10,000 minimum
       maxInvestmentAmount: 10000000, // ₹1 Crore maximum
       defaultCurrency: 'INR',
+      // Primary rounds: a pending investment is cancelled if its payment is not captured within this many minutes
+      investmentPaymentMinutes: 30,
+      // Rental distributions: TDS withheld from each investor payout (percentage)
+      distributionTdsRate: 10,
+      // Secondary market: platform fee deducted from seller proceeds (percentage of trade value)
+      secondaryMarketFeeRate: 1,
+      // Secondary market: a matched trade is cancelled if the buyer has not paid within this many minutes
+      tradeSettlementMinutes: 30,
+      // Investment calculator: capital gains tax on exit (percentage), long-term once held this many years
+      shortTermCapitalGainsTaxRate: 30,
+      longTermCapitalGainsTaxRate: 12.5,
+      longTermHoldingYears: 2,
+      // Property lifecycle: how often expired funding rounds are closed
+      fundingDeadlineCheckIntervalMs: 5 * 60 * 1000,
       supportedStates: [
         'Maharashtra', 'Karnataka', 'Tamil Nadu', 'Gujarat', 'Delhi',
         'Haryana', 'Uttar Pradesh', 'West Bengal', 'Rajasthan', 'Punjab'
@@ -108,7 +126,9 @@ export default {
 
   // Email Configuration (if enabled)
   email: {
-    service: process.env.EMAIL_SERVICE || 'gmail',
+    // 'sendgrid', 'smtp' (with EMAIL_HOST), a well-known SMTP service such as 'gmail', or 'outbox'
+    service: process.env.EMAIL_SERVICE || 'outbox',
+    from: process.env.EMAIL_FROM || 'fractOWN <no-reply@fractown.in>',
     host: process.env.EMAIL_HOST,
     port: process.env.EMAIL_PORT || 587,
     secure: false,
@@ -120,34 +140,29 @@ export default {
 
   // SMS Configuration (if enabled)
   sms: {
-    provider: process.env.SMS_PROVIDER || 'twilio',
+    // 'twilio' or 'outbox'
+    provider: process.env.SMS_PROVIDER || 'outbox',
     twilio: {
       accountSid: process.env.TWILIO_ACCOUNT_SID,
       authToken: process.env.TWILIO_AUTH_TOKEN,
-      fromNumber: process.env.TWILIO_PHONE_NUMBER
+      fromNumber: process.env.TWILIO_PHONE_NUMBER,
+      apiUrl: 'https://api.twilio.com/2010-04-01',
+      // Public URL of /api/notifications/webhook/twilio; delivery receipts are only requested when set
+      statusCallbackUrl: process.env.TWILIO_STATUS_CALLBACK_URL
     }
   },
 
-  // Notification Templates
+  // Notification delivery (message content lives in notification templates, editable from admin settings)
   notifications: {
-    email: {
-      welcome: {
-        subject: 'Welcome to fractOWN',
-        template: 'welcome-email'
-      },
-      investmentConfirm: {
-        subject: 'Investment Confirmed',
-        template: 'investment-confirm'
-      },
-      propertyUpdate: {
-        subject: 'Property Update',
-        template: 'property-update'
-      }
-    },
-    sms: {
-      welcome: 'Welcome to fractOWN! Start investing in premium real estate.',
-      investmentConfirm: 'Your investment has been confirmed. Thank you!',
-      propertyUpdate: 'New property available for investment.'
+    // Durable delivery queue: retries back off exponentially until maxAttempts, then the job is dead-lettered
+    queue: {
+      pollIntervalMs: 5 * 1000,
+      highPriorityPollIntervalMs: 1000,
+      batchSize: 20,
+      maxAttempts: 5,
+      retryBaseDelayMs: 30 * 1000,
+      retryMaxDelayMs: 60 * 60 * 1000,
+      staleLockMs: 5 * 60 * 1000 // jobs left 'processing' this long (e.g. after a crash) are retried
     }
   },
 
@@ -200,6 +215,15 @@ export default {
       // Fix trust proxy issue - use default key generator for better IPv6 support
       trustProxy: false // Disable trust proxy check for rate limiter
     },
+    // Public contact form: submissions scoring at or above the threshold are quarantined for review
+    contactSpam: {
+      quarantineThreshold: 50,
+      minFillTimeMs: 3000, // faster than a person can fill in the form
+      maxTokenAgeMs: 24 * 60 * 60 * 1000,
+      velocityWindowMs: 60 * 60 * 1000,
+      velocityLimit: 3, // submissions per IP per window before velocity counts against the sender
+      repeatWindowMs: 24 * 60 * 60 * 1000 // identical resubmissions within this window count against the sender
+    },
     // Additional security measures
     additionalSecurity: {
       trustProxy: 1, // Trust first proxy only to prevent IP spoofing
@@ -218,16 +242,26 @@ export default {
   // API Keys and External Services
   // Payment Gateway Configuration (if enabled)
   payments: {
+    // 'razorpay' when enablePaymentIntegration is on, otherwise the in-process mock gateway
+    currency: 'INR',
     razorpay: {
       keyId: process.env.RAZORPAY_KEY_ID,
-      keySecret: process.env.RAZORPAY_KEY_SECRET
+      keySecret: process.env.RAZORPAY_KEY_SECRET,
+      webhookSecret: process.env.RAZORPAY_WEBHOOK_SECRET,
+      apiUrl: 'https://api.razorpay.com/v1'
+    },
+    mock: {
+      // No default: without it the mock gateway cannot sign or accept webhooks
+      webhookSecret: process.env.MOCK_PAYMENT_WEBHOOK_SECRET
     }
   },
 
   // API Keys and External Services
   integrations: {
     sendgrid: {
-      apiKey: process.env.SENDGRID_API_KEY
+      apiKey: process.env.SENDGRID_API_KEY,
+      // Verification key from the signed event webhook settings (base64 DER)
+      webhookPublicKey: process.env.SENDGRID_WEBHOOK_PUBLIC_KEY
     },
     razorpay: {
       keyId: process.env.RAZORPAY_KEY_ID,
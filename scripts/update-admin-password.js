@@ -38,6 +38,7 @@ async function updateAdminPassword() {
     const result = await db.update(adminUsers)
       .set({ 
         passwordHash: passwordHash,
+        passwordChangedAt: new Date(),
         updatedAt: new Date()
       })
       .where(eq(adminUsers.username, adminUsername))
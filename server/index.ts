@@ -1,11 +1,17 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cookieParser from "cookie-parser";
+import type { IncomingMessage, ServerResponse } from "http";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
-app.use(express.json({ limit: "10mb" }));
-app.use(express.urlencoded({ extended: false, limit: "10mb" }));
+// Keep the raw payload so payment and delivery webhook signatures can be verified
+const keepRawBody = (req: IncomingMessage, _res: ServerResponse, buf: Buffer) => {
+  (req as Request).rawBody = buf;
+};
+app.use(express.json({ limit: "10mb", verify: keepRawBody }));
+// Twilio posts its status callbacks as form fields
+app.use(express.urlencoded({ extended: false, limit: "10mb", verify: keepRawBody }));
 app.use(cookieParser());
 
 // Serve attached assets
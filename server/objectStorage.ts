@@ -88,7 +88,8 @@ export class ObjectStorageService {
   }
 
   // Downloads an object to the response.
-  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600) {
+  // Private objects are never stored by shared caches.
+  async downloadObject(file: File, res: Response, cacheTtlSec: number = 3600, isPrivate: boolean = false) {
     try {
       // Get file metadata
       const [metadata] = await file.getMetadata();
@@ -97,7 +98,7 @@ export class ObjectStorageService {
       res.set({
         "Content-Type": metadata.contentType || "application/octet-stream",
         "Content-Length": metadata.size,
-        "Cache-Control": `public, max-age=${cacheTtlSec}`,
+        "Cache-Control": isPrivate ? "private, no-store" : `public, max-age=${cacheTtlSec}`,
       });
 
       // Stream the file to the response
@@ -119,8 +120,8 @@ export class ObjectStorageService {
     }
   }
 
-  // Gets the upload URL for an object entity.
-  async getObjectEntityUploadURL(): Promise<string> {
+  // Gets the upload URL for an object entity under the given private directory.
+  async getObjectEntityUploadURL(directory: string = "uploads"): Promise<string> {
     const privateObjectDir = this.getPrivateObjectDir();
     if (!privateObjectDir) {
       throw new Error(
@@ -130,7 +131,7 @@ export class ObjectStorageService {
     }
 
     const objectId = randomUUID();
-    const fullPath = `${privateObjectDir}/uploads/${objectId}`;
+    const fullPath = `${privateObjectDir}/${directory}/${objectId}`;
 
     const { bucketName, objectName } = parseObjectPath(fullPath);
 
@@ -0,0 +1,38 @@
+// WebSocket connections for real-time updates - optimized memory management
+export const wsConnections: Set<any> = new Set();
+
+export function broadcastUpdate(type: string, data?: any) {
+  if (wsConnections.size === 0) return; // Skip if no connections
+  
+  const message = JSON.stringify({ type, data, timestamp: new Date().toISOString() });
+  const deadConnections: any[] = [];
+  
+  wsConnections.forEach(ws => {
+    if (ws.readyState === 1) { // WebSocket.OPEN
+      try {
+        ws.send(message);
+      } catch (error) {
+        deadConnections.push(ws);
+      }
+    } else {
+      deadConnections.push(ws);
+    }
+  });
+  
+  // Clean up dead connections
+  deadConnections.forEach(ws => wsConnections.delete(ws));
+}
+
+// Push to the connections an investor authenticated with the AUTH message; nobody else receives it
+export function sendToUser(userId: string, type: string, data?: any) {
+  const message = JSON.stringify({ type, data, timestamp: new Date().toISOString() });
+
+  wsConnections.forEach(ws => {
+    if (ws.userId !== userId || ws.readyState !== 1) return;
+    try {
+      ws.send(message);
+    } catch (error) {
+      wsConnections.delete(ws);
+    }
+  });
+}
@@ -2,13 +2,12 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
-import { insertContactSchema, insertPropertySchema, updatePropertySchema, insertAdminUserSchema, properties, users, insertUserSchema, adminUsers, contacts, homePageSections, insertHomePageSectionSchema } from "@shared/schema";
-import { eq, sql } from "drizzle-orm";
+import { contactSubmissionSchema, insertPropertySchema, updatePropertySchema, properties, users, insertUserSchema, adminUsers, contacts, homePageSections, insertHomePageSectionSchema, type Contact } from "@shared/schema";
+import { eq, and, inArray, sql } from "drizzle-orm";
 import { z } from "zod";
 import { ProductionProtection, productionProtectionMiddleware } from "./production-protection";
 import { seedSiteStatistics, getStatisticsStatus } from "./seed-statistics";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import helmet from "helmet";
 import rateLimit from "express-rate-limit";
 import slowDown from "express-slow-down";
@@ -25,35 +24,41 @@ import { performanceMonitor, databaseMonitor } from "./performance/monitor";
 import { sessionCache, propertyCache, configCache } from "./performance/cache";
 import { totpSecurityManager, TOTP_CONFIG } from "./security/totp-security";
 import securePropertiesRouter from "./routes/secureProperties";
+import investmentsRouter from "./routes/investments";
+import paymentsRouter from "./routes/payments";
+import distributionsRouter from "./routes/distributions";
+import kycRouter from "./routes/kyc";
+import portfolioRouter from "./routes/portfolio";
+import marketRouter from "./routes/market";
+import valuationsRouter from "./routes/valuations";
+import lifecycleRouter from "./routes/lifecycle";
+import customFieldsRouter from "./routes/customFields";
+import propertySearchRouter from "./routes/propertySearch";
+import propertyComparisonRouter from "./routes/propertyComparison";
+import watchlistRouter from "./routes/watchlist";
+import calculatorRouter from "./routes/calculator";
+import leadsRouter from "./routes/leads";
+import outboxRouter from "./routes/outbox";
+import notificationsRouter from "./routes/notifications";
+import notificationTemplatesRouter from "./routes/notificationTemplates";
+import adminUsersRouter from "./routes/adminUsers";
+import { KYC_OBJECT_DIR } from "./services/kyc";
+import { broadcastUpdate, wsConnections } from "./realtime";
+import { adminPermissions, adminRoleRequiresTotp, normalizeAdminRole } from "@shared/adminRoles";
+import { adminRouteGuard, requireAdminAuth, requirePermission, requireUserAuth, resolvePrincipal, resolveSessionToken } from "./security/session-auth";
+import { investmentService } from "./services/investment";
+import { valuationService } from "./services/valuation";
+import { marketService } from "./services/market";
+import { propertyLifecycleService } from "./services/lifecycle";
+import { customFieldService } from "./services/custom-fields";
+import { contactSpamService } from "./services/contact-spam";
+import { notificationService } from "./services/notification";
+import { adminUserService } from "./services/admin-users";
+import { PUBLIC_PROPERTY_STATUSES } from "@shared/propertyLifecycle";
 
 // Load configuration
 import config from '../config/app.config.js';
 
-// WebSocket connections for real-time updates - optimized memory management
-let wsConnections: Set<any> = new Set();
-
-function broadcastUpdate(type: string, data?: any) {
-  if (wsConnections.size === 0) return; // Skip if no connections
-  
-  const message = JSON.stringify({ type, data, timestamp: new Date().toISOString() });
-  const deadConnections: any[] = [];
-  
-  wsConnections.forEach(ws => {
-    if (ws.readyState === 1) { // WebSocket.OPEN
-      try {
-        ws.send(message);
-      } catch (error) {
-        deadConnections.push(ws);
-      }
-    } else {
-      deadConnections.push(ws);
-    }
-  });
-  
-  // Clean up dead connections
-  deadConnections.forEach(ws => wsConnections.delete(ws));
-}
-
 export async function registerRoutes(app: Express): Promise<Server> {
   // Configure trust proxy before security middleware
   app.set('trust proxy', config.security.additionalSecurity.trustProxy);
@@ -147,8 +152,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return obj;
     };
 
+    // Array bodies (e.g. SendGrid's event webhook) stay arrays instead of spreading into an object
     if (req.body) {
-      req.body = sanitizeObject({ ...req.body });
+      req.body = Array.isArray(req.body) ? req.body.map(sanitizeObject) : sanitizeObject({ ...req.body });
     }
     if (req.query) {
       req.query = sanitizeObject({ ...req.query });
@@ -163,6 +169,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Apply input sanitization to all routes
   app.use(sanitizeInput);
 
+  // Resolve the caller (anonymous, investor or admin) once; routes guard on req.principal
+  app.use(resolvePrincipal);
+
+  // Every admin API needs an admin session, apart from sign-in and account recovery
+  app.use('/api/admin', adminRouteGuard);
+
   // Health check endpoint (before rate limiting)
   app.get('/health', (req: any, res: any) => {
     res.status(200).json({ 
@@ -173,24 +185,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
-  // Authentication middleware
-  const authenticateToken = (req: any, res: any, next: any) => {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (!token) {
-      return res.status(401).json({ message: 'Access token required' });
-    }
-
-    jwt.verify(token, config.auth.sessionSecret, (err: any, user: any) => {
-      if (err) {
-        return res.status(403).json({ message: 'Invalid token' });
-      }
-      req.user = user;
-      next();
-    });
-  };
-
   // Error handling middleware
   app.use((err: any, req: any, res: any, next: any) => {
     console.error('Global error handler:', err);
@@ -218,11 +212,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Faceted property search; mounted ahead of /api/properties/:id so "search" is not taken for an id
+  app.use(propertySearchRouter);
+
+  // Side-by-side comparison; also ahead of /api/properties/:id
+  app.use(propertyComparisonRouter);
+
   // Get all active properties (public endpoint)
   app.get("/api/properties", async (req, res) => {
     try {
-      // Only show active properties to public users
-      const activeProperties = await db.select().from(properties).where(eq(properties.isActive, true));
+      // Only show active properties in a public lifecycle state; ?status=live,fully_funded narrows further
+      const requested = typeof req.query.status === "string" ? req.query.status.split(",") : [];
+      const statuses = requested.length > 0
+        ? PUBLIC_PROPERTY_STATUSES.filter(status => requested.includes(status))
+        : PUBLIC_PROPERTY_STATUSES;
+      if (statuses.length === 0) {
+        return res.json([]);
+      }
+
+      const activeProperties = await db.select().from(properties).where(and(
+        eq(properties.isActive, true),
+        inArray(properties.status, [...statuses])
+      ));
       res.json(activeProperties);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch properties" });
@@ -245,10 +256,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Filter properties by city
   app.get("/api/properties/city/:city", async (req, res) => {
     try {
-      const properties = await storage.getProperties();
-      const filteredProperties = properties.filter(
-        p => p.city.toLowerCase() === req.params.city.toLowerCase()
-      );
+      const filteredProperties = await db.select().from(properties).where(and(
+        eq(properties.isActive, true),
+        inArray(properties.status, [...PUBLIC_PROPERTY_STATUSES]),
+        sql`lower(${properties.city}) = lower(${req.params.city})`
+      ));
       res.json(filteredProperties);
     } catch (error) {
       res.status(500).json({ message: "Failed to filter properties" });
@@ -261,10 +273,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update feature flags (admin only)
-  app.put("/api/admin/config/features", async (req, res) => {
+  app.put("/api/admin/config/features", requirePermission("settings:manage"), async (req, res) => {
     try {
-      // In a real application, you would validate admin access here
-      // For now, we'll update the in-memory config and save to file
+      // Update the in-memory config
       const newFeatures = req.body;
       config.app.features = { ...config.app.features, ...newFeatures };
       
@@ -349,74 +360,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get current user info
-  app.get("/api/auth/user", async (req, res) => {
-    try {
-      const authHeader = req.headers['authorization'];
-      const sessionToken = authHeader && authHeader.split(' ')[1];
-      
-      if (!sessionToken) {
-        return res.status(401).json({ message: "No session token" });
-      }
-      
-      const user = await authService.validateSession(sessionToken);
-      
-      if (user) {
-        res.json(user);
-      } else {
-        res.status(401).json({ message: "Invalid session" });
-      }
-    } catch (error) {
-      console.error("Get user error:", error);
-      res.status(500).json({ message: "Failed to get user info" });
-    }
-  });
-
-  // User login
-  app.post("/api/auth/login", [
-    body('email').isEmail().normalizeEmail(),
-    body('password').notEmpty()
-  ], async (req, res) => {
-    try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        return res.status(400).json({ errors: errors.array() });
-      }
-
-      const { email, password } = req.body;
-      
-      // Find user
-      const [user] = await db.select().from(users).where(eq(users.email, email));
-      if (!user) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
-
-      // Verify password
-      const validPassword = await bcrypt.compare(password, user.password);
-      if (!validPassword) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
-
-      // Generate JWT token
-      const token = jwt.sign(
-        { userId: user.id, email: user.email },
-        config.auth.sessionSecret,
-        { expiresIn: '24h' }
-      );
-
-      res.json({
-        message: "Login successful",
-        token,
-        user: {
-          id: user.id,
-          email: user.email,
-          firstName: user.firstName,
-          lastName: user.lastName
-        }
-      });
-    } catch (error) {
-      console.error('Login error:', error);
-      res.status(500).json({ message: "Failed to login" });
-    }
+  app.get("/api/auth/user", requireUserAuth, (req, res) => {
+    res.json({ success: true, user: req.currentUser });
   });
 
   // OTP Authentication Routes
@@ -474,19 +419,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Signed token the contact form submits back, used to time how long it took to fill in
+  app.get("/api/contact/token", (req, res) => {
+    res.json({ token: contactSpamService.issueFormToken() });
+  });
+
   // Submit contact form
   app.post("/api/contact", async (req, res) => {
     try {
-      const validatedData = insertContactSchema.parse(req.body);
-      const contact = await storage.createContact(validatedData);
+      const { website, formToken, ...validatedData } = contactSubmissionSchema.parse(req.body);
+      const contact = await contactSpamService.createContact(validatedData, {
+        honeypot: website,
+        formToken,
+        ip: req.ip || 'unknown'
+      });
+
+      // Suspicious submissions wait in the admin quarantine; the sender sees the usual confirmation
+      if (contact.isQuarantined) {
+        console.warn(`🚫 Contact ${contact.id} quarantined (score ${contact.spamScore}): ${contact.spamReasons.join("; ")}`);
+        broadcastUpdate('CONTACT_QUARANTINED', { id: contact.id });
+        return res.status(201).json({ success: true });
+      }
       
       // Send notification to admin if enabled
       if (config.app.features.enableEmailNotifications) {
         await sendContactNotification(contact);
       }
       
-      broadcastUpdate('CONTACT_CREATED', contact);
-      res.status(201).json(contact);
+      broadcastUpdate('CONTACT_CREATED', { id: contact.id });
+      res.status(201).json({ success: true });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ 
@@ -499,7 +460,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get all contacts (for admin)
-  app.get("/api/contacts", async (req, res) => {
+  app.get("/api/contacts", requirePermission("contacts:view"), async (req, res) => {
     try {
       const contacts = await storage.getContacts();
       res.json(contacts);
@@ -509,7 +470,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete contact (admin)
-  app.delete("/api/contacts/:id", async (req, res) => {
+  app.delete("/api/contacts/:id", requirePermission("contacts:manage"), async (req, res) => {
     try {
       const success = await storage.deleteContact(req.params.id);
       if (!success) {
@@ -524,7 +485,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin Property CRUD operations
   
   // Get all properties (including inactive ones for admin)
-  app.get("/api/admin/properties", async (req, res) => {
+  app.get("/api/admin/properties", requirePermission("properties:view"), async (req, res) => {
     try {
       // For admin, get all properties without filtering by isActive
       const allProperties = await db.select().from(properties);
@@ -535,7 +496,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create property (admin)
-  app.post("/api/admin/properties", async (req, res) => {
+  app.post("/api/admin/properties", requirePermission("properties:manage"), async (req, res) => {
     try {
       console.log("Creating property with data:", req.body);
       
@@ -544,13 +505,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ...req.body,
         // Convert empty string to null for numeric fields
         expectedReturn: req.body.expectedReturn === '' ? null : req.body.expectedReturn,
-        fundingProgress: req.body.fundingProgress || 0
+        // Funding progress is derived from investments; a new property starts unfunded
+        fundingProgress: 0,
+        // New listings start as drafts and go live through the lifecycle endpoints
+        status: "draft"
       };
       
       const validatedData = insertPropertySchema.parse(cleanedBody);
       console.log("Validated data:", validatedData);
+
+      const customFieldIssues = await customFieldService.validatePropertyValues(validatedData.customFields, {
+        propertyType: validatedData.propertyType
+      });
+      if (customFieldIssues.length > 0) {
+        return res.status(400).json({
+          message: "Validation failed",
+          errors: customFieldIssues.map(issue => ({ path: ["customFields", issue.fieldId], message: issue.message }))
+        });
+      }
       
       const property = await storage.createProperty(validatedData);
+      await propertyLifecycleService.recordInitialStatus(property, req.adminId);
+      // The listing value is the first point in the valuation history
+      await valuationService.publishValuation(property.id, {
+        valuationDate: new Date(),
+        value: property.totalValue,
+        source: "admin"
+      }, req.adminId);
       broadcastUpdate('PROPERTY_CREATED', property);
       res.status(201).json(property);
     } catch (error) {
@@ -569,13 +550,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update property (admin)
-  app.put("/api/admin/properties/:id", async (req, res) => {
+  app.put("/api/admin/properties/:id", requirePermission("properties:manage"), async (req, res) => {
     try {
-      const validatedData = updatePropertySchema.parse(req.body);
-      const property = await storage.updateProperty(req.params.id, validatedData);
-      if (!property) {
+      // Funding progress is derived from investments; trading halts and status have their own endpoints
+      const { fundingProgress, tradingHalted, status, ...validatedData } = updatePropertySchema.parse(req.body);
+
+      if (validatedData.customFields !== undefined) {
+        // Visibility conditions may depend on a property type this request leaves unchanged
+        const propertyType = validatedData.propertyType ?? (await storage.getProperty(req.params.id))?.propertyType;
+        const customFieldIssues = await customFieldService.validatePropertyValues(validatedData.customFields, { propertyType });
+        if (customFieldIssues.length > 0) {
+          return res.status(400).json({
+            message: "Validation failed",
+            errors: customFieldIssues.map(issue => ({ path: ["customFields", issue.fieldId], message: issue.message }))
+          });
+        }
+      }
+
+      // Value changes go through the valuation history instead of overwriting totalValue
+      const { totalValue, ...propertyData } = validatedData;
+
+      if (propertyData.totalUnits !== undefined) {
+        const existing = await storage.getProperty(req.params.id);
+        if (existing && existing.totalUnits !== propertyData.totalUnits &&
+            await investmentService.hasInvestments(req.params.id)) {
+          return res.status(409).json({ message: "Total units cannot change once investments exist" });
+        }
+      }
+
+      const updated = await storage.updateProperty(req.params.id, propertyData);
+      if (!updated) {
         return res.status(404).json({ message: "Property not found" });
       }
+      if (totalValue !== undefined && totalValue !== updated.totalValue) {
+        await valuationService.publishValuation(updated.id, {
+          valuationDate: new Date(),
+          value: totalValue,
+          source: "admin"
+        }, req.adminId);
+      }
+      await investmentService.recalculateFundingProgress(updated.id);
+      const property = await storage.getProperty(updated.id);
       broadcastUpdate('PROPERTY_UPDATED', property);
       res.json(property);
     } catch (error) {
@@ -590,7 +605,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete property (admin) - soft delete
-  app.delete("/api/admin/properties/:id", async (req, res) => {
+  app.delete("/api/admin/properties/:id", requirePermission("properties:manage"), async (req, res) => {
     try {
       const success = await storage.deleteProperty(req.params.id);
       if (!success) {
@@ -603,31 +618,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Admin user management
-  
-  // Create admin user
-  app.post("/api/admin/users", async (req, res) => {
-    try {
-      const { password, ...userData } = insertAdminUserSchema.parse(req.body);
-      const passwordHash = await bcrypt.hash(password, 10);
-      const adminUser = await storage.createAdminUser({
-        ...userData,
-        passwordHash
-      });
-      // Don't return password hash
-      const { passwordHash: _, ...safeUser } = adminUser;
-      res.status(201).json(safeUser);
-    } catch (error) {
-      if (error instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: "Validation failed", 
-          errors: error.errors 
-        });
-      }
-      res.status(500).json({ message: "Failed to create admin user" });
-    }
-  });
-
   // Login admin user
   app.post("/api/admin/login", async (req, res) => {
     try {
@@ -648,6 +638,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!isValidPassword) {
         return res.status(401).json({ message: "Invalid credentials" });
       }
+
+      if (!admin.isActive) {
+        return res.status(403).json({ message: "This admin account has been deactivated" });
+      }
+
+      // Enrolled admins need an authenticator or backup code before a session is issued
+      if (admin.totpEnabled) {
+        const { totpCode, backupCode } = req.body;
+        if (!totpCode && !backupCode) {
+          return res.status(401).json({ message: "Enter the code from your authenticator app", totpRequired: true });
+        }
+
+        let verified = false;
+        if (totpCode) {
+          const encryptedSecret = await storage.getAdminTOTPSecret(admin.id);
+          if (encryptedSecret && SecurityValidator.validateTOTPToken(totpCode)) {
+            const speakeasy = await import('speakeasy');
+            verified = speakeasy.totp.verify({
+              secret: cryptoService.decrypt(encryptedSecret),
+              encoding: 'base32',
+              token: totpCode,
+              window: 1
+            });
+          }
+        } else if (SecurityValidator.validateBackupCode(backupCode)) {
+          verified = await storage.validateBackupCode(admin.id, backupCode);
+        }
+
+        totpSecurityManager.logSecurityEvent({
+          adminId: admin.id,
+          ip: req.ip || 'unknown',
+          userAgent: req.get('User-Agent') || 'unknown',
+          action: totpCode ? 'verify' : 'backup_used',
+          success: verified
+        });
+        if (!verified) {
+          return res.status(401).json({ message: "Invalid authentication code", totpRequired: true });
+        }
+      }
       
       // Create session
       const crypto = await import('crypto');
@@ -664,9 +693,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         maxAge: 24 * 60 * 60 * 1000 // 24 hours
       });
 
+      // The session is still issued so the admin can fix either requirement from account settings
+      const restriction = adminUserService.accountRestriction(admin);
       res.json({
         message: "Admin login successful",
-        sessionToken: sessionToken
+        sessionToken: sessionToken,
+        passwordExpired: restriction === "PASSWORD_EXPIRED",
+        totpSetupRequired: restriction === "TOTP_REQUIRED"
       });
     } catch (error) {
       console.error("Admin login error:", error);
@@ -686,45 +719,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const authHeader = req.headers['authorization'];
-      const sessionToken = authHeader && authHeader.split(' ')[1];
-      
-      if (!sessionToken) {
-        return res.status(401).json({ message: "Authorization required" });
-      }
-
-      // Validate session and get admin user
-      const adminResult = await authService.validateSession(sessionToken);
-      if (!adminResult.success || !adminResult.user) {
-        return res.status(401).json({ message: "Invalid session" });
+      const [adminUser] = await db.select().from(adminUsers).where(eq(adminUsers.id, req.adminId!));
+      if (!adminUser) {
+        return res.status(404).json({ message: "Admin user not found" });
       }
 
       const { currentPassword, newPassword, notifyMobile = true } = req.body;
       
       // Verify current password
-      const isCurrentPasswordValid = await bcrypt.compare(currentPassword, adminResult.user.passwordHash);
+      const isCurrentPasswordValid = await bcrypt.compare(currentPassword, adminUser.passwordHash);
       if (!isCurrentPasswordValid) {
         return res.status(400).json({ message: "Current password is incorrect" });
       }
 
-      // Hash new password
-      const newPasswordHash = await bcrypt.hash(newPassword, 10);
-
-      // Update password in database
-      await db.update(adminUsers)
-        .set({ passwordHash: newPasswordHash })
-        .where(eq(adminUsers.id, adminResult.user.id));
+      // Enforces the password policy and history, and restarts the expiry clock
+      const result = await adminUserService.setPassword(adminUser.id, newPassword);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ message: result.message });
+      }
 
       // Send mobile notification if enabled and phone number is configured
       if (notifyMobile && config.app.features.enableSMSNotifications) {
         try {
-          const adminProfile = await authService.getAdminProfile();
-          if (adminProfile.success && adminProfile.user?.phoneNumber) {
-            const phoneNumber = `${adminProfile.user.countryCode || '+91'}${adminProfile.user.phoneNumber}`;
-            await notificationService.sendSMS(
-              phoneNumber,
-              "Your admin password has been successfully changed."
-            );
+          if (adminUser.phoneNumber) {
+            const phoneNumber = `${adminUser.countryCode || '+91'}${adminUser.phoneNumber}`;
+            await notificationService.sendTemplatedSMS(phoneNumber, "admin_password_changed", {
+              username: adminUser.username
+            });
           }
         } catch (smsError) {
           console.log("SMS notification failed:", smsError);
@@ -744,22 +765,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get admin profile
   app.get("/api/admin/profile", async (req, res) => {
     try {
-      const authHeader = req.headers['authorization'];
-      const sessionToken = authHeader && authHeader.split(' ')[1];
-      
-      if (!sessionToken) {
-        return res.status(401).json({ message: "Authorization required" });
-      }
-
-      // Validate session
-      const sessionResult = await authService.validateSession(sessionToken);
-      if (!sessionResult.success) {
-        return res.status(401).json({ message: "Invalid session" });
-      }
-
-      const profileResult = await authService.getAdminProfile();
-      if (profileResult.success) {
-        res.json(profileResult.user);
+      const profileResult = await authService.getAdminProfile(req.adminId!);
+      if (profileResult.success && profileResult.user) {
+        // The caller's permissions drive which admin tabs the dashboard shows
+        const { role, passwordChangedAt } = profileResult.user;
+        const restriction = adminUserService.accountRestriction(profileResult.user);
+        res.json({
+          ...profileResult.user,
+          role: normalizeAdminRole(role) ?? role,
+          permissions: adminPermissions(role),
+          passwordExpiresAt: adminUserService.passwordExpiresAt(passwordChangedAt),
+          passwordExpired: restriction === "PASSWORD_EXPIRED",
+          totpRequired: adminRoleRequiresTotp(role)
+        });
       } else {
         res.status(404).json({ message: "Admin profile not found" });
       }
@@ -781,19 +799,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const authHeader = req.headers['authorization'];
-      const sessionToken = authHeader && authHeader.split(' ')[1];
-      
-      if (!sessionToken) {
-        return res.status(401).json({ message: "Authorization required" });
-      }
-
-      // Validate session
-      const sessionResult = await authService.validateSession(sessionToken);
-      if (!sessionResult.success) {
-        return res.status(401).json({ message: "Invalid session" });
-      }
-
       const { email, phoneNumber, countryCode } = req.body;
       const updates: any = {};
 
@@ -801,7 +806,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (phoneNumber !== undefined) updates.phoneNumber = phoneNumber;
       if (countryCode !== undefined) updates.countryCode = countryCode;
 
-      const result = await authService.updateAdminProfile(updates);
+      const result = await authService.updateAdminProfile(req.adminId!, updates);
       
       if (result.success) {
         res.json({ message: result.message });
@@ -814,22 +819,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get all admin users (legacy endpoint)
-  app.get("/api/admin/users", async (req, res) => {
-    try {
-      const profileResult = await authService.getAdminProfile();
-      if (profileResult.success) {
-        res.json([profileResult.user]);
-      } else {
-        res.json([]);
-      }
-    } catch (error) {
-      res.status(500).json({ message: "Failed to fetch admin users" });
-    }
-  });
-
   // Admin settings endpoints
-  app.get("/api/admin/settings/:category", async (req, res) => {
+  // Site and social settings are public (see PUBLIC_ADMIN_ROUTES); other categories need settings access
+  const publicSettingsCategories = ["site", "social"];
+  app.get("/api/admin/settings/:category", (req, res, next) => (
+    publicSettingsCategories.includes(req.params.category) ? next() : requirePermission("settings:view")(req, res, next)
+  ), async (req, res) => {
     try {
       const { category } = req.params;
       const settings = await storage.getAdminSettingsByCategory(category);
@@ -840,7 +835,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/admin/settings", async (req, res) => {
+  app.put("/api/admin/settings", requirePermission("settings:manage"), async (req, res) => {
     try {
       const { key, value, category = "contact", description } = req.body;
       
@@ -886,7 +881,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint: Get all home page sections for management
-  app.get("/api/admin/homepage-sections", async (req, res) => {
+  app.get("/api/admin/homepage-sections", requirePermission("settings:view"), async (req, res) => {
     try {
       const sections = await db.select().from(homePageSections).orderBy(sql`display_order ASC`);
       res.json(sections);
@@ -897,7 +892,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint: Update home page section
-  app.put("/api/admin/homepage-sections/:id", async (req, res) => {
+  app.put("/api/admin/homepage-sections/:id", requirePermission("settings:manage"), async (req, res) => {
     try {
       const { id } = req.params;
       const { isEnabled, displayOrder } = req.body;
@@ -926,7 +921,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin endpoint: Bulk update home page sections
-  app.put("/api/admin/homepage-sections", async (req, res) => {
+  app.put("/api/admin/homepage-sections", requirePermission("settings:manage"), async (req, res) => {
     try {
       const { sections } = req.body;
       
@@ -1009,10 +1004,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "All fields are required" });
       }
 
-      if (newPassword.length < 8) {
-        return res.status(400).json({ message: "Password must be at least 8 characters long" });
-      }
-
       const admin = await storage.getAdminUserByUsername(username);
       if (!admin || !admin.phoneNumber) {
         return res.status(404).json({ message: "Admin user not found" });
@@ -1023,12 +1014,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid or expired OTP" });
       }
 
-      // Hash the new password
-      const bcrypt = await import('bcrypt');
-      const hashedPassword = await bcrypt.hash(newPassword, 10);
-
       // Update password and mark OTP as used
-      await storage.updateAdminPassword(admin.id, hashedPassword);
+      const result = await adminUserService.setPassword(admin.id, newPassword);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ message: result.message });
+      }
       await storage.markPasswordResetOtpAsUsed(admin.phoneNumber, otp);
 
       res.json({ message: "Password reset successfully" });
@@ -1040,67 +1030,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // TOTP Routes for Authenticator-based Password Reset
   
-  // Enhanced authentication middleware with security hardening
-  const requireAuth = async (req: any, res: any, next: any) => {
-    try {
-      // Check both cookies and Authorization header with validation
-      let sessionToken = null;
-      
-      if (req.cookies && req.cookies.adminSessionToken) {
-        sessionToken = req.cookies.adminSessionToken;
-      } else if (req.headers.authorization) {
-        sessionToken = req.headers.authorization.replace('Bearer ', '');
-      }
-      
-      if (!sessionToken) {
-        console.log("No session token found in cookies or headers");
-        return res.status(401).json({ message: "Authentication required" });
-      }
-
-      // Validate session token format for security
-      if (!SecurityValidator.validateSessionToken(sessionToken)) {
-        console.log("Invalid session token format");
-        return res.status(401).json({ message: "Invalid session format" });
-      }
-
-      console.log("Validating session token:", sessionToken.substring(0, 10) + "...");
-      const adminId = await storage.validateAdminSession(sessionToken);
-      
-      if (!adminId) {
-        console.log("Session token validation failed");
-        return res.status(401).json({ message: "Invalid or expired session" });
-      }
-
-      console.log("Authentication successful for admin:", adminId);
-      req.user = { id: adminId };
-      
-      // Set security headers
-      res.setHeader('X-Admin-Session', 'active');
-      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, private');
-      
-      next();
-    } catch (error) {
-      console.error("Authentication middleware error:", error);
-      res.status(500).json({ message: "Authentication error" });
-    }
-  };
-
   // Generate TOTP secret and QR code for setup - Enhanced Security
-  app.post("/api/admin/totp/generate", requireAuth, async (req, res) => {
+  app.post("/api/admin/totp/generate", requireAdminAuth, async (req, res) => {
     try {
       const speakeasy = await import('speakeasy');
       const qrcode = await import('qrcode');
       
       // Generate cryptographically secure secret
       const secret = speakeasy.generateSecret({
-        name: `fractOWN Admin (${req.user.id.substring(0, 8)})`,
+        name: `fractOWN Admin (${req.adminId!.substring(0, 8)})`,
         issuer: 'fractOWN',
         length: 32
       });
 
       // Encrypt the secret before storing
       const encryptedSecret = cryptoService.encrypt(secret.base32);
-      await storage.updateAdminTOTPSecret(req.user.id, encryptedSecret);
+      await storage.updateAdminTOTPSecret(req.adminId!, encryptedSecret);
 
       // Generate QR code with enhanced options
       const qrCodeDataURL = await qrcode.toDataURL(secret.otpauth_url, {
@@ -1112,21 +1057,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
 
       // Enhanced security validation
-      const setupValidation = totpSecurityManager.validateTOTPSetup(req.user.id, req.ip || 'unknown');
+      const setupValidation = totpSecurityManager.validateTOTPSetup(req.adminId!, req.ip || 'unknown');
       if (!setupValidation.allowed) {
         return res.status(429).json({ message: setupValidation.reason });
       }
 
       // Log security event
       totpSecurityManager.logSecurityEvent({
-        adminId: req.user.id,
+        adminId: req.adminId!,
         ip: req.ip || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown',
         action: 'generate',
         success: true
       });
 
-      console.log(`TOTP secret generated for admin: ${req.user.id.substring(0, 8)}... from IP: ${req.ip}`);
+      console.log(`TOTP secret generated for admin: ${req.adminId!.substring(0, 8)}... from IP: ${req.ip}`);
 
       res.json({
         secret: secret.base32, // Return unencrypted for QR setup only
@@ -1140,7 +1085,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Verify TOTP token and enable TOTP authentication - Enhanced Security
-  app.post("/api/admin/totp/verify", requireAuth, async (req, res) => {
+  app.post("/api/admin/totp/verify", requireAdminAuth, async (req, res) => {
     try {
       const { token } = req.body;
       
@@ -1150,7 +1095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Valid 6-digit token required" });
       }
 
-      const encryptedSecret = await storage.getAdminTOTPSecret(req.user.id);
+      const encryptedSecret = await storage.getAdminTOTPSecret(req.adminId!);
       if (!encryptedSecret) {
         return res.status(400).json({ message: "No TOTP secret found. Please generate first." });
       }
@@ -1169,14 +1114,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (!verified) {
         // Log failed security event
         totpSecurityManager.logSecurityEvent({
-          adminId: req.user.id,
+          adminId: req.adminId!,
           ip: req.ip || 'unknown',
           userAgent: req.get('User-Agent') || 'unknown',
           action: 'verify',
           success: false
         });
         
-        console.log(`TOTP verification failed for admin: ${req.user.id.substring(0, 8)}... from IP: ${req.ip}`);
+        console.log(`TOTP verification failed for admin: ${req.adminId!.substring(0, 8)}... from IP: ${req.ip}`);
         return res.status(400).json({ message: "Invalid verification code" });
       }
 
@@ -1189,18 +1134,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       // Enable TOTP with hashed backup codes
-      await storage.enableAdminTOTP(req.user.id, hashedBackupCodes);
+      await storage.enableAdminTOTP(req.adminId!, hashedBackupCodes);
 
       // Log successful security event
       totpSecurityManager.logSecurityEvent({
-        adminId: req.user.id,
+        adminId: req.adminId!,
         ip: req.ip || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown',
         action: 'verify',
         success: true
       });
 
-      console.log(`TOTP enabled for admin: ${req.user.id.substring(0, 8)}... from IP: ${req.ip}`);
+      console.log(`TOTP enabled for admin: ${req.adminId!.substring(0, 8)}... from IP: ${req.ip}`);
 
       // Clear the plain secret from memory (security best practice)
       cryptoService.secureWipe(secret);
@@ -1229,10 +1174,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "TOTP code or backup code is required" });
       }
 
-      if (newPassword.length < 8) {
-        return res.status(400).json({ message: "Password must be at least 8 characters long" });
-      }
-
       const admin = await storage.getAdminUserByUsername(username);
       if (!admin) {
         return res.status(404).json({ message: "Admin user not found" });
@@ -1263,10 +1204,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid authentication code" });
       }
 
-      // Hash and update password
-      const bcrypt = await import('bcrypt');
-      const hashedPassword = await bcrypt.hash(newPassword, 10);
-      await storage.updateAdminPassword(admin.id, hashedPassword);
+      const result = await adminUserService.setPassword(admin.id, newPassword);
+      if (!result.success) {
+        return res.status(result.status || 400).json({ message: result.message });
+      }
 
       res.json({ message: "Password reset successfully using authenticator" });
     } catch (error) {
@@ -1276,7 +1217,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Get TOTP status for admin dashboard
-  app.get("/api/admin/totp/status", requireAuth, async (req, res) => {
+  app.get("/api/admin/totp/status", requireAdminAuth, async (req, res) => {
     try {
       const { adminUsers } = await import("@shared/schema");
       const { eq } = await import("drizzle-orm");
@@ -1284,7 +1225,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       const [admin] = await db.select()
         .from(adminUsers)
-        .where(eq(adminUsers.id, req.user.id));
+        .where(eq(adminUsers.id, req.adminId!));
       
       if (!admin) {
         return res.status(404).json({ message: "Admin not found" });
@@ -1301,7 +1242,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Disable TOTP authentication with enhanced security
-  app.post("/api/admin/totp/disable", requireAuth, async (req, res) => {
+  app.post("/api/admin/totp/disable", requireAdminAuth, async (req, res) => {
     try {
       const { password } = req.body;
       
@@ -1315,7 +1256,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { adminUsers } = await import("@shared/schema");
       const { eq } = await import("drizzle-orm");
       
-      const [admin] = await db.select().from(adminUsers).where(eq(adminUsers.id, req.user.id));
+      const [admin] = await db.select().from(adminUsers).where(eq(adminUsers.id, req.adminId!));
       if (!admin) {
         return res.status(404).json({ message: "Admin not found" });
       }
@@ -1327,24 +1268,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid password" });
       }
 
+      if (adminRoleRequiresTotp(admin.role)) {
+        return res.status(400).json({ message: "Your role requires two-factor authentication, so it cannot be disabled" });
+      }
+
       await db.update(adminUsers)
         .set({ 
           totpEnabled: false,
           totpSecret: null,
           backupCodes: []
         })
-        .where(eq(adminUsers.id, req.user.id));
+        .where(eq(adminUsers.id, req.adminId!));
 
       // Log security event
       totpSecurityManager.logSecurityEvent({
-        adminId: req.user.id,
+        adminId: req.adminId!,
         ip: req.ip || 'unknown',
         userAgent: req.get('User-Agent') || 'unknown',
         action: 'disabled',
         success: true
       });
 
-      console.log(`TOTP disabled for admin: ${req.user.id.substring(0, 8)}... from IP: ${req.ip}`);
+      console.log(`TOTP disabled for admin: ${req.adminId!.substring(0, 8)}... from IP: ${req.ip}`);
 
       res.json({ 
         message: "TOTP authentication disabled successfully",
@@ -1357,10 +1302,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin security dashboard - View security events and performance metrics
-  app.get("/api/admin/security/dashboard", requireAuth, async (req, res) => {
+  app.get("/api/admin/security/dashboard", requirePermission("security:view"), async (req, res) => {
     try {
       const securityStats = totpSecurityManager.getSecurityStats();
-      const adminSecurityEvents = totpSecurityManager.getAdminSecurityEvents(req.user.id, 20);
+      const adminSecurityEvents = totpSecurityManager.getAdminSecurityEvents(req.adminId!, 20);
       const performanceStats = performanceMonitor.getStats();
       const memoryStats = performanceMonitor.getMemoryStats();
       
@@ -1380,7 +1325,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin dashboard stats route
-  app.get("/api/admin/dashboard-stats/:period", requireAuth, async (req, res) => {
+  app.get("/api/admin/dashboard-stats/:period", requirePermission("statistics:view"), async (req, res) => {
     try {
       const { period } = req.params;
       const validPeriods = ['7d', '30d', '90d'];
@@ -1419,8 +1364,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Mount secure properties router for encrypted data handling
   app.use(securePropertiesRouter);
 
+  // Investor commitments and holdings
+  app.use(investmentsRouter);
+
+  // Payment gateway webhooks and mock checkout
+  app.use(paymentsRouter);
+
+  // Rental income distributions and payout ledger
+  app.use(distributionsRouter);
+
+  // Investor KYC submission and admin review
+  app.use(kycRouter);
+
+  // Investor portfolio dashboard
+  app.use(portfolioRouter);
+
+  // Secondary market order book
+  app.use(marketRouter);
+
+  // Property valuation history and NAV
+  app.use(valuationsRouter);
+
+  // Property lifecycle transitions
+  app.use(lifecycleRouter);
+
+  // Investor watchlist, alert rules and notifications
+  app.use(watchlistRouter);
+
+  // Investment calculator assumptions
+  app.use(calculatorRouter);
+
+  // Contact lead pipeline for admins
+  app.use(leadsRouter);
+
+  // Captured development email and SMS
+  app.use(outboxRouter);
+
+  // Investor inbox and preferences, delivery receipts and the admin deliveries view
+  app.use(notificationsRouter);
+
+  // Editable notification templates
+  app.use(notificationTemplatesRouter);
+
+  // Admin team: invites, roles and deactivation
+  app.use(adminUsersRouter);
+
   // Object storage routes for file uploads
-  app.post("/api/objects/upload", async (req, res) => {
+  app.post("/api/objects/upload", requirePermission("properties:manage"), async (req, res) => {
     try {
       console.log("Getting upload URL for object storage...");
       const objectStorageService = new ObjectStorageService();
@@ -1434,7 +1424,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin logo upload endpoint (no content-type validation needed for upload URL request)
-  app.post("/api/admin/logo/upload", requireAuth, (req, res) => {
+  app.post("/api/admin/logo/upload", requirePermission("settings:manage"), (req, res) => {
     // Skip content-type validation for this endpoint
     (async () => {
       try {
@@ -1449,7 +1439,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update site logo setting
-  app.post("/api/admin/logo/save", requireAuth, async (req, res) => {
+  app.post("/api/admin/logo/save", requirePermission("settings:manage"), async (req, res) => {
     try {
       const { logoUrl } = req.body;
       if (!logoUrl) {
@@ -1466,6 +1456,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Serve uploaded objects
   app.get("/objects/:objectPath(*)", async (req, res) => {
+    // KYC documents are only served to reviewers through /api/admin/kyc
+    if (req.path.startsWith(`/objects/${KYC_OBJECT_DIR}/`)) {
+      return res.status(404).json({ error: "File not found", path: req.path });
+    }
+
     const objectStorageService = new ObjectStorageService();
     try {
       console.log("Serving object:", req.path);
@@ -1524,7 +1519,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update site statistics (admin only) with audit logging
-  app.put("/api/admin/site-statistics/:key", productionProtectionMiddleware("update site statistics"), async (req, res) => {
+  app.put("/api/admin/site-statistics/:key", requirePermission("statistics:manage"), productionProtectionMiddleware("update site statistics"), async (req, res) => {
     try {
       const { key } = req.params;
       const { value, label } = req.body;
@@ -1557,58 +1552,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // =========================== CUSTOM FIELDS API ===========================
-  
-  // Get all custom field definitions
-  app.get("/api/admin/custom-fields", async (req, res) => {
-    try {
-      // For now, return empty array since we're storing in localStorage
-      // In production, this would query a database table for custom field definitions
-      res.json([]);
-    } catch (error) {
-      console.error('Failed to fetch custom fields:', error);
-      res.status(500).json({ error: 'Failed to fetch custom fields' });
-    }
-  });
 
-  // Create custom field definition
-  app.post("/api/admin/custom-fields", async (req, res) => {
-    try {
-      const customField = req.body;
-      // For now, just return success since we're handling persistence client-side
-      // In production, this would save to a database table
-      res.json({ success: true, field: customField });
-    } catch (error) {
-      console.error('Failed to create custom field:', error);
-      res.status(500).json({ error: 'Failed to create custom field' });
-    }
-  });
-
-  // Update custom field definition
-  app.put("/api/admin/custom-fields/:id", async (req, res) => {
-    try {
-      const { id } = req.params;
-      const customField = req.body;
-      // For now, just return success since we're handling persistence client-side
-      // In production, this would update a database table
-      res.json({ success: true, field: customField });
-    } catch (error) {
-      console.error('Failed to update custom field:', error);
-      res.status(500).json({ error: 'Failed to update custom field' });
-    }
-  });
-
-  // Delete custom field definition
-  app.delete("/api/admin/custom-fields/:id", async (req, res) => {
-    try {
-      const { id } = req.params;
-      // For now, just return success since we're handling persistence client-side
-      // In production, this would delete from a database table
-      res.json({ success: true });
-    } catch (error) {
-      console.error('Failed to delete custom field:', error);
-      res.status(500).json({ error: 'Failed to delete custom field' });
-    }
-  });
+  // Custom field definitions shared by every admin
+  app.use(customFieldsRouter);
+
+  // Close funding rounds whose deadline has passed, and release investments and secondary trades nobody paid for
+  setInterval(() => {
+    propertyLifecycleService.closeExpiredRounds()
+      .then(closed => closed > 0 && broadcastUpdate('PROPERTY_UPDATED'))
+      .catch(error => console.error("Funding deadline sweep error:", error));
+    investmentService.expireUnpaidInvestments()
+      .then(propertyIds => propertyIds.length > 0 && broadcastUpdate('PROPERTY_UPDATED'))
+      .catch(error => console.error("Investment payment sweep error:", error));
+    marketService.expireUnsettledTrades()
+      .then(propertyIds => propertyIds.forEach(propertyId => broadcastUpdate('MARKET_UPDATED', { propertyId })))
+      .catch(error => console.error("Trade settlement sweep error:", error));
+  }, config.app.business.fundingDeadlineCheckIntervalMs);
+
+  // Deliver queued email, SMS and in-app notifications
+  notificationService.getQueue().start();
 
   const httpServer = createServer(app);
   
@@ -1619,6 +1581,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   wss.on('connection', (ws: any) => {
     console.log('Client connected to WebSocket');
     wsConnections.add(ws);
+
+    // Investors identify their connection with { type: 'AUTH', token } to receive their own notifications
+    ws.on('message', async (raw: any) => {
+      try {
+        const message = JSON.parse(raw.toString());
+        if (message?.type !== 'AUTH' || typeof message.token !== 'string') return;
+        const principal = await resolveSessionToken(message.token);
+        ws.userId = principal.kind === 'user' ? principal.user.id : undefined;
+      } catch (error) {
+        // Ignore malformed client messages
+      }
+    });
     
     ws.on('close', () => {
       console.log('Client disconnected from WebSocket');
@@ -1639,9 +1613,7 @@ async function sendWelcomeEmail(email: string, firstName: string) {
   if (!config.app.features.enableEmailNotifications) return;
   
   try {
-    // Implementation depends on email service configured
-    console.log(`Sending welcome email to ${email}`);
-    // TODO: Implement actual email sending based on configured service
+    await notificationService.sendTemplatedEmail(email, "welcome", { name: firstName });
   } catch (error) {
     console.error('Failed to send welcome email:', error);
   }
@@ -1651,31 +1623,37 @@ async function sendWelcomeSMS(phone?: string) {
   if (!config.app.features.enableSMSNotifications || !phone) return;
   
   try {
-    console.log(`Sending welcome SMS to ${phone}`);
-    // TODO: Implement actual SMS sending based on configured service
+    await notificationService.sendTemplatedSMS(phone, "welcome", { name: "" });
   } catch (error) {
     console.error('Failed to send welcome SMS:', error);
   }
 }
 
-async function sendContactNotification(contact: any) {
+async function sendContactNotification(contact: Contact) {
   if (!config.app.features.enableEmailNotifications) return;
   
   try {
-    console.log(`Sending contact notification for ${contact.email}`);
-    // TODO: Implement actual notification sending
+    await notificationService.sendTemplatedEmail(config.app.supportEmail, "contact_enquiry", {
+      name: contact.name,
+      email: contact.email,
+      phone: contact.phone,
+      investmentAmount: contact.investmentAmount,
+      message: contact.message
+    });
   } catch (error) {
     console.error('Failed to send contact notification:', error);
   }
 }
 
 async function sendPasswordChangeNotification(adminUser: any) {
-  if (!config.app.features.enableSMSNotifications) return;
+  if (!config.app.features.enableSMSNotifications || !adminUser.phoneNumber) return;
   
   try {
-    console.log(`Sending password change notification to admin ${adminUser.username}`);
-    // TODO: Implement actual SMS sending based on configured service
-    // This would typically send to a registered mobile number for the admin
+    await notificationService.sendTemplatedSMS(
+      `${adminUser.countryCode || '+91'}${adminUser.phoneNumber}`,
+      "admin_password_changed",
+      { username: adminUser.username }
+    );
   } catch (error) {
     console.error('Failed to send password change notification:', error);
   }
@@ -1683,7 +1661,7 @@ async function sendPasswordChangeNotification(adminUser: any) {
   // =========================== PRODUCTION PROTECTION API ===========================
   
   // Get environment and protection status (admin only)
-  app.get("/api/admin/environment-status", async (req, res) => {
+  app.get("/api/admin/environment-status", requirePermission("statistics:view"), async (req, res) => {
     try {
       const env = ProductionProtection.getEnvironmentInfo();
       const statsStatus = await getStatisticsStatus();
@@ -1709,7 +1687,7 @@ async function sendPasswordChangeNotification(adminUser: any) {
   });
 
   // Manual statistics initialization (production-safe)
-  app.post('/api/admin/initialize-statistics', requireSessionAuth, async (req, res) => {
+  app.post('/api/admin/initialize-statistics', requirePermission("statistics:manage"), async (req, res) => {
     try {
       const { initializeSiteStatistics } = await import("./seed-statistics");
       const result = await initializeSiteStatistics();
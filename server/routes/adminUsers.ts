@@ -0,0 +1,177 @@
+/**
+ * Admin Team Routes
+ * Inviting admins by email or SMS, changing roles, deactivating accounts,
+ * and the public invite acceptance flow
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { adminUserService } from '../services/admin-users';
+import { requirePermission } from '../security/session-auth';
+import { ADMIN_ROLES } from '@shared/adminRoles';
+
+const router = Router();
+
+const inviteSchema = z.object({
+  email: z.string().email(),
+  phoneNumber: z.string().regex(/^\d{10}$/, "Enter a 10-digit mobile number").optional(),
+  countryCode: z.string().regex(/^\+\d{1,4}$/).optional(),
+  role: z.enum(ADMIN_ROLES),
+});
+
+const roleSchema = z.object({
+  role: z.enum(ADMIN_ROLES),
+});
+
+const acceptInviteSchema = z.object({
+  username: z.string().min(3).max(50),
+  password: z.string().min(8).max(128),
+});
+
+/**
+ * Every admin account with its role and status, plus recent invites
+ */
+router.get('/api/admin/users', requirePermission('security:view'), async (req, res) => {
+  try {
+    const team = await adminUserService.listTeam();
+    res.json(team);
+  } catch (error) {
+    console.error("Fetch admin team error:", error);
+    res.status(500).json({ message: "Failed to fetch admin users" });
+  }
+});
+
+/**
+ * Invite a new admin; the link expires after config.auth.adminSettings.inviteExpiryHours
+ */
+router.post('/api/admin/invites', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const data = inviteSchema.parse(req.body);
+    const result = await adminUserService.invite(data, req.adminId!);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`📨 Admin invite for ${data.email} as ${data.role} sent by admin ${req.adminId}`);
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Create admin invite error:", error);
+    res.status(500).json({ message: "Failed to send invitation" });
+  }
+});
+
+/**
+ * Revoke a pending invite so its link stops working
+ */
+router.delete('/api/admin/invites/:id', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const revoked = await adminUserService.revokeInvite(req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ message: "Pending invite not found" });
+    }
+
+    console.log(`🗑️ Admin invite ${req.params.id} revoked by admin ${req.adminId}`);
+    res.json({ success: true, message: "Invitation revoked" });
+  } catch (error) {
+    console.error("Revoke admin invite error:", error);
+    res.status(500).json({ message: "Failed to revoke invitation" });
+  }
+});
+
+/**
+ * Change another admin's role
+ */
+router.put('/api/admin/users/:id/role', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const { role } = roleSchema.parse(req.body);
+    const result = await adminUserService.setRole(req.params.id, role, req.adminId!);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`🛡️ Admin ${req.params.id} role set to ${role} by admin ${req.adminId}`);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Change admin role error:", error);
+    res.status(500).json({ message: "Failed to change role" });
+  }
+});
+
+/**
+ * Deactivate an admin and sign them out of every session
+ */
+router.post('/api/admin/users/:id/deactivate', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const result = await adminUserService.deactivate(req.params.id, req.adminId!);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`⛔ Admin ${req.params.id} deactivated by admin ${req.adminId}`);
+    res.json(result);
+  } catch (error) {
+    console.error("Deactivate admin error:", error);
+    res.status(500).json({ message: "Failed to deactivate admin" });
+  }
+});
+
+router.post('/api/admin/users/:id/reactivate', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const result = await adminUserService.reactivate(req.params.id);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`✅ Admin ${req.params.id} reactivated by admin ${req.adminId}`);
+    res.json(result);
+  } catch (error) {
+    console.error("Reactivate admin error:", error);
+    res.status(500).json({ message: "Failed to reactivate admin" });
+  }
+});
+
+/**
+ * Public: the email and role an invite link is for
+ */
+router.get('/api/admin-invites/:token', async (req, res) => {
+  try {
+    const invite = await adminUserService.getInvite(req.params.token);
+    if (!invite) {
+      return res.status(404).json({ message: "This invitation is invalid or has expired" });
+    }
+    res.json(invite);
+  } catch (error) {
+    console.error("Fetch admin invite error:", error);
+    res.status(500).json({ message: "Failed to load invitation" });
+  }
+});
+
+/**
+ * Public: accept an invite by choosing a username and password
+ */
+router.post('/api/admin-invites/:token/accept', async (req, res) => {
+  try {
+    const { username, password } = acceptInviteSchema.parse(req.body);
+    const result = await adminUserService.acceptInvite(req.params.token, username, password);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`👤 Admin invite accepted: ${result.admin!.username} (${result.admin!.role})`);
+    res.status(201).json({ success: true, message: result.message });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Accept admin invite error:", error);
+    res.status(500).json({ message: "Failed to accept invitation" });
+  }
+});
+
+export default router;
@@ -0,0 +1,27 @@
+/**
+ * Investment Calculator Routes
+ * Property-specific defaults for the return calculator
+ */
+
+import { Router } from 'express';
+import { calculatorService } from '../services/calculator';
+
+const router = Router();
+
+/**
+ * Rental yield, appreciation, fee and tax assumptions for a property
+ */
+router.get('/api/properties/:id/calculator', async (req, res) => {
+  try {
+    const assumptions = await calculatorService.getAssumptions(req.params.id);
+    if (!assumptions) {
+      return res.status(404).json({ message: "Property not found" });
+    }
+    res.json(assumptions);
+  } catch (error) {
+    console.error("Fetch calculator assumptions error:", error);
+    res.status(500).json({ message: "Failed to fetch calculator assumptions" });
+  }
+});
+
+export default router;
@@ -0,0 +1,181 @@
+/**
+ * Custom Field Definition Routes
+ * Shared property custom field definitions with ordering, sections and a one-time browser import
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { customFieldService } from '../services/custom-fields';
+import { requirePermission } from '../security/session-auth';
+import { broadcastUpdate } from '../realtime';
+import { insertCustomFieldDefinitionSchema } from '@shared/schema';
+
+const router = Router();
+
+const updateDefinitionSchema = insertCustomFieldDefinitionSchema.omit({ id: true }).partial();
+
+const reorderSchema = z.array(z.object({
+  id: z.string(),
+  section: insertCustomFieldDefinitionSchema.shape.section,
+  order: z.number().int().min(0),
+})).min(1);
+
+const importSchema = z.object({
+  definitions: z.array(z.unknown()).max(500),
+});
+
+// Imported entries are untrusted; keep the id of a rejected one when it has a usable id
+function hasStringId(value: unknown): value is { id: string } {
+  return typeof value === "object" && value !== null && typeof (value as { id?: unknown }).id === "string";
+}
+
+function handleError(error: unknown, res: any, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: "Validation failed",
+      errors: error.errors
+    });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+/**
+ * Field definitions, ordered by section and position (public so listings can label values)
+ */
+router.get('/api/custom-fields', async (req, res) => {
+  try {
+    const definitions = await customFieldService.listDefinitions();
+    res.json(definitions.map(({ createdBy, ...definition }) => definition));
+  } catch (error) {
+    handleError(error, res, "Failed to fetch custom fields");
+  }
+});
+
+/**
+ * Field definitions for the admin editor
+ */
+router.get('/api/admin/custom-fields', requirePermission('properties:view'), async (req, res) => {
+  try {
+    const definitions = await customFieldService.listDefinitions();
+    res.json(definitions);
+  } catch (error) {
+    handleError(error, res, "Failed to fetch custom fields");
+  }
+});
+
+/**
+ * Properties whose saved custom field values no longer conform to the definitions
+ */
+router.get('/api/admin/custom-fields/conformance', requirePermission('properties:view'), async (req, res) => {
+  try {
+    const report = await customFieldService.findNonConformingProperties();
+    res.json(report);
+  } catch (error) {
+    handleError(error, res, "Failed to check custom field conformance");
+  }
+});
+
+/**
+ * Create a field definition
+ */
+router.post('/api/admin/custom-fields', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const input = insertCustomFieldDefinitionSchema.parse(req.body);
+    const result = await customFieldService.createDefinition(input, req.adminId);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('CUSTOM_FIELDS_UPDATED');
+    res.status(201).json(result.definition);
+  } catch (error) {
+    handleError(error, res, "Failed to create custom field");
+  }
+});
+
+/**
+ * Move fields between sections and positions in one request
+ */
+router.put('/api/admin/custom-fields/order', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const layout = reorderSchema.parse(req.body);
+    const definitions = await customFieldService.reorderDefinitions(layout);
+
+    broadcastUpdate('CUSTOM_FIELDS_UPDATED');
+    res.json(definitions);
+  } catch (error) {
+    handleError(error, res, "Failed to reorder custom fields");
+  }
+});
+
+/**
+ * Import definitions previously stored in an admin browser's localStorage
+ */
+router.post('/api/admin/custom-fields/import', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const { definitions } = importSchema.parse(req.body);
+
+    // Keep what validates and report the rest instead of failing the whole import
+    const valid = new Map<string, z.infer<typeof insertCustomFieldDefinitionSchema>>();
+    const invalid: Array<string | null> = [];
+    definitions.forEach(raw => {
+      const parsed = insertCustomFieldDefinitionSchema.safeParse(raw);
+      if (parsed.success) {
+        valid.set(parsed.data.id, parsed.data);
+      } else {
+        invalid.push(hasStringId(raw) ? raw.id : null);
+      }
+    });
+
+    const result = await customFieldService.importDefinitions(Array.from(valid.values()), req.adminId);
+    invalid.push(...result.invalid);
+
+    if (result.imported.length > 0) {
+      console.log(`📥 Imported ${result.imported.length} custom field definitions from browser storage by admin ${req.adminId}`);
+      broadcastUpdate('CUSTOM_FIELDS_UPDATED');
+    }
+    res.json({ imported: result.imported.length, skipped: result.skipped, invalid });
+  } catch (error) {
+    handleError(error, res, "Failed to import custom fields");
+  }
+});
+
+/**
+ * Update a field definition; its id cannot change
+ */
+router.put('/api/admin/custom-fields/:id', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const changes = updateDefinitionSchema.parse(req.body);
+    const result = await customFieldService.updateDefinition(req.params.id, changes);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('CUSTOM_FIELDS_UPDATED');
+    res.json(result.definition);
+  } catch (error) {
+    handleError(error, res, "Failed to update custom field");
+  }
+});
+
+/**
+ * Delete a field definition; values already saved on properties are left in place
+ */
+router.delete('/api/admin/custom-fields/:id', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const deleted = await customFieldService.deleteDefinition(req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Custom field not found" });
+    }
+
+    broadcastUpdate('CUSTOM_FIELDS_UPDATED');
+    res.json({ message: "Custom field deleted" });
+  } catch (error) {
+    handleError(error, res, "Failed to delete custom field");
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+/**
+ * Rental Distribution Routes
+ * Admin preview/commit of income runs and investor payout history
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { distributionService } from '../services/distribution';
+import { requirePermission, requireUserAuth } from '../security/session-auth';
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+const router = Router();
+
+const distributionInputSchema = z.object({
+  periodStart: z.coerce.date(),
+  periodEnd: z.coerce.date(),
+  grossRent: z.coerce.number().positive(),
+  expenses: z.coerce.number().min(0).default(0),
+  managementFee: z.coerce.number().min(0).default(0),
+  tdsRate: z.coerce.number().min(0).max(100).default(config.app.business.distributionTdsRate),
+  notes: z.string().max(1000).optional(),
+});
+
+function handleValidationError(error: unknown, res: any, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: "Validation failed",
+      errors: error.errors
+    });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ message: fallback });
+}
+
+/**
+ * Preview pro-rated payouts for a property without committing
+ */
+router.post('/api/admin/properties/:id/distributions/preview', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const input = distributionInputSchema.parse(req.body);
+    const result = await distributionService.preview(req.params.id, input);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+    res.json(result.preview);
+  } catch (error) {
+    handleValidationError(error, res, "Failed to preview distribution");
+  }
+});
+
+/**
+ * Commit a distribution and write the investor ledger
+ */
+router.post('/api/admin/properties/:id/distributions', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const input = distributionInputSchema.parse(req.body);
+    const result = await distributionService.commit(req.params.id, input, req.adminId);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`💸 Distribution ${result.distribution!.id} committed for property ${req.params.id} by admin ${req.adminId}`);
+    res.status(201).json(result.distribution);
+  } catch (error) {
+    handleValidationError(error, res, "Failed to commit distribution");
+  }
+});
+
+/**
+ * Distribution history for a property
+ */
+router.get('/api/admin/properties/:id/distributions', requirePermission('properties:view'), async (req, res) => {
+  try {
+    const history = await distributionService.getPropertyDistributions(req.params.id);
+    res.json(history);
+  } catch (error) {
+    console.error("Fetch distributions error:", error);
+    res.status(500).json({ message: "Failed to fetch distributions" });
+  }
+});
+
+/**
+ * Payout history for the current investor
+ */
+router.get('/api/me/distributions', requireUserAuth, async (req, res) => {
+  try {
+    const payouts = await distributionService.getUserPayouts(req.currentUser!.id);
+    res.json(payouts);
+  } catch (error) {
+    console.error("Fetch payouts error:", error);
+    res.status(500).json({ message: "Failed to fetch payouts" });
+  }
+});
+
+export default router;
@@ -0,0 +1,77 @@
+/**
+ * Investment Routes
+ * Investors commit amounts against properties and receive ownership units
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { investmentService } from '../services/investment';
+import { paymentService } from '../services/payment';
+import { kycService } from '../services/kyc';
+import { requireUserAuth } from '../security/session-auth';
+
+const router = Router();
+
+const createInvestmentSchema = z.object({
+  propertyId: z.string().min(1),
+  amount: z.coerce.number().int().positive(),
+});
+
+/**
+ * Commit an investment against a property and open a payment order
+ */
+router.post('/api/investments', requireUserAuth, async (req, res) => {
+  try {
+    const user = req.currentUser!;
+    if (!user.isVerified) {
+      return res.status(403).json({ message: "Verify your phone number before investing" });
+    }
+
+    if (!(await kycService.isApproved(user.id))) {
+      return res.status(403).json({ message: "Complete KYC verification before investing" });
+    }
+
+    const { propertyId, amount } = createInvestmentSchema.parse(req.body);
+    const result = await investmentService.createInvestment(user.id, propertyId, amount);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    // Units stay reserved as pending until the gateway reports the payment captured
+    const paymentResult = await paymentService.createPaymentForInvestment(result.investment!);
+    if (!paymentResult.success) {
+      return res.status(502).json({ message: paymentResult.message });
+    }
+
+    res.status(201).json({
+      investment: result.investment,
+      payment: paymentResult.payment,
+      checkout: paymentResult.checkout
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Create investment error:", error);
+    res.status(500).json({ message: "Failed to create investment" });
+  }
+});
+
+/**
+ * List the current investor's investments
+ */
+router.get('/api/me/investments', requireUserAuth, async (req, res) => {
+  try {
+    const userInvestments = await investmentService.getUserInvestments(req.currentUser!.id);
+    res.json(userInvestments);
+  } catch (error) {
+    console.error("Fetch investments error:", error);
+    res.status(500).json({ message: "Failed to fetch investments" });
+  }
+});
+
+export default router;
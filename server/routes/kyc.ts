@@ -0,0 +1,153 @@
+/**
+ * KYC Routes
+ * Investor KYC submission and the admin review queue
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { kycSubmissionSchema, KYC_STATUSES } from '@shared/kycValidation';
+import { kycService, KYC_OBJECT_DIR, KYC_DOCUMENT_KINDS } from '../services/kyc';
+import { requirePermission, requireUserAuth } from '../security/session-auth';
+import { ObjectStorageService, ObjectNotFoundError } from '../objectStorage';
+
+const router = Router();
+
+const reviewSchema = z.object({
+  decision: z.enum(['approve', 'reject']),
+  reason: z.string().trim().max(500).optional(),
+}).refine(data => data.decision === 'approve' || !!data.reason, {
+  message: "A reason is required when rejecting KYC",
+  path: ['reason'],
+});
+
+/**
+ * Signed upload URL for a KYC document in the private KYC directory
+ */
+router.post('/api/me/kyc/documents/upload', requireUserAuth, async (req, res) => {
+  try {
+    const objectStorageService = new ObjectStorageService();
+    const uploadURL = await objectStorageService.getObjectEntityUploadURL(KYC_OBJECT_DIR);
+    res.json({ uploadURL });
+  } catch (error) {
+    console.error("Error getting KYC upload URL:", error);
+    res.status(500).json({ message: "Failed to get upload URL" });
+  }
+});
+
+/**
+ * Current investor's KYC status
+ */
+router.get('/api/me/kyc', requireUserAuth, async (req, res) => {
+  try {
+    const record = await kycService.getUserKyc(req.currentUser!.id);
+    res.json(record ? kycService.toView(record) : null);
+  } catch (error) {
+    console.error("Fetch KYC error:", error);
+    res.status(500).json({ message: "Failed to fetch KYC status" });
+  }
+});
+
+/**
+ * Submit or resubmit KYC details for review
+ */
+router.post('/api/me/kyc', requireUserAuth, async (req, res) => {
+  try {
+    const submission = kycSubmissionSchema.parse(req.body);
+    const result = await kycService.submitKyc(req.currentUser!.id, submission);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+    res.status(201).json(result.record);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Submit KYC error:", error);
+    res.status(500).json({ message: "Failed to submit KYC" });
+  }
+});
+
+/**
+ * KYC review queue, optionally filtered by status
+ */
+router.get('/api/admin/kyc', requirePermission('users:view'), async (req, res) => {
+  try {
+    const status = KYC_STATUSES.find(s => s === req.query.status);
+    const records = await kycService.listForReview(status);
+    res.json(records);
+  } catch (error) {
+    console.error("Fetch KYC queue error:", error);
+    res.status(500).json({ message: "Failed to fetch KYC records" });
+  }
+});
+
+/**
+ * Full KYC record for review, including bank account details
+ */
+router.get('/api/admin/kyc/:id', requirePermission('users:view'), async (req, res) => {
+  try {
+    const record = await kycService.getRecordForReview(req.params.id);
+    if (!record) {
+      return res.status(404).json({ message: "KYC record not found" });
+    }
+    res.json(record);
+  } catch (error) {
+    console.error("Fetch KYC record error:", error);
+    res.status(500).json({ message: "Failed to fetch KYC record" });
+  }
+});
+
+/**
+ * Stream a KYC document to a reviewer
+ */
+router.get('/api/admin/kyc/:id/documents/:kind', requirePermission('users:view'), async (req, res) => {
+  try {
+    const kind = KYC_DOCUMENT_KINDS.find(k => k === req.params.kind);
+    const record = await kycService.getRecord(req.params.id);
+    if (!kind || !record) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+
+    const objectStorageService = new ObjectStorageService();
+    const file = await objectStorageService.getObjectEntityFile(kycService.getDocumentPath(record, kind));
+    objectStorageService.downloadObject(file, res, 0, true);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      return res.status(404).json({ message: "Document not found" });
+    }
+    console.error("Fetch KYC document error:", error);
+    res.status(500).json({ message: "Failed to fetch document" });
+  }
+});
+
+/**
+ * Approve or reject a pending KYC record
+ */
+router.post('/api/admin/kyc/:id/review', requirePermission('users:manage'), async (req, res) => {
+  try {
+    const { decision, reason } = reviewSchema.parse(req.body);
+    const result = await kycService.review(req.params.id, req.adminId, decision, reason);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`🪪 KYC ${req.params.id} ${result.record!.status} by admin ${req.adminId}`);
+    res.json(result.record);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Review KYC error:", error);
+    res.status(500).json({ message: "Failed to review KYC" });
+  }
+});
+
+export default router;
@@ -0,0 +1,226 @@
+/**
+ * Lead Routes
+ * Admin pipeline for contact form submissions: stages, assignees, follow-ups, notes, tags,
+ * duplicate merging and the spam quarantine
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { leadService } from '../services/leads';
+import { leadDedupeService } from '../services/lead-dedupe';
+import { contactSpamService } from '../services/contact-spam';
+import { requirePermission } from '../security/session-auth';
+import { broadcastUpdate } from '../realtime';
+import { LEAD_STAGES, MAX_LEAD_TAGS, normalizeLeadTags } from '@shared/leads';
+
+const router = Router();
+
+const leadUpdateSchema = z.object({
+  stage: z.enum(LEAD_STAGES).optional(),
+  assignedTo: z.string().min(1).nullable().optional(),
+  followUpAt: z.coerce.date().nullable().optional(),
+  propertyId: z.string().min(1).nullable().optional(),
+  tags: z.array(z.string().max(40)).max(MAX_LEAD_TAGS).transform(normalizeLeadTags).optional(),
+});
+
+const leadNoteSchema = z.object({
+  body: z.string().trim().min(1).max(2000),
+});
+
+const leadMergeSchema = z.object({
+  sourceId: z.string().min(1),
+});
+
+const linkInvestorSchema = z.object({
+  userId: z.string().min(1),
+});
+
+/**
+ * All leads with assignee and property of interest
+ */
+router.get('/api/admin/leads', requirePermission('contacts:view'), async (req, res) => {
+  try {
+    const leads = await leadService.listLeads();
+    res.json(leads);
+  } catch (error) {
+    console.error("Fetch leads error:", error);
+    res.status(500).json({ message: "Failed to fetch leads" });
+  }
+});
+
+/**
+ * Admins a lead can be assigned to
+ */
+router.get('/api/admin/leads/assignees', requirePermission('contacts:view'), async (req, res) => {
+  try {
+    const assignees = await leadService.listAssignees();
+    res.json(assignees);
+  } catch (error) {
+    console.error("Fetch lead assignees error:", error);
+    res.status(500).json({ message: "Failed to fetch assignees" });
+  }
+});
+
+/**
+ * Likely duplicate leads, among themselves and against registered investors
+ */
+router.get('/api/admin/leads/duplicates', requirePermission('contacts:view'), async (req, res) => {
+  try {
+    const duplicates = await leadDedupeService.findDuplicates();
+    res.json(duplicates);
+  } catch (error) {
+    console.error("Find duplicate leads error:", error);
+    res.status(500).json({ message: "Failed to find duplicate leads" });
+  }
+});
+
+/**
+ * Contact form submissions held back as likely spam
+ */
+router.get('/api/admin/leads/quarantine', requirePermission('contacts:view'), async (req, res) => {
+  try {
+    const quarantined = await contactSpamService.listQuarantined();
+    res.json(quarantined);
+  } catch (error) {
+    console.error("Fetch quarantined contacts error:", error);
+    res.status(500).json({ message: "Failed to fetch quarantined contacts" });
+  }
+});
+
+/**
+ * A lead with its notes and pipeline history
+ */
+router.get('/api/admin/leads/:id', requirePermission('contacts:view'), async (req, res) => {
+  try {
+    const lead = await leadService.getLead(req.params.id);
+    if (!lead) {
+      return res.status(404).json({ message: "Lead not found" });
+    }
+    res.json(lead);
+  } catch (error) {
+    console.error("Fetch lead error:", error);
+    res.status(500).json({ message: "Failed to fetch lead" });
+  }
+});
+
+/**
+ * Update a lead's stage, assignee, follow-up date, property of interest or tags
+ */
+router.put('/api/admin/leads/:id', requirePermission('contacts:manage'), async (req, res) => {
+  try {
+    const changes = leadUpdateSchema.parse(req.body);
+    const result = await leadService.updateLead(req.params.id, req.adminId, changes);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('CONTACT_UPDATED', { id: req.params.id });
+    res.json(result.lead);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Update lead error:", error);
+    res.status(500).json({ message: "Failed to update lead" });
+  }
+});
+
+/**
+ * Add an internal note to a lead's timeline
+ */
+router.post('/api/admin/leads/:id/notes', requirePermission('contacts:manage'), async (req, res) => {
+  try {
+    const { body } = leadNoteSchema.parse(req.body);
+    const result = await leadService.addNote(req.params.id, req.adminId, body);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('CONTACT_UPDATED', { id: req.params.id });
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Add lead note error:", error);
+    res.status(500).json({ message: "Failed to add note" });
+  }
+});
+
+/**
+ * Release a quarantined submission into the lead pipeline
+ */
+router.post('/api/admin/leads/:id/release', requirePermission('contacts:manage'), async (req, res) => {
+  try {
+    const contact = await contactSpamService.release(req.params.id);
+    if (!contact) {
+      return res.status(404).json({ message: "Quarantined contact not found" });
+    }
+
+    console.log(`✅ Contact ${contact.id} released from quarantine by admin ${req.adminId}`);
+    broadcastUpdate('CONTACT_CREATED', { id: contact.id });
+    res.json(contact);
+  } catch (error) {
+    console.error("Release contact error:", error);
+    res.status(500).json({ message: "Failed to release contact" });
+  }
+});
+
+/**
+ * Merge a duplicate lead into this one, keeping its message and timeline
+ */
+router.post('/api/admin/leads/:id/merge', requirePermission('contacts:manage'), async (req, res) => {
+  try {
+    const { sourceId } = leadMergeSchema.parse(req.body);
+    const result = await leadDedupeService.mergeLeads(req.params.id, sourceId, req.adminId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`🔗 Lead ${sourceId} merged into ${req.params.id} by admin ${req.adminId}`);
+    broadcastUpdate('CONTACT_UPDATED', { id: result.lead!.id });
+    res.json(result.lead);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Merge leads error:", error);
+    res.status(500).json({ message: "Failed to merge leads" });
+  }
+});
+
+/**
+ * Link a lead to the registered investor it came from
+ */
+router.post('/api/admin/leads/:id/link-investor', requirePermission('contacts:manage'), async (req, res) => {
+  try {
+    const { userId } = linkInvestorSchema.parse(req.body);
+    const result = await leadDedupeService.linkInvestor(req.params.id, userId, req.adminId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('CONTACT_UPDATED', { id: req.params.id });
+    res.json(result.lead);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Link lead to investor error:", error);
+    res.status(500).json({ message: "Failed to link lead" });
+  }
+});
+
+export default router;
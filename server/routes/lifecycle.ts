@@ -0,0 +1,63 @@
+/**
+ * Property Lifecycle Routes
+ * Admin status transitions and transition history
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { propertyLifecycleService } from '../services/lifecycle';
+import { requirePermission } from '../security/session-auth';
+import { broadcastUpdate } from '../realtime';
+import { PROPERTY_STATUSES } from '@shared/propertyLifecycle';
+
+const router = Router();
+
+const transitionSchema = z.object({
+  status: z.enum(PROPERTY_STATUSES),
+  reason: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Move a property to a new lifecycle status
+ */
+router.post('/api/admin/properties/:id/status', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const { status, reason } = transitionSchema.parse(req.body);
+    const result = await propertyLifecycleService.transition(req.params.id, status, {
+      adminId: req.adminId,
+      reason
+    });
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`🏷️ Property ${req.params.id} moved to ${status} by admin ${req.adminId}`);
+    broadcastUpdate('PROPERTY_UPDATED', result.property);
+    res.json(result.property);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Property transition error:", error);
+    res.status(500).json({ message: "Failed to update property status" });
+  }
+});
+
+/**
+ * Status transition history for a property
+ */
+router.get('/api/admin/properties/:id/status-history', requirePermission('properties:view'), async (req, res) => {
+  try {
+    const history = await propertyLifecycleService.getHistory(req.params.id);
+    res.json(history);
+  } catch (error) {
+    console.error("Fetch status history error:", error);
+    res.status(500).json({ message: "Failed to fetch status history" });
+  }
+});
+
+export default router;
@@ -0,0 +1,179 @@
+/**
+ * Secondary Market Routes
+ * Per-property order book, investor orders and admin trading controls
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { marketService } from '../services/market';
+import { paymentService } from '../services/payment';
+import { kycService } from '../services/kyc';
+import { requirePermission, requireUserAuth } from '../security/session-auth';
+import { broadcastUpdate } from '../realtime';
+
+const router = Router();
+
+const placeOrderSchema = z.object({
+  side: z.enum(['buy', 'sell']),
+  price: z.coerce.number().positive().multipleOf(0.01),
+  units: z.coerce.number().int().positive(),
+});
+
+const tradingHaltSchema = z.object({
+  halted: z.boolean(),
+});
+
+/**
+ * Aggregated order book and recent trades for a property
+ */
+router.get('/api/properties/:id/market', async (req, res) => {
+  try {
+    const book = await marketService.getOrderBook(req.params.id);
+    if (!book) {
+      return res.status(404).json({ message: "Property not found" });
+    }
+    res.json(book);
+  } catch (error) {
+    console.error("Fetch order book error:", error);
+    res.status(500).json({ message: "Failed to fetch order book" });
+  }
+});
+
+/**
+ * Place a buy or sell limit order
+ */
+router.post('/api/properties/:id/market/orders', requireUserAuth, async (req, res) => {
+  try {
+    const user = req.currentUser!;
+    if (!(await kycService.isApproved(user.id))) {
+      return res.status(403).json({ message: "Complete KYC verification before trading" });
+    }
+
+    const { side, price, units } = placeOrderSchema.parse(req.body);
+    const result = await marketService.placeOrder(user.id, req.params.id, side, price, units);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    // The investor pays for what they bought now; sellers crossing a resting bid wait for that bidder to pay
+    const purchases = (result.trades ?? []).filter(trade => trade.buyerId === user.id);
+    const payments = [];
+    for (const trade of purchases) {
+      const paymentResult = await paymentService.createPaymentForTrade(trade);
+      if (paymentResult.success) {
+        payments.push({ tradeId: trade.id, payment: paymentResult.payment, checkout: paymentResult.checkout });
+      }
+    }
+
+    broadcastUpdate('MARKET_UPDATED', { propertyId: req.params.id });
+    res.status(201).json({ message: result.message, order: result.order, trades: result.trades, payments });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Place order error:", error);
+    res.status(500).json({ message: "Failed to place order" });
+  }
+});
+
+/**
+ * Current investor's orders and trades for a property
+ */
+router.get('/api/properties/:id/market/mine', requireUserAuth, async (req, res) => {
+  try {
+    const [orders, trades] = await Promise.all([
+      marketService.getUserOrders(req.currentUser!.id, req.params.id),
+      marketService.getUserTrades(req.currentUser!.id, req.params.id)
+    ]);
+    res.json({ orders, trades });
+  } catch (error) {
+    console.error("Fetch market activity error:", error);
+    res.status(500).json({ message: "Failed to fetch market activity" });
+  }
+});
+
+/**
+ * Open (or reopen) checkout for a matched purchase awaiting payment
+ */
+router.post('/api/market/trades/:tradeId/payment', requireUserAuth, async (req, res) => {
+  try {
+    const trade = await marketService.getUnsettledPurchase(req.currentUser!.id, req.params.tradeId);
+    if (!trade) {
+      return res.status(404).json({ message: "No purchase awaiting payment" });
+    }
+
+    const paymentResult = await paymentService.createPaymentForTrade(trade);
+    if (!paymentResult.success) {
+      broadcastUpdate('MARKET_UPDATED', { propertyId: trade.propertyId });
+      return res.status(502).json({ message: paymentResult.message });
+    }
+
+    res.status(201).json({ trade, payment: paymentResult.payment, checkout: paymentResult.checkout });
+  } catch (error) {
+    console.error("Create trade payment error:", error);
+    res.status(500).json({ message: "Failed to start payment" });
+  }
+});
+
+/**
+ * Cancel the unfilled remainder of an order
+ */
+router.delete('/api/market/orders/:orderId', requireUserAuth, async (req, res) => {
+  try {
+    const result = await marketService.cancelOrder(req.currentUser!.id, req.params.orderId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('MARKET_UPDATED', { propertyId: result.order!.propertyId });
+    res.json(result.order);
+  } catch (error) {
+    console.error("Cancel order error:", error);
+    res.status(500).json({ message: "Failed to cancel order" });
+  }
+});
+
+/**
+ * Trade history for a property
+ */
+router.get('/api/admin/properties/:id/trades', requirePermission('properties:view'), async (req, res) => {
+  try {
+    const history = await marketService.getPropertyTrades(req.params.id);
+    res.json(history);
+  } catch (error) {
+    console.error("Fetch trades error:", error);
+    res.status(500).json({ message: "Failed to fetch trades" });
+  }
+});
+
+/**
+ * Halt or resume secondary trading on a property
+ */
+router.put('/api/admin/properties/:id/trading', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const { halted } = tradingHaltSchema.parse(req.body);
+    const updated = await marketService.setTradingHalted(req.params.id, halted);
+    if (!updated) {
+      return res.status(404).json({ message: "Property not found" });
+    }
+
+    console.log(`⏸️ Trading ${halted ? 'halted' : 'resumed'} on property ${req.params.id} by admin ${req.adminId}`);
+    broadcastUpdate('MARKET_UPDATED', { propertyId: req.params.id });
+    res.json({ message: halted ? "Trading halted" : "Trading resumed", halted });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Update trading status error:", error);
+    res.status(500).json({ message: "Failed to update trading status" });
+  }
+});
+
+export default router;
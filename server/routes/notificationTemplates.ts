@@ -0,0 +1,108 @@
+/**
+ * Notification Template Routes
+ * Admin editing of SMS, email and in-app message templates per language,
+ * with version history and revert
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { notificationTemplateService } from '../services/notification-templates';
+import { requirePermission } from '../security/session-auth';
+import { NOTIFICATION_CHANNELS } from '@shared/notifications';
+import { NOTIFICATION_TEMPLATE_KEYS, TEMPLATE_LOCALES } from '@shared/notificationTemplates';
+
+const router = Router();
+
+const templateParamsSchema = z.object({
+  key: z.enum(NOTIFICATION_TEMPLATE_KEYS),
+  channel: z.enum(NOTIFICATION_CHANNELS),
+  locale: z.enum(TEMPLATE_LOCALES),
+});
+
+const templateContentSchema = z.object({
+  subject: z.string().max(200).optional(),
+  body: z.string().min(1).max(5000),
+  html: z.string().max(50000).optional(),
+});
+
+const revertSchema = z.object({
+  version: z.number().int().min(0),
+});
+
+/**
+ * Every template in every channel and language with the version in use
+ */
+router.get('/api/admin/notification-templates', requirePermission('settings:view'), async (req, res) => {
+  try {
+    const templates = await notificationTemplateService.list();
+    res.json(templates);
+  } catch (error) {
+    console.error("Fetch notification templates error:", error);
+    res.status(500).json({ message: "Failed to fetch notification templates" });
+  }
+});
+
+/**
+ * Saved versions of one template, newest first
+ */
+router.get('/api/admin/notification-templates/:key/:channel/:locale/versions', requirePermission('settings:view'), async (req, res) => {
+  try {
+    const { key, channel, locale } = templateParamsSchema.parse(req.params);
+    const versions = await notificationTemplateService.history(key, channel, locale);
+    res.json(versions);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Fetch notification template versions error:", error);
+    res.status(500).json({ message: "Failed to fetch template versions" });
+  }
+});
+
+/**
+ * Save an edited template as a new version
+ */
+router.put('/api/admin/notification-templates/:key/:channel/:locale', requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const { key, channel, locale } = templateParamsSchema.parse(req.params);
+    const content = templateContentSchema.parse(req.body);
+    const result = await notificationTemplateService.save(key, channel, locale, content, req.adminId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`✉️ Template ${key}/${channel}/${locale} saved as v${result.template!.version} by admin ${req.adminId}`);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Save notification template error:", error);
+    res.status(500).json({ message: "Failed to save notification template" });
+  }
+});
+
+/**
+ * Restore an earlier version, or the built-in default with version 0
+ */
+router.post('/api/admin/notification-templates/:key/:channel/:locale/revert', requirePermission('settings:manage'), async (req, res) => {
+  try {
+    const { key, channel, locale } = templateParamsSchema.parse(req.params);
+    const { version } = revertSchema.parse(req.body);
+    const result = await notificationTemplateService.revert(key, channel, locale, version, req.adminId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`↩️ Template ${key}/${channel}/${locale} reverted to v${version} by admin ${req.adminId}`);
+    res.json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Revert notification template error:", error);
+    res.status(500).json({ message: "Failed to revert notification template" });
+  }
+});
+
+export default router;
@@ -0,0 +1,182 @@
+/**
+ * Notification Routes
+ * The investor's inbox and notification preferences, provider delivery receipts
+ * and the admin view of recent deliveries in the notification queue
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { notificationService } from '../services/notification';
+import { notificationInboxService } from '../services/notification-inbox';
+import { notificationPreferenceService } from '../services/notification-preferences';
+import { requirePermission, requireUserAuth } from '../security/session-auth';
+import { broadcastUpdate } from '../realtime';
+import { NOTIFICATION_CHANNELS, NOTIFICATION_JOB_STATUSES, NOTIFICATION_TOPICS } from '@shared/notifications';
+import { TEMPLATE_LOCALES } from '@shared/notificationTemplates';
+
+const router = Router();
+
+const markReadSchema = z.object({
+  ids: z.array(z.string()).max(200).optional(),
+  read: z.boolean().default(true),
+});
+
+const preferencesSchema = z.object({
+  preferences: z.array(z.object({
+    topic: z.enum(NOTIFICATION_TOPICS),
+    channel: z.enum(NOTIFICATION_CHANNELS),
+    enabled: z.boolean(),
+  })).max(50).default([]),
+  locale: z.enum(TEMPLATE_LOCALES).optional(),
+});
+
+const deliveriesQuerySchema = z.object({
+  status: z.enum(NOTIFICATION_JOB_STATUSES).optional(),
+  channel: z.enum(NOTIFICATION_CHANNELS).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+/**
+ * Latest in-app notifications with the unread count
+ */
+router.get('/api/me/notifications', requireUserAuth, async (req, res) => {
+  try {
+    const result = await notificationInboxService.listNotifications(req.currentUser!.id);
+    res.json(result);
+  } catch (error) {
+    console.error("Fetch notifications error:", error);
+    res.status(500).json({ message: "Failed to fetch notifications" });
+  }
+});
+
+/**
+ * Mark notifications read or unread; all of them when no ids are given
+ */
+router.patch('/api/me/notifications', requireUserAuth, async (req, res) => {
+  try {
+    const { ids, read } = markReadSchema.parse(req.body);
+    const updated = await notificationInboxService.setRead(req.currentUser!.id, read, ids);
+    res.json({ success: true, updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Update notifications error:", error);
+    res.status(500).json({ message: "Failed to update notifications" });
+  }
+});
+
+/**
+ * Channel choices per topic, with defaults filled in, and the notification language
+ */
+router.get('/api/me/notification-preferences', requireUserAuth, async (req, res) => {
+  try {
+    const userId = req.currentUser!.id;
+    res.json({
+      topics: await notificationPreferenceService.getPreferences(userId),
+      locale: await notificationPreferenceService.getLocale(userId)
+    });
+  } catch (error) {
+    console.error("Fetch notification preferences error:", error);
+    res.status(500).json({ message: "Failed to fetch notification preferences" });
+  }
+});
+
+/**
+ * Change individual topic and channel choices and/or the notification language
+ */
+router.patch('/api/me/notification-preferences', requireUserAuth, async (req, res) => {
+  try {
+    const { preferences, locale } = preferencesSchema.parse(req.body);
+    const userId = req.currentUser!.id;
+    const result = await notificationPreferenceService.updatePreferences(userId, preferences);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+    if (locale) {
+      await notificationPreferenceService.setLocale(userId, locale);
+    }
+    res.json({
+      topics: result.preferences,
+      locale: locale ?? await notificationPreferenceService.getLocale(userId)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Update notification preferences error:", error);
+    res.status(500).json({ message: "Failed to update notification preferences" });
+  }
+});
+
+/**
+ * Delivery receipt webhook for the active email or SMS provider
+ */
+router.post('/api/notifications/webhook/:provider', async (req, res) => {
+  try {
+    const provider = notificationService.getProvider(req.params.provider);
+    if (!provider?.parseStatusWebhook) {
+      return res.status(404).json({ message: "Unknown notification provider" });
+    }
+
+    const events = provider.parseStatusWebhook({ rawBody: req.rawBody, body: req.body, header: name => req.get(name) });
+    if (!events) {
+      console.warn(`Rejected ${provider.name} delivery webhook with invalid signature`);
+      return res.status(401).json({ message: "Invalid webhook signature" });
+    }
+
+    const updated = await notificationService.getQueue().recordDeliveryStatus(provider.name, events);
+    if (updated > 0) {
+      broadcastUpdate('NOTIFICATION_JOBS_UPDATED');
+    }
+    res.json({ message: `Recorded ${updated} delivery updates` });
+  } catch (error) {
+    console.error("Notification webhook error:", error);
+    res.status(500).json({ message: "Failed to process webhook" });
+  }
+});
+
+/**
+ * Recent deliveries with per-status totals; recipients are investor contact details, so security access only
+ */
+router.get('/api/admin/notifications/deliveries', requirePermission('security:view'), async (req, res) => {
+  try {
+    const filters = deliveriesQuerySchema.parse(req.query);
+    const queue = notificationService.getQueue();
+    const [jobs, counts] = await Promise.all([queue.listRecent(filters), queue.countByStatus()]);
+    res.json({ jobs, counts });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Fetch deliveries error:", error);
+    res.status(500).json({ message: "Failed to fetch deliveries" });
+  }
+});
+
+/**
+ * Requeue a dead-lettered or bounced delivery
+ */
+router.post('/api/admin/notifications/deliveries/:id/retry', requirePermission('security:manage'), async (req, res) => {
+  try {
+    const result = await notificationService.getQueue().retry(req.params.id);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    console.log(`🔁 Notification ${req.params.id} requeued by admin ${req.adminId}`);
+    broadcastUpdate('NOTIFICATION_JOBS_UPDATED');
+    res.json({ message: result.message });
+  } catch (error) {
+    console.error("Retry delivery error:", error);
+    res.status(500).json({ message: "Failed to retry delivery" });
+  }
+});
+
+export default router;
@@ -0,0 +1,51 @@
+/**
+ * Outbox Routes
+ * Admin view of email and SMS captured by the outbox provider in development and tests
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { notificationService } from '../services/notification';
+import { requirePermission } from '../security/session-auth';
+
+const router = Router();
+
+const outboxQuerySchema = z.object({
+  recipient: z.string().min(1).optional(),
+  channel: z.enum(["email", "sms"]).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+/**
+ * Most recent captured messages, filterable by recipient and channel
+ * Security access only: captured messages reach investors' inboxes and phones
+ */
+router.get('/api/admin/outbox', requirePermission('security:view'), async (req, res) => {
+  try {
+    const filters = outboxQuerySchema.parse(req.query);
+    const messages = await notificationService.getOutbox().list(filters);
+    res.json(messages);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ message: "Validation failed", errors: error.errors });
+    }
+    console.error("Fetch outbox error:", error);
+    res.status(500).json({ message: "Failed to fetch outbox" });
+  }
+});
+
+/**
+ * Empty the outbox
+ */
+router.delete('/api/admin/outbox', requirePermission('security:manage'), async (req, res) => {
+  try {
+    await notificationService.getOutbox().clear();
+    console.log(`🧹 Outbox cleared by admin ${req.adminId}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Clear outbox error:", error);
+    res.status(500).json({ message: "Failed to clear outbox" });
+  }
+});
+
+export default router;
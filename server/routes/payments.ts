@@ -0,0 +1,99 @@
+/**
+ * Payment Routes
+ * Signature-verified gateway webhooks and the offline mock checkout
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { db } from '../db';
+import { payments } from '@shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { paymentService } from '../services/payment';
+import { requireUserAuth } from '../security/session-auth';
+import { ProductionProtection } from '../production-protection';
+import { broadcastUpdate } from '../realtime';
+
+const router = Router();
+
+const simulatePaymentSchema = z.object({
+  outcome: z.enum(['authorized', 'captured', 'failed']).default('captured'),
+});
+
+/**
+ * Gateway webhook receiver
+ * The mock gateway is only accepted outside production
+ */
+router.post('/api/payments/webhook/:gateway', async (req, res) => {
+  try {
+    if (req.params.gateway === 'mock' && ProductionProtection.getEnvironmentInfo().isProduction) {
+      return res.status(404).json({ message: "Not found" });
+    }
+
+    const gateway = paymentService.getGateway(req.params.gateway);
+    const signature = gateway ? req.get(gateway.signatureHeader) : undefined;
+
+    const result = await paymentService.handleWebhook(req.params.gateway, req.rawBody, signature, req.body);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('PROPERTY_UPDATED');
+    res.json({ message: result.message });
+  } catch (error) {
+    console.error("Payment webhook error:", error);
+    res.status(500).json({ message: "Failed to process webhook" });
+  }
+});
+
+/**
+ * Complete a mock checkout by delivering a signed webhook in-process
+ * Only available outside production
+ */
+router.post('/api/payments/mock/:orderId/simulate', requireUserAuth, async (req, res) => {
+  try {
+    if (ProductionProtection.getEnvironmentInfo().isProduction) {
+      return res.status(404).json({ message: "Not found" });
+    }
+
+    const { outcome } = simulatePaymentSchema.parse(req.body);
+
+    const [payment] = await db.select()
+      .from(payments)
+      .where(and(
+        eq(payments.gatewayOrderId, req.params.orderId),
+        eq(payments.gateway, 'mock'),
+        eq(payments.userId, req.currentUser!.id)
+      ));
+
+    if (!payment) {
+      return res.status(404).json({ message: "Payment not found" });
+    }
+
+    const mockGateway = paymentService.getMockGateway();
+    const webhook = mockGateway.buildWebhook(payment.gatewayOrderId, outcome);
+    const result = await paymentService.handleWebhook(
+      mockGateway.name,
+      Buffer.from(webhook.body),
+      webhook.signature,
+      JSON.parse(webhook.body)
+    );
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    broadcastUpdate('PROPERTY_UPDATED');
+    res.json({ message: result.message });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Mock payment error:", error);
+    res.status(500).json({ message: "Failed to simulate payment" });
+  }
+});
+
+export default router;
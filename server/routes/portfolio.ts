@@ -0,0 +1,25 @@
+/**
+ * Portfolio Routes
+ * Investor holdings, valuation and returns
+ */
+
+import { Router } from 'express';
+import { portfolioService } from '../services/portfolio';
+import { requireUserAuth } from '../security/session-auth';
+
+const router = Router();
+
+/**
+ * Current investor's portfolio with XIRR and allocation breakdown
+ */
+router.get('/api/me/portfolio', requireUserAuth, async (req, res) => {
+  try {
+    const portfolio = await portfolioService.getPortfolio(req.currentUser!.id);
+    res.json(portfolio);
+  } catch (error) {
+    console.error("Fetch portfolio error:", error);
+    res.status(500).json({ message: "Failed to fetch portfolio" });
+  }
+});
+
+export default router;
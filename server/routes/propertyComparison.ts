@@ -0,0 +1,44 @@
+/**
+ * Property Comparison Routes
+ * Side-by-side comparison of public properties
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { propertyComparisonService } from '../services/property-comparison';
+import { MIN_COMPARE_PROPERTIES, MAX_COMPARE_PROPERTIES } from '@shared/propertyComparison';
+
+const router = Router();
+
+const compareQuerySchema = z.object({
+  ids: z.string()
+    .transform(value => value.split(',').map(id => id.trim()).filter(Boolean))
+    .pipe(z.array(z.string()).min(MIN_COMPARE_PROPERTIES).max(MAX_COMPARE_PROPERTIES)),
+});
+
+/**
+ * Compare ?ids=a,b,c with core and custom fields aligned by section and best/worst values marked
+ */
+router.get('/api/properties/compare', async (req, res) => {
+  try {
+    const { ids } = compareQuerySchema.parse(req.query);
+    const result = await propertyComparisonService.compare(ids);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    res.json(result.comparison);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Property comparison error:", error);
+    res.status(500).json({ message: "Failed to compare properties" });
+  }
+});
+
+export default router;
@@ -0,0 +1,79 @@
+/**
+ * Property Search Routes
+ * Public full-text search with filters, facet counts and cursor pagination
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { propertySearchService } from '../services/property-search';
+import { PROPERTY_SEARCH_SORTS } from '@shared/propertySearch';
+
+const router = Router();
+
+// Accepts ?city=Pune,Mumbai as well as repeated ?city=Pune&city=Mumbai
+const listParam = z.union([z.string(), z.array(z.string())])
+  .transform(value => (Array.isArray(value) ? value : value.split(','))
+    .map(item => item.trim())
+    .filter(Boolean))
+  .optional();
+
+const rangeParam = z.object({
+  min: z.coerce.number().optional(),
+  max: z.coerce.number().optional(),
+});
+
+const searchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  city: listParam,
+  state: listParam,
+  propertyType: listParam,
+  status: listParam,
+  minPrice: z.coerce.number().min(0).optional(),
+  maxPrice: z.coerce.number().min(0).optional(),
+  minReturn: z.coerce.number().optional(),
+  maxReturn: z.coerce.number().optional(),
+  // ?cf[parking]=covered,open for option fields, ?cf[carpet_area][min]=800 for numeric fields
+  cf: z.record(z.union([listParam.unwrap(), rangeParam])).optional(),
+  sort: z.enum(PROPERTY_SEARCH_SORTS).default('relevance'),
+  limit: z.coerce.number().int().min(1).max(50).default(12),
+  cursor: z.string().max(500).optional(),
+});
+
+/**
+ * Search public properties; price filters apply to the minimum investment
+ */
+router.get('/api/properties/search', async (req, res) => {
+  try {
+    const query = searchQuerySchema.parse(req.query);
+    const result = await propertySearchService.search({
+      q: query.q,
+      city: query.city,
+      state: query.state,
+      propertyType: query.propertyType,
+      status: query.status,
+      minInvestment: { min: query.minPrice, max: query.maxPrice },
+      expectedReturn: { min: query.minReturn, max: query.maxReturn },
+      customFields: query.cf,
+      sort: query.sort,
+      limit: query.limit,
+      cursor: query.cursor,
+    });
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    res.json(result.result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Property search error:", error);
+    res.status(500).json({ message: "Failed to search properties" });
+  }
+});
+
+export default router;
@@ -9,6 +9,7 @@ import { properties } from '@shared/schema';
 import { eq } from 'drizzle-orm';
 import EncryptionService from '../storage/encryptionService';
 import { z } from 'zod';
+import { requirePermission } from '../security/session-auth';
 
 const router = Router();
 
@@ -37,7 +38,7 @@ const securePropertySchema = z.object({
 /**
  * Create property with encrypted sensitive data
  */
-router.post('/api/admin/properties', async (req, res) => {
+router.post('/api/admin/properties', requirePermission('properties:manage'), async (req, res) => {
   try {
     const validatedData = securePropertySchema.parse(req.body);
     
@@ -66,7 +67,7 @@ router.post('/api/admin/properties', async (req, res) => {
 /**
  * Get all properties with automatic decryption
  */
-router.get('/api/admin/properties', async (req, res) => {
+router.get('/api/admin/properties', requirePermission('properties:view'), async (req, res) => {
   try {
     const allProperties = await db.select().from(properties);
     
@@ -85,7 +86,7 @@ router.get('/api/admin/properties', async (req, res) => {
 /**
  * Get single property with decryption
  */
-router.get('/api/admin/properties/:id', async (req, res) => {
+router.get('/api/admin/properties/:id', requirePermission('properties:view'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -111,7 +112,7 @@ router.get('/api/admin/properties/:id', async (req, res) => {
 /**
  * Update property with encryption
  */
-router.put('/api/admin/properties/:id', async (req, res) => {
+router.put('/api/admin/properties/:id', requirePermission('properties:manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const updates = req.body;
@@ -145,7 +146,7 @@ router.put('/api/admin/properties/:id', async (req, res) => {
 /**
  * Delete property (with secure cleanup)
  */
-router.delete('/api/admin/properties/:id', async (req, res) => {
+router.delete('/api/admin/properties/:id', requirePermission('properties:manage'), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -0,0 +1,66 @@
+/**
+ * Property Valuation Routes
+ * Public valuation history and admin publishing of new valuations
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { valuationService, VALUATION_SOURCES } from '../services/valuation';
+import { requirePermission } from '../security/session-auth';
+import { broadcastUpdate } from '../realtime';
+
+const router = Router();
+
+const valuationInputSchema = z.object({
+  valuationDate: z.coerce.date(),
+  value: z.coerce.number().int().positive(),
+  source: z.enum(VALUATION_SOURCES),
+  appraiserName: z.string().trim().max(200).optional(),
+  documentPath: z.string().regex(/^\/objects\/uploads\/[\w-]+$/, "Invalid document path").optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+/**
+ * Valuation history for a property
+ */
+router.get('/api/properties/:id/valuations', async (req, res) => {
+  try {
+    const valuations = await valuationService.getValuations(req.params.id);
+    res.json(valuations.map(({ publishedBy, ...valuation }) => valuation));
+  } catch (error) {
+    console.error("Fetch valuations error:", error);
+    res.status(500).json({ message: "Failed to fetch valuations" });
+  }
+});
+
+/**
+ * Publish a new valuation and recompute the per-unit NAV
+ */
+router.post('/api/admin/properties/:id/valuations', requirePermission('properties:manage'), async (req, res) => {
+  try {
+    const input = valuationInputSchema.parse(req.body);
+    const result = await valuationService.publishValuation(req.params.id, input, req.adminId);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    if (result.isCurrent) {
+      broadcastUpdate('PROPERTY_UPDATED', { id: req.params.id });
+    }
+
+    console.log(`📈 Valuation ${result.valuation!.id} published for property ${req.params.id} by admin ${req.adminId}`);
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Publish valuation error:", error);
+    res.status(500).json({ message: "Failed to publish valuation" });
+  }
+});
+
+export default router;
@@ -0,0 +1,143 @@
+/**
+ * Watchlist Routes
+ * Watched properties and alert rules for the signed-in investor
+ */
+
+import { Router } from 'express';
+import { z } from 'zod';
+import { alertService } from '../services/alerts';
+import { requireUserAuth } from '../security/session-auth';
+import { ALERT_RULE_TYPES } from '@shared/alerts';
+
+const router = Router();
+
+const alertRuleSchema = z.object({
+  type: z.enum(ALERT_RULE_TYPES),
+  propertyId: z.string().min(1).optional(),
+  city: z.string().trim().min(1).max(100).optional(),
+  threshold: z.coerce.number().positive().optional(),
+});
+
+/**
+ * Current investor's watched properties
+ */
+router.get('/api/me/watchlist', requireUserAuth, async (req, res) => {
+  try {
+    const watchlist = await alertService.getWatchlist(req.currentUser!.id);
+    res.json(watchlist);
+  } catch (error) {
+    console.error("Fetch watchlist error:", error);
+    res.status(500).json({ message: "Failed to fetch watchlist" });
+  }
+});
+
+/**
+ * Watch a property
+ */
+router.post('/api/me/watchlist/:propertyId', requireUserAuth, async (req, res) => {
+  try {
+    const result = await alertService.addToWatchlist(req.currentUser!.id, req.params.propertyId);
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+    res.status(201).json(result);
+  } catch (error) {
+    console.error("Add to watchlist error:", error);
+    res.status(500).json({ message: "Failed to update watchlist" });
+  }
+});
+
+/**
+ * Stop watching a property
+ */
+router.delete('/api/me/watchlist/:propertyId', requireUserAuth, async (req, res) => {
+  try {
+    const removed = await alertService.removeFromWatchlist(req.currentUser!.id, req.params.propertyId);
+    if (!removed) {
+      return res.status(404).json({ message: "Property is not on your watchlist" });
+    }
+    res.json({ success: true, message: "Removed from watchlist" });
+  } catch (error) {
+    console.error("Remove from watchlist error:", error);
+    res.status(500).json({ message: "Failed to update watchlist" });
+  }
+});
+
+/**
+ * Current investor's alert rules
+ */
+router.get('/api/me/alerts', requireUserAuth, async (req, res) => {
+  try {
+    const rules = await alertService.listRules(req.currentUser!.id);
+    res.json(rules);
+  } catch (error) {
+    console.error("Fetch alerts error:", error);
+    res.status(500).json({ message: "Failed to fetch alerts" });
+  }
+});
+
+/**
+ * Create an alert rule
+ */
+router.post('/api/me/alerts', requireUserAuth, async (req, res) => {
+  try {
+    const input = alertRuleSchema.parse(req.body);
+    const result = await alertService.createRule(req.currentUser!.id, input);
+
+    if (!result.success) {
+      return res.status(result.status || 400).json({ message: result.message });
+    }
+
+    res.status(201).json(result);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Create alert error:", error);
+    res.status(500).json({ message: "Failed to create alert" });
+  }
+});
+
+/**
+ * Pause or re-arm an alert rule
+ */
+router.put('/api/me/alerts/:id', requireUserAuth, async (req, res) => {
+  try {
+    const { isActive } = z.object({ isActive: z.boolean() }).parse(req.body);
+    const rule = await alertService.setRuleActive(req.currentUser!.id, req.params.id, isActive);
+    if (!rule) {
+      return res.status(404).json({ message: "Alert not found" });
+    }
+    res.json(rule);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation failed",
+        errors: error.errors
+      });
+    }
+    console.error("Update alert error:", error);
+    res.status(500).json({ message: "Failed to update alert" });
+  }
+});
+
+/**
+ * Delete an alert rule
+ */
+router.delete('/api/me/alerts/:id', requireUserAuth, async (req, res) => {
+  try {
+    const deleted = await alertService.deleteRule(req.currentUser!.id, req.params.id);
+    if (!deleted) {
+      return res.status(404).json({ message: "Alert not found" });
+    }
+    res.json({ success: true, message: "Alert deleted" });
+  } catch (error) {
+    console.error("Delete alert error:", error);
+    res.status(500).json({ message: "Failed to delete alert" });
+  }
+});
+
+export default router;
@@ -75,6 +75,25 @@ class SecurityRateLimiter {
     };
   }
 
+  /**
+   * Count a request against a key without blocking it; returns the count in the current window
+   */
+  recordHit(key: string, windowMs: number): number {
+    const now = Date.now();
+    let window = this.windows.get(key);
+
+    if (!window || now > window.resetTime) {
+      window = {
+        requests: 0,
+        resetTime: now + windowMs
+      };
+      this.windows.set(key, window);
+    }
+
+    window.requests++;
+    return window.requests;
+  }
+
   private getDefaultKey(req: Request): string {
     // Use IP address and user agent for rate limiting key
     const ip = req.ip || req.connection.remoteAddress || 'unknown';
@@ -0,0 +1,166 @@
+import { Request, Response, NextFunction } from 'express';
+import type { AdminUser, User } from '@shared/schema';
+import { authService } from '../services/auth';
+import { SecurityValidator } from './validator';
+import { hasAdminPermission, type AdminPermission } from '@shared/adminRoles';
+import { adminUserService } from '../services/admin-users';
+
+/**
+ * Session authentication middleware
+ * Resolves every request to a principal (anonymous, investor or admin) from the
+ * admin session cookie or a bearer token, and guards routes on that principal
+ */
+
+export type SessionAdmin = Omit<AdminUser, 'passwordHash' | 'totpSecret' | 'backupCodes'>;
+
+export type Principal =
+  | { kind: 'anonymous' }
+  | { kind: 'user'; user: User; sessionToken: string }
+  | { kind: 'admin'; admin: SessionAdmin; role: string; sessionToken: string };
+
+declare global {
+  namespace Express {
+    interface Request {
+      principal: Principal;
+      // Shorthands derived from the principal for route handlers
+      currentUser?: User;
+      adminId?: string;
+    }
+  }
+}
+
+const ANONYMOUS: Principal = { kind: 'anonymous' };
+
+// Admin endpoints reachable without a session: signing in, recovering access,
+// and the branding and social links the public site header and footer read
+const PUBLIC_ADMIN_ROUTES: { method: string; path: string }[] = [
+  { method: 'POST', path: '/api/admin/login' },
+  { method: 'POST', path: '/api/admin/forgot-password' },
+  { method: 'POST', path: '/api/admin/reset-password' },
+  { method: 'POST', path: '/api/admin/forgot-password-totp' },
+  { method: 'GET', path: '/api/admin/settings/site' },
+  { method: 'GET', path: '/api/admin/settings/social' },
+];
+
+/**
+ * Extract a bearer token from the Authorization header
+ */
+export function getBearerToken(req: Request): string | null {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+  return token || null;
+}
+
+/**
+ * Resolve the principal for a session token; admin tokens are 64-character hex
+ */
+export async function resolveSessionToken(sessionToken: string, allowUser = true): Promise<Principal> {
+  if (SecurityValidator.validateSessionToken(sessionToken)) {
+    const admin = await authService.getSessionAdmin(sessionToken);
+    if (admin) {
+      const { passwordHash, totpSecret, backupCodes, ...safeAdmin } = admin;
+      return { kind: 'admin', admin: safeAdmin, role: admin.role, sessionToken };
+    }
+  }
+
+  if (allowUser) {
+    const user = await authService.getSessionUser(sessionToken);
+    if (user) {
+      return { kind: 'user', user, sessionToken };
+    }
+  }
+  return ANONYMOUS;
+}
+
+/**
+ * Set req.principal for every request; the bearer token wins over the admin cookie
+ * so an investor signed in alongside an admin session still acts as the investor
+ */
+export async function resolvePrincipal(req: Request, res: Response, next: NextFunction) {
+  req.principal = ANONYMOUS;
+  try {
+    const bearerToken = getBearerToken(req);
+    const cookieToken: string | undefined = req.cookies?.adminSessionToken;
+
+    let principal = bearerToken ? await resolveSessionToken(bearerToken) : ANONYMOUS;
+    if (principal.kind === 'anonymous' && cookieToken && cookieToken !== bearerToken) {
+      principal = await resolveSessionToken(cookieToken, false);
+    }
+
+    req.principal = principal;
+    if (principal.kind === 'user') req.currentUser = principal.user;
+    if (principal.kind === 'admin') req.adminId = principal.admin.id;
+    next();
+  } catch (error) {
+    console.error("Session resolution error:", error);
+    res.status(500).json({ message: "Authentication error" });
+  }
+}
+
+/**
+ * Require a valid investor session; req.currentUser is set
+ */
+export function requireUserAuth(req: Request, res: Response, next: NextFunction) {
+  if (req.principal?.kind !== 'user') {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+
+  res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+  next();
+}
+
+/**
+ * Require a valid admin session; req.adminId is set
+ */
+export function requireAdminAuth(req: Request, res: Response, next: NextFunction) {
+  const principal = req.principal ?? ANONYMOUS;
+  if (principal.kind === 'anonymous') {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  if (principal.kind !== 'admin') {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+
+  res.setHeader('X-Admin-Session', 'active');
+  res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, private');
+  next();
+}
+
+/**
+ * Require an admin whose role grants the permission; see ADMIN_ROLE_PERMISSIONS.
+ * Admins with an expired password or missing required TOTP are held to their
+ * own account settings, which use requireAdminAuth, until they fix it
+ */
+export function requirePermission(permission: AdminPermission) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    requireAdminAuth(req, res, () => {
+      const principal = req.principal;
+      if (principal.kind !== 'admin' || !hasAdminPermission(principal.role, permission)) {
+        console.log(`🚫 Admin ${req.adminId} denied ${permission} on ${req.method} ${req.originalUrl}`);
+        return res.status(403).json({ message: "You do not have permission to do this", permission });
+      }
+      const restriction = adminUserService.accountRestriction(principal.admin);
+      if (restriction) {
+        return res.status(403).json({
+          message: restriction === 'PASSWORD_EXPIRED'
+            ? "Your password has expired. Change it to continue."
+            : "Your role requires two-factor authentication. Set it up to continue.",
+          code: restriction
+        });
+      }
+      next();
+    });
+  };
+}
+
+/**
+ * Guard for everything under /api/admin, except the public routes listed above
+ */
+export function adminRouteGuard(req: Request, res: Response, next: NextFunction) {
+  const path = `${req.baseUrl}${req.path}`.replace(/\/+$/, '');
+  const isPublic = PUBLIC_ADMIN_ROUTES.some(route => route.method === req.method && route.path === path);
+  if (isPublic) {
+    return next();
+  }
+  requireAdminAuth(req, res, next);
+}
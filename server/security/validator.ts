@@ -7,6 +7,13 @@ import DOMPurify from 'isomorphic-dompurify';
  */
 
 export class SecurityValidator {
+
+  /**
+   * Admin-authored HTML fields that keep their markup through tag stripping
+   */
+  private static readonly HTML_FIELDS: Array<{ method: string; path: RegExp; field: string }> = [
+    { method: 'PUT', path: /^\/api\/admin\/notification-templates\/[^/]+\/[^/]+\/[^/]+$/, field: 'html' },
+  ];
   
   /**
    * Validate TOTP token format and structure
@@ -163,7 +170,11 @@ export class SecurityValidator {
     return (req: Request, res: Response, next: NextFunction) => {
       // Sanitize request body
       if (req.body) {
+        const kept = SecurityValidator.HTML_FIELDS
+          .filter(rule => rule.method === req.method && rule.path.test(req.path) && typeof req.body[rule.field] === 'string')
+          .map(rule => [rule.field, req.body[rule.field]] as const);
         req.body = SecurityValidator.sanitizeInput(req.body);
+        kept.forEach(([field, value]) => { req.body[field] = value; });
       }
 
       // Sanitize query parameters
@@ -179,6 +190,10 @@ export class SecurityValidator {
         }
         
         const contentType = req.get('Content-Type') || '';
+        // Delivery receipt webhooks (Twilio) are form-encoded
+        if (req.path.startsWith('/api/notifications/webhook/') && contentType.includes('application/x-www-form-urlencoded')) {
+          return next();
+        }
         if (!contentType.includes('application/json') && !contentType.includes('multipart/form-data')) {
           return res.status(400).json({ 
             error: 'Invalid content type',
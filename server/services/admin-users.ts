@@ -0,0 +1,317 @@
+import { db } from "../db";
+import { adminUsers, adminSessions, adminInvites, adminPasswordHistory, type AdminInvite, type AdminUser } from "@shared/schema";
+import { ADMIN_ROLE_LABELS, adminRoleRequiresTotp, normalizeAdminRole, type AdminRole } from "@shared/adminRoles";
+import { and, desc, eq, gt, isNull, ne, or } from "drizzle-orm";
+import bcrypt from "bcrypt";
+import { createHash, randomBytes } from "crypto";
+import { notificationService } from "./notification";
+import { SecurityValidator } from "../security/validator";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+const policy = config.auth.adminSettings;
+
+// Why an admin may currently only use their own account settings
+export type AdminAccountRestriction = "PASSWORD_EXPIRED" | "TOTP_REQUIRED";
+
+export interface AdminTeamMember {
+  id: string;
+  username: string;
+  email: string;
+  role: string;
+  phoneNumber: string | null;
+  countryCode: string | null;
+  totpEnabled: boolean;
+  isActive: boolean;
+  passwordChangedAt: Date;
+  passwordExpiresAt: Date;
+  deactivatedAt: Date | null;
+  createdAt: Date;
+}
+
+export type AdminInviteView = Omit<AdminInvite, "tokenHash"> & { status: "pending" | "accepted" | "expired" | "revoked" };
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+export class AdminUserService {
+
+  // Active and deactivated admins with the invites sent to join them
+  async listTeam(): Promise<{ admins: AdminTeamMember[]; invites: AdminInviteView[] }> {
+    const admins = await db.select().from(adminUsers).orderBy(adminUsers.createdAt);
+    const invites = await db.select().from(adminInvites).orderBy(desc(adminInvites.createdAt)).limit(100);
+
+    return {
+      admins: admins.map(admin => this.toMember(admin)),
+      invites: invites.map(invite => this.toInviteView(invite))
+    };
+  }
+
+  // Create an invite and send its link by email, and by SMS when a phone number is given
+  async invite(input: { email: string; phoneNumber?: string; countryCode?: string; role: AdminRole }, invitedBy: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    invite?: AdminInviteView;
+  }> {
+    const email = input.email.trim().toLowerCase();
+    const [existing] = await db.select({ id: adminUsers.id }).from(adminUsers).where(eq(adminUsers.email, email));
+    if (existing) {
+      return { success: false, status: 409, message: "An admin with this email already exists" };
+    }
+
+    // A fresh invite replaces any still-pending one for the same address
+    await db.update(adminInvites)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(adminInvites.email, email), isNull(adminInvites.acceptedAt), isNull(adminInvites.revokedAt)));
+
+    const token = randomBytes(32).toString("hex");
+    const [invite] = await db.insert(adminInvites)
+      .values({
+        email,
+        phoneNumber: input.phoneNumber,
+        countryCode: input.countryCode ?? "+91",
+        role: input.role,
+        tokenHash: hashToken(token),
+        invitedBy,
+        expiresAt: new Date(Date.now() + policy.inviteExpiryHours * 60 * 60 * 1000)
+      })
+      .returning();
+
+    const [inviter] = await db.select({ username: adminUsers.username }).from(adminUsers).where(eq(adminUsers.id, invitedBy));
+    const variables = {
+      invitedBy: inviter?.username ?? config.app.name,
+      role: ADMIN_ROLE_LABELS[input.role].label,
+      inviteUrl: `${config.app.url}/admin/invite/${token}`,
+      expiresHours: policy.inviteExpiryHours
+    };
+    // The link is withheld from the outbox and deliveries views, so show it here while developing
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`\n🔗 DEVELOPMENT INVITE LINK for ${email}: ${variables.inviteUrl}\n`);
+    }
+    await notificationService.sendTemplatedEmail(email, "admin_invite", variables, undefined, "high", invite.expiresAt);
+    if (input.phoneNumber) {
+      await notificationService.sendTemplatedSMS(`${invite.countryCode}${input.phoneNumber}`, "admin_invite", variables, undefined, "high", invite.expiresAt);
+    }
+
+    return { success: true, message: `Invitation sent to ${email}`, invite: this.toInviteView(invite) };
+  }
+
+  async revokeInvite(id: string): Promise<boolean> {
+    const revoked = await db.update(adminInvites)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(adminInvites.id, id), isNull(adminInvites.acceptedAt), isNull(adminInvites.revokedAt)))
+      .returning({ id: adminInvites.id });
+    return revoked.length > 0;
+  }
+
+  // What the invite page shows before the invitee chooses their credentials
+  async getInvite(token: string): Promise<{ email: string; role: string; expiresAt: Date } | null> {
+    const invite = await this.pendingInvite(token);
+    return invite ? { email: invite.email, role: invite.role, expiresAt: invite.expiresAt } : null;
+  }
+
+  // First sign-in: the invitee picks a username and password and the admin account is created
+  async acceptInvite(token: string, username: string, password: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    admin?: AdminTeamMember;
+  }> {
+    const invite = await this.pendingInvite(token);
+    if (!invite) {
+      return { success: false, status: 404, message: "This invitation is invalid or has expired" };
+    }
+    if (!SecurityValidator.validateAdminUsername(username)) {
+      return { success: false, status: 400, message: "Username must be 3-50 letters, numbers, dots, dashes or underscores" };
+    }
+    const strength = SecurityValidator.validatePassword(password);
+    if (!strength.valid) {
+      return { success: false, status: 400, message: strength.errors.join(". ") };
+    }
+
+    const [taken] = await db.select({ id: adminUsers.id })
+      .from(adminUsers)
+      .where(or(eq(adminUsers.username, username), eq(adminUsers.email, invite.email)));
+    if (taken) {
+      return { success: false, status: 409, message: "That username or email is already in use" };
+    }
+
+    const passwordHash = await bcrypt.hash(password, config.auth.bcryptRounds);
+    const admin = await db.transaction(async (tx) => {
+      // Claiming the invite inside the transaction stops the link being used twice
+      const [claimed] = await tx.update(adminInvites)
+        .set({ acceptedAt: new Date() })
+        .where(and(eq(adminInvites.id, invite.id), isNull(adminInvites.acceptedAt), isNull(adminInvites.revokedAt)))
+        .returning({ id: adminInvites.id });
+      if (!claimed) return null;
+
+      const [created] = await tx.insert(adminUsers)
+        .values({
+          username,
+          email: invite.email,
+          passwordHash,
+          role: invite.role,
+          phoneNumber: invite.phoneNumber,
+          countryCode: invite.countryCode
+        })
+        .returning();
+      await tx.insert(adminPasswordHistory).values({ adminId: created.id, passwordHash });
+      await tx.update(adminInvites).set({ acceptedAdminId: created.id }).where(eq(adminInvites.id, invite.id));
+      return created;
+    });
+
+    if (!admin) {
+      return { success: false, status: 409, message: "This invitation has already been used" };
+    }
+    return { success: true, message: "Admin account created. You can now sign in.", admin: this.toMember(admin) };
+  }
+
+  // Set a new password after checking strength and recent history; records it and restarts the expiry clock
+  async setPassword(adminId: string, newPassword: string): Promise<{ success: boolean; message: string; status?: number }> {
+    const strength = SecurityValidator.validatePassword(newPassword);
+    if (!strength.valid) {
+      return { success: false, status: 400, message: strength.errors.join(". ") };
+    }
+
+    const [admin] = await db.select({ passwordHash: adminUsers.passwordHash }).from(adminUsers).where(eq(adminUsers.id, adminId));
+    if (!admin) {
+      return { success: false, status: 404, message: "Admin user not found" };
+    }
+
+    const history = await db.select({ passwordHash: adminPasswordHistory.passwordHash })
+      .from(adminPasswordHistory)
+      .where(eq(adminPasswordHistory.adminId, adminId))
+      .orderBy(desc(adminPasswordHistory.createdAt))
+      .limit(policy.passwordHistorySize);
+    const recent = [admin.passwordHash, ...history.map(entry => entry.passwordHash)];
+    for (const hash of recent) {
+      if (await bcrypt.compare(newPassword, hash)) {
+        return { success: false, status: 400, message: `Choose a password you have not used for your last ${policy.passwordHistorySize} changes` };
+      }
+    }
+
+    const passwordHash = await bcrypt.hash(newPassword, config.auth.bcryptRounds);
+    await db.update(adminUsers)
+      .set({ passwordHash, passwordChangedAt: new Date() })
+      .where(eq(adminUsers.id, adminId));
+    await db.insert(adminPasswordHistory).values({ adminId, passwordHash });
+
+    return { success: true, message: "Password changed successfully" };
+  }
+
+  async setRole(adminId: string, role: AdminRole, changedBy: string): Promise<{ success: boolean; message: string; status?: number }> {
+    if (adminId === changedBy) {
+      return { success: false, status: 400, message: "You cannot change your own role" };
+    }
+    const problem = await this.lastSuperAdminCheck(adminId, role !== "super_admin");
+    if (problem) return problem;
+
+    const updated = await db.update(adminUsers)
+      .set({ role })
+      .where(eq(adminUsers.id, adminId))
+      .returning({ id: adminUsers.id });
+    if (updated.length === 0) {
+      return { success: false, status: 404, message: "Admin user not found" };
+    }
+    return { success: true, message: `Role changed to ${ADMIN_ROLE_LABELS[role].label}` };
+  }
+
+  // Deactivation signs the admin out everywhere by deleting all their sessions
+  async deactivate(adminId: string, deactivatedBy: string): Promise<{ success: boolean; message: string; status?: number }> {
+    if (adminId === deactivatedBy) {
+      return { success: false, status: 400, message: "You cannot deactivate your own account" };
+    }
+    const problem = await this.lastSuperAdminCheck(adminId, true);
+    if (problem) return problem;
+
+    const [updated] = await db.update(adminUsers)
+      .set({ isActive: false, deactivatedAt: new Date(), deactivatedBy })
+      .where(and(eq(adminUsers.id, adminId), eq(adminUsers.isActive, true)))
+      .returning({ id: adminUsers.id });
+    if (!updated) {
+      return { success: false, status: 404, message: "Active admin user not found" };
+    }
+
+    const revoked = await db.delete(adminSessions)
+      .where(eq(adminSessions.adminId, adminId))
+      .returning({ id: adminSessions.id });
+    return { success: true, message: `Admin deactivated and ${revoked.length} session(s) revoked` };
+  }
+
+  async reactivate(adminId: string): Promise<{ success: boolean; message: string; status?: number }> {
+    const [updated] = await db.update(adminUsers)
+      .set({ isActive: true, deactivatedAt: null, deactivatedBy: null })
+      .where(and(eq(adminUsers.id, adminId), eq(adminUsers.isActive, false)))
+      .returning({ id: adminUsers.id });
+    if (!updated) {
+      return { success: false, status: 404, message: "Deactivated admin user not found" };
+    }
+    return { success: true, message: "Admin reactivated" };
+  }
+
+  // Until an expired password is changed, or a privileged role enrolls TOTP, only account settings are usable
+  accountRestriction(admin: Pick<AdminUser, "role" | "totpEnabled" | "passwordChangedAt">): AdminAccountRestriction | null {
+    if (this.passwordExpiresAt(admin.passwordChangedAt) <= new Date()) return "PASSWORD_EXPIRED";
+    if (adminRoleRequiresTotp(admin.role) && !admin.totpEnabled) return "TOTP_REQUIRED";
+    return null;
+  }
+
+  passwordExpiresAt(passwordChangedAt: Date): Date {
+    return new Date(new Date(passwordChangedAt).getTime() + policy.passwordExpiryDays * 24 * 60 * 60 * 1000);
+  }
+
+  private async pendingInvite(token: string): Promise<AdminInvite | undefined> {
+    const [invite] = await db.select()
+      .from(adminInvites)
+      .where(and(
+        eq(adminInvites.tokenHash, hashToken(token)),
+        isNull(adminInvites.acceptedAt),
+        isNull(adminInvites.revokedAt),
+        gt(adminInvites.expiresAt, new Date())
+      ));
+    return invite;
+  }
+
+  // The platform must always keep at least one active super admin
+  private async lastSuperAdminCheck(adminId: string, removing: boolean): Promise<{ success: false; message: string; status: number } | null> {
+    if (!removing) return null;
+    const [target] = await db.select({ role: adminUsers.role, isActive: adminUsers.isActive }).from(adminUsers).where(eq(adminUsers.id, adminId));
+    if (!target || !target.isActive || normalizeAdminRole(target.role) !== "super_admin") return null;
+
+    const others = await db.select({ role: adminUsers.role })
+      .from(adminUsers)
+      .where(and(eq(adminUsers.isActive, true), ne(adminUsers.id, adminId)));
+    if (!others.some(other => normalizeAdminRole(other.role) === "super_admin")) {
+      return { success: false, status: 409, message: "At least one active super admin is required" };
+    }
+    return null;
+  }
+
+  private toMember(admin: AdminUser): AdminTeamMember {
+    return {
+      id: admin.id,
+      username: admin.username,
+      email: admin.email,
+      role: normalizeAdminRole(admin.role) ?? admin.role,
+      phoneNumber: admin.phoneNumber,
+      countryCode: admin.countryCode,
+      totpEnabled: admin.totpEnabled,
+      isActive: admin.isActive,
+      passwordChangedAt: admin.passwordChangedAt,
+      passwordExpiresAt: this.passwordExpiresAt(admin.passwordChangedAt),
+      deactivatedAt: admin.deactivatedAt,
+      createdAt: admin.createdAt
+    };
+  }
+
+  private toInviteView(invite: AdminInvite): AdminInviteView {
+    const { tokenHash, ...rest } = invite;
+    const status = invite.acceptedAt ? "accepted"
+      : invite.revokedAt ? "revoked"
+      : invite.expiresAt <= new Date() ? "expired"
+      : "pending";
+    return { ...rest, status };
+  }
+}
+
+export const adminUserService = new AdminUserService();
@@ -0,0 +1,237 @@
+import { db } from "../db";
+import {
+  watchlistItems,
+  alertRules,
+  properties,
+  type AlertRule,
+  type Property,
+  type WatchlistItem
+} from "@shared/schema";
+import { ONE_SHOT_ALERT_RULE_TYPES, type AlertRuleType } from "@shared/alerts";
+import type { NotificationTemplateKey } from "@shared/notificationTemplates";
+import { eq, and, desc, gt, lte, sql, type SQL } from "drizzle-orm";
+import { notificationService } from "./notification";
+
+export interface AlertRuleInput {
+  type: AlertRuleType;
+  propertyId?: string;
+  city?: string;
+  threshold?: number;
+}
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+export class AlertService {
+
+  // Watched properties, most recently added first
+  async getWatchlist(userId: string): Promise<Array<WatchlistItem & { property: Property }>> {
+    const rows = await db.select({ item: watchlistItems, property: properties })
+      .from(watchlistItems)
+      .innerJoin(properties, eq(watchlistItems.propertyId, properties.id))
+      .where(eq(watchlistItems.userId, userId))
+      .orderBy(desc(watchlistItems.createdAt));
+    return rows.map(row => ({ ...row.item, property: row.property }));
+  }
+
+  // Watching an already watched property is a no-op
+  async addToWatchlist(userId: string, propertyId: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+  }> {
+    const [property] = await db.select({ id: properties.id })
+      .from(properties)
+      .where(and(eq(properties.id, propertyId), eq(properties.isActive, true)));
+    if (!property) {
+      return { success: false, status: 404, message: "Property not found" };
+    }
+
+    await db.insert(watchlistItems)
+      .values({ userId, propertyId })
+      .onConflictDoNothing();
+    return { success: true, message: "Added to watchlist" };
+  }
+
+  async removeFromWatchlist(userId: string, propertyId: string): Promise<boolean> {
+    const removed = await db.delete(watchlistItems)
+      .where(and(eq(watchlistItems.userId, userId), eq(watchlistItems.propertyId, propertyId)))
+      .returning({ id: watchlistItems.id });
+    return removed.length > 0;
+  }
+
+  // A user's alert rules with the name of the property they target
+  async listRules(userId: string): Promise<Array<AlertRule & { propertyName: string | null }>> {
+    const rows = await db.select({ rule: alertRules, propertyName: properties.name })
+      .from(alertRules)
+      .leftJoin(properties, eq(alertRules.propertyId, properties.id))
+      .where(eq(alertRules.userId, userId))
+      .orderBy(desc(alertRules.createdAt));
+    return rows.map(row => ({ ...row.rule, propertyName: row.propertyName }));
+  }
+
+  // Every rule but live_in_city targets a property; threshold rules also need their threshold
+  async createRule(userId: string, input: AlertRuleInput): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    rule?: AlertRule;
+  }> {
+    if (input.type === "live_in_city") {
+      if (!input.city?.trim()) {
+        return { success: false, message: "Choose a city for this alert" };
+      }
+    } else {
+      if (!input.propertyId) {
+        return { success: false, message: "Choose a property for this alert" };
+      }
+      const [property] = await db.select({ id: properties.id })
+        .from(properties)
+        .where(and(eq(properties.id, input.propertyId), eq(properties.isActive, true)));
+      if (!property) {
+        return { success: false, status: 404, message: "Property not found" };
+      }
+    }
+
+    if (input.type === "funding_threshold" && (input.threshold === undefined || input.threshold <= 0 || input.threshold > 100)) {
+      return { success: false, message: "Funding threshold must be between 1 and 100 percent" };
+    }
+    if (input.type === "market_price_below" && (input.threshold === undefined || input.threshold <= 0)) {
+      return { success: false, message: "Enter the per-unit price to alert below" };
+    }
+
+    const [rule] = await db.insert(alertRules)
+      .values({
+        userId,
+        type: input.type,
+        propertyId: input.type === "live_in_city" ? null : input.propertyId,
+        city: input.type === "live_in_city" ? input.city!.trim() : null,
+        threshold: ONE_SHOT_ALERT_RULE_TYPES.includes(input.type) ? input.threshold!.toFixed(2) : null
+      })
+      .returning();
+
+    return { success: true, message: "Alert created", rule };
+  }
+
+  // Re-enabling a threshold rule arms it to fire again
+  async setRuleActive(userId: string, ruleId: string, isActive: boolean): Promise<AlertRule | undefined> {
+    const [rule] = await db.update(alertRules)
+      .set({ isActive })
+      .where(and(eq(alertRules.id, ruleId), eq(alertRules.userId, userId)))
+      .returning();
+    return rule;
+  }
+
+  async deleteRule(userId: string, ruleId: string): Promise<boolean> {
+    const deleted = await db.delete(alertRules)
+      .where(and(eq(alertRules.id, ruleId), eq(alertRules.userId, userId)))
+      .returning({ id: alertRules.id });
+    return deleted.length > 0;
+  }
+
+  // Called after confirmed commitments change a property's funding progress
+  async onFundingProgress(propertyId: string, previous: number, current: number): Promise<void> {
+    if (current <= previous) return;
+    await this.evaluate("funding_threshold", async () => {
+      const rules = await this.activeRules("funding_threshold", and(
+        eq(alertRules.propertyId, propertyId),
+        gt(alertRules.threshold, String(previous)),
+        lte(alertRules.threshold, String(current))
+      )!);
+      const property = await this.getProperty(propertyId);
+      if (!property) return;
+      await this.deliver(rules, property, "alert_funding_threshold", (rule) => ({
+        threshold: Number(rule.threshold),
+        progress: current
+      }));
+    });
+  }
+
+  // Called once a valuation is published, current or backdated
+  async onValuationPublished(propertyId: string, value: number, navPerUnit: number): Promise<void> {
+    await this.evaluate("valuation_published", async () => {
+      const rules = await this.activeRules("valuation_published", eq(alertRules.propertyId, propertyId));
+      const property = await this.getProperty(propertyId);
+      if (!property) return;
+      await this.deliver(rules, property, "alert_valuation_published", () => ({
+        value: formatRupees(value),
+        navPerUnit: formatRupees(navPerUnit)
+      }));
+    });
+  }
+
+  // Called when a property first opens for investment
+  async onPropertyLive(property: Property): Promise<void> {
+    await this.evaluate("live_in_city", async () => {
+      const rules = await this.activeRules("live_in_city", sql`lower(${alertRules.city}) = lower(${property.city})`);
+      await this.deliver(rules, property, "alert_live_in_city", () => ({
+        city: property.city,
+        minInvestment: formatRupees(property.minInvestment)
+      }));
+    });
+  }
+
+  // Called with the lowest price seen after an order trades or rests on the book
+  async onMarketPrice(propertyId: string, price: number): Promise<void> {
+    await this.evaluate("market_price_below", async () => {
+      const rules = await this.activeRules("market_price_below", and(
+        eq(alertRules.propertyId, propertyId),
+        gt(alertRules.threshold, price.toFixed(2))
+      )!);
+      const property = await this.getProperty(propertyId);
+      if (!property) return;
+      await this.deliver(rules, property, "alert_market_price_below", (rule) => ({
+        threshold: formatRupees(Number(rule.threshold)),
+        price: formatRupees(price)
+      }));
+    });
+  }
+
+  // Alerts must never fail the change that triggered them
+  private async evaluate(type: AlertRuleType, run: () => Promise<void>): Promise<void> {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`Evaluate ${type} alerts error:`, error);
+    }
+  }
+
+  private async activeRules(type: AlertRuleType, condition: SQL): Promise<AlertRule[]> {
+    return await db.select()
+      .from(alertRules)
+      .where(and(eq(alertRules.type, type), eq(alertRules.isActive, true), condition));
+  }
+
+  private async getProperty(propertyId: string): Promise<Property | undefined> {
+    const [property] = await db.select().from(properties).where(eq(properties.id, propertyId));
+    return property;
+  }
+
+  // Notify each rule's investor on the channels they enabled for watchlist alerts
+  private async deliver(
+    rules: AlertRule[],
+    property: Property,
+    template: NotificationTemplateKey,
+    variables: (rule: AlertRule) => Record<string, unknown>
+  ): Promise<void> {
+    for (const rule of rules) {
+      const oneShot = ONE_SHOT_ALERT_RULE_TYPES.includes(rule.type as AlertRuleType);
+      // Claiming a one-shot rule by deactivating it stops concurrent events firing it twice
+      const [claimed] = await db.update(alertRules)
+        .set({ lastTriggeredAt: new Date(), ...(oneShot ? { isActive: false } : {}) })
+        .where(and(eq(alertRules.id, rule.id), eq(alertRules.isActive, true)))
+        .returning({ id: alertRules.id });
+      if (!claimed) continue;
+
+      await notificationService.notifyUser(rule.userId, "property_alerts", template, {
+        propertyName: property.name,
+        ...variables(rule)
+      }, {
+        type: rule.type,
+        propertyId: property.id,
+        alertRuleId: rule.id
+      });
+    }
+  }
+}
+
+export const alertService = new AlertService();
@@ -1,5 +1,5 @@
 import { db } from "../db";
-import { users, otpVerifications, userSessions, adminUsers, type InsertUser, type User, type AdminUser } from "@shared/schema";
+import { users, otpVerifications, userSessions, adminUsers, adminSessions, type InsertUser, type User, type AdminUser } from "@shared/schema";
 import { eq, and, gt } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import { nanoid } from "nanoid";
@@ -30,7 +30,7 @@ export class AuthService {
       });
 
       // Send OTP via SMS/Email
-      const sent = await notificationService.sendOTP(phoneNumber, email, otp);
+      const sent = await notificationService.sendOTP(phoneNumber, email, otp, expiresAt);
       
       if (sent) {
         const message = isDevelopment
@@ -135,46 +135,39 @@ export class AuthService {
     }
   }
 
-  // Validate session token
-  async validateSession(sessionToken: string): Promise<{
-    success: boolean;
-    user?: User | AdminUser;
-  }> {
-    try {
-      // First try to find regular user session
-      const [userSession] = await db.select({
-        user: users,
-        sessionExpiresAt: userSessions.expiresAt
-      })
-      .from(userSessions)
-      .innerJoin(users, eq(userSessions.userId, users.id))
+  // Resolve an active investor from a user session token (no admin fallback)
+  async getSessionUser(sessionToken: string): Promise<User | undefined> {
+    const [userSession] = await db.select({
+      user: users,
+      sessionExpiresAt: userSessions.expiresAt
+    })
+    .from(userSessions)
+    .innerJoin(users, eq(userSessions.userId, users.id))
+    .where(
+      and(
+        eq(userSessions.sessionToken, sessionToken),
+        gt(userSessions.expiresAt, new Date()),
+        eq(users.isActive, true)
+      )
+    );
+
+    return userSession?.user;
+  }
+
+  // Resolve an admin from an unexpired admin session token
+  async getSessionAdmin(sessionToken: string): Promise<AdminUser | undefined> {
+    const [adminSession] = await db.select({ admin: adminUsers })
+      .from(adminSessions)
+      .innerJoin(adminUsers, eq(adminSessions.adminId, adminUsers.id))
       .where(
         and(
-          eq(userSessions.sessionToken, sessionToken),
-          gt(userSessions.expiresAt, new Date()),
-          eq(users.isActive, true)
+          eq(adminSessions.sessionToken, sessionToken),
+          gt(adminSessions.expiresAt, new Date()),
+          eq(adminUsers.isActive, true)
         )
       );
 
-      if (userSession) {
-        return { success: true, user: userSession.user };
-      }
-
-      // Check if it's an admin session (simple token match for now)
-      // In a real app, you'd have a proper admin sessions table
-      const [adminUser] = await db.select()
-        .from(adminUsers)
-        .where(eq(adminUsers.username, "admin"));
-
-      if (adminUser && sessionToken) {
-        return { success: true, user: adminUser };
-      }
-
-      return { success: false };
-    } catch (error) {
-      console.error("Session validation error:", error);
-      return { success: false };
-    }
+    return adminSession?.admin;
   }
 
   // Logout - invalidate session
@@ -261,10 +254,9 @@ export class AuthService {
       try {
         if (config.app.features.enableSMSNotifications && adminUser.phoneNumber) {
           const phoneNumber = `${adminUser.countryCode || '+91'}${adminUser.phoneNumber}`;
-          await notificationService.sendSMS(
-            phoneNumber,
-            "Your admin password has been successfully changed."
-          );
+          await notificationService.sendTemplatedSMS(phoneNumber, "admin_password_changed", {
+            username: adminUser.username
+          });
         }
       } catch (smsError) {
         console.log("SMS notification failed:", smsError);
@@ -279,7 +271,7 @@ export class AuthService {
   }
 
   // Update admin profile (including mobile number)
-  async updateAdminProfile(updates: {
+  async updateAdminProfile(adminId: string, updates: {
     email?: string;
     phoneNumber?: string;
     countryCode?: string;
@@ -288,20 +280,15 @@ export class AuthService {
     message: string;
   }> {
     try {
-      // Find admin user
-      const [adminUser] = await db.select()
-        .from(adminUsers)
-        .where(eq(adminUsers.username, "admin"));
+      const [adminUser] = await db.update(adminUsers)
+        .set(updates)
+        .where(eq(adminUsers.id, adminId))
+        .returning({ id: adminUsers.id });
 
       if (!adminUser) {
         return { success: false, message: "Admin user not found" };
       }
 
-      // Update admin profile
-      await db.update(adminUsers)
-        .set(updates)
-        .where(eq(adminUsers.username, "admin"));
-
       return { success: true, message: "Profile updated successfully" };
     } catch (error) {
       console.error("Update profile error:", error);
@@ -310,14 +297,14 @@ export class AuthService {
   }
 
   // Get admin profile
-  async getAdminProfile(): Promise<{
+  async getAdminProfile(adminId: string): Promise<{
     success: boolean;
     user?: AdminUser;
   }> {
     try {
       const [adminUser] = await db.select()
         .from(adminUsers)
-        .where(eq(adminUsers.username, "admin"));
+        .where(eq(adminUsers.id, adminId));
 
       if (!adminUser) {
         return { success: false };
@@ -0,0 +1,57 @@
+import { db } from "../db";
+import { properties } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import type { CalculatorAssumptions } from "@shared/investmentScenario";
+import { valuationService } from "./valuation";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// Valuations closer together than this say little about a yearly rate
+const MIN_APPRECIATION_SPAN_YEARS = 0.5;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export class CalculatorService {
+
+  // Calculator defaults for a property: appreciation from its valuation history, the rest of the
+  // listed expected return as rental yield, and the platform's fee and tax rates
+  async getAssumptions(propertyId: string): Promise<CalculatorAssumptions | undefined> {
+    const [property] = await db.select()
+      .from(properties)
+      .where(and(eq(properties.id, propertyId), eq(properties.isActive, true)));
+    if (!property) return undefined;
+
+    const valuations = await valuationService.getValuations(propertyId);
+    let appreciationRate = 0;
+    if (valuations.length >= 2) {
+      const first = valuations[0];
+      const last = valuations[valuations.length - 1];
+      const span = (last.valuationDate.getTime() - first.valuationDate.getTime()) / MS_PER_YEAR;
+      if (span >= MIN_APPRECIATION_SPAN_YEARS && first.value > 0) {
+        appreciationRate = (Math.pow(last.value / first.value, 1 / span) - 1) * 100;
+      }
+    }
+
+    const expectedReturn = property.expectedReturn === null ? null : Number(property.expectedReturn);
+    const { distributionTdsRate, secondaryMarketFeeRate, shortTermCapitalGainsTaxRate, longTermCapitalGainsTaxRate, longTermHoldingYears } = config.app.business;
+
+    return {
+      propertyId: property.id,
+      propertyName: property.name,
+      minInvestment: property.minInvestment,
+      expectedReturn,
+      rentalYield: round2(Math.max(0, (expectedReturn ?? 0) - Math.max(0, appreciationRate))),
+      appreciationRate: round2(appreciationRate),
+      valuationCount: valuations.length,
+      tdsRate: distributionTdsRate,
+      exitFeeRate: secondaryMarketFeeRate,
+      shortTermCapitalGainsTaxRate,
+      longTermCapitalGainsTaxRate,
+      longTermHoldingYears
+    };
+  }
+}
+
+export const calculatorService = new CalculatorService();
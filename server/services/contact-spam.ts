@@ -0,0 +1,152 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "../db";
+import { contacts, type Contact, type InsertContact } from "@shared/schema";
+import { normalizeEmail, normalizePhone, parseInvestmentAmount } from "@shared/leads";
+import { and, count, desc, eq, gte } from "drizzle-orm";
+import { securityRateLimiter } from "../security/rate-limiter";
+import { DISPOSABLE_EMAIL_DOMAINS } from "../security/disposable-email-domains";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+export interface ContactSubmissionContext {
+  honeypot?: string; // hidden form field only bots fill in
+  formToken?: string; // issued when the form was rendered
+  ip: string;
+}
+
+interface SpamAssessment {
+  score: number;
+  reasons: string[];
+  fingerprint: string;
+}
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+/gi;
+
+export class ContactSpamService {
+
+  // Signed timestamp the form echoes back, so the fill time can be checked
+  issueFormToken(): string {
+    const payload = `${Date.now()}.${randomBytes(8).toString("hex")}`;
+    return `${payload}.${this.sign(payload)}`;
+  }
+
+  // Score a submission against every signal; the reasons are shown to admins reviewing the quarantine
+  async assess(data: InsertContact, context: ContactSubmissionContext): Promise<SpamAssessment> {
+    const settings = config.security.contactSpam;
+    const reasons: string[] = [];
+    let score = 0;
+    const flag = (points: number, reason: string) => {
+      score += points;
+      reasons.push(reason);
+    };
+
+    if (context.honeypot?.trim()) {
+      flag(100, "Hidden honeypot field was filled in");
+    }
+
+    const issuedAt = this.verifyFormToken(context.formToken);
+    if (issuedAt === null) {
+      flag(30, "Missing or invalid form token");
+    } else {
+      const elapsed = Date.now() - issuedAt;
+      if (elapsed < settings.minFillTimeMs) {
+        flag(40, `Submitted ${(elapsed / 1000).toFixed(1)}s after the form loaded`);
+      } else if (elapsed > settings.maxTokenAgeMs) {
+        flag(15, "Form token expired");
+      }
+    }
+
+    const links = data.message.match(LINK_PATTERN)?.length ?? 0;
+    if (links > 0) {
+      const words = data.message.split(/\s+/).filter(Boolean).length;
+      const density = links / Math.max(words, 1);
+      flag(Math.min(60, links * 15 + (density > 0.2 ? 20 : 0)), `${links} link${links === 1 ? "" : "s"} in message`);
+    }
+
+    const domain = data.email.trim().toLowerCase().split("@")[1] ?? "";
+    if (DISPOSABLE_EMAIL_DOMAINS.has(domain)) {
+      flag(40, `Disposable email domain (${domain})`);
+    }
+
+    const fingerprint = this.fingerprint(data);
+    const [{ repeats }] = await db.select({ repeats: count() })
+      .from(contacts)
+      .where(and(
+        eq(contacts.fingerprint, fingerprint),
+        gte(contacts.createdAt, new Date(Date.now() - settings.repeatWindowMs))
+      ));
+    if (repeats > 0) {
+      flag(50, `Identical enquiry already submitted ${repeats} time${repeats === 1 ? "" : "s"} recently`);
+    }
+
+    const submissions = securityRateLimiter.recordHit(`contact:${context.ip}`, settings.velocityWindowMs);
+    if (submissions > settings.velocityLimit) {
+      flag(Math.min(60, 30 + (submissions - settings.velocityLimit - 1) * 10), `${submissions} submissions from this IP within the hour`);
+    }
+
+    return { score: Math.min(100, score), reasons, fingerprint };
+  }
+
+  // Store a scored submission; high scores are quarantined rather than dropped
+  async createContact(data: InsertContact, context: ContactSubmissionContext): Promise<Contact> {
+    const assessment = await this.assess(data, context);
+    const amount = parseInvestmentAmount(data.investmentAmount);
+
+    const [contact] = await db.insert(contacts)
+      .values({
+        ...data,
+        investmentMin: amount?.min ?? null,
+        investmentMax: amount?.max ?? null,
+        spamScore: assessment.score,
+        spamReasons: assessment.reasons,
+        isQuarantined: assessment.score >= config.security.contactSpam.quarantineThreshold,
+        fingerprint: assessment.fingerprint,
+        ipAddress: context.ip
+      })
+      .returning();
+    return contact;
+  }
+
+  // Quarantined submissions, newest first
+  async listQuarantined(): Promise<Contact[]> {
+    return db.select()
+      .from(contacts)
+      .where(eq(contacts.isQuarantined, true))
+      .orderBy(desc(contacts.createdAt));
+  }
+
+  // Move a submission an admin judged genuine into the lead pipeline
+  async release(id: string): Promise<Contact | undefined> {
+    const [contact] = await db.update(contacts)
+      .set({ isQuarantined: false, updatedAt: new Date() })
+      .where(and(eq(contacts.id, id), eq(contacts.isQuarantined, true)))
+      .returning();
+    return contact;
+  }
+
+  private fingerprint(data: InsertContact): string {
+    const message = data.message.trim().toLowerCase().replace(/\s+/g, " ");
+    return createHash("sha256")
+      .update([normalizeEmail(data.email), normalizePhone(data.phone), message].join("|"))
+      .digest("hex");
+  }
+
+  private sign(payload: string): string {
+    return createHmac("sha256", config.auth.sessionSecret).update(payload).digest("hex");
+  }
+
+  // Issue time of a genuine token, or null when it is missing or tampered with
+  private verifyFormToken(token: string | undefined): number | null {
+    const [issuedAt, nonce, signature] = token?.split(".") ?? [];
+    if (!issuedAt || !nonce || !signature) return null;
+
+    const expected = Buffer.from(this.sign(`${issuedAt}.${nonce}`));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    const timestamp = Number(issuedAt);
+    return Number.isFinite(timestamp) ? timestamp : null;
+  }
+}
+
+export const contactSpamService = new ContactSpamService();
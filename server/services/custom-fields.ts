@@ -0,0 +1,188 @@
+import { db } from "../db";
+import { customFieldDefinitions, properties, type CustomFieldDefinition, type InsertCustomFieldDefinition } from "@shared/schema";
+import { eq, asc } from "drizzle-orm";
+import { validateCustomFields, findDefinitionProblem, type CustomFieldIssue, type NonConformingProperty } from "@shared/customFieldValidation";
+import type { CustomField, CustomFieldCondition, CustomFieldType } from "@shared/propertyTypes";
+
+// Stored rows in the shape the shared validator expects
+const toCustomField = (row: CustomFieldDefinition): CustomField => ({
+  id: row.id,
+  name: row.name,
+  displayName: row.displayName,
+  type: row.type as CustomFieldType,
+  required: row.required,
+  defaultValue: row.defaultValue ?? undefined,
+  section: row.section,
+  order: row.order,
+  options: row.options ?? undefined,
+  validation: (row.validation as CustomField["validation"]) ?? undefined,
+  visibleWhen: (row.visibleWhen as CustomFieldCondition[] | null) ?? undefined,
+  filterable: row.filterable,
+});
+
+export class CustomFieldService {
+
+  async listDefinitions(): Promise<CustomFieldDefinition[]> {
+    return await db.select()
+      .from(customFieldDefinitions)
+      .orderBy(asc(customFieldDefinitions.section), asc(customFieldDefinitions.order), asc(customFieldDefinitions.createdAt));
+  }
+
+  async createDefinition(input: InsertCustomFieldDefinition, adminId?: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    definition?: CustomFieldDefinition;
+  }> {
+    const existing = await this.listDefinitions();
+    const problem = findDefinitionProblem(input, existing.map(row => row.id));
+    if (problem) {
+      return { success: false, status: 400, message: problem };
+    }
+
+    const [definition] = await db.insert(customFieldDefinitions)
+      .values({ ...input, createdBy: adminId })
+      .onConflictDoNothing({ target: customFieldDefinitions.id })
+      .returning();
+
+    if (!definition) {
+      return { success: false, status: 409, message: `A custom field with id "${input.id}" already exists` };
+    }
+    return { success: true, message: "Custom field created", definition };
+  }
+
+  // The id is immutable because property values are keyed by it
+  async updateDefinition(id: string, changes: Partial<Omit<InsertCustomFieldDefinition, "id">>): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    definition?: CustomFieldDefinition;
+  }> {
+    const existing = await this.listDefinitions();
+    const current = existing.find(row => row.id === id);
+    if (!current) {
+      return { success: false, status: 404, message: "Custom field not found" };
+    }
+
+    const problem = findDefinitionProblem(
+      {
+        id,
+        type: changes.type ?? current.type,
+        options: changes.options !== undefined ? changes.options : current.options,
+        visibleWhen: changes.visibleWhen !== undefined ? changes.visibleWhen : current.visibleWhen as CustomFieldCondition[] | null,
+        filterable: changes.filterable ?? current.filterable
+      },
+      existing.filter(row => row.id !== id).map(row => row.id)
+    );
+    if (problem) {
+      return { success: false, status: 400, message: problem };
+    }
+
+    const [definition] = await db.update(customFieldDefinitions)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(customFieldDefinitions.id, id))
+      .returning();
+    return { success: true, message: "Custom field updated", definition };
+  }
+
+  // Conditions on the deleted field are dropped so dependent fields do not stay hidden forever
+  async deleteDefinition(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const result = await tx.delete(customFieldDefinitions).where(eq(customFieldDefinitions.id, id));
+      if ((result.rowCount ?? 0) === 0) return false;
+
+      const remaining = await tx.select().from(customFieldDefinitions);
+      for (const row of remaining) {
+        const conditions = (row.visibleWhen as CustomFieldCondition[] | null) ?? [];
+        if (!conditions.some(condition => condition.field === id)) continue;
+
+        const kept = conditions.filter(condition => condition.field !== id);
+        await tx.update(customFieldDefinitions)
+          .set({ visibleWhen: kept.length > 0 ? kept : null, updatedAt: new Date() })
+          .where(eq(customFieldDefinitions.id, row.id));
+      }
+      return true;
+    });
+  }
+
+  // Apply a new section/order layout to several fields at once
+  async reorderDefinitions(layout: Array<{ id: string; section: string; order: number }>): Promise<CustomFieldDefinition[]> {
+    await db.transaction(async (tx) => {
+      for (const item of layout) {
+        await tx.update(customFieldDefinitions)
+          .set({ section: item.section, order: item.order, updatedAt: new Date() })
+          .where(eq(customFieldDefinitions.id, item.id));
+      }
+    });
+    return await this.listDefinitions();
+  }
+
+  // One-time migration of definitions kept in an admin's browser; existing ids win.
+  // Definitions that fail the same checks as createDefinition are reported as invalid
+  async importDefinitions(definitions: InsertCustomFieldDefinition[], adminId?: string): Promise<{
+    imported: CustomFieldDefinition[];
+    skipped: string[];
+    invalid: string[];
+  }> {
+    if (definitions.length === 0) return { imported: [], skipped: [], invalid: [] };
+
+    // Rejecting one definition can orphan conditions on it, so repeat until the set is stable
+    const existingIds = (await this.listDefinitions()).map(row => row.id);
+    let candidates = definitions;
+    const invalid: string[] = [];
+    for (;;) {
+      const ids = [...existingIds, ...candidates.map(definition => definition.id)];
+      const rejected = candidates.filter(definition =>
+        findDefinitionProblem(definition, ids.filter(id => id !== definition.id)) !== null
+      );
+      if (rejected.length === 0) break;
+      invalid.push(...rejected.map(definition => definition.id));
+      candidates = candidates.filter(definition => !rejected.includes(definition));
+    }
+    if (candidates.length === 0) return { imported: [], skipped: [], invalid };
+
+    const imported = await db.insert(customFieldDefinitions)
+      .values(candidates.map(definition => ({ ...definition, createdBy: adminId })))
+      .onConflictDoNothing({ target: customFieldDefinitions.id })
+      .returning();
+
+    const importedIds = new Set(imported.map(definition => definition.id));
+    return {
+      imported,
+      skipped: candidates.filter(definition => !importedIds.has(definition.id)).map(definition => definition.id),
+      invalid
+    };
+  }
+
+  // Check a property's customFields payload against the current definitions;
+  // attributes are the core property fields visibility conditions can refer to
+  async validatePropertyValues(values: unknown, attributes: { propertyType?: string | null } = {}): Promise<CustomFieldIssue[]> {
+    const definitions = (await this.listDefinitions()).map(toCustomField);
+    return validateCustomFields(definitions, values as Record<string, unknown> | null, attributes);
+  }
+
+  // Properties whose saved values no longer satisfy the definitions, e.g. after a field became required
+  async findNonConformingProperties(): Promise<NonConformingProperty[]> {
+    const definitions = (await this.listDefinitions()).map(toCustomField);
+    if (definitions.length === 0) return [];
+
+    const rows = await db.select({
+      id: properties.id,
+      name: properties.name,
+      propertyType: properties.propertyType,
+      customFields: properties.customFields
+    })
+    .from(properties)
+    .where(eq(properties.isActive, true));
+
+    return rows
+      .map(row => ({
+        propertyId: row.id,
+        propertyName: row.name,
+        issues: validateCustomFields(definitions, row.customFields as Record<string, unknown> | null, { propertyType: row.propertyType })
+      }))
+      .filter(row => row.issues.length > 0);
+  }
+}
+
+export const customFieldService = new CustomFieldService();
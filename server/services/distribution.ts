@@ -0,0 +1,258 @@
+import { db } from "../db";
+import { distributions, distributionLedger, properties, type Distribution, type DistributionLedgerEntry } from "@shared/schema";
+import { eq, and, lt, gt, desc } from "drizzle-orm";
+import { investmentService } from "./investment";
+import { notificationService } from "./notification";
+
+export interface DistributionInput {
+  periodStart: Date;
+  periodEnd: Date;
+  grossRent: number;
+  expenses: number;
+  managementFee: number;
+  tdsRate: number; // percentage
+  notes?: string;
+}
+
+export interface PayoutLine {
+  userId: string;
+  units: number;
+  grossAmount: number;
+  tdsAmount: number;
+  netAmount: number;
+}
+
+export interface DistributionPreview {
+  propertyId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  grossRent: number;
+  expenses: number;
+  managementFee: number;
+  netAmount: number;
+  tdsRate: number;
+  totalTds: number;
+  distributedUnits: number;
+  lines: PayoutLine[];
+}
+
+type DbExecutor = Pick<typeof db, "select">;
+
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+const toRupees = (paise: number) => paise / 100;
+const formatRupees = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+/**
+ * Split a net amount across holdings by units using the largest-remainder
+ * method, so the payouts add up to the net amount to the paisa
+ */
+export function calculatePayouts(netAmount: number, tdsRate: number, holdings: Array<{ userId: string; units: number }>): PayoutLine[] {
+  const totalUnits = holdings.reduce((sum, h) => sum + h.units, 0);
+  if (totalUnits === 0) return [];
+
+  const netPaise = toPaise(netAmount);
+  const shares = holdings.map(holding => {
+    const exact = (netPaise * holding.units) / totalUnits;
+    return { ...holding, paise: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = netPaise - shares.reduce((sum, share) => sum + share.paise, 0);
+  [...shares]
+    .sort((a, b) => b.remainder - a.remainder || b.units - a.units)
+    .forEach(share => {
+      if (leftover > 0) {
+        share.paise += 1;
+        leftover -= 1;
+      }
+    });
+
+  return shares.map(share => {
+    const tdsPaise = Math.round((share.paise * tdsRate) / 100);
+    return {
+      userId: share.userId,
+      units: share.units,
+      grossAmount: toRupees(share.paise),
+      tdsAmount: toRupees(tdsPaise),
+      netAmount: toRupees(share.paise - tdsPaise),
+    };
+  });
+}
+
+export class DistributionService {
+
+  // Compute payouts without writing anything
+  async preview(propertyId: string, input: DistributionInput, executor: DbExecutor = db): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    preview?: DistributionPreview;
+  }> {
+    const [property] = await executor.select({ id: properties.id })
+      .from(properties)
+      .where(eq(properties.id, propertyId));
+
+    if (!property) {
+      return { success: false, status: 404, message: "Property not found" };
+    }
+
+    if (input.periodEnd <= input.periodStart) {
+      return { success: false, message: "Period end must be after period start" };
+    }
+
+    const netAmount = toRupees(toPaise(input.grossRent) - toPaise(input.expenses) - toPaise(input.managementFee));
+    if (netAmount <= 0) {
+      return { success: false, message: "Expenses and management fee exceed gross rent; nothing to distribute" };
+    }
+
+    const [overlapping] = await executor.select({ id: distributions.id })
+      .from(distributions)
+      .where(and(
+        eq(distributions.propertyId, propertyId),
+        lt(distributions.periodStart, input.periodEnd),
+        gt(distributions.periodEnd, input.periodStart)
+      ))
+      .limit(1);
+
+    if (overlapping) {
+      return { success: false, status: 409, message: "A distribution already covers part of this period" };
+    }
+
+    const holdings = await investmentService.getPropertyHoldings(propertyId, executor);
+    if (holdings.length === 0) {
+      return { success: false, message: "This property has no confirmed investors" };
+    }
+
+    const lines = calculatePayouts(netAmount, input.tdsRate, holdings);
+
+    return {
+      success: true,
+      message: "Distribution preview",
+      preview: {
+        propertyId,
+        periodStart: input.periodStart,
+        periodEnd: input.periodEnd,
+        grossRent: input.grossRent,
+        expenses: input.expenses,
+        managementFee: input.managementFee,
+        netAmount,
+        tdsRate: input.tdsRate,
+        totalTds: toRupees(lines.reduce((sum, line) => sum + toPaise(line.tdsAmount), 0)),
+        distributedUnits: holdings.reduce((sum, h) => sum + h.units, 0),
+        lines,
+      }
+    };
+  }
+
+  // Recompute and persist a distribution with its ledger lines atomically
+  async commit(propertyId: string, input: DistributionInput, adminId?: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    distribution?: Distribution;
+  }> {
+    try {
+      const result = await db.transaction(async (tx) => {
+        // Serialize commits per property so overlapping periods cannot both be paid
+        await tx.select({ id: properties.id })
+          .from(properties)
+          .where(eq(properties.id, propertyId))
+          .for("update");
+
+        const result = await this.preview(propertyId, input, tx);
+        if (!result.success || !result.preview) {
+          return { success: false, status: result.status, message: result.message };
+        }
+
+        const preview = result.preview;
+        const [distribution] = await tx.insert(distributions)
+          .values({
+            propertyId,
+            periodStart: preview.periodStart,
+            periodEnd: preview.periodEnd,
+            grossRent: preview.grossRent.toFixed(2),
+            expenses: preview.expenses.toFixed(2),
+            managementFee: preview.managementFee.toFixed(2),
+            netAmount: preview.netAmount.toFixed(2),
+            tdsRate: preview.tdsRate.toFixed(2),
+            totalTds: preview.totalTds.toFixed(2),
+            distributedUnits: preview.distributedUnits,
+            notes: input.notes,
+            createdBy: adminId
+          })
+          .returning();
+
+        await tx.insert(distributionLedger).values(preview.lines.map(line => ({
+          distributionId: distribution.id,
+          propertyId,
+          userId: line.userId,
+          units: line.units,
+          grossAmount: line.grossAmount.toFixed(2),
+          tdsAmount: line.tdsAmount.toFixed(2),
+          netAmount: line.netAmount.toFixed(2),
+        })));
+
+        return { success: true, message: "Distribution committed", distribution };
+      });
+
+      // The run is already committed; a notification failure must not report it as failed
+      if (result.distribution) {
+        await this.notifyPayouts(result.distribution)
+          .catch(error => console.error("Distribution payout notification error:", error));
+      }
+      return result;
+    } catch (error) {
+      console.error("Commit distribution error:", error);
+      return { success: false, status: 500, message: "Failed to commit distribution" };
+    }
+  }
+
+  async getPropertyDistributions(propertyId: string): Promise<Distribution[]> {
+    return await db.select()
+      .from(distributions)
+      .where(eq(distributions.propertyId, propertyId))
+      .orderBy(desc(distributions.periodEnd));
+  }
+
+  // Investor payout history with period and property context
+  async getUserPayouts(userId: string): Promise<Array<DistributionLedgerEntry & {
+    periodStart: Date;
+    periodEnd: Date;
+    propertyName: string;
+  }>> {
+    const rows = await db.select({
+      line: distributionLedger,
+      periodStart: distributions.periodStart,
+      periodEnd: distributions.periodEnd,
+      propertyName: properties.name
+    })
+    .from(distributionLedger)
+    .innerJoin(distributions, eq(distributionLedger.distributionId, distributions.id))
+    .innerJoin(properties, eq(distributionLedger.propertyId, properties.id))
+    .where(eq(distributionLedger.userId, userId))
+    .orderBy(desc(distributions.periodEnd));
+
+    return rows.map(row => ({
+      ...row.line,
+      periodStart: row.periodStart,
+      periodEnd: row.periodEnd,
+      propertyName: row.propertyName
+    }));
+  }
+
+  // Tell each investor in the ledger what was credited to them
+  private async notifyPayouts(distribution: Distribution): Promise<void> {
+    const [property] = await db.select({ name: properties.name }).from(properties).where(eq(properties.id, distribution.propertyId));
+    const lines = await db.select({ userId: distributionLedger.userId, netAmount: distributionLedger.netAmount })
+      .from(distributionLedger)
+      .where(eq(distributionLedger.distributionId, distribution.id));
+
+    for (const line of lines) {
+      await notificationService.notifyUser(line.userId, "distributions", "distribution_paid", {
+        propertyName: property?.name ?? "your property",
+        netAmount: formatRupees(Number(line.netAmount))
+      }, { propertyId: distribution.propertyId });
+    }
+  }
+}
+
+export const distributionService = new DistributionService();
@@ -0,0 +1,285 @@
+import { db } from "../db";
+import { investments, payments, properties, trades, type Investment, type Property } from "@shared/schema";
+import { eq, and, inArray, desc, lt, sql } from "drizzle-orm";
+// @ts-ignore
+import config from '../../config/app.config.js';
+import { propertyLifecycleService } from "./lifecycle";
+import { alertService } from "./alerts";
+
+// Statuses that hold units against a property's capacity
+const RESERVED_STATUSES = ["pending", "confirmed"];
+
+export type DbReader = Pick<typeof db, "select">;
+type DbExecutor = Pick<typeof db, "select" | "update" | "insert">;
+
+export class InvestmentService {
+
+  // Price of a single ownership unit for a property
+  getUnitPrice(property: Pick<Property, "totalValue" | "totalUnits">): number {
+    return property.totalValue / property.totalUnits;
+  }
+
+  // Reserve whole units for an amount; the investment confirms once payment is captured
+  async createInvestment(userId: string, propertyId: string, amount: number): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    investment?: Investment;
+  }> {
+    const { minInvestmentAmount, maxInvestmentAmount } = config.app.business;
+
+    try {
+      return await db.transaction(async (tx) => {
+        // Lock the property row so concurrent commitments cannot oversubscribe it
+        const [property] = await tx.select()
+          .from(properties)
+          .where(eq(properties.id, propertyId))
+          .for("update");
+
+        if (!property || !property.isActive) {
+          return { success: false, status: 404, message: "Property not found" };
+        }
+        if (!propertyLifecycleService.isOpenForInvestment(property)) {
+          return { success: false, status: 409, message: "This property is not open for investment" };
+        }
+
+        const unitPrice = this.getUnitPrice(property);
+        const units = Math.floor(amount / unitPrice);
+        if (units < 1) {
+          return { success: false, message: "Amount is below the price of a single unit" };
+        }
+
+        // Limits apply to what is actually charged: whole units, which can come to less than the amount asked for
+        const allocatedAmount = Math.round(units * unitPrice);
+        const minimum = Math.max(property.minInvestment, minInvestmentAmount);
+        if (allocatedAmount < minimum) {
+          return {
+            success: false,
+            message: allocatedAmount < amount
+              ? `Minimum investment for this property is ₹${minimum.toLocaleString('en-IN')}; ₹${amount.toLocaleString('en-IN')} buys ${units} whole units worth ₹${allocatedAmount.toLocaleString('en-IN')}`
+              : `Minimum investment for this property is ₹${minimum.toLocaleString('en-IN')}`
+          };
+        }
+        if (allocatedAmount > maxInvestmentAmount) {
+          return { success: false, message: `Maximum investment is ₹${maxInvestmentAmount.toLocaleString('en-IN')}` };
+        }
+
+        const reservedUnits = await this.getReservedUnits(propertyId, tx);
+        const availableUnits = property.totalUnits - reservedUnits;
+        if (units > availableUnits) {
+          return {
+            success: false,
+            status: 409,
+            message: availableUnits > 0
+              ? `Only ${availableUnits} units (₹${Math.floor(availableUnits * unitPrice).toLocaleString('en-IN')}) remain available`
+              : "This property is fully funded"
+          };
+        }
+
+        const [investment] = await tx.insert(investments)
+          .values({
+            userId,
+            propertyId,
+            units,
+            amount: allocatedAmount,
+            unitPrice: unitPrice.toFixed(2),
+            status: "pending"
+          })
+          .returning();
+
+        return { success: true, message: "Units reserved pending payment", investment };
+      });
+    } catch (error) {
+      console.error("Create investment error:", error);
+      return { success: false, status: 500, message: "Failed to create investment" };
+    }
+  }
+
+  // Confirm a pending investment after its payment is captured
+  async confirmInvestment(investmentId: string): Promise<Investment | undefined> {
+    const [investment] = await db.update(investments)
+      .set({ status: "confirmed", confirmedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(investments.id, investmentId), eq(investments.status, "pending")))
+      .returning();
+
+    if (investment) {
+      await this.recalculateFundingProgress(investment.propertyId);
+    }
+    return investment;
+  }
+
+  // Cancel an investment and release its units (failed or refunded payment)
+  async cancelInvestment(investmentId: string): Promise<Investment | undefined> {
+    const [investment] = await db.update(investments)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(investments.id, investmentId), inArray(investments.status, RESERVED_STATUSES)))
+      .returning();
+
+    if (investment) {
+      await this.recalculateFundingProgress(investment.propertyId);
+    }
+    return investment;
+  }
+
+  // Cancel pending investments whose payment was not captured within config.app.business.investmentPaymentMinutes
+  // Orders the gateway has already authorized are left for the capture webhook
+  async expireUnpaidInvestments(): Promise<string[]> {
+    const cutoff = new Date(Date.now() - config.app.business.investmentPaymentMinutes * 60 * 1000);
+    const stale = await db.select({ id: investments.id })
+      .from(investments)
+      .where(and(
+        eq(investments.status, "pending"),
+        lt(investments.createdAt, cutoff),
+        sql`not exists (select 1 from ${payments} where ${payments.investmentId} = ${investments.id} and ${payments.status} in ('authorized', 'captured'))`
+      ));
+
+    const propertyIds = new Set<string>();
+    for (const { id } of stale) {
+      const investment = await this.cancelInvestment(id);
+      if (investment) propertyIds.add(investment.propertyId);
+    }
+    if (stale.length > 0) {
+      console.log(`⌛ Cancelled ${stale.length} unpaid investment(s) across ${propertyIds.size} property(ies)`);
+    }
+    return Array.from(propertyIds);
+  }
+
+  // List a user's investments with the property they were made against
+  async getUserInvestments(userId: string): Promise<Array<Investment & {
+    property: Pick<Property, "id" | "name" | "city" | "state" | "propertyType" | "imageUrls">;
+  }>> {
+    const rows = await db.select({
+      investment: investments,
+      property: {
+        id: properties.id,
+        name: properties.name,
+        city: properties.city,
+        state: properties.state,
+        propertyType: properties.propertyType,
+        imageUrls: properties.imageUrls
+      }
+    })
+    .from(investments)
+    .innerJoin(properties, eq(investments.propertyId, properties.id))
+    .where(eq(investments.userId, userId))
+    .orderBy(desc(investments.createdAt));
+
+    return rows.map(row => ({ ...row.investment, property: row.property }));
+  }
+
+  // Units held per investor for a property: confirmed primary units plus settled secondary market trades
+  async getPropertyHoldings(propertyId: string, executor: DbReader = db): Promise<Array<{ userId: string; units: number }>> {
+    const primary = await executor.select({
+      userId: investments.userId,
+      units: sql<number>`sum(${investments.units})::int`
+    })
+    .from(investments)
+    .where(and(
+      eq(investments.propertyId, propertyId),
+      eq(investments.status, "confirmed")
+    ))
+    .groupBy(investments.userId);
+
+    const bought = await executor.select({
+      userId: trades.buyerId,
+      units: sql<number>`sum(${trades.units})::int`
+    })
+    .from(trades)
+    .where(and(eq(trades.propertyId, propertyId), eq(trades.status, "settled")))
+    .groupBy(trades.buyerId);
+
+    const sold = await executor.select({
+      userId: trades.sellerId,
+      units: sql<number>`sum(${trades.units})::int`
+    })
+    .from(trades)
+    .where(and(eq(trades.propertyId, propertyId), eq(trades.status, "settled")))
+    .groupBy(trades.sellerId);
+
+    const holdings = new Map<string, number>();
+    primary.forEach(row => holdings.set(row.userId, (holdings.get(row.userId) || 0) + Number(row.units)));
+    bought.forEach(row => holdings.set(row.userId, (holdings.get(row.userId) || 0) + Number(row.units)));
+    sold.forEach(row => holdings.set(row.userId, (holdings.get(row.userId) || 0) - Number(row.units)));
+
+    return Array.from(holdings, ([userId, units]) => ({ userId, units }))
+      .filter(row => row.units > 0);
+  }
+
+  // Units a single investor currently holds in a property
+  async getUserUnits(userId: string, propertyId: string, executor: DbReader = db): Promise<number> {
+    const [primary] = await executor.select({
+      units: sql<number>`coalesce(sum(${investments.units}), 0)::int`
+    })
+    .from(investments)
+    .where(and(
+      eq(investments.userId, userId),
+      eq(investments.propertyId, propertyId),
+      eq(investments.status, "confirmed")
+    ));
+
+    const [traded] = await executor.select({
+      units: sql<number>`coalesce(sum(case when ${trades.buyerId} = ${userId} then ${trades.units} else -${trades.units} end), 0)::int`
+    })
+    .from(trades)
+    .where(and(
+      eq(trades.propertyId, propertyId),
+      eq(trades.status, "settled"),
+      sql`(${trades.buyerId} = ${userId} or ${trades.sellerId} = ${userId})`
+    ));
+
+    return Number(primary?.units ?? 0) + Number(traded?.units ?? 0);
+  }
+
+  // Units held by pending and confirmed investments
+  async getReservedUnits(propertyId: string, executor: DbReader = db): Promise<number> {
+    const [row] = await executor.select({
+      units: sql<number>`coalesce(sum(${investments.units}), 0)::int`
+    })
+    .from(investments)
+    .where(and(
+      eq(investments.propertyId, propertyId),
+      inArray(investments.status, RESERVED_STATUSES)
+    ));
+    return Number(row?.units ?? 0);
+  }
+
+  // Check whether any investment (in any status) references a property
+  async hasInvestments(propertyId: string): Promise<boolean> {
+    const [row] = await db.select({ id: investments.id })
+      .from(investments)
+      .where(eq(investments.propertyId, propertyId))
+      .limit(1);
+    return !!row;
+  }
+
+  // Derive fundingProgress from confirmed units instead of admin input; fully funded properties change status
+  async recalculateFundingProgress(propertyId: string, executor: DbExecutor = db): Promise<number> {
+    const [property] = await executor.select({ totalUnits: properties.totalUnits, fundingProgress: properties.fundingProgress })
+      .from(properties)
+      .where(eq(properties.id, propertyId));
+    if (!property) return 0;
+
+    const [row] = await executor.select({
+      units: sql<number>`coalesce(sum(${investments.units}), 0)::int`
+    })
+    .from(investments)
+    .where(and(
+      eq(investments.propertyId, propertyId),
+      eq(investments.status, "confirmed")
+    ));
+
+    const confirmedUnits = Number(row?.units ?? 0);
+    const fundingProgress = Math.min(100, Math.round((confirmedUnits / property.totalUnits) * 100));
+
+    await executor.update(properties)
+      .set({ fundingProgress })
+      .where(eq(properties.id, propertyId));
+
+    await propertyLifecycleService.syncFundingStatus(propertyId, confirmedUnits >= property.totalUnits, executor);
+    await alertService.onFundingProgress(propertyId, property.fundingProgress, fundingProgress);
+
+    return fundingProgress;
+  }
+}
+
+export const investmentService = new InvestmentService();
@@ -0,0 +1,203 @@
+import { db } from "../db";
+import { kycRecords, users, type KycRecord } from "@shared/schema";
+import { maskAadhaar, type KycStatus, type KycSubmission } from "@shared/kycValidation";
+import { eq, ne, and, asc, desc } from "drizzle-orm";
+import { ObjectStorageService, ObjectNotFoundError } from "../objectStorage";
+import { cryptoService } from "../security/crypto";
+import { notificationService } from "./notification";
+
+// Private object directory for KYC uploads; never served by the public /objects route
+export const KYC_OBJECT_DIR = "kyc";
+
+export const KYC_DOCUMENT_KINDS = ["pan", "aadhaar", "selfie"] as const;
+export type KycDocumentKind = typeof KYC_DOCUMENT_KINDS[number];
+
+// Record without the encrypted account number, safe to return to clients
+export type KycRecordView = Omit<KycRecord, "bankAccountNumberEncrypted">;
+
+export class KycService {
+  private objectStorageService = new ObjectStorageService();
+
+  toView(record: KycRecord): KycRecordView {
+    const { bankAccountNumberEncrypted, ...view } = record;
+    return view;
+  }
+
+  async getUserKyc(userId: string): Promise<KycRecord | undefined> {
+    const [record] = await db.select()
+      .from(kycRecords)
+      .where(eq(kycRecords.userId, userId));
+    return record;
+  }
+
+  async isApproved(userId: string): Promise<boolean> {
+    const record = await this.getUserKyc(userId);
+    return record?.status === "approved";
+  }
+
+  // Resolve an uploaded document URL to its private object path, confirming it exists
+  private async resolveDocumentPath(rawPath: string): Promise<string | null> {
+    try {
+      const objectPath = await this.objectStorageService.trySetObjectEntityAclPolicy(rawPath, { visibility: "private" });
+      return objectPath.startsWith(`/objects/${KYC_OBJECT_DIR}/`) ? objectPath : null;
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) return null;
+      throw error;
+    }
+  }
+
+  // Create or resubmit a KYC record; approved records are locked
+  async submitKyc(userId: string, submission: KycSubmission): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    record?: KycRecordView;
+  }> {
+    const existing = await this.getUserKyc(userId);
+    if (existing?.status === "approved") {
+      return { success: false, status: 409, message: "KYC is already approved" };
+    }
+
+    const [panDocumentPath, aadhaarDocumentPath, selfiePath] = await Promise.all([
+      this.resolveDocumentPath(submission.panDocumentPath),
+      this.resolveDocumentPath(submission.aadhaarDocumentPath),
+      this.resolveDocumentPath(submission.selfiePath),
+    ]);
+
+    if (!panDocumentPath || !aadhaarDocumentPath || !selfiePath) {
+      return { success: false, message: "One or more uploaded documents could not be found; please upload them again" };
+    }
+
+    const values = {
+      fullName: submission.fullName,
+      dateOfBirth: new Date(submission.dateOfBirth),
+      panNumber: submission.panNumber,
+      aadhaarMasked: maskAadhaar(submission.aadhaarNumber),
+      addressLine1: submission.addressLine1,
+      addressLine2: submission.addressLine2 || null,
+      city: submission.city,
+      state: submission.state,
+      pincode: submission.pincode,
+      bankAccountName: submission.bankAccountName,
+      bankAccountNumberEncrypted: cryptoService.encrypt(submission.bankAccountNumber),
+      bankAccountLast4: submission.bankAccountNumber.slice(-4),
+      ifscCode: submission.ifscCode,
+      panDocumentPath,
+      aadhaarDocumentPath,
+      selfiePath,
+      status: "pending",
+      rejectionReason: null,
+      reviewedBy: null,
+      reviewedAt: null,
+      submittedAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    const [record] = await db.insert(kycRecords)
+      .values({ userId, ...values })
+      .onConflictDoUpdate({ target: kycRecords.userId, set: values, where: ne(kycRecords.status, "approved") })
+      .returning();
+
+    // Approved concurrently while documents were being resolved
+    if (!record) {
+      return { success: false, status: 409, message: "KYC is already approved" };
+    }
+
+    return { success: true, message: "KYC submitted for review", record: this.toView(record) };
+  }
+
+  // Review queue with investor contact details, oldest submissions first
+  async listForReview(status?: KycStatus): Promise<Array<KycRecordView & {
+    userName: string;
+    phoneNumber: string;
+  }>> {
+    const query = db.select({
+      record: kycRecords,
+      userName: users.name,
+      phoneNumber: users.phoneNumber
+    })
+    .from(kycRecords)
+    .innerJoin(users, eq(kycRecords.userId, users.id));
+
+    const rows = status
+      ? await query.where(eq(kycRecords.status, status)).orderBy(asc(kycRecords.submittedAt))
+      : await query.orderBy(desc(kycRecords.submittedAt));
+
+    return rows.map(row => ({
+      ...this.toView(row.record),
+      userName: row.userName,
+      phoneNumber: row.phoneNumber
+    }));
+  }
+
+  async getRecord(id: string): Promise<KycRecord | undefined> {
+    const [record] = await db.select()
+      .from(kycRecords)
+      .where(eq(kycRecords.id, id));
+    return record;
+  }
+
+  // Admin-only view including the decrypted bank account number
+  async getRecordForReview(id: string): Promise<(KycRecordView & { bankAccountNumber: string }) | undefined> {
+    const record = await this.getRecord(id);
+    if (!record) return undefined;
+
+    return {
+      ...this.toView(record),
+      bankAccountNumber: cryptoService.decrypt(record.bankAccountNumberEncrypted)
+    };
+  }
+
+  getDocumentPath(record: KycRecord, kind: KycDocumentKind): string {
+    switch (kind) {
+      case "pan": return record.panDocumentPath;
+      case "aadhaar": return record.aadhaarDocumentPath;
+      case "selfie": return record.selfiePath;
+    }
+  }
+
+  // Approve or reject a pending record
+  async review(id: string, adminId: string | undefined, decision: "approve" | "reject", reason?: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    record?: KycRecordView;
+  }> {
+    const record = await this.getRecord(id);
+    if (!record) {
+      return { success: false, status: 404, message: "KYC record not found" };
+    }
+
+    if (record.status !== "pending") {
+      return { success: false, status: 409, message: `KYC record is already ${record.status}` };
+    }
+
+    const [updated] = await db.update(kycRecords)
+      .set({
+        status: decision === "approve" ? "approved" : "rejected",
+        rejectionReason: decision === "reject" ? reason : null,
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+        updatedAt: new Date()
+      })
+      .where(and(eq(kycRecords.id, id), eq(kycRecords.status, "pending")))
+      .returning();
+
+    // Another reviewer settled it between the read and the update
+    if (!updated) {
+      return { success: false, status: 409, message: "KYC record was already reviewed" };
+    }
+
+    await notificationService.notifyUser(updated.userId, "kyc_status", decision === "approve" ? "kyc_approved" : "kyc_rejected", {
+      reason: reason ?? ""
+    });
+
+    return {
+      success: true,
+      message: decision === "approve" ? "KYC approved" : "KYC rejected",
+      record: this.toView(updated)
+    };
+  }
+}
+
+export const kycService = new KycService();
@@ -0,0 +1,233 @@
+import { db } from "../db";
+import { contacts, leadActivities, users, type Contact, type User } from "@shared/schema";
+import {
+  DUPLICATE_SCORE_THRESHOLD,
+  normalizeEmail,
+  normalizeLeadTags,
+  normalizePhone,
+  type LeadDuplicate,
+  type LeadDuplicateRecord
+} from "@shared/leads";
+import { eq, inArray, or, sql } from "drizzle-orm";
+
+interface MatchKeys {
+  phone: string;
+  email: string;
+  nameTokens: Set<string>;
+}
+
+function nameTokens(name: string): Set<string> {
+  return new Set(name.toLowerCase().split(/[^a-z0-9]+/).filter(token => token.length > 1));
+}
+
+const contactKeys = (contact: Contact): MatchKeys => ({
+  phone: normalizePhone(contact.phone),
+  email: normalizeEmail(contact.email),
+  nameTokens: nameTokens(contact.name),
+});
+
+const userKeys = (user: User): MatchKeys => ({
+  phone: normalizePhone(user.phoneNumber, user.countryCode),
+  email: user.email ? normalizeEmail(user.email) : "",
+  nameTokens: nameTokens(user.name),
+});
+
+// A shared phone or email is enough on its own; a matching name raises confidence
+function scoreMatch(a: MatchKeys, b: MatchKeys): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+
+  if (a.phone && a.phone === b.phone) {
+    score += 50;
+    reasons.push("Same phone number");
+  }
+  if (a.email && a.email === b.email) {
+    score += 50;
+    reasons.push("Same email");
+  }
+
+  const shared = Array.from(a.nameTokens).filter(token => b.nameTokens.has(token)).length;
+  const union = new Set([...Array.from(a.nameTokens), ...Array.from(b.nameTokens)]).size;
+  const similarity = union === 0 ? 0 : shared / union;
+  if (similarity >= 0.5) {
+    score += Math.round(20 * similarity);
+    reasons.push(similarity === 1 ? "Same name" : "Similar name");
+  }
+
+  return { score: Math.min(100, score), reasons };
+}
+
+const contactRecord = (contact: Contact): LeadDuplicateRecord => ({
+  kind: "contact",
+  id: contact.id,
+  name: contact.name,
+  email: contact.email,
+  phone: contact.phone,
+  createdAt: contact.createdAt,
+});
+
+const userRecord = (user: User): LeadDuplicateRecord => ({
+  kind: "user",
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  phone: user.phoneNumber,
+  createdAt: user.createdAt,
+});
+
+const formatDate = (date: Date) => date.toLocaleDateString("en-IN");
+
+export class LeadDedupeService {
+
+  // Likely duplicates among leads and against registered investors, strongest first
+  async findDuplicates(): Promise<LeadDuplicate[]> {
+    const allContacts = await db.select().from(contacts).where(eq(contacts.isQuarantined, false));
+    if (allContacts.length === 0) return [];
+
+    const keys = new Map(allContacts.map(contact => [contact.id, contactKeys(contact)]));
+    const duplicates: LeadDuplicate[] = [];
+
+    // Only records sharing a phone or email are scored
+    const buckets = new Map<string, Contact[]>();
+    allContacts.forEach(contact => {
+      const { phone, email } = keys.get(contact.id)!;
+      [phone && `phone:${phone}`, email && `email:${email}`].forEach(key => {
+        if (key) buckets.set(key, [...(buckets.get(key) ?? []), contact]);
+      });
+    });
+
+    const seenPairs = new Set<string>();
+    buckets.forEach(bucket => {
+      const sorted = [...bucket].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      sorted.forEach((older, index) => {
+        sorted.slice(index + 1).forEach(newer => {
+          const pair = `${older.id}:${newer.id}`;
+          if (seenPairs.has(pair)) return;
+          seenPairs.add(pair);
+
+          const { score, reasons } = scoreMatch(keys.get(newer.id)!, keys.get(older.id)!);
+          if (score >= DUPLICATE_SCORE_THRESHOLD) {
+            duplicates.push({ lead: contactRecord(newer), match: contactRecord(older), score, reasons });
+          }
+        });
+      });
+    });
+
+    const phones = Array.from(new Set(Array.from(keys.values()).map(key => key.phone).filter(Boolean)));
+    const emails = Array.from(new Set(allContacts.flatMap(contact => [contact.email.trim().toLowerCase(), keys.get(contact.id)!.email]).filter(Boolean)));
+    const userConditions = [
+      ...(phones.length > 0 ? [inArray(users.phoneNumber, phones)] : []),
+      ...(emails.length > 0 ? [inArray(sql`lower(${users.email})`, emails)] : []),
+    ];
+    const matchedUsers = userConditions.length > 0
+      ? await db.select().from(users).where(or(...userConditions))
+      : [];
+
+    matchedUsers.forEach(user => {
+      const investor = userKeys(user);
+      allContacts.forEach(contact => {
+        if (contact.userId === user.id) return;
+        const { score, reasons } = scoreMatch(keys.get(contact.id)!, investor);
+        if (score >= DUPLICATE_SCORE_THRESHOLD) {
+          duplicates.push({ lead: contactRecord(contact), match: userRecord(user), score, reasons });
+        }
+      });
+    });
+
+    return duplicates.sort((a, b) => b.score - a.score);
+  }
+
+  // Fold a duplicate lead into another; its enquiry and timeline move across before it is deleted
+  async mergeLeads(targetId: string, sourceId: string, adminId: string | undefined): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    lead?: Contact;
+  }> {
+    if (targetId === sourceId) {
+      return { success: false, message: "A lead cannot be merged into itself" };
+    }
+
+    const rows = await db.select().from(contacts).where(inArray(contacts.id, [targetId, sourceId]));
+    const target = rows.find(row => row.id === targetId);
+    const source = rows.find(row => row.id === sourceId);
+    if (!target || !source) {
+      return { success: false, status: 404, message: "Lead not found" };
+    }
+
+    const lead = await db.transaction(async (tx) => {
+      // Dated to the original submission so the timeline stays in order
+      await tx.insert(leadActivities).values({
+        contactId: targetId,
+        type: "message",
+        body: `${source.message}\n\nInvestment amount: ${source.investmentAmount}`,
+        createdAt: source.createdAt
+      });
+
+      await tx.update(leadActivities)
+        .set({ contactId: targetId })
+        .where(eq(leadActivities.contactId, sourceId));
+
+      const [merged] = await tx.update(contacts)
+        .set({
+          stage: target.stage === "new" ? source.stage : target.stage,
+          assignedTo: target.assignedTo ?? source.assignedTo,
+          followUpAt: target.followUpAt ?? source.followUpAt,
+          propertyId: target.propertyId ?? source.propertyId,
+          userId: target.userId ?? source.userId,
+          tags: normalizeLeadTags([...target.tags, ...source.tags]),
+          updatedAt: new Date()
+        })
+        .where(eq(contacts.id, targetId))
+        .returning();
+
+      await tx.insert(leadActivities).values({
+        contactId: targetId,
+        adminId,
+        type: "merge",
+        body: `Merged duplicate lead from ${source.name} (${source.email}, ${source.phone}) submitted ${formatDate(source.createdAt)}`
+      });
+
+      await tx.delete(contacts).where(eq(contacts.id, sourceId));
+      return merged;
+    });
+
+    return { success: true, message: "Leads merged", lead };
+  }
+
+  // Mark a lead as coming from an existing investor account
+  async linkInvestor(contactId: string, userId: string, adminId: string | undefined): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    lead?: Contact;
+  }> {
+    const [contact] = await db.select().from(contacts).where(eq(contacts.id, contactId));
+    if (!contact) {
+      return { success: false, status: 404, message: "Lead not found" };
+    }
+    const [user] = await db.select().from(users).where(eq(users.id, userId));
+    if (!user) {
+      return { success: false, status: 404, message: "Investor not found" };
+    }
+
+    const lead = await db.transaction(async (tx) => {
+      const [linked] = await tx.update(contacts)
+        .set({ userId, updatedAt: new Date() })
+        .where(eq(contacts.id, contactId))
+        .returning();
+
+      await tx.insert(leadActivities).values({
+        contactId,
+        adminId,
+        type: "merge",
+        body: `Linked to registered investor ${user.name} (${user.phoneNumber})`
+      });
+      return linked;
+    });
+
+    return { success: true, message: "Lead linked to investor", lead };
+  }
+}
+
+export const leadDedupeService = new LeadDedupeService();
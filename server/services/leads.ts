@@ -0,0 +1,147 @@
+import { db } from "../db";
+import { contacts, leadActivities, adminUsers, properties, users, type Contact } from "@shared/schema";
+import { LEAD_STAGE_LABELS, type Lead, type LeadActivityEntry, type LeadStage } from "@shared/leads";
+import { eq, and, desc, asc } from "drizzle-orm";
+
+export interface LeadUpdate {
+  stage?: LeadStage;
+  assignedTo?: string | null;
+  followUpAt?: Date | null;
+  propertyId?: string | null;
+  tags?: string[];
+}
+
+export class LeadService {
+
+  // Every lead outside the spam quarantine with its assignee and property of interest, newest first
+  async listLeads(): Promise<Lead[]> {
+    const rows = await this.selectLeads()
+      .where(eq(contacts.isQuarantined, false))
+      .orderBy(desc(contacts.createdAt));
+    return rows.map(row => ({ ...row.contact, assigneeName: row.assigneeName, propertyName: row.propertyName, investorName: row.investorName }));
+  }
+
+  // A lead with its notes and pipeline history, newest first
+  async getLead(id: string): Promise<(Lead & { activities: LeadActivityEntry[] }) | undefined> {
+    const [row] = await this.selectLeads().where(eq(contacts.id, id));
+    if (!row) return undefined;
+
+    const activities = await db.select({ activity: leadActivities, adminName: adminUsers.username })
+      .from(leadActivities)
+      .leftJoin(adminUsers, eq(leadActivities.adminId, adminUsers.id))
+      .where(eq(leadActivities.contactId, id))
+      .orderBy(desc(leadActivities.createdAt));
+
+    return {
+      ...row.contact,
+      assigneeName: row.assigneeName,
+      propertyName: row.propertyName,
+      investorName: row.investorName,
+      activities: activities.map(entry => ({ ...entry.activity, adminName: entry.adminName }))
+    };
+  }
+
+  // Apply pipeline changes, recording stage moves and reassignments on the lead's timeline
+  async updateLead(id: string, adminId: string | undefined, changes: LeadUpdate): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    lead?: Contact;
+  }> {
+    const [current] = await db.select().from(contacts).where(eq(contacts.id, id));
+    if (!current) {
+      return { success: false, status: 404, message: "Lead not found" };
+    }
+
+    let assigneeName: string | null = null;
+    if (changes.assignedTo) {
+      const [assignee] = await db.select({ username: adminUsers.username })
+        .from(adminUsers)
+        .where(and(eq(adminUsers.id, changes.assignedTo), eq(adminUsers.isActive, true)));
+      if (!assignee) {
+        return { success: false, message: "Assignee not found or deactivated" };
+      }
+      assigneeName = assignee.username;
+    }
+
+    if (changes.propertyId) {
+      const [property] = await db.select({ id: properties.id })
+        .from(properties)
+        .where(eq(properties.id, changes.propertyId));
+      if (!property) {
+        return { success: false, message: "Property not found" };
+      }
+    }
+
+    const lead = await db.transaction(async (tx) => {
+      const [updated] = await tx.update(contacts)
+        .set({ ...changes, updatedAt: new Date() })
+        .where(eq(contacts.id, id))
+        .returning();
+
+      if (changes.stage && changes.stage !== current.stage) {
+        const from = LEAD_STAGE_LABELS[current.stage as LeadStage] ?? current.stage;
+        await tx.insert(leadActivities).values({
+          contactId: id,
+          adminId,
+          type: "stage_change",
+          body: `Moved from ${from} to ${LEAD_STAGE_LABELS[changes.stage]}`
+        });
+      }
+
+      if (changes.assignedTo !== undefined && changes.assignedTo !== current.assignedTo) {
+        await tx.insert(leadActivities).values({
+          contactId: id,
+          adminId,
+          type: "assignment",
+          body: assigneeName ? `Assigned to ${assigneeName}` : "Unassigned"
+        });
+      }
+
+      return updated;
+    });
+
+    return { success: true, message: "Lead updated", lead };
+  }
+
+  async addNote(id: string, adminId: string | undefined, body: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+  }> {
+    const [lead] = await db.select({ id: contacts.id }).from(contacts).where(eq(contacts.id, id));
+    if (!lead) {
+      return { success: false, status: 404, message: "Lead not found" };
+    }
+
+    await db.transaction(async (tx) => {
+      await tx.insert(leadActivities).values({ contactId: id, adminId, type: "note", body });
+      await tx.update(contacts).set({ updatedAt: new Date() }).where(eq(contacts.id, id));
+    });
+    return { success: true, message: "Note added" };
+  }
+
+  // Active admins a lead can be assigned to
+  async listAssignees(): Promise<Array<{ id: string; username: string }>> {
+    return db.select({ id: adminUsers.id, username: adminUsers.username })
+      .from(adminUsers)
+      .where(eq(adminUsers.isActive, true))
+      .orderBy(asc(adminUsers.username));
+  }
+
+  // Contacts with the assignee, property and linked investor names shown alongside them
+  private selectLeads() {
+    return db.select({
+      contact: contacts,
+      assigneeName: adminUsers.username,
+      propertyName: properties.name,
+      investorName: users.name
+    })
+      .from(contacts)
+      .leftJoin(adminUsers, eq(contacts.assignedTo, adminUsers.id))
+      .leftJoin(properties, eq(contacts.propertyId, properties.id))
+      .leftJoin(users, eq(contacts.userId, users.id));
+  }
+}
+
+export const leadService = new LeadService();
@@ -0,0 +1,156 @@
+import { db } from "../db";
+import { properties, propertyStatusHistory, users, type Property, type PropertyStatusChange } from "@shared/schema";
+import { eq, and, lt, inArray, isNotNull, desc } from "drizzle-orm";
+import { canTransition, PROPERTY_STATUS_LABELS, type PropertyStatus } from "@shared/propertyLifecycle";
+import { alertService } from "./alerts";
+import { notificationService } from "./notification";
+
+type DbWriter = Pick<typeof db, "select" | "update" | "insert">;
+
+const formatRupees = (amount: number) => `₹${amount.toLocaleString("en-IN", { maximumFractionDigits: 2 })}`;
+
+// Statuses in which the funding round is still open
+const OPEN_ROUND_STATUSES: PropertyStatus[] = ["live", "fully_funded"];
+
+export class PropertyLifecycleService {
+
+  // Move a property along its lifecycle; rejects transitions the state machine does not allow
+  async transition(propertyId: string, to: PropertyStatus, options: {
+    adminId?: string;
+    reason?: string;
+  } = {}): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    property?: Property;
+  }> {
+    let from: PropertyStatus | undefined;
+    const result = await db.transaction(async (tx) => {
+      const [property] = await tx.select()
+        .from(properties)
+        .where(eq(properties.id, propertyId))
+        .for("update");
+
+      if (!property) {
+        return { success: false, status: 404, message: "Property not found" };
+      }
+
+      from = property.status as PropertyStatus;
+      if (!canTransition(from, to)) {
+        return {
+          success: false,
+          status: 409,
+          message: `Cannot move a ${PROPERTY_STATUS_LABELS[from] ?? from} property to ${PROPERTY_STATUS_LABELS[to]}`
+        };
+      }
+
+      if (to === "live" && property.fundingDeadline && property.fundingDeadline <= new Date()) {
+        return { success: false, message: "Set a funding deadline in the future before going live" };
+      }
+
+      const updated = await this.applyTransition(property, to, tx, options);
+      return { success: true, message: `Property is now ${PROPERTY_STATUS_LABELS[to]}`, property: updated };
+    });
+
+    // Only the first opening counts as going live, not a return from fully funded
+    if (result.success && result.property && to === "live" && from === "under_review") {
+      await alertService.onPropertyLive(result.property);
+      await this.announceLaunch(result.property);
+    }
+    return result;
+  }
+
+  // Keep live/fully-funded in step with confirmed commitments
+  async syncFundingStatus(propertyId: string, isFullyFunded: boolean, executor: DbWriter = db): Promise<void> {
+    const [property] = await executor.select()
+      .from(properties)
+      .where(eq(properties.id, propertyId));
+    if (!property) return;
+
+    if (isFullyFunded && property.status === "live") {
+      await this.applyTransition(property, "fully_funded", executor, { reason: "Commitments reached the property value" });
+    } else if (!isFullyFunded && property.status === "fully_funded" &&
+               (!property.fundingDeadline || property.fundingDeadline > new Date())) {
+      await this.applyTransition(property, "live", executor, { reason: "Cancelled commitments released units" });
+    }
+  }
+
+  // Close every open round whose funding deadline has passed
+  async closeExpiredRounds(now: Date = new Date()): Promise<number> {
+    const expired = await db.select()
+      .from(properties)
+      .where(and(
+        inArray(properties.status, OPEN_ROUND_STATUSES),
+        isNotNull(properties.fundingDeadline),
+        lt(properties.fundingDeadline, now)
+      ));
+
+    for (const property of expired) {
+      await this.applyTransition(property, "closed", db, { reason: "Funding deadline passed" });
+      console.log(`⏰ Funding round closed for property ${property.id} (deadline ${property.fundingDeadline!.toISOString()})`);
+    }
+    return expired.length;
+  }
+
+  // Whether a property currently accepts new primary investments
+  isOpenForInvestment(property: Pick<Property, "status" | "fundingDeadline">): boolean {
+    return property.status === "live" && (!property.fundingDeadline || property.fundingDeadline > new Date());
+  }
+
+  async getHistory(propertyId: string): Promise<PropertyStatusChange[]> {
+    return await db.select()
+      .from(propertyStatusHistory)
+      .where(eq(propertyStatusHistory.propertyId, propertyId))
+      .orderBy(desc(propertyStatusHistory.createdAt));
+  }
+
+  // Record the initial status of a newly created property
+  async recordInitialStatus(property: Pick<Property, "id" | "status">, adminId?: string): Promise<void> {
+    await db.insert(propertyStatusHistory).values({
+      propertyId: property.id,
+      fromStatus: null,
+      toStatus: property.status,
+      changedBy: adminId
+    });
+  }
+
+  private async applyTransition(property: Property, to: PropertyStatus, executor: DbWriter, options: {
+    adminId?: string;
+    reason?: string;
+  }): Promise<Property> {
+    // Guard on the current status so concurrent automatic transitions apply once
+    const [updated] = await executor.update(properties)
+      .set({ status: to, statusChangedAt: new Date() })
+      .where(and(eq(properties.id, property.id), eq(properties.status, property.status)))
+      .returning();
+
+    if (!updated) return property;
+
+    await executor.insert(propertyStatusHistory).values({
+      propertyId: property.id,
+      fromStatus: property.status,
+      toStatus: to,
+      reason: options.reason,
+      changedBy: options.adminId
+    });
+
+    return updated;
+  }
+
+  // Every active investor hears about a launch on the channels they chose for property launches
+  private async announceLaunch(property: Property): Promise<void> {
+    const investors = await db.select({ id: users.id })
+      .from(users)
+      .where(eq(users.isActive, true));
+
+    for (const investor of investors) {
+      await notificationService.notifyUser(investor.id, "property_launches", "property_launched", {
+        propertyName: property.name,
+        city: property.city,
+        minInvestment: formatRupees(property.minInvestment)
+      }, { propertyId: property.id });
+    }
+  }
+}
+
+export const propertyLifecycleService = new PropertyLifecycleService();
@@ -0,0 +1,384 @@
+import { db } from "../db";
+import { marketOrders, trades, properties, type MarketOrder, type Trade } from "@shared/schema";
+import { eq, and, ne, gte, lt, lte, asc, desc, inArray, sql } from "drizzle-orm";
+import { investmentService, type DbReader } from "./investment";
+import { alertService } from "./alerts";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+export type OrderSide = "buy" | "sell";
+
+// Orders that still rest on the book
+const OPEN_STATUSES = ["open", "partially_filled"];
+
+export interface OrderBookLevel {
+  price: number;
+  units: number;
+  orders: number;
+}
+
+export interface OrderBook {
+  propertyId: string;
+  tradingHalted: boolean;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  lastTradePrice: number | null;
+  recentTrades: Array<Pick<Trade, "id" | "units" | "price" | "createdAt">>;
+}
+
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+const toRupees = (paise: number) => paise / 100;
+
+// Aggregate resting orders into price levels
+function toLevels(orders: Array<{ price: string; remainingUnits: number }>): OrderBookLevel[] {
+  const levels = new Map<number, OrderBookLevel>();
+  orders.forEach(order => {
+    const price = parseFloat(order.price);
+    const level = levels.get(price) || { price, units: 0, orders: 0 };
+    level.units += order.remainingUnits;
+    level.orders += 1;
+    levels.set(price, level);
+  });
+  return Array.from(levels.values());
+}
+
+export class MarketService {
+
+  // Units sold in trades still waiting for the buyer's payment
+  private async getPendingSaleUnits(userId: string, propertyId: string, executor: DbReader): Promise<number> {
+    const [row] = await executor.select({
+      units: sql<number>`coalesce(sum(${trades.units}), 0)::int`
+    })
+    .from(trades)
+    .where(and(
+      eq(trades.sellerId, userId),
+      eq(trades.propertyId, propertyId),
+      eq(trades.status, "pending_settlement")
+    ));
+    return Number(row?.units ?? 0);
+  }
+
+  // Units a seller has committed to resting sell orders
+  private async getListedUnits(userId: string, propertyId: string, executor: DbReader): Promise<number> {
+    const [row] = await executor.select({
+      units: sql<number>`coalesce(sum(${marketOrders.remainingUnits}), 0)::int`
+    })
+    .from(marketOrders)
+    .where(and(
+      eq(marketOrders.userId, userId),
+      eq(marketOrders.propertyId, propertyId),
+      eq(marketOrders.side, "sell"),
+      inArray(marketOrders.status, OPEN_STATUSES)
+    ));
+    return Number(row?.units ?? 0);
+  }
+
+  // Place a limit order and match it against the book with price-time priority
+  async placeOrder(userId: string, propertyId: string, side: OrderSide, price: number, units: number): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    order?: MarketOrder;
+    trades?: Trade[];
+  }> {
+    try {
+      const result = await db.transaction(async (tx) => {
+        // Lock the property so only one order matches against its book at a time
+        const [property] = await tx.select()
+          .from(properties)
+          .where(eq(properties.id, propertyId))
+          .for("update");
+
+        if (!property) {
+          return { success: false, status: 404, message: "Property not found" };
+        }
+
+        if (property.tradingHalted) {
+          return { success: false, status: 409, message: "Trading is halted for this property" };
+        }
+
+        if (side === "sell") {
+          const held = await investmentService.getUserUnits(userId, propertyId, tx);
+          const committed = await this.getListedUnits(userId, propertyId, tx) + await this.getPendingSaleUnits(userId, propertyId, tx);
+          if (units > held - committed) {
+            return { success: false, message: `You can list at most ${Math.max(0, held - committed)} more units of this property` };
+          }
+        }
+
+        const [order] = await tx.insert(marketOrders)
+          .values({
+            propertyId,
+            userId,
+            side,
+            price: price.toFixed(2),
+            units,
+            remainingUnits: units,
+            status: "open"
+          })
+          .returning();
+
+        // Best opposite-side prices first, then oldest; never match a user against themselves
+        const counterOrders = await tx.select()
+          .from(marketOrders)
+          .where(and(
+            eq(marketOrders.propertyId, propertyId),
+            eq(marketOrders.side, side === "buy" ? "sell" : "buy"),
+            inArray(marketOrders.status, OPEN_STATUSES),
+            ne(marketOrders.userId, userId),
+            side === "buy" ? lte(marketOrders.price, price.toFixed(2)) : gte(marketOrders.price, price.toFixed(2))
+          ))
+          .orderBy(side === "buy" ? asc(marketOrders.price) : desc(marketOrders.price), asc(marketOrders.createdAt));
+
+        const feeRate = config.app.business.secondaryMarketFeeRate;
+        const executed: Trade[] = [];
+        let remaining = units;
+
+        for (const counter of counterOrders) {
+          if (remaining === 0) break;
+
+          const buyOrder = side === "buy" ? order : counter;
+          const sellOrder = side === "sell" ? order : counter;
+          const quantity = Math.min(remaining, counter.remainingUnits);
+
+          // A resting seller may have lost units since listing (e.g. a refunded investment)
+          if (side === "buy") {
+            const sellerUnits = await investmentService.getUserUnits(counter.userId, propertyId, tx)
+              - await this.getPendingSaleUnits(counter.userId, propertyId, tx);
+            if (sellerUnits < quantity) {
+              await tx.update(marketOrders)
+                .set({ status: "cancelled", updatedAt: new Date() })
+                .where(eq(marketOrders.id, counter.id));
+              continue;
+            }
+          }
+
+          // Trades execute at the resting order's price
+          const tradePricePaise = toPaise(parseFloat(counter.price));
+          const grossPaise = tradePricePaise * quantity;
+          const feePaise = Math.round((grossPaise * feeRate) / 100);
+
+          const [trade] = await tx.insert(trades)
+            .values({
+              propertyId,
+              buyOrderId: buyOrder.id,
+              sellOrderId: sellOrder.id,
+              buyerId: buyOrder.userId,
+              sellerId: sellOrder.userId,
+              units: quantity,
+              price: toRupees(tradePricePaise).toFixed(2),
+              grossAmount: toRupees(grossPaise).toFixed(2),
+              platformFee: toRupees(feePaise).toFixed(2),
+              sellerProceeds: toRupees(grossPaise - feePaise).toFixed(2),
+              status: "pending_settlement"
+            })
+            .returning();
+          executed.push(trade);
+
+          const counterRemaining = counter.remainingUnits - quantity;
+          await tx.update(marketOrders)
+            .set({
+              remainingUnits: counterRemaining,
+              status: counterRemaining === 0 ? "filled" : "partially_filled",
+              updatedAt: new Date()
+            })
+            .where(eq(marketOrders.id, counter.id));
+
+          remaining -= quantity;
+        }
+
+        const [updatedOrder] = await tx.update(marketOrders)
+          .set({
+            remainingUnits: remaining,
+            status: remaining === 0 ? "filled" : remaining < units ? "partially_filled" : "open",
+            updatedAt: new Date()
+          })
+          .where(eq(marketOrders.id, order.id))
+          .returning();
+
+        return {
+          success: true,
+          message: executed.length > 0
+            ? `Order matched ${units - remaining} of ${units} units; trades settle once the buyer pays`
+            : "Order placed on the book",
+          order: updatedOrder,
+          trades: executed
+        };
+      });
+
+      // A newly listed ask can take the price below an investor's alert; fills alert on settlement
+      if (result.order?.side === "sell" && result.order.remainingUnits > 0) {
+        await alertService.onMarketPrice(propertyId, parseFloat(result.order.price));
+      }
+      return result;
+    } catch (error) {
+      console.error("Place order error:", error);
+      return { success: false, status: 500, message: "Failed to place order" };
+    }
+  }
+
+  // Buyer's payment captured: the units change hands
+  async settleTrade(tradeId: string): Promise<{ success: boolean; message: string; trade?: Trade }> {
+    const [trade] = await db.update(trades)
+      .set({ status: "settled", settledAt: new Date() })
+      .where(and(eq(trades.id, tradeId), eq(trades.status, "pending_settlement")))
+      .returning();
+
+    if (!trade) {
+      return { success: false, message: "Trade is not awaiting settlement" };
+    }
+
+    await alertService.onMarketPrice(trade.propertyId, parseFloat(trade.price));
+    return { success: true, message: "Trade settled", trade };
+  }
+
+  // Payment failed or never arrived: drop the trade and put the units back on the seller's order
+  async cancelTrade(tradeId: string): Promise<{ success: boolean; message: string; trade?: Trade }> {
+    return await db.transaction(async (tx) => {
+      const [trade] = await tx.update(trades)
+        .set({ status: "cancelled" })
+        .where(and(eq(trades.id, tradeId), eq(trades.status, "pending_settlement")))
+        .returning();
+
+      if (!trade) {
+        return { success: false, message: "Trade is not awaiting settlement" };
+      }
+
+      // Unless the seller has since cancelled the order
+      await tx.update(marketOrders)
+        .set({
+          remainingUnits: sql`${marketOrders.remainingUnits} + ${trade.units}`,
+          status: sql`case when ${marketOrders.remainingUnits} + ${trade.units} >= ${marketOrders.units} then 'open' else 'partially_filled' end`,
+          updatedAt: new Date()
+        })
+        .where(and(eq(marketOrders.id, trade.sellOrderId), ne(marketOrders.status, "cancelled")));
+
+      return { success: true, message: "Trade cancelled", trade };
+    });
+  }
+
+  // Cancel trades whose buyer has not paid within config.app.business.tradeSettlementMinutes
+  // Returns the properties whose order books changed
+  async expireUnsettledTrades(): Promise<string[]> {
+    const cutoff = new Date(Date.now() - config.app.business.tradeSettlementMinutes * 60 * 1000);
+    const stale = await db.select({ id: trades.id })
+      .from(trades)
+      .where(and(eq(trades.status, "pending_settlement"), lt(trades.createdAt, cutoff)));
+
+    const propertyIds = new Set<string>();
+    for (const { id } of stale) {
+      const result = await this.cancelTrade(id);
+      if (result.trade) propertyIds.add(result.trade.propertyId);
+    }
+    if (propertyIds.size > 0) {
+      console.log(`⌛ Cancelled unpaid secondary market trades for ${propertyIds.size} property order book(s)`);
+    }
+    return Array.from(propertyIds);
+  }
+
+  // A trade the investor bought and still has to pay for
+  async getUnsettledPurchase(userId: string, tradeId: string): Promise<Trade | undefined> {
+    const [trade] = await db.select()
+      .from(trades)
+      .where(and(eq(trades.id, tradeId), eq(trades.buyerId, userId), eq(trades.status, "pending_settlement")));
+    return trade;
+  }
+
+  // Cancel the unfilled remainder of an investor's order
+  async cancelOrder(userId: string, orderId: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    order?: MarketOrder;
+  }> {
+    const [order] = await db.update(marketOrders)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(
+        eq(marketOrders.id, orderId),
+        eq(marketOrders.userId, userId),
+        inArray(marketOrders.status, OPEN_STATUSES)
+      ))
+      .returning();
+
+    if (!order) {
+      return { success: false, status: 404, message: "Open order not found" };
+    }
+
+    return { success: true, message: "Order cancelled", order };
+  }
+
+  async getOrderBook(propertyId: string): Promise<OrderBook | undefined> {
+    const [property] = await db.select({ id: properties.id, tradingHalted: properties.tradingHalted })
+      .from(properties)
+      .where(eq(properties.id, propertyId));
+
+    if (!property) return undefined;
+
+    const restingOrders = await db.select({
+      side: marketOrders.side,
+      price: marketOrders.price,
+      remainingUnits: marketOrders.remainingUnits
+    })
+    .from(marketOrders)
+    .where(and(
+      eq(marketOrders.propertyId, propertyId),
+      inArray(marketOrders.status, OPEN_STATUSES)
+    ));
+
+    // Only paid trades set the market price
+    const recentTrades = await db.select({
+      id: trades.id,
+      units: trades.units,
+      price: trades.price,
+      createdAt: trades.createdAt
+    })
+    .from(trades)
+    .where(and(eq(trades.propertyId, propertyId), eq(trades.status, "settled")))
+    .orderBy(desc(trades.createdAt))
+    .limit(20);
+
+    return {
+      propertyId,
+      tradingHalted: property.tradingHalted,
+      bids: toLevels(restingOrders.filter(o => o.side === "buy")).sort((a, b) => b.price - a.price),
+      asks: toLevels(restingOrders.filter(o => o.side === "sell")).sort((a, b) => a.price - b.price),
+      lastTradePrice: recentTrades.length > 0 ? parseFloat(recentTrades[0].price) : null,
+      recentTrades
+    };
+  }
+
+  async getUserOrders(userId: string, propertyId?: string): Promise<MarketOrder[]> {
+    return await db.select()
+      .from(marketOrders)
+      .where(propertyId
+        ? and(eq(marketOrders.userId, userId), eq(marketOrders.propertyId, propertyId))
+        : eq(marketOrders.userId, userId))
+      .orderBy(desc(marketOrders.createdAt));
+  }
+
+  // Trades where the investor was either side
+  async getUserTrades(userId: string, propertyId?: string): Promise<Trade[]> {
+    const participant = sql`(${trades.buyerId} = ${userId} or ${trades.sellerId} = ${userId})`;
+    return await db.select()
+      .from(trades)
+      .where(propertyId ? and(eq(trades.propertyId, propertyId), participant) : participant)
+      .orderBy(desc(trades.createdAt));
+  }
+
+  // Full trade history for a property, for admins
+  async getPropertyTrades(propertyId: string): Promise<Trade[]> {
+    return await db.select()
+      .from(trades)
+      .where(eq(trades.propertyId, propertyId))
+      .orderBy(desc(trades.createdAt));
+  }
+
+  async setTradingHalted(propertyId: string, halted: boolean): Promise<boolean> {
+    const [property] = await db.update(properties)
+      .set({ tradingHalted: halted })
+      .where(eq(properties.id, propertyId))
+      .returning({ id: properties.id });
+    return !!property;
+  }
+}
+
+export const marketService = new MarketService();
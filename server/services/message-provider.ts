@@ -0,0 +1,49 @@
+/**
+ * Email and SMS provider abstraction
+ * Providers only deliver a fully composed message; choosing recipients and content stays in NotificationService
+ */
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  sensitive?: boolean; // holds a login code or invite link; never log or store the content
+}
+
+export interface SmsMessage {
+  to: string; // E.164, e.g. +919876543210
+  body: string;
+  sensitive?: boolean;
+}
+
+export interface DeliveryResult {
+  provider: string;
+  messageId?: string;
+}
+
+// Delivery receipt reported back by a provider for a message it accepted earlier
+export interface DeliveryStatusEvent {
+  messageId: string;
+  status: "delivered" | "bounced";
+  reason?: string;
+}
+
+export interface StatusWebhookRequest {
+  rawBody?: Buffer;
+  body: any;
+  header(name: string): string | undefined;
+}
+
+export interface EmailProvider {
+  readonly name: string;
+  sendEmail(message: EmailMessage): Promise<DeliveryResult>;
+  // Returns null when the webhook is not authentic
+  parseStatusWebhook?(request: StatusWebhookRequest): DeliveryStatusEvent[] | null;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  sendSms(message: SmsMessage): Promise<DeliveryResult>;
+  parseStatusWebhook?(request: StatusWebhookRequest): DeliveryStatusEvent[] | null;
+}
@@ -0,0 +1,74 @@
+import crypto from "crypto";
+import type { PaymentGateway, CreateOrderParams, GatewayOrder, GatewayPaymentEvent } from "./payment-gateway";
+
+export type MockPaymentOutcome = "authorized" | "captured" | "failed" | "refunded";
+
+/**
+ * Deterministic in-process gateway for development and offline testing
+ * Order and payment IDs are derived from the receipt, and webhook payloads
+ * are signed the same way a real gateway would sign them
+ */
+export class MockPaymentGateway implements PaymentGateway {
+  readonly name = "mock";
+  readonly signatureHeader = "x-mock-signature";
+
+  constructor(private readonly webhookSecret: string | undefined) {}
+
+  private digest(value: string): string {
+    return crypto.createHash("sha256").update(value).digest("hex").substring(0, 14);
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<GatewayOrder> {
+    return {
+      orderId: `order_mock_${this.digest(params.receipt)}`,
+      amount: params.amount,
+      currency: params.currency,
+    };
+  }
+
+  sign(rawBody: Buffer | string): string {
+    if (!this.webhookSecret) {
+      throw new Error("MOCK_PAYMENT_WEBHOOK_SECRET is not set");
+    }
+    return crypto.createHmac("sha256", this.webhookSecret).update(rawBody).digest("hex");
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    if (!this.webhookSecret || !signature) return false;
+    const expected = Buffer.from(this.sign(rawBody));
+    const received = Buffer.from(signature);
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  // Build the signed webhook a real gateway would deliver for this outcome
+  buildWebhook(orderId: string, outcome: MockPaymentOutcome): { body: string; signature: string } {
+    const body = JSON.stringify({
+      event: `payment.${outcome}`,
+      orderId,
+      paymentId: `pay_mock_${this.digest(orderId)}`,
+      failureReason: outcome === "failed" ? "Simulated payment failure" : undefined,
+    });
+    return { body, signature: this.sign(body) };
+  }
+
+  parseWebhookEvent(payload: any): GatewayPaymentEvent | null {
+    const status = typeof payload?.event === "string" ? payload.event.replace("payment.", "") : null;
+    if (!payload?.orderId || !["authorized", "captured", "failed", "refunded"].includes(status)) {
+      return null;
+    }
+    return {
+      orderId: payload.orderId,
+      paymentId: payload.paymentId,
+      status,
+      failureReason: payload.failureReason,
+    };
+  }
+
+  async refund(paymentId: string): Promise<{ refundId: string }> {
+    return { refundId: `rfnd_mock_${this.digest(paymentId)}` };
+  }
+
+  getCheckoutOptions() {
+    return {};
+  }
+}
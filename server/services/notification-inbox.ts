@@ -0,0 +1,39 @@
+import { db } from "../db";
+import { userNotifications, type UserNotification } from "@shared/schema";
+import { and, desc, eq, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+
+export class NotificationInboxService {
+
+  async listNotifications(userId: string, limit = 50): Promise<{ notifications: UserNotification[]; unreadCount: number }> {
+    const [notifications, [{ unreadCount }]] = await Promise.all([
+      db.select()
+        .from(userNotifications)
+        .where(eq(userNotifications.userId, userId))
+        .orderBy(desc(userNotifications.createdAt))
+        .limit(limit),
+      db.select({ unreadCount: sql<number>`count(*)::int` })
+        .from(userNotifications)
+        .where(and(eq(userNotifications.userId, userId), isNull(userNotifications.readAt)))
+    ]);
+    return { notifications, unreadCount };
+  }
+
+  // Mark the given notifications read or unread, or all of them when no ids are passed
+  async setRead(userId: string, read: boolean, ids?: string[]): Promise<number> {
+    const conditions: SQL[] = [
+      eq(userNotifications.userId, userId),
+      read ? isNull(userNotifications.readAt) : isNotNull(userNotifications.readAt)
+    ];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(userNotifications.id, ids));
+    }
+    const updated = await db.update(userNotifications)
+      .set({ readAt: read ? new Date() : null })
+      .where(and(...conditions))
+      .returning({ id: userNotifications.id });
+    return updated.length;
+  }
+}
+
+export const notificationInboxService = new NotificationInboxService();
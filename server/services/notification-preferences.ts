@@ -0,0 +1,86 @@
+import { db } from "../db";
+import { userNotificationPreferences, users } from "@shared/schema";
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_TOPIC_CHANNELS,
+  isRequiredNotificationPreference,
+  type NotificationChannel,
+  type NotificationPreferences,
+  type NotificationTopic
+} from "@shared/notifications";
+import { DEFAULT_TEMPLATE_LOCALE, type TemplateLocale } from "@shared/notificationTemplates";
+import { eq, sql } from "drizzle-orm";
+
+export interface NotificationPreferenceUpdate {
+  topic: NotificationTopic;
+  channel: NotificationChannel;
+  enabled: boolean;
+}
+
+export class NotificationPreferenceService {
+
+  // Defaults overlaid with the investor's saved choices
+  async getPreferences(userId: string): Promise<NotificationPreferences> {
+    const rows = await db.select()
+      .from(userNotificationPreferences)
+      .where(eq(userNotificationPreferences.userId, userId));
+
+    const preferences = structuredClone(DEFAULT_NOTIFICATION_PREFERENCES);
+    for (const row of rows) {
+      const topic = row.topic as NotificationTopic;
+      const channel = row.channel as NotificationChannel;
+      if (preferences[topic] && NOTIFICATION_TOPIC_CHANNELS[topic].includes(channel)) {
+        preferences[topic][channel] = row.enabled;
+      }
+    }
+    return preferences;
+  }
+
+  // Save choices; required ones such as SMS login codes are rejected rather than silently kept
+  async updatePreferences(userId: string, updates: NotificationPreferenceUpdate[]): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    preferences?: NotificationPreferences;
+  }> {
+    for (const { topic, channel, enabled } of updates) {
+      if (!NOTIFICATION_TOPIC_CHANNELS[topic].includes(channel)) {
+        return { success: false, status: 400, message: `${topic} notifications are not sent by ${channel}` };
+      }
+      if (!enabled && isRequiredNotificationPreference(topic, channel)) {
+        return { success: false, status: 400, message: `${topic} notifications by ${channel} cannot be turned off` };
+      }
+    }
+
+    if (updates.length > 0) {
+      await db.insert(userNotificationPreferences)
+        .values(updates.map(update => ({ userId, ...update })))
+        .onConflictDoUpdate({
+          target: [userNotificationPreferences.userId, userNotificationPreferences.topic, userNotificationPreferences.channel],
+          set: { enabled: sql`excluded.enabled`, updatedAt: new Date() }
+        });
+    }
+
+    return { success: true, message: "Notification preferences updated", preferences: await this.getPreferences(userId) };
+  }
+
+  // Language notifications are written in
+  async getLocale(userId: string): Promise<TemplateLocale> {
+    const [user] = await db.select({ locale: users.locale }).from(users).where(eq(users.id, userId));
+    return (user?.locale ?? DEFAULT_TEMPLATE_LOCALE) as TemplateLocale;
+  }
+
+  async setLocale(userId: string, locale: TemplateLocale): Promise<void> {
+    await db.update(users)
+      .set({ locale, updatedAt: new Date() })
+      .where(eq(users.id, userId));
+  }
+
+  // Channels the investor receives a topic on
+  async enabledChannels(userId: string, topic: NotificationTopic): Promise<NotificationChannel[]> {
+    const preferences = await this.getPreferences(userId);
+    return NOTIFICATION_TOPIC_CHANNELS[topic].filter(channel => preferences[topic][channel]);
+  }
+}
+
+export const notificationPreferenceService = new NotificationPreferenceService();
@@ -0,0 +1,298 @@
+import { db } from "../db";
+import { notificationJobs, userNotifications, type NotificationJob, type NotificationJobSummary } from "@shared/schema";
+import type {
+  InAppNotificationMetadata,
+  NotificationChannel,
+  NotificationJobStatus,
+  NotificationLane
+} from "@shared/notifications";
+import { and, asc, desc, eq, getTableColumns, inArray, lt, lte, sql, type SQL } from "drizzle-orm";
+import type { EmailProvider, SmsProvider, DeliveryResult, DeliveryStatusEvent } from "./message-provider";
+import { broadcastUpdate, sendToUser } from "../realtime";
+import { cryptoService } from "../security/crypto";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+export interface NotificationJobInput {
+  channel: NotificationChannel;
+  recipient: string;
+  body: string;
+  subject?: string;
+  html?: string;
+  userId?: string | null;
+  metadata?: InAppNotificationMetadata;
+  lane?: NotificationLane;
+  // Encrypt body and html at rest; see isSensitiveTemplate
+  sensitive?: boolean;
+  // Time-limited content (login codes, invite links) is not worth delivering after this
+  expiresAt?: Date;
+}
+
+const queueConfig = config.notifications.queue;
+
+// Exponential backoff after the given number of failed attempts
+const retryDelayMs = (attempts: number) =>
+  Math.min(queueConfig.retryBaseDelayMs * 2 ** (attempts - 1), queueConfig.retryMaxDelayMs);
+
+/**
+ * Durable notification queue
+ * Jobs are written first and delivered by a polling worker, so a provider outage delays
+ * notifications instead of losing them or failing the request that produced them
+ */
+export class NotificationQueue {
+  private running: Record<NotificationLane, boolean> = { high: false, normal: false };
+  private timers: NodeJS.Timeout[] = [];
+
+  constructor(private readonly providers: { email: EmailProvider; sms: SmsProvider }) {}
+
+  // Persist a job and try it straight away; the poller picks it up again if that attempt fails
+  async enqueue(input: NotificationJobInput): Promise<NotificationJob> {
+    const lane = input.lane ?? "normal";
+    const seal = (content: string) => input.sensitive ? cryptoService.encrypt(content) : content;
+    const [job] = await db.insert(notificationJobs)
+      .values({
+        channel: input.channel,
+        lane,
+        recipient: input.recipient,
+        userId: input.userId ?? null,
+        subject: input.subject,
+        body: seal(input.body),
+        html: input.html ? seal(input.html) : input.html,
+        sensitive: input.sensitive ?? false,
+        expiresAt: input.expiresAt ?? null,
+        metadata: input.metadata ?? {},
+        maxAttempts: queueConfig.maxAttempts,
+      })
+      .returning();
+
+    setImmediate(() => this.processLane(lane));
+    return job;
+  }
+
+  // Poll both lanes; the high lane runs on its own shorter interval
+  start(): void {
+    if (this.timers.length > 0) return;
+    this.timers.push(
+      setInterval(() => this.processLane("high"), queueConfig.highPriorityPollIntervalMs),
+      setInterval(() => this.processLane("normal"), queueConfig.pollIntervalMs),
+    );
+  }
+
+  stop(): void {
+    this.timers.forEach(timer => clearInterval(timer));
+    this.timers = [];
+  }
+
+  // Work off every due job in a lane; overlapping runs of the same lane are skipped
+  async processLane(lane: NotificationLane): Promise<number> {
+    if (this.running[lane]) return 0;
+    this.running[lane] = true;
+    let processed = 0;
+    try {
+      await this.releaseStaleLocks();
+      while (true) {
+        const jobs = await this.dueJobs(lane);
+        for (const job of jobs) {
+          if (await this.claim(job.id)) {
+            await this.attempt(job);
+            processed++;
+          }
+        }
+        if (jobs.length < queueConfig.batchSize) break;
+      }
+    } catch (error) {
+      console.error(`Notification queue (${lane}) error:`, error);
+    } finally {
+      this.running[lane] = false;
+    }
+    return processed;
+  }
+
+  // Apply provider delivery receipts to the jobs they belong to
+  async recordDeliveryStatus(provider: string, events: DeliveryStatusEvent[]): Promise<number> {
+    let updated = 0;
+    for (const event of events) {
+      const rows = await db.update(notificationJobs)
+        .set(event.status === "delivered"
+          ? { status: "delivered", deliveredAt: new Date(), updatedAt: new Date() }
+          : { status: "bounced", lastError: event.reason ?? "Bounced", updatedAt: new Date() })
+        .where(and(
+          eq(notificationJobs.provider, provider),
+          eq(notificationJobs.providerMessageId, event.messageId),
+          inArray(notificationJobs.status, ["sent", "delivered"])
+        ))
+        .returning({ id: notificationJobs.id });
+      updated += rows.length;
+    }
+    return updated;
+  }
+
+  // Most recent jobs for the admin deliveries view, without body or html: message content can hold OTPs
+  async listRecent(filters: { status?: NotificationJobStatus; channel?: NotificationChannel; limit?: number } = {}): Promise<NotificationJobSummary[]> {
+    const conditions: SQL[] = [];
+    if (filters.status) conditions.push(eq(notificationJobs.status, filters.status));
+    if (filters.channel) conditions.push(eq(notificationJobs.channel, filters.channel));
+
+    const { body, html, ...summaryColumns } = getTableColumns(notificationJobs);
+    return db.select(summaryColumns)
+      .from(notificationJobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(notificationJobs.createdAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  async countByStatus(): Promise<Record<string, number>> {
+    const rows = await db.select({ status: notificationJobs.status, count: sql<number>`count(*)::int` })
+      .from(notificationJobs)
+      .groupBy(notificationJobs.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  // Give a dead-lettered or bounced job a fresh set of attempts; expired content is not resent
+  async retry(id: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+  }> {
+    const [failed] = await db.select({ expiresAt: notificationJobs.expiresAt })
+      .from(notificationJobs)
+      .where(and(eq(notificationJobs.id, id), inArray(notificationJobs.status, ["dead", "bounced"])));
+    if (!failed) {
+      return { success: false, status: 404, message: "No failed notification with that id" };
+    }
+    if (failed.expiresAt && failed.expiresAt <= new Date()) {
+      return { success: false, status: 409, message: "This notification has expired; it has to be requested again" };
+    }
+
+    const [job] = await db.update(notificationJobs)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), lastError: null, updatedAt: new Date() })
+      .where(and(eq(notificationJobs.id, id), inArray(notificationJobs.status, ["dead", "bounced"])))
+      .returning();
+    if (!job) {
+      return { success: false, status: 404, message: "No failed notification with that id" };
+    }
+
+    setImmediate(() => this.processLane(job.lane as NotificationLane));
+    return { success: true, message: "Notification queued for retry" };
+  }
+
+  private async dueJobs(lane: NotificationLane): Promise<NotificationJob[]> {
+    return db.select()
+      .from(notificationJobs)
+      .where(and(
+        eq(notificationJobs.status, "pending"),
+        eq(notificationJobs.lane, lane),
+        lte(notificationJobs.nextAttemptAt, new Date())
+      ))
+      .orderBy(asc(notificationJobs.nextAttemptAt))
+      .limit(queueConfig.batchSize);
+  }
+
+  // Claiming by conditional update keeps two workers from sending the same job
+  private async claim(id: string): Promise<boolean> {
+    const [claimed] = await db.update(notificationJobs)
+      .set({ status: "processing", lockedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(notificationJobs.id, id), eq(notificationJobs.status, "pending")))
+      .returning({ id: notificationJobs.id });
+    return Boolean(claimed);
+  }
+
+  private async releaseStaleLocks(): Promise<void> {
+    await db.update(notificationJobs)
+      .set({ status: "pending", lockedAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(notificationJobs.status, "processing"),
+        lt(notificationJobs.lockedAt, new Date(Date.now() - queueConfig.staleLockMs))
+      ));
+  }
+
+  private async attempt(job: NotificationJob): Promise<void> {
+    const attempts = job.attempts + 1;
+    if (job.expiresAt && job.expiresAt <= new Date()) {
+      await this.deadLetter(job, job.attempts, "Expired before it could be delivered");
+      return;
+    }
+    try {
+      const result = await this.deliver(job);
+      const now = new Date();
+      await db.update(notificationJobs)
+        .set({
+          status: job.channel === "in_app" ? "delivered" : "sent",
+          attempts,
+          lockedAt: null,
+          provider: result.provider,
+          providerMessageId: result.messageId,
+          lastError: null,
+          sentAt: now,
+          deliveredAt: job.channel === "in_app" ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(notificationJobs.id, job.id));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const nextAttemptAt = new Date(Date.now() + retryDelayMs(attempts));
+      // Stop once the next try would land after the content expires
+      if (attempts >= job.maxAttempts || (job.expiresAt && nextAttemptAt >= job.expiresAt)) {
+        await this.deadLetter(job, attempts, message);
+        return;
+      }
+
+      await db.update(notificationJobs)
+        .set({
+          status: "pending",
+          attempts,
+          lockedAt: null,
+          lastError: message,
+          nextAttemptAt,
+          updatedAt: new Date(),
+        })
+        .where(eq(notificationJobs.id, job.id));
+      console.warn(`Notification ${job.id} attempt ${attempts} failed, retrying: ${message}`);
+    }
+  }
+
+  private async deadLetter(job: NotificationJob, attempts: number, message: string): Promise<void> {
+    await db.update(notificationJobs)
+      .set({ status: "dead", attempts, lockedAt: null, lastError: message, updatedAt: new Date() })
+      .where(eq(notificationJobs.id, job.id));
+
+    console.error(`☠️ Notification ${job.id} (${job.channel} to ${job.recipient}) dead-lettered after ${attempts} attempts: ${message}`);
+    broadcastUpdate('NOTIFICATION_JOB_FAILED', { id: job.id });
+  }
+
+  private async deliver(job: NotificationJob): Promise<DeliveryResult> {
+    const { sensitive } = job;
+    const body = sensitive ? cryptoService.decrypt(job.body) : job.body;
+    const html = job.html && sensitive ? cryptoService.decrypt(job.html) : job.html;
+    switch (job.channel) {
+      case "email":
+        return this.providers.email.sendEmail({
+          to: job.recipient,
+          subject: job.subject ?? "",
+          text: body,
+          html: html ?? undefined,
+          sensitive,
+        });
+      case "sms":
+        return this.providers.sms.sendSms({ to: job.recipient, body, sensitive });
+      case "in_app": {
+        const metadata = (job.metadata ?? {}) as InAppNotificationMetadata;
+        const [notification] = await db.insert(userNotifications)
+          .values({
+            userId: job.recipient,
+            type: metadata.type,
+            topic: metadata.topic,
+            title: job.subject ?? "",
+            message: body,
+            propertyId: metadata.propertyId ?? null,
+            alertRuleId: metadata.alertRuleId ?? null,
+          })
+          .returning();
+        sendToUser(job.recipient, 'NOTIFICATION_CREATED', notification);
+        return { provider: "in_app", messageId: notification.id };
+      }
+      default:
+        throw new Error(`Unknown notification channel "${job.channel}"`);
+    }
+  }
+}
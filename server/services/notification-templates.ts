@@ -0,0 +1,236 @@
+import { db } from "../db";
+import { notificationTemplates, adminUsers, type NotificationTemplateVersion } from "@shared/schema";
+import {
+  DEFAULT_TEMPLATE_LOCALE,
+  GLOBAL_TEMPLATE_VARIABLES,
+  MAX_SMS_SEGMENTS,
+  NOTIFICATION_TEMPLATES,
+  NOTIFICATION_TEMPLATE_KEYS,
+  TEMPLATE_LOCALES,
+  renderTemplate,
+  smsLength,
+  templateChannels,
+  templateVariables,
+  type NotificationTemplateKey,
+  type TemplateContent,
+  type TemplateLocale
+} from "@shared/notificationTemplates";
+import type { NotificationChannel } from "@shared/notifications";
+import { and, desc, eq } from "drizzle-orm";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+export interface RenderedTemplate {
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface TemplateSummary extends TemplateContent {
+  key: NotificationTemplateKey;
+  channel: NotificationChannel;
+  locale: TemplateLocale;
+  version: number; // 0 while the built-in default is in use
+  isDefault: boolean;
+  updatedAt: Date | null;
+  updatedBy: string | null;
+}
+
+export type TemplateVersionEntry = NotificationTemplateVersion & { adminName: string | null };
+
+const cacheKey = (key: string, channel: string, locale: string) => `${key}:${channel}:${locale}`;
+
+export class NotificationTemplateService {
+  // Latest version per key/channel/locale; null records that only the built-in default exists
+  private cache = new Map<string, NotificationTemplateVersion | null>();
+
+  // Content for a locale, falling back to the default locale and then the built-in text
+  async resolve(key: NotificationTemplateKey, channel: NotificationChannel, locale: string = DEFAULT_TEMPLATE_LOCALE): Promise<TemplateContent> {
+    const defaults = NOTIFICATION_TEMPLATES[key].defaults as Partial<Record<NotificationChannel, TemplateContent>>;
+    const fallback = defaults[channel];
+    if (!fallback) {
+      throw new Error(`Template "${key}" has no ${channel} variant`);
+    }
+
+    const locales = locale === DEFAULT_TEMPLATE_LOCALE ? [locale] : [locale, DEFAULT_TEMPLATE_LOCALE];
+    for (const candidate of locales) {
+      const latest = await this.latest(key, channel, candidate);
+      if (latest) {
+        return { subject: latest.subject ?? undefined, body: latest.body, html: latest.html ?? undefined };
+      }
+    }
+    return fallback;
+  }
+
+  // Render with the caller's variables plus the app-wide ones
+  async render(key: NotificationTemplateKey, channel: NotificationChannel, locale: string | undefined, variables: Record<string, unknown>): Promise<RenderedTemplate> {
+    const content = await this.resolve(key, channel, locale);
+    const values = { ...this.globalVariables(), ...variables };
+    return {
+      subject: renderTemplate(content.subject ?? "", values),
+      text: renderTemplate(content.body, values),
+      html: content.html ? renderTemplate(content.html, values, { html: true }) : undefined,
+    };
+  }
+
+  // Every template variant with the version currently in use
+  async list(): Promise<TemplateSummary[]> {
+    const rows = await db.select({ template: notificationTemplates, adminName: adminUsers.username })
+      .from(notificationTemplates)
+      .leftJoin(adminUsers, eq(notificationTemplates.createdBy, adminUsers.id))
+      .orderBy(desc(notificationTemplates.version));
+
+    const latest = new Map<string, { template: NotificationTemplateVersion; adminName: string | null }>();
+    for (const row of rows) {
+      const id = cacheKey(row.template.key, row.template.channel, row.template.locale);
+      if (!latest.has(id)) latest.set(id, row);
+    }
+
+    return NOTIFICATION_TEMPLATE_KEYS.flatMap(key => templateChannels(key).flatMap(channel => TEMPLATE_LOCALES.map(locale => {
+      const saved = latest.get(cacheKey(key, channel, locale));
+      const defaults = (NOTIFICATION_TEMPLATES[key].defaults as Partial<Record<NotificationChannel, TemplateContent>>)[channel]!;
+      return {
+        key,
+        channel,
+        locale,
+        subject: saved ? saved.template.subject ?? undefined : defaults.subject,
+        body: saved ? saved.template.body : defaults.body,
+        html: saved ? saved.template.html ?? undefined : defaults.html,
+        version: saved?.template.version ?? 0,
+        isDefault: !saved,
+        updatedAt: saved?.template.createdAt ?? null,
+        updatedBy: saved?.adminName ?? null,
+      };
+    })));
+  }
+
+  async history(key: NotificationTemplateKey, channel: NotificationChannel, locale: TemplateLocale): Promise<TemplateVersionEntry[]> {
+    const rows = await db.select({ template: notificationTemplates, adminName: adminUsers.username })
+      .from(notificationTemplates)
+      .leftJoin(adminUsers, eq(notificationTemplates.createdBy, adminUsers.id))
+      .where(and(
+        eq(notificationTemplates.key, key),
+        eq(notificationTemplates.channel, channel),
+        eq(notificationTemplates.locale, locale)
+      ))
+      .orderBy(desc(notificationTemplates.version));
+    return rows.map(row => ({ ...row.template, adminName: row.adminName }));
+  }
+
+  // Save an edit as the next version after checking variables and SMS length
+  async save(key: NotificationTemplateKey, channel: NotificationChannel, locale: TemplateLocale, content: TemplateContent, adminId?: string, revertedFrom?: number): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    template?: NotificationTemplateVersion;
+  }> {
+    if (!templateChannels(key).includes(channel)) {
+      return { success: false, status: 404, message: `Template "${key}" has no ${channel} variant` };
+    }
+
+    const problem = this.validate(key, channel, content);
+    if (problem) {
+      return { success: false, status: 400, message: problem };
+    }
+
+    const current = await this.latest(key, channel, locale);
+    const [template] = await db.insert(notificationTemplates)
+      .values({
+        key,
+        channel,
+        locale,
+        version: (current?.version ?? 0) + 1,
+        subject: channel === "sms" ? null : content.subject,
+        body: content.body,
+        html: channel === "email" ? content.html || null : null,
+        revertedFrom,
+        createdBy: adminId,
+      })
+      .returning();
+
+    this.cache.set(cacheKey(key, channel, locale), template);
+    return { success: true, message: `Template saved as version ${template.version}`, template };
+  }
+
+  // Restore an earlier version, or the built-in default for version 0, as a new version
+  async revert(key: NotificationTemplateKey, channel: NotificationChannel, locale: TemplateLocale, version: number, adminId?: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    template?: NotificationTemplateVersion;
+  }> {
+    let content: TemplateContent | undefined;
+    if (version === 0) {
+      content = (NOTIFICATION_TEMPLATES[key].defaults as Partial<Record<NotificationChannel, TemplateContent>>)[channel];
+    } else {
+      const [previous] = await db.select()
+        .from(notificationTemplates)
+        .where(and(
+          eq(notificationTemplates.key, key),
+          eq(notificationTemplates.channel, channel),
+          eq(notificationTemplates.locale, locale),
+          eq(notificationTemplates.version, version)
+        ));
+      content = previous && { subject: previous.subject ?? undefined, body: previous.body, html: previous.html ?? undefined };
+    }
+
+    if (!content) {
+      return { success: false, status: 404, message: "Template version not found" };
+    }
+    return this.save(key, channel, locale, content, adminId, version);
+  }
+
+  // Null when the content is acceptable, otherwise what is wrong with it
+  validate(key: NotificationTemplateKey, channel: NotificationChannel, content: TemplateContent): string | null {
+    if (!content.body.trim()) return "Body is required";
+    if (channel !== "sms" && !content.subject?.trim()) {
+      return channel === "email" ? "Subject is required" : "Title is required";
+    }
+
+    // An HTML body that arrives without tags was flattened on the way in; plain text belongs in the body
+    if (channel === "email" && content.html?.trim() && !/<[a-z][^>]*>/i.test(content.html)) {
+      return "HTML body contains no HTML tags";
+    }
+
+    const definition = NOTIFICATION_TEMPLATES[key];
+    const allowed = new Set([...Object.keys(definition.variables), ...Object.keys(GLOBAL_TEMPLATE_VARIABLES)]);
+    const used = [content.subject ?? "", content.body, content.html ?? ""].flatMap(templateVariables);
+    const unknown = Array.from(new Set(used.filter(name => !allowed.has(name))));
+    if (unknown.length > 0) {
+      return `Unknown variables: ${unknown.join(", ")}`;
+    }
+
+    if (channel === "sms") {
+      const sample = renderTemplate(content.body, { ...GLOBAL_TEMPLATE_VARIABLES, ...definition.variables });
+      const length = smsLength(sample);
+      if (length.segments > MAX_SMS_SEGMENTS) {
+        return `SMS is ${length.segments} segments with sample data (${length.characters} ${length.encoding} characters); the limit is ${MAX_SMS_SEGMENTS}`;
+      }
+    }
+    return null;
+  }
+
+  private globalVariables(): Record<string, string> {
+    return { appName: config.app.name, supportEmail: config.app.supportEmail };
+  }
+
+  private async latest(key: string, channel: string, locale: string): Promise<NotificationTemplateVersion | null> {
+    const id = cacheKey(key, channel, locale);
+    if (this.cache.has(id)) return this.cache.get(id)!;
+
+    const [row] = await db.select()
+      .from(notificationTemplates)
+      .where(and(
+        eq(notificationTemplates.key, key),
+        eq(notificationTemplates.channel, channel),
+        eq(notificationTemplates.locale, locale)
+      ))
+      .orderBy(desc(notificationTemplates.version))
+      .limit(1);
+
+    this.cache.set(id, row ?? null);
+    return row ?? null;
+  }
+}
+
+export const notificationTemplateService = new NotificationTemplateService();
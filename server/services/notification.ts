@@ -1,33 +1,87 @@
+import { db } from "../db";
+import { users } from "@shared/schema";
+import { and, eq } from "drizzle-orm";
+import type { EmailProvider, SmsProvider } from "./message-provider";
+import { SendGridEmailProvider } from "./sendgrid-email-provider";
+import { SmtpEmailProvider } from "./smtp-email-provider";
+import { TwilioSmsProvider } from "./twilio-sms-provider";
+import { OutboxProvider } from "./outbox-provider";
+import { NotificationQueue } from "./notification-queue";
+import { notificationPreferenceService } from "./notification-preferences";
+import { notificationTemplateService } from "./notification-templates";
+import type { InAppNotificationMetadata, NotificationLane, NotificationTopic } from "@shared/notifications";
+import { isSensitiveTemplate, templateChannels, type NotificationTemplateKey } from "@shared/notificationTemplates";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+// Links stored with the in-app copy; type defaults to the template key
+export interface UserNotificationRefs {
+  type?: string;
+  propertyId?: string | null;
+  alertRuleId?: string | null;
+}
+
 export class NotificationService {
-  
+  private outbox = new OutboxProvider();
+  private emailProvider: EmailProvider;
+  private smsProvider: SmsProvider;
+  private queue: NotificationQueue;
+
+  constructor() {
+    this.emailProvider = this.createEmailProvider(config.email.service);
+    this.smsProvider = config.sms.provider === "twilio"
+      ? new TwilioSmsProvider(config.sms.twilio)
+      : this.outbox;
+    this.queue = new NotificationQueue({ email: this.emailProvider, sms: this.smsProvider });
+
+    if (process.env.NODE_ENV === 'production' && (this.emailProvider === this.outbox || this.smsProvider === this.outbox)) {
+      console.warn("⚠️ Notifications are captured in the outbox and will not reach recipients");
+    }
+  }
+
+  // Captured messages when the outbox provider is active
+  getOutbox(): OutboxProvider {
+    return this.outbox;
+  }
+
+  getQueue(): NotificationQueue {
+    return this.queue;
+  }
+
+  // Active provider by name, for matching delivery receipt webhooks
+  getProvider(name: string): EmailProvider | SmsProvider | undefined {
+    return [this.emailProvider, this.smsProvider].find(provider => provider.name === name);
+  }
+
   // Generate a 6-digit OTP
   generateOTP(): string {
     return Math.floor(100000 + Math.random() * 900000).toString();
   }
 
-  // Send OTP via SMS/Email (development mode with console logging)
-  async sendOTP(phoneNumber: string, email: string | undefined, otp: string): Promise<boolean> {
+  // Send OTP via SMS, and by email when one is given, on the high-priority lane; undelivered copies expire with the code
+  async sendOTP(phoneNumber: string, email: string | undefined, otp: string, expiresAt: Date): Promise<boolean> {
     try {
       // Development mode: Use fixed OTP for any phone number
-      const isDevelopment = process.env.NODE_ENV === 'development';
-      
-      if (isDevelopment) {
-        console.log(`\n🔐 DEVELOPMENT OTP: 123456`);
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`\n🔐 DEVELOPMENT OTP: ${otp}`);
         console.log(`📱 Phone: ${phoneNumber}`);
-        if (email) {
-          console.log(`📧 Email: ${email}`);
-        }
         console.log(`⏰ For testing, always use: 123456\n`);
-      } else {
-        console.log(`\n🔐 OTP Login Code: ${otp}`);
-        console.log(`📱 Phone: ${phoneNumber}`);
-        if (email) {
-          console.log(`📧 Email: ${email}`);
-        }
-        console.log(`⏰ Valid for 5 minutes\n`);
       }
-      
-      return true;
+
+      // Registered investors get the email copy only if they opted in; new sign-ups have no preferences yet
+      const [user] = await db.select({ id: users.id, email: users.email, locale: users.locale })
+        .from(users)
+        .where(eq(users.phoneNumber, phoneNumber));
+      const emailTo = user
+        ? (await notificationPreferenceService.enabledChannels(user.id, "otp")).includes("email") ? user.email ?? email : undefined
+        : email;
+
+      const variables = { otp, validMinutes: Math.round((expiresAt.getTime() - Date.now()) / 60000) };
+      const sent = await this.sendTemplatedSMS(phoneNumber, "otp", variables, user?.locale, "high", expiresAt);
+      if (emailTo) {
+        await this.sendTemplatedEmail(emailTo, "otp", variables, user?.locale, "high", expiresAt);
+      }
+      return sent;
     } catch (error) {
       console.error("Failed to send OTP:", error);
       return false;
@@ -35,11 +89,11 @@ export class NotificationService {
   }
 
   // Send welcome notification
-  async sendWelcomeNotification(phoneNumber: string, email?: string): Promise<boolean> {
+  async sendWelcomeNotification(phoneNumber: string, email?: string, name = ""): Promise<boolean> {
     try {
-      console.log(`🎉 Welcome notification sent to ${phoneNumber}`);
+      await this.sendTemplatedSMS(phoneNumber, "welcome", { name });
       if (email) {
-        console.log(`📧 Welcome email sent to ${email}`);
+        await this.sendTemplatedEmail(email, "welcome", { name });
       }
       return true;
     } catch (error) {
@@ -48,19 +102,113 @@ export class NotificationService {
     }
   }
 
-  // Send SMS notification
-  async sendSMS(phoneNumber: string, message: string): Promise<boolean> {
+  // Send an investor notification on every channel they enabled for the topic, in their language
+  // SMS and email additionally need the platform-wide feature flags
+  async notifyUser(
+    userId: string,
+    topic: NotificationTopic,
+    template: NotificationTemplateKey,
+    variables: Record<string, unknown>,
+    refs: UserNotificationRefs = {}
+  ): Promise<boolean> {
+    try {
+      const [user] = await db.select({ phoneNumber: users.phoneNumber, email: users.email, locale: users.locale })
+        .from(users)
+        .where(and(eq(users.id, userId), eq(users.isActive, true)));
+      if (!user) return false;
+
+      const available = templateChannels(template);
+      const channels = (await notificationPreferenceService.enabledChannels(userId, topic))
+        .filter(channel => available.includes(channel));
+      const { enableSMSNotifications, enableEmailNotifications } = config.app.features;
+
+      if (channels.includes("in_app")) {
+        const { subject, text } = await notificationTemplateService.render(template, "in_app", user.locale, variables);
+        await this.sendInApp(userId, subject, text, {
+          type: refs.type ?? template,
+          topic,
+          propertyId: refs.propertyId,
+          alertRuleId: refs.alertRuleId
+        });
+      }
+      if (channels.includes("sms") && enableSMSNotifications) {
+        await this.sendTemplatedSMS(user.phoneNumber, template, variables, user.locale);
+      }
+      if (channels.includes("email") && enableEmailNotifications && user.email) {
+        await this.sendTemplatedEmail(user.email, template, variables, user.locale);
+      }
+      return true;
+    } catch (error) {
+      console.error(`Failed to notify user ${userId} about ${topic}:`, error);
+      return false;
+    }
+  }
+
+  // Render a template's SMS variant and queue it
+  async sendTemplatedSMS(phoneNumber: string, template: NotificationTemplateKey, variables: Record<string, unknown>, locale?: string, lane: NotificationLane = "normal", expiresAt?: Date): Promise<boolean> {
+    try {
+      const { text } = await notificationTemplateService.render(template, "sms", locale, variables);
+      return this.sendSMS(phoneNumber, text, lane, isSensitiveTemplate(template), expiresAt);
+    } catch (error) {
+      console.error(`Failed to render ${template} SMS:`, error);
+      return false;
+    }
+  }
+
+  // Render a template's email variant and queue it
+  async sendTemplatedEmail(to: string, template: NotificationTemplateKey, variables: Record<string, unknown>, locale?: string, lane: NotificationLane = "normal", expiresAt?: Date): Promise<boolean> {
+    try {
+      const { subject, text, html } = await notificationTemplateService.render(template, "email", locale, variables);
+      return this.sendEmail(to, subject, text, html, lane, isSensitiveTemplate(template), expiresAt);
+    } catch (error) {
+      console.error(`Failed to render ${template} email:`, error);
+      return false;
+    }
+  }
+
+  // Queue an SMS for the configured provider
+  async sendSMS(phoneNumber: string, message: string, lane: NotificationLane = "normal", sensitive = false, expiresAt?: Date): Promise<boolean> {
+    try {
+      await this.queue.enqueue({ channel: "sms", recipient: phoneNumber, body: message, lane, sensitive, expiresAt });
+      return true;
+    } catch (error) {
+      console.error("Failed to queue SMS:", error);
+      return false;
+    }
+  }
+
+  // Queue an email for the configured provider
+  async sendEmail(to: string, subject: string, text: string, html?: string, lane: NotificationLane = "normal", sensitive = false, expiresAt?: Date): Promise<boolean> {
     try {
-      console.log(`📱 SMS sent to ${phoneNumber}: ${message}`);
-      
-      // In a real implementation, you would use Twilio or other SMS service
-      // For development, we just log the message
+      await this.queue.enqueue({ channel: "email", recipient: to, subject, body: text, html, lane, sensitive, expiresAt });
       return true;
     } catch (error) {
-      console.error("Failed to send SMS:", error);
+      console.error("Failed to queue email:", error);
       return false;
     }
   }
+
+  // Queue an in-app notification for an investor
+  async sendInApp(userId: string, title: string, message: string, metadata: InAppNotificationMetadata): Promise<boolean> {
+    try {
+      await this.queue.enqueue({ channel: "in_app", recipient: userId, userId, subject: title, body: message, metadata });
+      return true;
+    } catch (error) {
+      console.error("Failed to queue in-app notification:", error);
+      return false;
+    }
+  }
+
+  private createEmailProvider(service: string): EmailProvider {
+    switch (service) {
+      case "outbox":
+        return this.outbox;
+      case "sendgrid":
+        return new SendGridEmailProvider({ ...config.integrations.sendgrid, from: config.email.from });
+      default:
+        return new SmtpEmailProvider({ ...config.email, service });
+    }
+  }
 }
 
-export const notificationService = new NotificationService();
\ No newline at end of file
+export const notificationService = new NotificationService();
@@ -0,0 +1,50 @@
+import { db } from "../db";
+import { outboxMessages, type OutboxMessage } from "@shared/schema";
+import { and, desc, eq, type SQL } from "drizzle-orm";
+import type { EmailProvider, SmsProvider, EmailMessage, SmsMessage, DeliveryResult } from "./message-provider";
+
+// Stored in place of login codes and invite links, which the outbox would otherwise expose to admins
+const REDACTED_BODY = "[Content withheld: contains a login code or invite link]";
+
+/**
+ * Stores messages in the outbox table instead of sending them
+ * Used in development and tests, where the stored messages stand in for the inbox and the phone
+ */
+export class OutboxProvider implements EmailProvider, SmsProvider {
+  readonly name = "outbox";
+
+  async sendEmail(message: EmailMessage): Promise<DeliveryResult> {
+    const [stored] = await db.insert(outboxMessages)
+      .values(message.sensitive
+        ? { channel: "email", recipient: message.to, subject: message.subject, body: REDACTED_BODY, redacted: true }
+        : { channel: "email", recipient: message.to, subject: message.subject, body: message.text, html: message.html })
+      .returning({ id: outboxMessages.id });
+    console.log(`📤 Outbox email to ${message.to}: ${message.subject}`);
+    return { provider: this.name, messageId: stored.id };
+  }
+
+  async sendSms(message: SmsMessage): Promise<DeliveryResult> {
+    const [stored] = await db.insert(outboxMessages)
+      .values({ channel: "sms", recipient: message.to, body: message.sensitive ? REDACTED_BODY : message.body, redacted: !!message.sensitive })
+      .returning({ id: outboxMessages.id });
+    console.log(`📤 Outbox SMS to ${message.to}: ${message.sensitive ? REDACTED_BODY : message.body}`);
+    return { provider: this.name, messageId: stored.id };
+  }
+
+  // Most recent captured messages, optionally for one recipient or channel
+  async list(filters: { recipient?: string; channel?: "email" | "sms"; limit?: number } = {}): Promise<OutboxMessage[]> {
+    const conditions: SQL[] = [];
+    if (filters.recipient) conditions.push(eq(outboxMessages.recipient, filters.recipient));
+    if (filters.channel) conditions.push(eq(outboxMessages.channel, filters.channel));
+
+    return db.select()
+      .from(outboxMessages)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(outboxMessages.createdAt))
+      .limit(filters.limit ?? 100);
+  }
+
+  async clear(): Promise<void> {
+    await db.delete(outboxMessages);
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Payment gateway abstraction
+ * Gateways create orders and translate signed webhooks into payment state changes
+ */
+
+declare global {
+  namespace Express {
+    interface Request {
+      rawBody?: Buffer;
+    }
+  }
+}
+
+export const PAYMENT_STATUSES = ['created', 'authorized', 'captured', 'failed', 'refunded'] as const;
+export type PaymentStatus = typeof PAYMENT_STATUSES[number];
+
+export interface CreateOrderParams {
+  amount: number; // in rupees
+  currency: string;
+  receipt: string;
+  notes?: Record<string, string>;
+}
+
+export interface GatewayOrder {
+  orderId: string;
+  amount: number; // in rupees
+  currency: string;
+}
+
+export interface GatewayPaymentEvent {
+  orderId: string;
+  paymentId?: string;
+  status: PaymentStatus;
+  failureReason?: string;
+}
+
+export interface PaymentGateway {
+  readonly name: string;
+
+  // Header carrying the webhook signature for this gateway
+  readonly signatureHeader: string;
+
+  createOrder(params: CreateOrderParams): Promise<GatewayOrder>;
+
+  // Verify the webhook signature against the unmodified request body
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean;
+
+  // Map a webhook payload to a payment state change; null for events we ignore
+  parseWebhookEvent(payload: any): GatewayPaymentEvent | null;
+
+  refund(paymentId: string, amount: number): Promise<{ refundId: string }>;
+
+  // Public details the client needs to open the gateway checkout
+  getCheckoutOptions(): Record<string, string | undefined>;
+}
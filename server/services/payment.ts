@@ -0,0 +1,224 @@
+import { db } from "../db";
+import { payments, type Investment, type Payment, type Trade } from "@shared/schema";
+import { eq, and, inArray } from "drizzle-orm";
+import { investmentService } from "./investment";
+import { marketService } from "./market";
+import { RazorpayGateway } from "./razorpay-gateway";
+import { MockPaymentGateway } from "./mock-payment-gateway";
+import type { PaymentGateway, PaymentStatus, GatewayPaymentEvent } from "./payment-gateway";
+// @ts-ignore
+import config from '../../config/app.config.js';
+
+// Allowed payment state transitions; failed and refunded are terminal
+const PAYMENT_TRANSITIONS: Record<PaymentStatus, PaymentStatus[]> = {
+  created: ["authorized", "captured", "failed"],
+  authorized: ["captured", "failed"],
+  captured: ["refunded"],
+  failed: [],
+  refunded: [],
+};
+
+export class PaymentService {
+  private readonly gateways: Record<string, PaymentGateway>;
+
+  constructor() {
+    this.gateways = {
+      razorpay: new RazorpayGateway(config.payments.razorpay),
+      mock: new MockPaymentGateway(config.payments.mock.webhookSecret),
+    };
+  }
+
+  // Razorpay when payment integration is enabled, otherwise the offline mock
+  getActiveGateway(): PaymentGateway {
+    return config.app.features.enablePaymentIntegration ? this.gateways.razorpay : this.gateways.mock;
+  }
+
+  getGateway(name: string): PaymentGateway | undefined {
+    return this.gateways[name];
+  }
+
+  getMockGateway(): MockPaymentGateway {
+    return this.gateways.mock as MockPaymentGateway;
+  }
+
+  canTransition(from: PaymentStatus, to: PaymentStatus): boolean {
+    return PAYMENT_TRANSITIONS[from]?.includes(to) ?? false;
+  }
+
+  // Open a gateway order for a pending investment
+  async createPaymentForInvestment(investment: Investment): Promise<{
+    success: boolean;
+    message: string;
+    payment?: Payment;
+    checkout?: Record<string, string | undefined>;
+  }> {
+    const gateway = this.getActiveGateway();
+
+    try {
+      const order = await gateway.createOrder({
+        amount: investment.amount,
+        currency: config.payments.currency,
+        receipt: investment.id,
+        notes: { investmentId: investment.id, propertyId: investment.propertyId },
+      });
+
+      const [payment] = await db.insert(payments)
+        .values({
+          investmentId: investment.id,
+          userId: investment.userId,
+          gateway: gateway.name,
+          gatewayOrderId: order.orderId,
+          amount: order.amount.toFixed(2),
+          currency: order.currency,
+          status: "created"
+        })
+        .returning();
+
+      return {
+        success: true,
+        message: "Payment order created",
+        payment,
+        checkout: this.checkoutOptions(gateway, payment)
+      };
+    } catch (error) {
+      console.error("Create payment order error:", error);
+      // Release the reserved units; the investor can retry with a fresh order
+      await investmentService.cancelInvestment(investment.id);
+      return { success: false, message: "Failed to create payment order" };
+    }
+  }
+
+  // Payment for a matched secondary market purchase; reuses the trade's open order if the buyer retries
+  async createPaymentForTrade(trade: Trade): Promise<{
+    success: boolean;
+    message: string;
+    payment?: Payment;
+    checkout?: Record<string, string | undefined>;
+  }> {
+    const [open] = await db.select()
+      .from(payments)
+      .where(and(eq(payments.tradeId, trade.id), inArray(payments.status, ["created", "authorized"])));
+    if (open) {
+      const gateway = this.getGateway(open.gateway);
+      if (gateway) {
+        return { success: true, message: "Payment order already open", payment: open, checkout: this.checkoutOptions(gateway, open) };
+      }
+    }
+
+    const gateway = this.getActiveGateway();
+    try {
+      const order = await gateway.createOrder({
+        amount: parseFloat(trade.grossAmount),
+        currency: config.payments.currency,
+        receipt: trade.id,
+        notes: { tradeId: trade.id, propertyId: trade.propertyId },
+      });
+
+      const [payment] = await db.insert(payments)
+        .values({
+          tradeId: trade.id,
+          userId: trade.buyerId,
+          gateway: gateway.name,
+          gatewayOrderId: order.orderId,
+          amount: order.amount.toFixed(2),
+          currency: order.currency,
+          status: "created"
+        })
+        .returning();
+
+      return { success: true, message: "Payment order created", payment, checkout: this.checkoutOptions(gateway, payment) };
+    } catch (error) {
+      console.error("Create trade payment order error:", error);
+      // Give the units back to the seller rather than leave the trade waiting on a payment that cannot start
+      await marketService.cancelTrade(trade.id);
+      return { success: false, message: "Failed to create payment order" };
+    }
+  }
+
+  private checkoutOptions(gateway: PaymentGateway, payment: Payment): Record<string, string | undefined> {
+    return { gateway: gateway.name, orderId: payment.gatewayOrderId, ...gateway.getCheckoutOptions() };
+  }
+
+  // Verify and apply a gateway webhook
+  async handleWebhook(gatewayName: string, rawBody: Buffer | undefined, signature: string | undefined, payload: any): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+  }> {
+    const gateway = this.getGateway(gatewayName);
+    if (!gateway) {
+      return { success: false, status: 404, message: "Unknown payment gateway" };
+    }
+
+    if (!rawBody || !signature || !gateway.verifyWebhookSignature(rawBody, signature)) {
+      console.warn(`Rejected ${gatewayName} webhook with invalid signature`);
+      return { success: false, status: 401, message: "Invalid webhook signature" };
+    }
+
+    const event = gateway.parseWebhookEvent(payload);
+    if (!event) {
+      return { success: true, message: "Event ignored" };
+    }
+
+    return this.applyEvent(gateway.name, event);
+  }
+
+  // Move a payment to the event's state and settle the linked investment
+  async applyEvent(gatewayName: string, event: GatewayPaymentEvent): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+  }> {
+    const [payment] = await db.select()
+      .from(payments)
+      .where(and(eq(payments.gateway, gatewayName), eq(payments.gatewayOrderId, event.orderId)));
+
+    if (!payment) {
+      return { success: false, status: 404, message: "Payment not found" };
+    }
+
+    const currentStatus = payment.status as PaymentStatus;
+    if (currentStatus === event.status) {
+      return { success: true, message: "Event already applied" };
+    }
+
+    if (!this.canTransition(currentStatus, event.status)) {
+      console.warn(`Ignoring ${gatewayName} payment ${payment.id} transition ${currentStatus} -> ${event.status}; requires manual reconciliation`);
+      return { success: true, message: `Transition from ${currentStatus} to ${event.status} not allowed` };
+    }
+
+    await db.update(payments)
+      .set({
+        status: event.status,
+        gatewayPaymentId: event.paymentId ?? payment.gatewayPaymentId,
+        failureReason: event.status === "failed" ? event.failureReason ?? null : payment.failureReason,
+        capturedAt: event.status === "captured" ? new Date() : payment.capturedAt,
+        updatedAt: new Date()
+      })
+      .where(eq(payments.id, payment.id));
+
+    if (payment.tradeId) {
+      if (event.status === "captured") {
+        const settled = await marketService.settleTrade(payment.tradeId);
+        if (!settled.success) {
+          console.warn(`Payment ${payment.id} captured for trade ${payment.tradeId} that is no longer pending; requires refund`);
+        }
+      } else if (event.status === "failed" || event.status === "refunded") {
+        await marketService.cancelTrade(payment.tradeId);
+      }
+    } else if (payment.investmentId) {
+      if (event.status === "captured") {
+        const confirmed = await investmentService.confirmInvestment(payment.investmentId);
+        if (!confirmed) {
+          console.warn(`Payment ${payment.id} captured for investment ${payment.investmentId} that is no longer pending; requires refund`);
+        }
+      } else if (event.status === "failed" || event.status === "refunded") {
+        await investmentService.cancelInvestment(payment.investmentId);
+      }
+    }
+
+    return { success: true, message: `Payment ${event.status}` };
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,205 @@
+import { db } from "../db";
+import { investments, distributionLedger, properties, trades } from "@shared/schema";
+import { eq, and, or } from "drizzle-orm";
+import { xirr, type CashFlow } from "@shared/finance";
+import { investmentService } from "./investment";
+import { valuationService } from "./valuation";
+
+export interface PortfolioHolding {
+  propertyId: string;
+  propertyName: string;
+  city: string;
+  propertyType: string;
+  units: number;
+  ownershipPercent: number;
+  investedAmount: number;
+  currentValue: number;
+  distributionsReceived: number;
+  saleProceeds: number; // secondary market sales, net of platform fees
+  absoluteReturn: number; // percentage
+  xirr: number | null; // annualised percentage
+}
+
+export interface AllocationSlice {
+  name: string;
+  value: number;
+}
+
+export interface Portfolio {
+  summary: {
+    investedAmount: number;
+    currentValue: number;
+    distributionsReceived: number;
+    saleProceeds: number;
+    absoluteReturn: number;
+    xirr: number | null;
+    propertyCount: number;
+  };
+  holdings: PortfolioHolding[];
+  allocation: {
+    byCity: AllocationSlice[];
+    byPropertyType: AllocationSlice[];
+  };
+}
+
+const roundTo = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+// Gain including distributions and sale proceeds, as a percentage of the amount invested
+const absoluteReturn = (invested: number, current: number, received: number) =>
+  invested > 0 ? roundTo(((current + received - invested) / invested) * 100, 2) : 0;
+
+const toPercent = (rate: number | null) => rate === null ? null : roundTo(rate * 100, 2);
+
+function groupAllocation(holdings: PortfolioHolding[], key: (holding: PortfolioHolding) => string): AllocationSlice[] {
+  const totals = new Map<string, number>();
+  holdings.forEach(holding => {
+    totals.set(key(holding), (totals.get(key(holding)) || 0) + holding.currentValue);
+  });
+  return Array.from(totals, ([name, value]) => ({ name, value: roundTo(value, 2) }))
+    .filter(slice => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+}
+
+const propertyFields = {
+  id: properties.id,
+  name: properties.name,
+  city: properties.city,
+  propertyType: properties.propertyType,
+  totalValue: properties.totalValue,
+  totalUnits: properties.totalUnits,
+};
+
+export class PortfolioService {
+
+  // Holdings, valuation and returns built from confirmed investments, settled trades and paid distributions
+  async getPortfolio(userId: string, asOf: Date = new Date()): Promise<Portfolio> {
+    const investmentRows = await db.select({
+      amount: investments.amount,
+      units: investments.units,
+      confirmedAt: investments.confirmedAt,
+      createdAt: investments.createdAt,
+      property: propertyFields
+    })
+    .from(investments)
+    .innerJoin(properties, eq(investments.propertyId, properties.id))
+    .where(and(eq(investments.userId, userId), eq(investments.status, "confirmed")));
+
+    const tradeRows = await db.select({
+      trade: trades,
+      property: propertyFields
+    })
+    .from(trades)
+    .innerJoin(properties, eq(trades.propertyId, properties.id))
+    .where(and(eq(trades.status, "settled"), or(eq(trades.buyerId, userId), eq(trades.sellerId, userId))));
+
+    const payoutRows = await db.select({
+      propertyId: distributionLedger.propertyId,
+      netAmount: distributionLedger.netAmount,
+      createdAt: distributionLedger.createdAt,
+    })
+    .from(distributionLedger)
+    .where(eq(distributionLedger.userId, userId));
+
+    const cashFlowsByProperty = new Map<string, CashFlow[]>();
+    const addFlow = (propertyId: string, flow: CashFlow) => {
+      cashFlowsByProperty.set(propertyId, [...(cashFlowsByProperty.get(propertyId) || []), flow]);
+    };
+
+    const holdingsByProperty = new Map<string, PortfolioHolding>();
+    const unitPrices = new Map<string, { unitPrice: number; totalUnits: number }>();
+    const getHolding = (property: typeof investmentRows[number]["property"]) => {
+      unitPrices.set(property.id, { unitPrice: investmentService.getUnitPrice(property), totalUnits: property.totalUnits });
+      const holding = holdingsByProperty.get(property.id) || {
+        propertyId: property.id,
+        propertyName: property.name,
+        city: property.city,
+        propertyType: property.propertyType,
+        units: 0,
+        ownershipPercent: 0,
+        investedAmount: 0,
+        currentValue: 0,
+        distributionsReceived: 0,
+        saleProceeds: 0,
+        absoluteReturn: 0,
+        xirr: null,
+      };
+      holdingsByProperty.set(property.id, holding);
+      return holding;
+    };
+
+    investmentRows.forEach(row => {
+      const holding = getHolding(row.property);
+      holding.units += row.units;
+      holding.investedAmount += row.amount;
+      addFlow(row.property.id, { amount: -row.amount, date: row.confirmedAt ?? row.createdAt });
+    });
+
+    // Secondary purchases count as invested capital; sales are realised proceeds net of fees
+    tradeRows.forEach(({ trade, property }) => {
+      const holding = getHolding(property);
+      if (trade.buyerId === userId) {
+        const cost = parseFloat(trade.grossAmount);
+        holding.units += trade.units;
+        holding.investedAmount = roundTo(holding.investedAmount + cost, 2);
+        addFlow(property.id, { amount: -cost, date: trade.createdAt });
+      } else {
+        const proceeds = parseFloat(trade.sellerProceeds);
+        holding.units -= trade.units;
+        holding.saleProceeds = roundTo(holding.saleProceeds + proceeds, 2);
+        addFlow(property.id, { amount: proceeds, date: trade.createdAt });
+      }
+    });
+
+    payoutRows.forEach(row => {
+      const holding = holdingsByProperty.get(row.propertyId);
+      // Payouts for fully cancelled positions cannot be valued; skip them
+      if (!holding) return;
+
+      const amount = parseFloat(row.netAmount);
+      holding.distributionsReceived = roundTo(holding.distributionsReceived + amount, 2);
+      addFlow(row.propertyId, { amount, date: row.createdAt });
+    });
+
+    // Value holdings at the latest published NAV, falling back to the listing price
+    const navs = await valuationService.getLatestNavs(Array.from(holdingsByProperty.keys()));
+
+    const holdings = Array.from(holdingsByProperty.values()).map(holding => {
+      const { unitPrice, totalUnits } = unitPrices.get(holding.propertyId)!;
+      const currentValue = roundTo(holding.units * (navs.get(holding.propertyId) ?? unitPrice), 2);
+      // Treat the current valuation as a terminal inflow today
+      const flows = [...(cashFlowsByProperty.get(holding.propertyId) || []), { amount: currentValue, date: asOf }];
+      return {
+        ...holding,
+        currentValue,
+        ownershipPercent: roundTo((holding.units / totalUnits) * 100, 4),
+        absoluteReturn: absoluteReturn(holding.investedAmount, currentValue, holding.distributionsReceived + holding.saleProceeds),
+        xirr: toPercent(xirr(flows)),
+      };
+    }).sort((a, b) => b.currentValue - a.currentValue);
+
+    const investedAmount = roundTo(holdings.reduce((sum, h) => sum + h.investedAmount, 0), 2);
+    const currentValue = roundTo(holdings.reduce((sum, h) => sum + h.currentValue, 0), 2);
+    const distributionsReceived = roundTo(holdings.reduce((sum, h) => sum + h.distributionsReceived, 0), 2);
+    const saleProceeds = roundTo(holdings.reduce((sum, h) => sum + h.saleProceeds, 0), 2);
+    const allFlows = Array.from(cashFlowsByProperty.values()).flat();
+
+    return {
+      summary: {
+        investedAmount,
+        currentValue,
+        distributionsReceived,
+        saleProceeds,
+        absoluteReturn: absoluteReturn(investedAmount, currentValue, distributionsReceived + saleProceeds),
+        xirr: holdings.length > 0 ? toPercent(xirr([...allFlows, { amount: currentValue, date: asOf }])) : null,
+        propertyCount: holdings.filter(h => h.units > 0).length,
+      },
+      holdings,
+      allocation: {
+        byCity: groupAllocation(holdings, holding => holding.city),
+        byPropertyType: groupAllocation(holdings, holding => holding.propertyType),
+      },
+    };
+  }
+}
+
+export const portfolioService = new PortfolioService();
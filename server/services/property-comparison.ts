@@ -0,0 +1,131 @@
+import { db } from "../db";
+import { properties, type Property } from "@shared/schema";
+import { and, eq, inArray } from "drizzle-orm";
+import { PUBLIC_PROPERTY_STATUSES, PROPERTY_STATUS_LABELS, type PropertyStatus } from "@shared/propertyLifecycle";
+import {
+  CUSTOM_FIELD_TYPES,
+  FIELD_SECTIONS,
+  SECTION_CONFIG,
+  isCustomFieldVisible,
+  type CustomFieldCondition,
+  type CustomFieldType
+} from "@shared/propertyTypes";
+import {
+  MIN_COMPARE_PROPERTIES,
+  MAX_COMPARE_PROPERTIES,
+  type ComparisonDirection,
+  type ComparisonRow,
+  type PropertyComparison
+} from "@shared/propertyComparison";
+import { customFieldService } from "./custom-fields";
+
+interface CoreRow {
+  section: string;
+  key: string;
+  label: string;
+  type: CustomFieldType;
+  direction: ComparisonDirection;
+  value: (property: Property) => unknown;
+}
+
+// Core fields shown ahead of the custom fields of the same section
+const CORE_ROWS: CoreRow[] = [
+  { section: FIELD_SECTIONS.BASIC, key: "propertyType", label: "Property Type", type: CUSTOM_FIELD_TYPES.TEXT, direction: null, value: p => p.propertyType },
+  { section: FIELD_SECTIONS.BASIC, key: "status", label: "Status", type: CUSTOM_FIELD_TYPES.TEXT, direction: null, value: p => PROPERTY_STATUS_LABELS[p.status as PropertyStatus] ?? p.status },
+  { section: FIELD_SECTIONS.LOCATION, key: "location", label: "Location", type: CUSTOM_FIELD_TYPES.TEXT, direction: null, value: p => `${p.location}, ${p.city}, ${p.state}` },
+  { section: FIELD_SECTIONS.INVESTMENT, key: "totalValue", label: "Total Value", type: CUSTOM_FIELD_TYPES.CURRENCY, direction: null, value: p => p.totalValue },
+  { section: FIELD_SECTIONS.INVESTMENT, key: "minInvestment", label: "Minimum Investment", type: CUSTOM_FIELD_TYPES.CURRENCY, direction: "lower", value: p => p.minInvestment },
+  { section: FIELD_SECTIONS.INVESTMENT, key: "expectedReturn", label: "Expected Return", type: CUSTOM_FIELD_TYPES.PERCENTAGE, direction: "higher", value: p => p.expectedReturn === null ? null : Number(p.expectedReturn) },
+  { section: FIELD_SECTIONS.INVESTMENT, key: "fundingProgress", label: "Funding Progress", type: CUSTOM_FIELD_TYPES.PERCENTAGE, direction: "higher", value: p => p.fundingProgress },
+];
+
+// Indexes of the best and worst values; ties share the mark and an all-equal row marks nothing
+function rankValues(values: unknown[], direction: ComparisonDirection): Pick<ComparisonRow, "best" | "worst"> {
+  if (!direction) return { best: [], worst: [] };
+
+  const numbers = values.map(value =>
+    typeof value === "number" ? value : typeof value === "boolean" ? Number(value) : null
+  );
+  const ranked = numbers.filter((value): value is number => value !== null);
+  if (ranked.length < 2) return { best: [], worst: [] };
+
+  const max = Math.max(...ranked);
+  const min = Math.min(...ranked);
+  if (max === min) return { best: [], worst: [] };
+
+  const indexesOf = (target: number) => numbers.flatMap((value, index) => value === target ? [index] : []);
+  return direction === "higher"
+    ? { best: indexesOf(max), worst: indexesOf(min) }
+    : { best: indexesOf(min), worst: indexesOf(max) };
+}
+
+export class PropertyComparisonService {
+
+  // Align core and custom fields of public properties by section, in the order the ids were given
+  async compare(ids: string[]): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    comparison?: PropertyComparison;
+  }> {
+    const uniqueIds = Array.from(new Set(ids));
+    if (uniqueIds.length < MIN_COMPARE_PROPERTIES || uniqueIds.length > MAX_COMPARE_PROPERTIES) {
+      return {
+        success: false,
+        message: `Choose between ${MIN_COMPARE_PROPERTIES} and ${MAX_COMPARE_PROPERTIES} properties to compare`
+      };
+    }
+
+    const rows = await db.select()
+      .from(properties)
+      .where(and(
+        inArray(properties.id, uniqueIds),
+        eq(properties.isActive, true),
+        inArray(properties.status, [...PUBLIC_PROPERTY_STATUSES])
+      ));
+    const byId = new Map(rows.map(property => [property.id, property]));
+    const missing = uniqueIds.filter(id => !byId.has(id));
+    if (missing.length > 0) {
+      return { success: false, status: 404, message: `Property not found: ${missing.join(", ")}` };
+    }
+
+    const compared = uniqueIds.map(id => byId.get(id)!);
+    const definitions = await customFieldService.listDefinitions();
+
+    const sections = Object.entries(SECTION_CONFIG).map(([sectionKey, config]) => {
+      const coreRows = CORE_ROWS.filter(row => row.section === sectionKey).map(row => {
+        const values = compared.map(row.value);
+        return { key: row.key, label: row.label, type: row.type, direction: row.direction, values, ...rankValues(values, row.direction) };
+      });
+
+      const customRows = definitions
+        .filter(definition => definition.section === sectionKey)
+        .map(definition => {
+          const visibleWhen = definition.visibleWhen as CustomFieldCondition[] | null;
+          const values = compared.map(property => {
+            const customFields = (property.customFields ?? {}) as Record<string, unknown>;
+            if (!isCustomFieldVisible({ visibleWhen }, { ...customFields, propertyType: property.propertyType })) return null;
+            const value = customFields[definition.id];
+            return value === undefined || value === "" || (Array.isArray(value) && value.length === 0) ? null : value;
+          });
+          // Only yes/no fields have an obvious better end; numeric custom fields are shown unranked
+          const direction: ComparisonDirection = definition.type === CUSTOM_FIELD_TYPES.BOOLEAN ? "higher" : null;
+          return {
+            key: definition.id,
+            label: definition.displayName,
+            type: definition.type as CustomFieldType,
+            direction,
+            values,
+            ...rankValues(values, direction)
+          };
+        })
+        .filter(row => row.values.some(value => value !== null));
+
+      return { key: sectionKey, label: config.label, rows: [...coreRows, ...customRows] };
+    }).filter(section => section.rows.length > 0);
+
+    return { success: true, message: "OK", comparison: { properties: compared, sections } };
+  }
+}
+
+export const propertyComparisonService = new PropertyComparisonService();
@@ -0,0 +1,249 @@
+import { db } from "../db";
+import { properties } from "@shared/schema";
+import { and, eq, inArray, asc, desc, gt, or, sql, type SQL } from "drizzle-orm";
+import { PUBLIC_PROPERTY_STATUSES } from "@shared/propertyLifecycle";
+import { CUSTOM_FIELD_TYPES, FACET_FIELD_TYPES, RANGE_FIELD_TYPES, type CustomFieldType } from "@shared/propertyTypes";
+import type { FacetCount, FacetRange, PropertySearchFacets, PropertySearchResult, PropertySearchSort } from "@shared/propertySearch";
+import { customFieldService } from "./custom-fields";
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export interface PropertySearchParams {
+  q?: string;
+  city?: string[];
+  state?: string[];
+  propertyType?: string[];
+  status?: string[];
+  minInvestment?: NumberRange; // rupees
+  expectedReturn?: NumberRange; // percent
+  customFields?: Record<string, string[] | NumberRange>; // filterable custom field id -> values or range
+  sort: PropertySearchSort;
+  limit: number;
+  cursor?: string;
+}
+
+type SortValue = string | number;
+
+// Same expression as properties_search_idx so the GIN index is used
+const searchVector = sql`to_tsvector('english', ${properties.name} || ' ' || ${properties.description} || ' ' || ${properties.location})`;
+
+const customFieldText = (fieldId: string) => sql`${properties.customFields}->>${fieldId}`;
+
+// Values saved through the form are numbers, but older rows may hold numeric strings
+const customFieldNumber = (fieldId: string) =>
+  sql`(CASE WHEN ${customFieldText(fieldId)} ~ '^-?[0-9]+(\\.[0-9]+)?$' THEN (${customFieldText(fieldId)})::numeric END)`;
+
+const rangeConditions = (expression: SQL | typeof properties.minInvestment, range?: NumberRange): SQL[] => {
+  const conditions: SQL[] = [];
+  if (range?.min !== undefined) conditions.push(sql`${expression} >= ${range.min}`);
+  if (range?.max !== undefined) conditions.push(sql`${expression} <= ${range.max}`);
+  return conditions;
+};
+
+const encodeCursor = (value: SortValue, id: string) => Buffer.from(JSON.stringify([value, id])).toString("base64url");
+
+function decodeCursor(cursor: string): [SortValue, string] | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(decoded) && decoded.length === 2 &&
+        (typeof decoded[0] === "string" || typeof decoded[0] === "number") && typeof decoded[1] === "string") {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // fall through to the invalid cursor response
+  }
+  return null;
+}
+
+export class PropertySearchService {
+
+  // Full-text and faceted search over public properties with keyset pagination
+  async search(params: PropertySearchParams): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    result?: PropertySearchResult;
+  }> {
+    const definitions = (await customFieldService.listDefinitions()).filter(definition => definition.filterable);
+    const definitionsById = new Map(definitions.map(definition => [definition.id, definition]));
+
+    // Each filter is kept under its own key so facets can leave their own filter out
+    const filters = new Map<string, SQL>();
+    const query = params.q?.trim();
+    const tsQuery = query ? sql`websearch_to_tsquery('english', ${query})` : null;
+    if (tsQuery) filters.set("q", sql`${searchVector} @@ ${tsQuery}`);
+    if (params.city?.length) filters.set("city", inArray(properties.city, params.city));
+    if (params.state?.length) filters.set("state", inArray(properties.state, params.state));
+    if (params.propertyType?.length) filters.set("propertyType", inArray(properties.propertyType, params.propertyType));
+    if (params.status?.length) {
+      const statuses = PUBLIC_PROPERTY_STATUSES.filter(status => params.status!.includes(status));
+      filters.set("status", statuses.length > 0 ? inArray(properties.status, [...statuses]) : sql`false`);
+    }
+
+    const investmentRange = rangeConditions(properties.minInvestment, params.minInvestment);
+    if (investmentRange.length > 0) filters.set("minInvestment", and(...investmentRange)!);
+    const returnRange = rangeConditions(sql`${properties.expectedReturn}`, params.expectedReturn);
+    if (returnRange.length > 0) filters.set("expectedReturn", and(...returnRange)!);
+
+    for (const [fieldId, filter] of Object.entries(params.customFields ?? {})) {
+      const definition = definitionsById.get(fieldId);
+      if (!definition) {
+        return { success: false, status: 400, message: `"${fieldId}" is not a filterable custom field` };
+      }
+
+      if (Array.isArray(filter)) {
+        if (!FACET_FIELD_TYPES.includes(definition.type as CustomFieldType) || filter.length === 0) {
+          return { success: false, status: 400, message: `"${fieldId}" cannot be filtered by value` };
+        }
+        filters.set(`cf:${fieldId}`, definition.type === CUSTOM_FIELD_TYPES.MULTISELECT
+          ? sql`(${properties.customFields}->${fieldId}) ?| array[${sql.join(filter.map(value => sql`${value}`), sql`, `)}]::text[]`
+          : inArray(customFieldText(fieldId), filter));
+      } else {
+        const conditions = rangeConditions(customFieldNumber(fieldId), filter);
+        if (!RANGE_FIELD_TYPES.includes(definition.type as CustomFieldType) || conditions.length === 0) {
+          return { success: false, status: 400, message: `"${fieldId}" cannot be filtered by range` };
+        }
+        filters.set(`cf:${fieldId}`, and(...conditions)!);
+      }
+    }
+
+    const whereExcept = (excluded?: string) => and(
+      eq(properties.isActive, true),
+      inArray(properties.status, [...PUBLIC_PROPERTY_STATUSES]),
+      ...Array.from(filters.entries()).filter(([key]) => key !== excluded).map(([, condition]) => condition)
+    );
+
+    // Sort key plus id as a tie-breaker; relevance without a query falls back to name
+    const sort = params.sort === "relevance" && !tsQuery ? "name" : params.sort;
+    const { key, direction } = this.sortKey(sort, tsQuery);
+
+    const conditions = [whereExcept()];
+    if (params.cursor) {
+      const cursor = decodeCursor(params.cursor);
+      if (!cursor) {
+        return { success: false, status: 400, message: "Invalid cursor" };
+      }
+      const [value, id] = cursor;
+      conditions.push(or(
+        direction === "asc" ? sql`${key} > ${value}` : sql`${key} < ${value}`,
+        and(sql`${key} = ${value}`, gt(properties.id, id))
+      )!);
+    }
+
+    const rows = await db.select({ property: properties, sortValue: sql<SortValue>`${key}` })
+      .from(properties)
+      .where(and(...conditions))
+      .orderBy(direction === "asc" ? asc(key) : desc(key), asc(properties.id))
+      .limit(params.limit + 1);
+
+    const page = rows.slice(0, params.limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > params.limit && last ? encodeCursor(last.sortValue, last.property.id) : null;
+
+    const [[{ total }], facets] = await Promise.all([
+      db.select({ total: sql<number>`count(*)::int` }).from(properties).where(whereExcept()),
+      params.cursor ? Promise.resolve(null) : this.facets(whereExcept, definitions)
+    ]);
+
+    return {
+      success: true,
+      message: "OK",
+      result: { items: page.map(row => row.property), total, nextCursor, facets }
+    };
+  }
+
+  private sortKey(sort: PropertySearchSort, tsQuery: SQL | null): { key: SQL; direction: "asc" | "desc" } {
+    switch (sort) {
+      case "relevance":
+        return { key: sql`ts_rank(${searchVector}, ${tsQuery})`, direction: "desc" };
+      case "min_investment_asc":
+        return { key: sql`${properties.minInvestment}`, direction: "asc" };
+      case "min_investment_desc":
+        return { key: sql`${properties.minInvestment}`, direction: "desc" };
+      case "expected_return_desc":
+        return { key: sql`COALESCE(${properties.expectedReturn}, -1)`, direction: "desc" };
+      case "funding_progress_desc":
+        return { key: sql`${properties.fundingProgress}`, direction: "desc" };
+      case "name":
+      default:
+        return { key: sql`${properties.name}`, direction: "asc" };
+    }
+  }
+
+  private async facets(
+    whereExcept: (excluded?: string) => SQL | undefined,
+    definitions: Awaited<ReturnType<typeof customFieldService.listDefinitions>>
+  ): Promise<PropertySearchFacets> {
+    const columnFacet = async (field: "city" | "state" | "propertyType" | "status"): Promise<FacetCount[]> => {
+      const column = properties[field];
+      return await db.select({ value: sql<string>`${column}`, count: sql<number>`count(*)::int` })
+        .from(properties)
+        .where(whereExcept(field))
+        .groupBy(column)
+        .orderBy(asc(column));
+    };
+
+    const range = async (column: typeof properties.minInvestment | typeof properties.expectedReturn, filterKey: string): Promise<FacetRange> => {
+      const [row] = await db.select({
+        min: sql<string | null>`min(${column})`,
+        max: sql<string | null>`max(${column})`
+      })
+      .from(properties)
+      .where(whereExcept(filterKey));
+      return {
+        min: row?.min === null || row?.min === undefined ? null : Number(row.min),
+        max: row?.max === null || row?.max === undefined ? null : Number(row.max)
+      };
+    };
+
+    const customFieldFacet = async (fieldId: string, type: string): Promise<FacetCount[]> => {
+      const where = and(whereExcept(`cf:${fieldId}`), sql`${customFieldText(fieldId)} IS NOT NULL`);
+      if (type === CUSTOM_FIELD_TYPES.MULTISELECT) {
+        const result = await db.execute(sql`
+          SELECT option AS value, count(*)::int AS count
+          FROM ${properties}, jsonb_array_elements_text(
+            CASE WHEN jsonb_typeof(${properties.customFields}->${fieldId}) = 'array'
+              THEN ${properties.customFields}->${fieldId} ELSE '[]'::jsonb END
+          ) AS option
+          WHERE ${where}
+          GROUP BY option
+          ORDER BY option
+        `);
+        return result.rows as unknown as FacetCount[];
+      }
+
+      // Grouped by position: the field id is a bound parameter, so the expression cannot be repeated
+      return await db.select({ value: sql<string>`${customFieldText(fieldId)}`, count: sql<number>`count(*)::int` })
+        .from(properties)
+        .where(where)
+        .groupBy(sql`1`)
+        .orderBy(sql`1`);
+    };
+
+    const facetFields = definitions.filter(definition => FACET_FIELD_TYPES.includes(definition.type as CustomFieldType));
+    const [city, state, propertyType, status, minInvestment, expectedReturn, ...customFieldFacets] = await Promise.all([
+      columnFacet("city"),
+      columnFacet("state"),
+      columnFacet("propertyType"),
+      columnFacet("status"),
+      range(properties.minInvestment, "minInvestment"),
+      range(properties.expectedReturn, "expectedReturn"),
+      ...facetFields.map(definition => customFieldFacet(definition.id, definition.type))
+    ]);
+
+    return {
+      city: city as FacetCount[],
+      state: state as FacetCount[],
+      propertyType: propertyType as FacetCount[],
+      status: status as FacetCount[],
+      minInvestment: minInvestment as FacetRange,
+      expectedReturn: expectedReturn as FacetRange,
+      customFields: Object.fromEntries(facetFields.map((definition, index) => [definition.id, customFieldFacets[index] as FacetCount[]]))
+    };
+  }
+}
+
+export const propertySearchService = new PropertySearchService();
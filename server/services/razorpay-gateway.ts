@@ -0,0 +1,111 @@
+import crypto from "crypto";
+import type { PaymentGateway, CreateOrderParams, GatewayOrder, GatewayPaymentEvent } from "./payment-gateway";
+
+interface RazorpayConfig {
+  keyId?: string;
+  keySecret?: string;
+  webhookSecret?: string;
+  apiUrl: string;
+}
+
+/**
+ * Razorpay adapter using the Orders REST API
+ * Amounts are converted between rupees and paise at this boundary
+ */
+export class RazorpayGateway implements PaymentGateway {
+  readonly name = "razorpay";
+  readonly signatureHeader = "x-razorpay-signature";
+
+  constructor(private readonly config: RazorpayConfig) {}
+
+  private getAuthHeader(): string {
+    if (!this.config.keyId || !this.config.keySecret) {
+      throw new Error("Razorpay credentials are not configured");
+    }
+    const credentials = Buffer.from(`${this.config.keyId}:${this.config.keySecret}`).toString("base64");
+    return `Basic ${credentials}`;
+  }
+
+  private async request(path: string, body: unknown): Promise<any> {
+    const response = await fetch(`${this.config.apiUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Authorization": this.getAuthHeader(),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const description = data?.error?.description || response.statusText;
+      throw new Error(`Razorpay request failed: ${description}`);
+    }
+    return data;
+  }
+
+  async createOrder(params: CreateOrderParams): Promise<GatewayOrder> {
+    const order = await this.request("/orders", {
+      amount: Math.round(params.amount * 100),
+      currency: params.currency,
+      receipt: params.receipt,
+      notes: params.notes,
+      payment_capture: 1,
+    });
+
+    return {
+      orderId: order.id,
+      amount: order.amount / 100,
+      currency: order.currency,
+    };
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    if (!this.config.webhookSecret || !signature) return false;
+
+    const expected = crypto
+      .createHmac("sha256", this.config.webhookSecret)
+      .update(rawBody)
+      .digest("hex");
+
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+    return expectedBuffer.length === signatureBuffer.length &&
+      crypto.timingSafeEqual(expectedBuffer, signatureBuffer);
+  }
+
+  parseWebhookEvent(payload: any): GatewayPaymentEvent | null {
+    const entity = payload?.payload?.payment?.entity;
+
+    switch (payload?.event) {
+      case "payment.authorized":
+        return entity ? { orderId: entity.order_id, paymentId: entity.id, status: "authorized" } : null;
+      case "payment.captured":
+        return entity ? { orderId: entity.order_id, paymentId: entity.id, status: "captured" } : null;
+      case "payment.failed":
+        return entity ? {
+          orderId: entity.order_id,
+          paymentId: entity.id,
+          status: "failed",
+          failureReason: entity.error_description || entity.error_code || "Payment failed",
+        } : null;
+      case "refund.processed": {
+        const refund = payload?.payload?.refund?.entity;
+        return entity && refund ? { orderId: entity.order_id, paymentId: refund.payment_id, status: "refunded" } : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  async refund(paymentId: string, amount: number): Promise<{ refundId: string }> {
+    const refund = await this.request(`/payments/${paymentId}/refund`, {
+      amount: Math.round(amount * 100),
+    });
+    return { refundId: refund.id };
+  }
+
+  getCheckoutOptions() {
+    return { keyId: this.config.keyId };
+  }
+}
@@ -0,0 +1,92 @@
+import crypto from "crypto";
+import { MailService } from "@sendgrid/mail";
+import type { EmailProvider, EmailMessage, DeliveryResult, DeliveryStatusEvent, StatusWebhookRequest } from "./message-provider";
+
+interface SendGridConfig {
+  apiKey?: string;
+  webhookPublicKey?: string;
+  from: string;
+}
+
+// Event webhook types that settle a message; opens, clicks and deferrals are ignored
+const FINAL_EVENTS: Record<string, DeliveryStatusEvent["status"]> = {
+  delivered: "delivered",
+  bounce: "bounced",
+  dropped: "bounced",
+};
+
+// The fields read from one entry of the event webhook's JSON array
+interface SendGridEvent {
+  event: string;
+  sg_message_id: string;
+  reason?: unknown;
+}
+
+function isSendGridEvent(value: unknown): value is SendGridEvent {
+  if (typeof value !== "object" || value === null) return false;
+  const event = value as Record<string, unknown>;
+  return typeof event.event === "string" && typeof event.sg_message_id === "string";
+}
+
+/**
+ * SendGrid adapter using the v3 mail send API
+ */
+export class SendGridEmailProvider implements EmailProvider {
+  readonly name = "sendgrid";
+  private readonly client = new MailService();
+
+  constructor(private readonly config: SendGridConfig) {
+    if (config.apiKey) {
+      this.client.setApiKey(config.apiKey);
+    }
+  }
+
+  async sendEmail(message: EmailMessage): Promise<DeliveryResult> {
+    if (!this.config.apiKey) {
+      throw new Error("SendGrid API key is not configured");
+    }
+
+    const [response] = await this.client.send({
+      to: message.to,
+      from: this.config.from,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+    });
+
+    return { provider: this.name, messageId: response.headers["x-message-id"] };
+  }
+
+  // Signed event webhook: ECDSA over the timestamp header followed by the raw body
+  parseStatusWebhook(request: StatusWebhookRequest): DeliveryStatusEvent[] | null {
+    const signature = request.header("X-Twilio-Email-Event-Webhook-Signature");
+    const timestamp = request.header("X-Twilio-Email-Event-Webhook-Timestamp");
+    if (!this.config.webhookPublicKey || !signature || !timestamp || !request.rawBody) return null;
+
+    const key = crypto.createPublicKey({ key: Buffer.from(this.config.webhookPublicKey, "base64"), format: "der", type: "spki" });
+    const payload = Buffer.concat([Buffer.from(timestamp), request.rawBody]);
+    if (!crypto.verify("sha256", payload, key, Buffer.from(signature, "base64"))) {
+      return null;
+    }
+
+    // Read the events from the signed payload rather than the sanitized body
+    let body: unknown;
+    try {
+      body = JSON.parse(request.rawBody.toString("utf8"));
+    } catch {
+      return [];
+    }
+    const events: unknown[] = Array.isArray(body) ? body : [];
+    return events.flatMap(event => {
+      if (!isSendGridEvent(event)) return [];
+      const status = FINAL_EVENTS[event.event];
+      if (!status) return [];
+      // sg_message_id is the X-Message-Id returned on send followed by ".filter..." routing data
+      return [{
+        messageId: event.sg_message_id.split(".")[0],
+        status,
+        reason: typeof event.reason === "string" ? event.reason : undefined
+      }];
+    });
+  }
+}
@@ -0,0 +1,225 @@
+import net, { type Socket } from "net";
+import tls from "tls";
+import os from "os";
+import crypto from "crypto";
+import type { EmailProvider, EmailMessage, DeliveryResult } from "./message-provider";
+
+interface SmtpConfig {
+  service: string; // "smtp" or a well-known service name such as "gmail"
+  host?: string;
+  port: number | string;
+  secure: boolean; // implicit TLS; otherwise STARTTLS is used when the server offers it
+  auth: { user?: string; pass?: string };
+  from: string;
+}
+
+interface SmtpReply {
+  code: number;
+  text: string;
+}
+
+// Servers for service names commonly put in EMAIL_SERVICE
+const WELL_KNOWN_SERVICES: Record<string, { host: string; port: number; secure: boolean }> = {
+  gmail: { host: "smtp.gmail.com", port: 465, secure: true },
+  outlook: { host: "smtp-mail.outlook.com", port: 587, secure: false },
+  hotmail: { host: "smtp-mail.outlook.com", port: 587, secure: false },
+  office365: { host: "smtp.office365.com", port: 587, secure: false },
+  yahoo: { host: "smtp.mail.yahoo.com", port: 465, secure: true },
+  zoho: { host: "smtp.zoho.in", port: 465, secure: true },
+};
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// RFC 2047 encoded-word for headers that are not plain ASCII
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+
+const base64Body = (value: string) =>
+  Buffer.from(value).toString("base64").replace(/.{76}/g, "$&\r\n");
+
+// "fractOWN <no-reply@fractown.in>" -> "no-reply@fractown.in"
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+
+/**
+ * Reads SMTP replies off a socket and sends commands, one exchange at a time
+ */
+class SmtpSession {
+  private buffer = "";
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private error: Error | null = null;
+
+  constructor(private socket: Socket) {
+    this.listen(socket);
+  }
+
+  private listen(socket: Socket) {
+    socket.setEncoding("utf8");
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let end: number;
+    while ((end = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line.slice(4));
+      // "250-" continues a multi-line reply, "250 " ends it
+      if (line.charAt(3) !== "-") {
+        this.deliver({ code: Number(line.slice(0, 3)), text: this.lines.join("\n") });
+        this.lines = [];
+      }
+    }
+  }
+
+  private deliver(reply: SmtpReply) {
+    const waiter = this.waiter;
+    this.waiter = null;
+    if (waiter) waiter.resolve(reply);
+    else this.replies.push(reply);
+  }
+
+  private fail(error: Error) {
+    if (this.error) return;
+    this.error = error;
+    const waiter = this.waiter;
+    this.waiter = null;
+    waiter?.reject(error);
+  }
+
+  async expect(codes: number[]): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    const reply = queued ?? await new Promise<SmtpReply>((resolve, reject) => {
+      if (this.error) return reject(this.error);
+      this.waiter = { resolve, reject };
+    });
+    if (!codes.includes(reply.code)) {
+      throw new Error(`SMTP error ${reply.code}: ${reply.text}`);
+    }
+    return reply;
+  }
+
+  command(line: string, codes: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(codes);
+  }
+
+  // Upgrade the plain connection after the server accepted STARTTLS
+  async startTls(host: string): Promise<void> {
+    const plain = this.socket;
+    plain.removeAllListeners("data");
+    plain.removeAllListeners("error");
+    plain.removeAllListeners("close");
+    plain.setTimeout(0);
+
+    this.socket = await new Promise<Socket>((resolve, reject) => {
+      const secure = tls.connect({ socket: plain, servername: host }, () => resolve(secure));
+      secure.once("error", reject);
+    });
+    this.listen(this.socket);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+/**
+ * Minimal SMTP submission client: STARTTLS or implicit TLS, AUTH LOGIN, one recipient per message
+ */
+export class SmtpEmailProvider implements EmailProvider {
+  readonly name = "smtp";
+
+  constructor(private readonly config: SmtpConfig) {}
+
+  private resolveServer(): { host: string; port: number; secure: boolean } {
+    const known = WELL_KNOWN_SERVICES[this.config.service.toLowerCase()];
+    if (this.config.host) {
+      const port = Number(this.config.port);
+      return { host: this.config.host, port, secure: this.config.secure || port === 465 };
+    }
+    if (known) return known;
+    throw new Error(`SMTP host is not configured for email service "${this.config.service}"`);
+  }
+
+  private compose(message: EmailMessage, messageId: string): string {
+    const headers = [
+      `From: ${this.config.from}`,
+      `To: ${message.to}`,
+      `Subject: ${encodeHeader(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      `Message-ID: ${messageId}`,
+      "MIME-Version: 1.0",
+    ];
+
+    if (!message.html) {
+      return [
+        ...headers,
+        "Content-Type: text/plain; charset=utf-8",
+        "Content-Transfer-Encoding: base64",
+        "",
+        base64Body(message.text),
+      ].join("\r\n");
+    }
+
+    const boundary = `----=_fractown_${crypto.randomBytes(12).toString("hex")}`;
+    return [
+      ...headers,
+      `Content-Type: multipart/alternative; boundary="${boundary}"`,
+      "",
+      `--${boundary}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Body(message.text),
+      `--${boundary}`,
+      "Content-Type: text/html; charset=utf-8",
+      "Content-Transfer-Encoding: base64",
+      "",
+      base64Body(message.html),
+      `--${boundary}--`,
+    ].join("\r\n");
+  }
+
+  async sendEmail(message: EmailMessage): Promise<DeliveryResult> {
+    const { host, port, secure } = this.resolveServer();
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    const session = new SmtpSession(socket);
+    const sender = addressOf(this.config.from);
+    const messageId = `<${crypto.randomUUID()}@${sender.split("@")[1] ?? os.hostname()}>`;
+
+    try {
+      await session.expect([220]);
+      const greeting = await session.command(`EHLO ${os.hostname()}`, [250]);
+
+      if (!secure && /^STARTTLS/im.test(greeting.text)) {
+        await session.command("STARTTLS", [220]);
+        await session.startTls(host);
+        await session.command(`EHLO ${os.hostname()}`, [250]);
+      }
+
+      const { user, pass } = this.config.auth;
+      if (user && pass) {
+        await session.command("AUTH LOGIN", [334]);
+        await session.command(Buffer.from(user).toString("base64"), [334]);
+        await session.command(Buffer.from(pass).toString("base64"), [235]);
+      }
+
+      await session.command(`MAIL FROM:<${sender}>`, [250]);
+      await session.command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251]);
+      await session.command("DATA", [354]);
+      // Lines starting with a dot are doubled so they cannot end the message early
+      await session.command(`${this.compose(message, messageId).replace(/^\./gm, "..")}\r\n.`, [250]);
+      await session.command("QUIT", [221]).catch(() => undefined);
+
+      return { provider: this.name, messageId };
+    } finally {
+      session.close();
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import crypto from "crypto";
+import type { SmsProvider, SmsMessage, DeliveryResult, DeliveryStatusEvent, StatusWebhookRequest } from "./message-provider";
+
+interface TwilioConfig {
+  accountSid?: string;
+  authToken?: string;
+  fromNumber?: string;
+  apiUrl: string;
+  statusCallbackUrl?: string;
+}
+
+// Final Twilio message states; queued/sending/sent are progress updates and ignored
+const FINAL_STATUSES: Record<string, DeliveryStatusEvent["status"]> = {
+  delivered: "delivered",
+  undelivered: "bounced",
+  failed: "bounced",
+};
+
+/**
+ * Twilio adapter using the Messages REST API
+ */
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = "twilio";
+
+  constructor(private readonly config: TwilioConfig) {}
+
+  async sendSms(message: SmsMessage): Promise<DeliveryResult> {
+    const { accountSid, authToken, fromNumber } = this.config;
+    if (!accountSid || !authToken || !fromNumber) {
+      throw new Error("Twilio credentials are not configured");
+    }
+
+    const response = await fetch(`${this.config.apiUrl}/Accounts/${accountSid}/Messages.json`, {
+      method: "POST",
+      headers: {
+        "Authorization": `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: new URLSearchParams({
+        To: message.to,
+        From: fromNumber,
+        Body: message.body,
+        ...(this.config.statusCallbackUrl ? { StatusCallback: this.config.statusCallbackUrl } : {}),
+      }),
+    });
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Twilio request failed: ${data?.message || response.statusText}`);
+    }
+    return { provider: this.name, messageId: data.sid };
+  }
+
+  // Status callbacks are signed with the auth token over the callback URL plus the sorted form fields
+  parseStatusWebhook(request: StatusWebhookRequest): DeliveryStatusEvent[] | null {
+    const { authToken, statusCallbackUrl } = this.config;
+    const signature = request.header("X-Twilio-Signature");
+    if (!authToken || !statusCallbackUrl || !signature) return null;
+
+    // Sign over the fields exactly as posted; the parsed body has been through input sanitization
+    const params: Record<string, string> = request.rawBody
+      ? Object.fromEntries(new URLSearchParams(request.rawBody.toString("utf8")))
+      : request.body ?? {};
+    const payload = Object.keys(params).sort().reduce((text, key) => text + key + params[key], statusCallbackUrl);
+    const expected = crypto.createHmac("sha1", authToken).update(payload).digest("base64");
+    const expectedBuffer = Buffer.from(expected);
+    const signatureBuffer = Buffer.from(signature);
+    if (expectedBuffer.length !== signatureBuffer.length || !crypto.timingSafeEqual(expectedBuffer, signatureBuffer)) {
+      return null;
+    }
+
+    const status = FINAL_STATUSES[params.MessageStatus];
+    if (!status || !params.MessageSid) return [];
+    return [{
+      messageId: params.MessageSid,
+      status,
+      reason: params.ErrorCode ? `Twilio error ${params.ErrorCode}` : undefined,
+    }];
+  }
+}
@@ -0,0 +1,112 @@
+import { db } from "../db";
+import { propertyValuations, properties, type PropertyValuation } from "@shared/schema";
+import { eq, and, gt, asc, desc, inArray } from "drizzle-orm";
+import { alertService } from "./alerts";
+
+export const VALUATION_SOURCES = ["appraisal", "admin", "market"] as const;
+export type ValuationSource = typeof VALUATION_SOURCES[number];
+
+export interface ValuationInput {
+  valuationDate: Date;
+  value: number;
+  source: ValuationSource;
+  appraiserName?: string;
+  documentPath?: string;
+  notes?: string;
+}
+
+export class ValuationService {
+
+  // Record a valuation; when it is the most recent one it becomes the property's value and NAV
+  async publishValuation(propertyId: string, input: ValuationInput, adminId?: string): Promise<{
+    success: boolean;
+    message: string;
+    status?: number;
+    valuation?: PropertyValuation;
+    isCurrent?: boolean;
+  }> {
+    if (input.valuationDate > new Date()) {
+      return { success: false, message: "Valuation date cannot be in the future" };
+    }
+
+    const result = await db.transaction(async (tx) => {
+      // Lock the property so concurrent publishes agree on which valuation is current
+      const [property] = await tx.select()
+        .from(properties)
+        .where(eq(properties.id, propertyId))
+        .for("update");
+
+      if (!property) {
+        return { success: false, status: 404, message: "Property not found" };
+      }
+
+      const [newer] = await tx.select({ id: propertyValuations.id })
+        .from(propertyValuations)
+        .where(and(
+          eq(propertyValuations.propertyId, propertyId),
+          gt(propertyValuations.valuationDate, input.valuationDate)
+        ))
+        .limit(1);
+
+      const [valuation] = await tx.insert(propertyValuations)
+        .values({
+          propertyId,
+          valuationDate: input.valuationDate,
+          value: input.value,
+          navPerUnit: (input.value / property.totalUnits).toFixed(2),
+          source: input.source,
+          appraiserName: input.appraiserName,
+          documentPath: input.documentPath,
+          notes: input.notes,
+          publishedBy: adminId
+        })
+        .returning();
+
+      // Backdated valuations only extend the history
+      const isCurrent = !newer;
+      if (isCurrent && property.totalValue !== input.value) {
+        await tx.update(properties)
+          .set({ totalValue: input.value })
+          .where(eq(properties.id, propertyId));
+      }
+
+      return {
+        success: true,
+        message: isCurrent ? "Valuation published; NAV updated" : "Historical valuation recorded",
+        valuation,
+        isCurrent
+      };
+    });
+
+    // Watchers follow the property's current value, so a backdated entry is not news
+    if (result.success && result.valuation && result.isCurrent) {
+      await alertService.onValuationPublished(propertyId, result.valuation.value, Number(result.valuation.navPerUnit));
+    }
+    return result;
+  }
+
+  // Valuation history for a property, oldest first for charting
+  async getValuations(propertyId: string): Promise<PropertyValuation[]> {
+    return await db.select()
+      .from(propertyValuations)
+      .where(eq(propertyValuations.propertyId, propertyId))
+      .orderBy(asc(propertyValuations.valuationDate), asc(propertyValuations.createdAt));
+  }
+
+  // Latest published NAV per unit for each property that has been valued
+  async getLatestNavs(propertyIds: string[]): Promise<Map<string, number>> {
+    if (propertyIds.length === 0) return new Map();
+
+    const rows = await db.selectDistinctOn([propertyValuations.propertyId], {
+      propertyId: propertyValuations.propertyId,
+      navPerUnit: propertyValuations.navPerUnit
+    })
+    .from(propertyValuations)
+    .where(inArray(propertyValuations.propertyId, propertyIds))
+    .orderBy(propertyValuations.propertyId, desc(propertyValuations.valuationDate), desc(propertyValuations.createdAt));
+
+    return new Map(rows.map(row => [row.propertyId, parseFloat(row.navPerUnit)]));
+  }
+}
+
+export const valuationService = new ValuationService();
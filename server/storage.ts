@@ -17,8 +17,10 @@ import {
   type InsertAdminPasswordResetOtp,
   type AdminPasswordResetOtp
 } from "@shared/schema";
+import { PUBLIC_PROPERTY_STATUSES } from "@shared/propertyLifecycle";
 import { db } from "./db";
-import { eq, and, gt } from "drizzle-orm";
+import { cryptoService } from "./security/crypto";
+import { eq, and, gt, inArray } from "drizzle-orm";
 
 export interface IStorage {
   // Property operations
@@ -68,7 +70,10 @@ export interface IStorage {
 export class DatabaseStorage implements IStorage {
   // Property operations
   async getProperties(): Promise<Property[]> {
-    return await db.select().from(properties).where(eq(properties.isActive, true));
+    return await db.select().from(properties).where(and(
+      eq(properties.isActive, true),
+      inArray(properties.status, [...PUBLIC_PROPERTY_STATUSES])
+    ));
   }
 
   async getProperty(id: string): Promise<Property | undefined> {
@@ -107,8 +112,9 @@ export class DatabaseStorage implements IStorage {
     return contact;
   }
 
+  // Quarantined spam submissions are reviewed separately under the leads quarantine
   async getContacts(): Promise<Contact[]> {
-    return await db.select().from(contacts);
+    return await db.select().from(contacts).where(eq(contacts.isQuarantined, false));
   }
 
   async deleteContact(id: string): Promise<boolean> {
@@ -280,16 +286,24 @@ export class DatabaseStorage implements IStorage {
       .where(eq(adminUsers.id, adminId));
     
     if (!admin?.backupCodes) return false;
-    
-    const isValid = admin.backupCodes.includes(code);
-    if (isValid) {
-      // Remove used backup code
-      const updatedCodes = admin.backupCodes.filter(c => c !== code);
-      await db.update(adminUsers)
-        .set({ backupCodes: updatedCodes })
-        .where(eq(adminUsers.id, adminId));
+
+    // Codes are stored as bcrypt hashes (see /api/admin/totp/verify)
+    const normalized = code.replace(/\s+/g, '').toUpperCase();
+    let matched: string | undefined;
+    for (const hash of admin.backupCodes) {
+      if (await cryptoService.verifyBackupCode(normalized, hash)) {
+        matched = hash;
+        break;
+      }
     }
-    return isValid;
+    if (!matched) return false;
+
+    // Remove used backup code
+    const updatedCodes = admin.backupCodes.filter(c => c !== matched);
+    await db.update(adminUsers)
+      .set({ backupCodes: updatedCodes })
+      .where(eq(adminUsers.id, adminId));
+    return true;
   }
 
 
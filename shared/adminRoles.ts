@@ -0,0 +1,70 @@
+/**
+ * Admin roles and the permission matrix each one is granted
+ */
+
+export const ADMIN_ROLES = ["super_admin", "property_manager", "compliance_officer", "support", "read_only"] as const;
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, { label: string; description: string }> = {
+  super_admin: { label: "Super Admin", description: "Full access, including admin accounts and security" },
+  property_manager: { label: "Property Manager", description: "Listings, valuations, distributions and trading" },
+  compliance_officer: { label: "Compliance Officer", description: "Investor KYC review and audit views" },
+  support: { label: "Support", description: "Enquiries and leads, with read access to investors" },
+  read_only: { label: "Read Only", description: "Can view everything except security" },
+};
+
+// Accounts created before roles existed were stored as "admin" and keep full access
+const LEGACY_ROLES: Record<string, AdminRole> = { admin: "super_admin" };
+
+export const PERMISSION_RESOURCES = ["properties", "contacts", "settings", "statistics", "users", "security"] as const;
+export type PermissionResource = typeof PERMISSION_RESOURCES[number];
+
+export const PERMISSION_RESOURCE_LABELS: Record<PermissionResource, string> = {
+  properties: "Properties, valuations, distributions and trading",
+  contacts: "Enquiries and leads",
+  settings: "Site settings, homepage and notification templates",
+  statistics: "Dashboards and site statistics",
+  users: "Investors and KYC",
+  security: "Admin accounts, security, message deliveries and the outbox",
+};
+
+// "manage" includes "view"
+export type AdminPermission = `${PermissionResource}:${"view" | "manage"}`;
+
+const VIEW_ALL: AdminPermission[] = ["properties:view", "contacts:view", "settings:view", "statistics:view", "users:view"];
+
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  super_admin: PERMISSION_RESOURCES.map(resource => `${resource}:manage` as const),
+  property_manager: ["properties:manage", "contacts:view", "settings:view", "statistics:view"],
+  compliance_officer: [...VIEW_ALL, "users:manage", "security:view"],
+  support: ["contacts:manage", "properties:view", "users:view", "statistics:view"],
+  read_only: VIEW_ALL,
+};
+
+// Roles that must enroll an authenticator app before using their permissions
+export const TOTP_REQUIRED_ADMIN_ROLES: readonly AdminRole[] = ["super_admin", "property_manager", "compliance_officer"];
+
+export function normalizeAdminRole(role: string): AdminRole | null {
+  if ((ADMIN_ROLES as readonly string[]).includes(role)) return role as AdminRole;
+  return LEGACY_ROLES[role] ?? null;
+}
+
+// Every permission a role holds, with "view" spelled out wherever "manage" is granted
+export function adminPermissions(role: string): AdminPermission[] {
+  const normalized = normalizeAdminRole(role);
+  if (!normalized) return [];
+  return Array.from(new Set(ADMIN_ROLE_PERMISSIONS[normalized].flatMap(permission =>
+    permission.endsWith(":manage")
+      ? [permission, permission.replace(":manage", ":view") as AdminPermission]
+      : [permission]
+  )));
+}
+
+export function adminRoleRequiresTotp(role: string): boolean {
+  const normalized = normalizeAdminRole(role);
+  return normalized !== null && TOTP_REQUIRED_ADMIN_ROLES.includes(normalized);
+}
+
+export function hasAdminPermission(role: string, permission: AdminPermission): boolean {
+  return adminPermissions(role).includes(permission);
+}
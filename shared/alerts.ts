@@ -0,0 +1,16 @@
+/**
+ * Investor alert rule types and what each one needs
+ */
+
+export const ALERT_RULE_TYPES = ["funding_threshold", "valuation_published", "live_in_city", "market_price_below"] as const;
+export type AlertRuleType = typeof ALERT_RULE_TYPES[number];
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  funding_threshold: "Funding crosses a percentage",
+  valuation_published: "New valuation published",
+  live_in_city: "Property goes live in a city",
+  market_price_below: "Secondary market price drops below",
+};
+
+// Threshold rules fire once and then deactivate; the others fire on every matching event
+export const ONE_SHOT_ALERT_RULE_TYPES: readonly AlertRuleType[] = ["funding_threshold", "market_price_below"];
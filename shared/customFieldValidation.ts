@@ -0,0 +1,177 @@
+import { z } from "zod";
+import { CUSTOM_FIELD_TYPES, FIELD_TYPE_CONFIG, OPTION_FIELD_TYPES, FACET_FIELD_TYPES, RANGE_FIELD_TYPES, CONDITION_PROPERTY_ATTRIBUTES, isCustomFieldVisible, type CustomField, type CustomFieldCondition, type CustomFieldType } from "./propertyTypes";
+
+/**
+ * Property customFields validation derived from the stored field definitions,
+ * shared by the admin form and the API
+ */
+
+export interface CustomFieldIssue {
+  fieldId: string;
+  displayName: string;
+  message: string;
+}
+
+export interface NonConformingProperty {
+  propertyId: string;
+  propertyName: string;
+  issues: CustomFieldIssue[];
+}
+
+const isEmpty = (value: unknown) =>
+  value === undefined || value === null || value === "" || (Array.isArray(value) && value.length === 0);
+
+// Number inputs post strings; treat numeric strings as numbers
+const toNumber = (value: unknown) =>
+  typeof value === "string" && value.trim() !== "" && !isNaN(Number(value)) ? Number(value) : value;
+
+function numberSchema(field: CustomField, defaults: { min?: number; max?: number }) {
+  const min = field.validation?.min ?? defaults.min;
+  const max = field.validation?.max ?? defaults.max;
+  let schema = z.number({ invalid_type_error: `${field.displayName} must be a number` }).finite();
+  if (min !== undefined) schema = schema.min(min, field.validation?.message || `${field.displayName} must be at least ${min}`);
+  if (max !== undefined) schema = schema.max(max, field.validation?.message || `${field.displayName} must be at most ${max}`);
+  return z.preprocess(toNumber, schema);
+}
+
+function optionSchema(field: CustomField) {
+  const options = field.options ?? [];
+  return z.string().refine(value => options.includes(value), `${field.displayName} must be one of: ${options.join(", ")}`);
+}
+
+function stringSchema(field: CustomField, base: z.ZodString) {
+  const pattern = field.validation?.pattern;
+  if (!pattern) return base;
+
+  let regex: RegExp;
+  try {
+    regex = new RegExp(pattern);
+  } catch {
+    // An unparseable pattern on the definition should not block saving values
+    return base;
+  }
+  return base.regex(regex, field.validation?.message || `${field.displayName} has an invalid format`);
+}
+
+/**
+ * Schema for a single field's value, ignoring whether it is required
+ */
+export function customFieldValueSchema(field: CustomField): z.ZodTypeAny {
+  switch (field.type) {
+    case CUSTOM_FIELD_TYPES.NUMBER:
+      return numberSchema(field, FIELD_TYPE_CONFIG.number.validation);
+    case CUSTOM_FIELD_TYPES.CURRENCY:
+      return numberSchema(field, FIELD_TYPE_CONFIG.currency.validation);
+    case CUSTOM_FIELD_TYPES.PERCENTAGE:
+      return numberSchema(field, FIELD_TYPE_CONFIG.percentage.validation);
+    case CUSTOM_FIELD_TYPES.BOOLEAN:
+      return z.boolean({ invalid_type_error: `${field.displayName} must be yes or no` });
+    case CUSTOM_FIELD_TYPES.DATE:
+      return z.string().refine(value => !isNaN(Date.parse(value)), `${field.displayName} must be a valid date`);
+    case CUSTOM_FIELD_TYPES.EMAIL:
+      return stringSchema(field, z.string().email(`${field.displayName} must be a valid email address`));
+    case CUSTOM_FIELD_TYPES.URL:
+      return stringSchema(field, z.string().url(`${field.displayName} must be a valid URL`)
+        .regex(/^https?:\/\//, `${field.displayName} must start with http:// or https://`));
+    case CUSTOM_FIELD_TYPES.SELECT:
+      return optionSchema(field);
+    case CUSTOM_FIELD_TYPES.MULTISELECT:
+      return z.array(optionSchema(field), { invalid_type_error: `${field.displayName} must be a list of options` });
+    case CUSTOM_FIELD_TYPES.LONGTEXT:
+      return stringSchema(field, z.string().max(
+        FIELD_TYPE_CONFIG.longtext.validation.maxLength,
+        `${field.displayName} must be at most ${FIELD_TYPE_CONFIG.longtext.validation.maxLength} characters`
+      ));
+    case CUSTOM_FIELD_TYPES.FILE:
+      return z.object({
+        path: z.string().regex(/^\/objects\/uploads\/[\w-]+$/, `${field.displayName} must be an uploaded file`),
+        name: z.string().min(1).max(255),
+      }, { invalid_type_error: `${field.displayName} must be an uploaded file` });
+    case CUSTOM_FIELD_TYPES.TEXT:
+    default:
+      return stringSchema(field, z.string().max(
+        FIELD_TYPE_CONFIG.text.validation.maxLength,
+        `${field.displayName} must be at most ${FIELD_TYPE_CONFIG.text.validation.maxLength} characters`
+      ));
+  }
+}
+
+/**
+ * Schema for a whole customFields object. Values without a definition
+ * (e.g. from a deleted field) are passed through untouched.
+ */
+export function buildCustomFieldsSchema(definitions: CustomField[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+  definitions.forEach(field => {
+    const valueSchema = customFieldValueSchema(field);
+    shape[field.id] = field.required
+      ? z.any().superRefine((value, ctx) => {
+          if (isEmpty(value)) {
+            ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${field.displayName} is required` });
+            return;
+          }
+          const result = valueSchema.safeParse(value);
+          if (!result.success) result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: [] }));
+        })
+      : z.any().superRefine((value, ctx) => {
+          if (isEmpty(value)) return;
+          const result = valueSchema.safeParse(value);
+          if (!result.success) result.error.issues.forEach(issue => ctx.addIssue({ ...issue, path: [] }));
+        });
+  });
+  return z.object(shape).passthrough();
+}
+
+/**
+ * Check customFields against the definitions and list one issue per failing field.
+ * Fields hidden by their visibility conditions are skipped; `attributes` are the
+ * property's core attributes (e.g. propertyType) those conditions may refer to.
+ */
+export function validateCustomFields(
+  definitions: CustomField[],
+  values: Record<string, unknown> | null | undefined,
+  attributes: Record<string, unknown> = {}
+): CustomFieldIssue[] {
+  const conditionValues = { ...(values ?? {}), ...attributes };
+  const visible = definitions.filter(field => isCustomFieldVisible(field, conditionValues));
+  const result = buildCustomFieldsSchema(visible).safeParse(values ?? {});
+  if (result.success) return [];
+
+  const byId = new Map(definitions.map(field => [field.id, field]));
+  const issues = new Map<string, CustomFieldIssue>();
+  result.error.issues.forEach(issue => {
+    const fieldId = String(issue.path[0] ?? "");
+    if (issues.has(fieldId)) return;
+    issues.set(fieldId, {
+      fieldId,
+      displayName: byId.get(fieldId)?.displayName ?? fieldId,
+      message: issue.message
+    });
+  });
+  return Array.from(issues.values());
+}
+
+/**
+ * Problems with a definition itself that the insert schema cannot see on its own,
+ * e.g. a dropdown without options or a condition on a field that does not exist
+ */
+export function findDefinitionProblem(
+  definition: { id: string; type: string; options?: string[] | null; visibleWhen?: CustomFieldCondition[] | null; filterable?: boolean | null },
+  otherFieldIds: string[]
+): string | null {
+  if (OPTION_FIELD_TYPES.includes(definition.type as CustomFieldType) && (!definition.options || definition.options.length === 0)) {
+    return "Dropdown and multi-select fields need at least one option";
+  }
+  if (definition.filterable && ![...FACET_FIELD_TYPES, ...RANGE_FIELD_TYPES].includes(definition.type as CustomFieldType)) {
+    return "Only dropdown, multi-select, yes/no and numeric fields can be used as search filters";
+  }
+  for (const condition of definition.visibleWhen ?? []) {
+    if (condition.field === definition.id) {
+      return "A field cannot be conditioned on itself";
+    }
+    if (!(condition.field in CONDITION_PROPERTY_ATTRIBUTES) && !otherFieldIds.includes(condition.field)) {
+      return `Visibility condition refers to unknown field "${condition.field}"`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,84 @@
+/**
+ * Investment return calculations shared by the API and the client
+ */
+
+export interface CashFlow {
+  amount: number; // negative for money invested, positive for money received
+  date: Date;
+}
+
+const DAYS_PER_YEAR = 365;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-7;
+
+function yearsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (1000 * 60 * 60 * 24 * DAYS_PER_YEAR);
+}
+
+function npv(rate: number, cashFlows: CashFlow[], origin: Date): number {
+  return cashFlows.reduce((sum, flow) => sum + flow.amount / Math.pow(1 + rate, yearsBetween(origin, flow.date)), 0);
+}
+
+function npvDerivative(rate: number, cashFlows: CashFlow[], origin: Date): number {
+  return cashFlows.reduce((sum, flow) => {
+    const years = yearsBetween(origin, flow.date);
+    return sum - (years * flow.amount) / Math.pow(1 + rate, years + 1);
+  }, 0);
+}
+
+/**
+ * Annualised internal rate of return for irregularly dated cash flows
+ * Returns null when the flows have no sign change or no root can be found
+ */
+export function xirr(cashFlows: CashFlow[], guess: number = 0.1): number | null {
+  const hasOutflow = cashFlows.some(flow => flow.amount < 0);
+  const hasInflow = cashFlows.some(flow => flow.amount > 0);
+  if (!hasOutflow || !hasInflow) return null;
+
+  const origin = cashFlows.reduce((earliest, flow) => flow.date < earliest ? flow.date : earliest, cashFlows[0].date);
+
+  // Newton-Raphson converges quickly from a sensible guess
+  let rate = guess;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const value = npv(rate, cashFlows, origin);
+    const derivative = npvDerivative(rate, cashFlows, origin);
+    if (derivative === 0 || !Number.isFinite(derivative)) break;
+
+    const next = rate - value / derivative;
+    if (!Number.isFinite(next) || next <= -1) break;
+    if (Math.abs(next - rate) < TOLERANCE) return next;
+    rate = next;
+  }
+
+  // Fall back to bisection when Newton diverges
+  let low = -0.9999;
+  let high = 10;
+  let lowValue = npv(low, cashFlows, origin);
+  if (Math.sign(lowValue) === Math.sign(npv(high, cashFlows, origin))) return null;
+
+  for (let i = 0; i < MAX_ITERATIONS * 2; i++) {
+    const mid = (low + high) / 2;
+    const midValue = npv(mid, cashFlows, origin);
+    if (Math.abs(midValue) < TOLERANCE || (high - low) / 2 < TOLERANCE) return mid;
+
+    if (Math.sign(midValue) === Math.sign(lowValue)) {
+      low = mid;
+      lowValue = midValue;
+    } else {
+      high = mid;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Internal rate of return for cash flows one year apart, the first at time zero
+ */
+export function irr(amounts: number[], guess: number = 0.1): number | null {
+  const origin = new Date(0);
+  return xirr(amounts.map((amount, year) => ({
+    amount,
+    date: new Date(origin.getTime() + year * DAYS_PER_YEAR * 24 * 60 * 60 * 1000)
+  })), guess);
+}
@@ -0,0 +1,153 @@
+/**
+ * Investment calculator: year-by-year projection of a holding split into rental yield and appreciation
+ */
+
+import { irr } from "./finance";
+
+// Defaults the calculator starts from, derived from a property and platform settings
+export interface CalculatorAssumptions {
+  propertyId: string | null;
+  propertyName: string | null;
+  minInvestment: number; // rupees
+  expectedReturn: number | null; // percent p.a., as listed
+  rentalYield: number; // percent p.a.
+  appreciationRate: number; // percent p.a.
+  valuationCount: number; // published valuations the appreciation rate was derived from
+  tdsRate: number; // percent withheld from rental payouts
+  exitFeeRate: number; // percent of sale value
+  shortTermCapitalGainsTaxRate: number;
+  longTermCapitalGainsTaxRate: number;
+  longTermHoldingYears: number;
+}
+
+export interface InvestmentScenario {
+  amount: number; // rupees
+  years: number; // holding period; the units are sold at the end of the last year
+  rentalYield: number; // percent p.a. of the holding's value at the start of each year
+  appreciationRate: number; // percent p.a.
+  exitFeeRate: number;
+  tdsRate: number;
+  capitalGainsTaxRate: number;
+}
+
+export interface ScenarioYear {
+  year: number;
+  openingValue: number;
+  rentalIncome: number; // gross
+  tds: number;
+  closingValue: number;
+  saleProceeds: number; // after exit fee and capital gains tax, final year only
+  cashFlow: number; // net rental plus sale proceeds
+}
+
+export interface ScenarioProjection {
+  years: ScenarioYear[];
+  cashFlows: number[]; // year 0 investment, then each year's cash flow
+  totalRentalIncome: number; // net of TDS
+  grossSaleValue: number;
+  exitFee: number;
+  capitalGain: number;
+  capitalGainsTax: number;
+  netSaleProceeds: number;
+  totalReturn: number; // everything received less the amount invested
+  irr: number | null; // percent
+}
+
+export const SCENARIO_LIMITS = {
+  years: { min: 1, max: 30 },
+  rate: { min: 0, max: 100 },
+  appreciationRate: { min: -50, max: 100 },
+} as const;
+
+// Capital gains are long-term once the units are held for the configured number of years
+export function defaultCapitalGainsTaxRate(assumptions: CalculatorAssumptions, years: number): number {
+  return years >= assumptions.longTermHoldingYears
+    ? assumptions.longTermCapitalGainsTaxRate
+    : assumptions.shortTermCapitalGainsTaxRate;
+}
+
+export function projectInvestment(scenario: InvestmentScenario): ScenarioProjection {
+  const years: ScenarioYear[] = [];
+  let value = scenario.amount;
+  let totalRentalIncome = 0;
+
+  for (let year = 1; year <= scenario.years; year++) {
+    const openingValue = value;
+    const rentalIncome = openingValue * scenario.rentalYield / 100;
+    const tds = rentalIncome * scenario.tdsRate / 100;
+    value = openingValue * (1 + scenario.appreciationRate / 100);
+    totalRentalIncome += rentalIncome - tds;
+    years.push({ year, openingValue, rentalIncome, tds, closingValue: value, saleProceeds: 0, cashFlow: rentalIncome - tds });
+  }
+
+  const grossSaleValue = value;
+  const exitFee = grossSaleValue * scenario.exitFeeRate / 100;
+  const capitalGain = grossSaleValue - exitFee - scenario.amount;
+  const capitalGainsTax = Math.max(0, capitalGain) * scenario.capitalGainsTaxRate / 100;
+  const netSaleProceeds = grossSaleValue - exitFee - capitalGainsTax;
+
+  const last = years[years.length - 1];
+  if (last) {
+    last.saleProceeds = netSaleProceeds;
+    last.cashFlow += netSaleProceeds;
+  }
+
+  const cashFlows = [-scenario.amount, ...years.map(year => year.cashFlow)];
+  const rate = irr(cashFlows);
+
+  return {
+    years,
+    cashFlows,
+    totalRentalIncome,
+    grossSaleValue,
+    exitFee,
+    capitalGain,
+    capitalGainsTax,
+    netSaleProceeds,
+    totalReturn: totalRentalIncome + netSaleProceeds - scenario.amount,
+    irr: rate === null ? null : rate * 100,
+  };
+}
+
+// Short query parameter names keep shared links readable
+const SCENARIO_PARAMS: Record<keyof InvestmentScenario, string> = {
+  amount: "amount",
+  years: "years",
+  rentalYield: "yield",
+  appreciationRate: "growth",
+  exitFeeRate: "exitFee",
+  tdsRate: "tds",
+  capitalGainsTaxRate: "cgt",
+};
+
+export function encodeScenario(scenario: InvestmentScenario): URLSearchParams {
+  const params = new URLSearchParams();
+  (Object.keys(SCENARIO_PARAMS) as Array<keyof InvestmentScenario>).forEach(key => {
+    params.set(SCENARIO_PARAMS[key], String(scenario[key]));
+  });
+  return params;
+}
+
+// Values missing from or invalid in the URL fall back to the defaults
+export function decodeScenario(params: URLSearchParams, defaults: InvestmentScenario): InvestmentScenario {
+  const scenario = { ...defaults };
+  (Object.keys(SCENARIO_PARAMS) as Array<keyof InvestmentScenario>).forEach(key => {
+    const raw = params.get(SCENARIO_PARAMS[key]);
+    const value = raw === null || raw.trim() === "" ? NaN : Number(raw);
+    if (Number.isFinite(value)) scenario[key] = value;
+  });
+  return clampScenario(scenario);
+}
+
+export function clampScenario(scenario: InvestmentScenario): InvestmentScenario {
+  const clamp = (value: number, limits: { min: number; max: number }) => Math.min(limits.max, Math.max(limits.min, value));
+  return {
+    amount: Math.max(0, scenario.amount),
+    years: Math.round(clamp(scenario.years, SCENARIO_LIMITS.years)),
+    rentalYield: clamp(scenario.rentalYield, SCENARIO_LIMITS.rate),
+    appreciationRate: clamp(scenario.appreciationRate, SCENARIO_LIMITS.appreciationRate),
+    exitFeeRate: clamp(scenario.exitFeeRate, SCENARIO_LIMITS.rate),
+    tdsRate: clamp(scenario.tdsRate, SCENARIO_LIMITS.rate),
+    capitalGainsTaxRate: clamp(scenario.capitalGainsTaxRate, SCENARIO_LIMITS.rate),
+  };
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+
+/**
+ * KYC format validators shared by the investor form and the API
+ */
+
+export const KYC_STATUSES = ["pending", "approved", "rejected"] as const;
+export type KycStatus = typeof KYC_STATUSES[number];
+
+// Verhoeff multiplication, permutation and inverse tables
+const VERHOEFF_D = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 2, 3, 4, 0, 6, 7, 8, 9, 5],
+  [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7],
+  [4, 0, 1, 2, 3, 9, 5, 6, 7, 8],
+  [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2],
+  [7, 6, 5, 9, 8, 2, 1, 0, 4, 3],
+  [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0],
+];
+
+const VERHOEFF_P = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9],
+  [1, 5, 7, 6, 2, 8, 3, 0, 9, 4],
+  [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7],
+  [9, 4, 5, 3, 1, 2, 6, 8, 7, 0],
+  [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5],
+  [7, 0, 4, 6, 9, 1, 3, 2, 5, 8],
+];
+
+/**
+ * Verhoeff checksum over a digit string (check digit included)
+ */
+export function isValidVerhoeff(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+
+  let check = 0;
+  const reversed = digits.split("").reverse();
+  for (let i = 0; i < reversed.length; i++) {
+    check = VERHOEFF_D[check][VERHOEFF_P[i % 8][Number(reversed[i])]];
+  }
+  return check === 0;
+}
+
+/**
+ * PAN: 5 letters, 4 digits, 1 letter; 4th letter is the holder type
+ */
+export function isValidPan(pan: string): boolean {
+  return /^[A-Z]{3}[PCHFATBLJG][A-Z][0-9]{4}[A-Z]$/.test(pan);
+}
+
+/**
+ * IFSC: 4-letter bank code, a literal 0, 6-character branch code
+ */
+export function isValidIfsc(ifsc: string): boolean {
+  return /^[A-Z]{4}0[A-Z0-9]{6}$/.test(ifsc);
+}
+
+/**
+ * Aadhaar: 12 digits, cannot start with 0 or 1, Verhoeff check digit
+ */
+export function isValidAadhaar(aadhaar: string): boolean {
+  const digits = aadhaar.replace(/[\s-]/g, "");
+  return /^[2-9]\d{11}$/.test(digits) && isValidVerhoeff(digits);
+}
+
+/**
+ * Only the last four Aadhaar digits are ever stored or displayed
+ */
+export function maskAadhaar(aadhaar: string): string {
+  const digits = aadhaar.replace(/[\s-]/g, "");
+  return `XXXX-XXXX-${digits.slice(-4)}`;
+}
+
+export const kycSubmissionSchema = z.object({
+  fullName: z.string().trim().min(2, "Full name is required").max(100),
+  dateOfBirth: z.string().refine(value => !isNaN(Date.parse(value)), "Date of birth is required").refine(value => {
+    const adultCutoff = new Date();
+    adultCutoff.setFullYear(adultCutoff.getFullYear() - 18);
+    return new Date(value) <= adultCutoff;
+  }, "Investors must be at least 18 years old"),
+  panNumber: z.string().trim().toUpperCase().refine(isValidPan, "Invalid PAN format (e.g. ABCPE1234F)"),
+  aadhaarNumber: z.string().trim().refine(isValidAadhaar, "Invalid Aadhaar number"),
+  addressLine1: z.string().trim().min(3, "Address is required").max(200),
+  addressLine2: z.string().trim().max(200).optional(),
+  city: z.string().trim().min(2, "City is required").max(100),
+  state: z.string().trim().min(2, "State is required").max(100),
+  pincode: z.string().trim().regex(/^[1-9][0-9]{5}$/, "Invalid PIN code"),
+  bankAccountName: z.string().trim().min(2, "Account holder name is required").max(100),
+  bankAccountNumber: z.string().trim().regex(/^\d{9,18}$/, "Account number must be 9-18 digits"),
+  ifscCode: z.string().trim().toUpperCase().refine(isValidIfsc, "Invalid IFSC code (e.g. HDFC0001234)"),
+  panDocumentPath: z.string().min(1, "PAN card upload is required"),
+  aadhaarDocumentPath: z.string().min(1, "Aadhaar upload is required"),
+  selfiePath: z.string().min(1, "Selfie upload is required"),
+});
+
+export type KycSubmission = z.infer<typeof kycSubmissionSchema>;
@@ -0,0 +1,112 @@
+/**
+ * Sales pipeline stages for contact form leads
+ */
+
+import type { Contact, LeadActivity } from "./schema";
+
+export const LEAD_STAGES = ["new", "contacted", "qualified", "invested", "lost"] as const;
+export type LeadStage = typeof LEAD_STAGES[number];
+
+export const LEAD_STAGE_LABELS: Record<LeadStage, string> = {
+  new: "New",
+  contacted: "Contacted",
+  qualified: "Qualified",
+  invested: "Invested",
+  lost: "Lost",
+};
+
+// Leads in these stages need no further follow-up
+export const CLOSED_LEAD_STAGES: readonly LeadStage[] = ["invested", "lost"];
+
+// "message" keeps the enquiry of a lead merged into another, "merge" records the merge itself
+export const LEAD_ACTIVITY_TYPES = ["note", "stage_change", "assignment", "message", "merge"] as const;
+export type LeadActivityType = typeof LEAD_ACTIVITY_TYPES[number];
+
+export const MAX_LEAD_TAGS = 20;
+
+// Tags are compared and stored lower-case so "HNI" and "hni" are one tag
+export function normalizeLeadTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(Boolean))).slice(0, MAX_LEAD_TAGS);
+}
+
+// Phones compare in +<country><number> form; local numbers get the default country code
+export function normalizePhone(phone: string, defaultCountryCode = "+91"): string {
+  const trimmed = phone.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  if (!digits) return "";
+  if (trimmed.startsWith("+")) return `+${digits}`;
+  if (digits.startsWith("00")) return `+${digits.slice(2)}`;
+  const national = digits.length === 11 && digits.startsWith("0") ? digits.slice(1) : digits;
+  const countryDigits = defaultCountryCode.replace(/\D/g, "");
+  if (national.length > 10 && national.startsWith(countryDigits)) return `+${national}`;
+  return `${defaultCountryCode}${national}`;
+}
+
+// Emails compare case-insensitively without +tags; Gmail also ignores dots
+export function normalizeEmail(email: string): string {
+  const [local = "", domain = ""] = email.trim().toLowerCase().split("@");
+  if (!local || !domain) return "";
+  const base = local.split("+")[0];
+  if (domain === "gmail.com" || domain === "googlemail.com") {
+    return `${base.replace(/\./g, "")}@gmail.com`;
+  }
+  return `${base}@${domain}`;
+}
+
+const AMOUNT_UNITS: Record<string, number> = {
+  k: 1e3, thousand: 1e3,
+  l: 1e5, lac: 1e5, lacs: 1e5, lakh: 1e5, lakhs: 1e5,
+  m: 1e6, mn: 1e6, million: 1e6,
+  cr: 1e7, crore: 1e7, crores: 1e7,
+};
+
+// Reads free-text amounts such as "5000-25000", "10 to 25 lakh", "₹1.5 Cr+" or "under 50k" into rupees
+export function parseInvestmentAmount(text: string): { min: number; max: number | null } | null {
+  const cleaned = text.toLowerCase().replace(/,/g, "").replace(/₹|\brs\.?|\binr\b/g, " ");
+  const parts = Array.from(cleaned.matchAll(/(\d+(?:\.\d+)?)\s*([a-z]+)?/g)).map(match => ({
+    value: Number(match[1]),
+    multiplier: AMOUNT_UNITS[match[2] ?? ""] as number | undefined,
+  }));
+  if (parts.length === 0) return null;
+
+  // "10-25 lakh": a bare number takes the unit of the number after it
+  const amounts = parts.map((part, index) => {
+    const multiplier = part.multiplier ?? parts.slice(index + 1).find(next => next.multiplier)?.multiplier ?? 1;
+    return Math.round(part.value * multiplier);
+  });
+
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+  if (/\+|\babove\b|\bover\b|more than|\bminimum\b|at least/.test(cleaned)) return { min, max: null };
+  if (amounts.length === 1 && /\bunder\b|\bbelow\b|\bup ?to\b|less than|\bmax/.test(cleaned)) return { min: 0, max };
+  return { min, max };
+}
+
+// Duplicates at or above this score are surfaced to admins
+export const DUPLICATE_SCORE_THRESHOLD = 50;
+
+export interface LeadDuplicateRecord {
+  kind: "contact" | "user";
+  id: string;
+  name: string;
+  email: string | null;
+  phone: string;
+  createdAt: string | Date;
+}
+
+export interface LeadDuplicate {
+  lead: LeadDuplicateRecord; // always a contact
+  match: LeadDuplicateRecord; // an older contact, or a registered investor
+  score: number; // 0-100
+  reasons: string[];
+}
+
+export type Lead = Contact & {
+  assigneeName: string | null;
+  propertyName: string | null;
+  investorName: string | null;
+};
+
+export type LeadActivityEntry = LeadActivity & {
+  adminName: string | null;
+};
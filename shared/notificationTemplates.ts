@@ -0,0 +1,300 @@
+/**
+ * Notification template catalog, the Handlebars-style renderer and SMS length rules
+ * Shared so the admin editor previews exactly what the server will send
+ */
+
+import type { NotificationChannel } from "./notifications";
+
+export const TEMPLATE_LOCALES = ["en", "hi"] as const;
+export type TemplateLocale = typeof TEMPLATE_LOCALES[number];
+
+export const TEMPLATE_LOCALE_LABELS: Record<TemplateLocale, string> = {
+  en: "English",
+  hi: "हिन्दी",
+};
+
+// Locale every template falls back to when a translation has not been written
+export const DEFAULT_TEMPLATE_LOCALE: TemplateLocale = "en";
+
+// Longer messages are rejected; each extra segment is billed as a separate SMS
+export const MAX_SMS_SEGMENTS = 3;
+
+export interface TemplateContent {
+  subject?: string; // email subject or in-app title
+  body: string; // plain-text email, SMS text or in-app message
+  html?: string; // email only
+}
+
+export interface NotificationTemplateDefinition {
+  label: string;
+  description: string;
+  // Variables the template may use, with the sample values shown in previews
+  variables: Record<string, string>;
+  defaults: Partial<Record<NotificationChannel, TemplateContent>>;
+  // Carries a secret (a login code or invite link): stored encrypted and never shown in admin views
+  sensitive?: boolean;
+}
+
+// Available to every template; the server fills in the real values
+export const GLOBAL_TEMPLATE_VARIABLES: Record<string, string> = {
+  appName: "fractOWN",
+  supportEmail: "support@fractown.com",
+};
+
+const emailHtml = (heading: string, paragraph: string) =>
+  `<h2>${heading}</h2>\n<p>${paragraph}</p>\n<p>— The {{appName}} team</p>`;
+
+export const NOTIFICATION_TEMPLATES = {
+  otp: {
+    label: "Login code",
+    description: "One-time password sent when an investor signs in",
+    sensitive: true,
+    variables: { otp: "482913", validMinutes: "5" },
+    defaults: {
+      sms: { body: "{{otp}} is your {{appName}} login code. It is valid for {{validMinutes}} minutes." },
+      email: {
+        subject: "Your {{appName}} login code",
+        body: "{{otp}} is your {{appName}} login code. It is valid for {{validMinutes}} minutes.",
+        html: emailHtml("Your login code", "Use <strong>{{otp}}</strong> to sign in. It is valid for {{validMinutes}} minutes."),
+      },
+    },
+  },
+  welcome: {
+    label: "Welcome",
+    description: "Sent after an investor registers",
+    variables: { name: "Priya" },
+    defaults: {
+      sms: { body: "Welcome to {{appName}}! Start investing in premium real estate." },
+      email: {
+        subject: "Welcome to {{appName}}",
+        body: "Hi {{name}},\n\nWelcome to {{appName}}! Start investing in premium real estate.\n\nThe {{appName}} team",
+        html: emailHtml("Welcome, {{name}}", "Start investing in premium real estate with {{appName}}."),
+      },
+    },
+  },
+  admin_password_changed: {
+    label: "Admin password changed",
+    description: "Security notice to an admin whose password was changed",
+    variables: { username: "admin" },
+    defaults: {
+      sms: { body: "Your {{appName}} admin password has been successfully changed." },
+    },
+  },
+  admin_invite: {
+    label: "Admin invitation",
+    description: "Invitation link for a new admin team member",
+    sensitive: true,
+    variables: {
+      invitedBy: "admin",
+      role: "Support",
+      inviteUrl: "https://fractown.com/admin/invite/3f9a1c7e5b2d4f6a8c0e1b3d5f7a9c2e",
+      expiresHours: "72",
+    },
+    defaults: {
+      sms: { body: "{{invitedBy}} invited you to the {{appName}} admin team as {{role}}. Set up your account within {{expiresHours}} hours: {{inviteUrl}}" },
+      email: {
+        subject: "You're invited to the {{appName}} admin team",
+        body: "{{invitedBy}} invited you to join the {{appName}} admin team as {{role}}.\n\nChoose a username and password here within {{expiresHours}} hours:\n{{inviteUrl}}\n\nThe {{appName}} team",
+        html: emailHtml("Join the {{appName}} admin team", "{{invitedBy}} invited you as <strong>{{role}}</strong>. <a href=\"{{inviteUrl}}\">Set up your account</a> within {{expiresHours}} hours."),
+      },
+    },
+  },
+  contact_enquiry: {
+    label: "New enquiry",
+    description: "Sent to the support inbox for each contact form submission",
+    variables: {
+      name: "Rahul Sharma",
+      email: "rahul@example.com",
+      phone: "+91 98765 43210",
+      investmentAmount: "₹5-10 lakh",
+      message: "I would like to know more about the Bengaluru office property.",
+    },
+    defaults: {
+      email: {
+        subject: "New enquiry from {{name}}",
+        body: "Name: {{name}}\nEmail: {{email}}\nPhone: {{phone}}\nInvestment: {{investmentAmount}}\n\n{{message}}",
+        html: "<p><strong>Name:</strong> {{name}}<br><strong>Email:</strong> {{email}}<br><strong>Phone:</strong> {{phone}}<br><strong>Investment:</strong> {{investmentAmount}}</p>\n<p>{{message}}</p>",
+      },
+    },
+  },
+  alert_funding_threshold: {
+    label: "Alert: funding threshold",
+    description: "Watchlist alert when funding crosses the investor's percentage",
+    variables: { propertyName: "Prestige Tech Park", threshold: "75", progress: "78" },
+    defaults: {
+      in_app: { subject: "{{propertyName}} is {{progress}}% funded", body: "Funding for {{propertyName}} crossed your {{threshold}}% alert." },
+      sms: { body: "{{propertyName}} is {{progress}}% funded: funding crossed your {{threshold}}% alert." },
+      email: {
+        subject: "{{propertyName}} is {{progress}}% funded",
+        body: "Funding for {{propertyName}} crossed your {{threshold}}% alert.",
+        html: emailHtml("{{propertyName}} is {{progress}}% funded", "Funding crossed your {{threshold}}% alert."),
+      },
+    },
+  },
+  alert_valuation_published: {
+    label: "Alert: new valuation",
+    description: "Watchlist alert when a property gets a new valuation",
+    variables: { propertyName: "Prestige Tech Park", value: "₹12,50,00,000", navPerUnit: "₹12,500" },
+    defaults: {
+      in_app: { subject: "New valuation for {{propertyName}}", body: "{{propertyName}} was valued at {{value}} ({{navPerUnit}} per unit)." },
+      sms: { body: "{{propertyName}} was valued at {{value}} ({{navPerUnit}} per unit)." },
+      email: {
+        subject: "New valuation for {{propertyName}}",
+        body: "{{propertyName}} was valued at {{value}} ({{navPerUnit}} per unit).",
+        html: emailHtml("New valuation for {{propertyName}}", "The property was valued at {{value}} ({{navPerUnit}} per unit)."),
+      },
+    },
+  },
+  alert_live_in_city: {
+    label: "Alert: live in city",
+    description: "Watchlist alert when a property opens in a city the investor follows",
+    variables: { propertyName: "Prestige Tech Park", city: "Bengaluru", minInvestment: "₹10,000" },
+    defaults: {
+      in_app: { subject: "New property live in {{city}}", body: "{{propertyName}} is now open for investment from {{minInvestment}}." },
+      sms: { body: "New in {{city}}: {{propertyName}} is open for investment from {{minInvestment}}." },
+      email: {
+        subject: "New property live in {{city}}",
+        body: "{{propertyName}} is now open for investment from {{minInvestment}}.",
+        html: emailHtml("New property live in {{city}}", "{{propertyName}} is now open for investment from {{minInvestment}}."),
+      },
+    },
+  },
+  alert_market_price_below: {
+    label: "Alert: market price",
+    description: "Watchlist alert when secondary market units trade below the investor's price",
+    variables: { propertyName: "Prestige Tech Park", threshold: "₹11,000", price: "₹10,800" },
+    defaults: {
+      in_app: { subject: "{{propertyName}} units below {{threshold}}", body: "Units of {{propertyName}} are trading at {{price}} on the secondary market." },
+      sms: { body: "Units of {{propertyName}} are trading at {{price}}, below your {{threshold}} alert." },
+      email: {
+        subject: "{{propertyName}} units below {{threshold}}",
+        body: "Units of {{propertyName}} are trading at {{price}} on the secondary market.",
+        html: emailHtml("{{propertyName}} units below {{threshold}}", "Units are trading at {{price}} on the secondary market."),
+      },
+    },
+  },
+  property_launched: {
+    label: "Property launch",
+    description: "Announcement when a property opens for investment",
+    variables: { propertyName: "Prestige Tech Park", city: "Bengaluru", minInvestment: "₹10,000" },
+    defaults: {
+      in_app: { subject: "Now open: {{propertyName}}", body: "{{propertyName}} in {{city}} is open for investment from {{minInvestment}}." },
+      sms: { body: "Now open on {{appName}}: {{propertyName}} in {{city}}, from {{minInvestment}}." },
+      email: {
+        subject: "Now open: {{propertyName}}",
+        body: "{{propertyName}} in {{city}} is open for investment from {{minInvestment}}.",
+        html: emailHtml("Now open: {{propertyName}}", "{{propertyName}} in {{city}} is open for investment from {{minInvestment}}."),
+      },
+    },
+  },
+  distribution_paid: {
+    label: "Distribution paid",
+    description: "Sent to each investor credited in a committed distribution",
+    variables: { propertyName: "Prestige Tech Park", netAmount: "₹1,842.50" },
+    defaults: {
+      in_app: { subject: "Distribution from {{propertyName}}", body: "{{netAmount}} has been credited to you after TDS." },
+      sms: { body: "{{appName}}: {{netAmount}} from {{propertyName}} has been credited to you after TDS." },
+      email: {
+        subject: "Distribution from {{propertyName}}",
+        body: "{{netAmount}} from {{propertyName}} has been credited to you after TDS.",
+        html: emailHtml("Distribution from {{propertyName}}", "<strong>{{netAmount}}</strong> has been credited to you after TDS."),
+      },
+    },
+  },
+  kyc_approved: {
+    label: "KYC approved",
+    description: "Sent when an admin approves a KYC submission",
+    variables: {},
+    defaults: {
+      in_app: { subject: "KYC approved", body: "Your identity is verified and you can now invest." },
+      sms: { body: "{{appName}}: your KYC is approved and you can now invest." },
+      email: {
+        subject: "Your KYC is approved",
+        body: "Your identity is verified and you can now invest.",
+        html: emailHtml("KYC approved", "Your identity is verified and you can now invest."),
+      },
+    },
+  },
+  kyc_rejected: {
+    label: "KYC rejected",
+    description: "Sent when an admin rejects a KYC submission",
+    variables: { reason: "The PAN card image is unreadable" },
+    defaults: {
+      in_app: {
+        subject: "KYC needs attention",
+        body: "Your KYC submission was not approved{{#if reason}}: {{reason}}{{/if}}. Please review and resubmit.",
+      },
+      sms: { body: "{{appName}}: your KYC was not approved{{#if reason}}: {{reason}}{{/if}}. Please resubmit." },
+      email: {
+        subject: "Your KYC needs attention",
+        body: "Your KYC submission was not approved{{#if reason}}: {{reason}}{{/if}}. Please review and resubmit.",
+        html: emailHtml("KYC needs attention", "Your submission was not approved{{#if reason}}: {{reason}}{{/if}}. Please review and resubmit."),
+      },
+    },
+  },
+} satisfies Record<string, NotificationTemplateDefinition>;
+
+export type NotificationTemplateKey = keyof typeof NOTIFICATION_TEMPLATES;
+export const NOTIFICATION_TEMPLATE_KEYS = Object.keys(NOTIFICATION_TEMPLATES) as [NotificationTemplateKey, ...NotificationTemplateKey[]];
+
+export const templateChannels = (key: NotificationTemplateKey) =>
+  Object.keys(NOTIFICATION_TEMPLATES[key].defaults) as NotificationChannel[];
+
+export const isSensitiveTemplate = (key: NotificationTemplateKey) =>
+  (NOTIFICATION_TEMPLATES[key] as NotificationTemplateDefinition).sensitive === true;
+
+// {{#if name}}...{{else}}...{{/if}}; blocks do not nest
+const IF_BLOCK = /\{\{#if\s+([\w.]+)\s*\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+// {{{name}}} inserts raw, {{name}} is HTML-escaped in HTML bodies
+const VARIABLE = /\{\{\{\s*([\w.]+)\s*\}\}\}|\{\{\s*([\w.]+)\s*\}\}/g;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+const lookup = (variables: Record<string, unknown>, path: string): unknown =>
+  path.split(".").reduce<any>((value, key) => (value == null ? undefined : value[key]), variables);
+
+const isTruthy = (value: unknown) => Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+export function renderTemplate(source: string, variables: Record<string, unknown>, options: { html?: boolean } = {}): string {
+  return source
+    .replace(IF_BLOCK, (_match, path: string, truthy: string, falsy = "") => isTruthy(lookup(variables, path)) ? truthy : falsy)
+    .replace(VARIABLE, (_match, raw: string | undefined, escaped: string | undefined) => {
+      const value = lookup(variables, (raw ?? escaped)!);
+      const text = value == null ? "" : String(value);
+      return options.html && !raw ? escapeHtml(text) : text;
+    });
+}
+
+// Top-level variable names a template refers to
+export function templateVariables(source: string): string[] {
+  const names = new Set<string>();
+  Array.from(source.matchAll(IF_BLOCK), match => names.add(match[1].split(".")[0]));
+  Array.from(source.matchAll(VARIABLE), match => names.add((match[1] ?? match[2]).split(".")[0]));
+  names.delete("else");
+  return Array.from(names);
+}
+
+// GSM 03.38 basic set; anything outside it switches the whole message to UCS-2
+const GSM_BASIC = "@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !\"#¤%&'()*+,-./0123456789:;<=>?¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà";
+// Extension characters take two septets each
+const GSM_EXTENDED = "^{}\\[~]|€\f";
+
+export interface SmsLength {
+  encoding: "GSM-7" | "UCS-2";
+  characters: number; // septets for GSM-7, UTF-16 code units for UCS-2
+  segments: number;
+  perSegment: number; // 160/70 for a single SMS, 153/67 once it is split
+}
+
+export function smsLength(text: string): SmsLength {
+  const isGsm = Array.from(text).every(char => GSM_BASIC.includes(char) || GSM_EXTENDED.includes(char));
+  if (isGsm) {
+    const characters = Array.from(text).reduce((count, char) => count + (GSM_EXTENDED.includes(char) ? 2 : 1), 0);
+    const perSegment = characters <= 160 ? 160 : 153;
+    return { encoding: "GSM-7", characters, segments: characters === 0 ? 0 : Math.ceil(characters / perSegment), perSegment };
+  }
+  const characters = text.length;
+  const perSegment = characters <= 70 ? 70 : 67;
+  return { encoding: "UCS-2", characters, segments: Math.ceil(characters / perSegment), perSegment };
+}
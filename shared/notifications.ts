@@ -0,0 +1,79 @@
+/**
+ * Notification queue channels, lanes and delivery statuses, plus the topics investors set preferences for
+ */
+
+export const NOTIFICATION_CHANNELS = ["email", "sms", "in_app"] as const;
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[number];
+
+// OTPs take the high lane so they are never stuck behind a batch of alerts
+export const NOTIFICATION_LANES = ["high", "normal"] as const;
+export type NotificationLane = typeof NOTIFICATION_LANES[number];
+
+export const NOTIFICATION_JOB_STATUSES = ["pending", "processing", "sent", "delivered", "bounced", "dead"] as const;
+export type NotificationJobStatus = typeof NOTIFICATION_JOB_STATUSES[number];
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: "Email",
+  sms: "SMS",
+  in_app: "In-app",
+};
+
+export const NOTIFICATION_JOB_STATUS_LABELS: Record<NotificationJobStatus, string> = {
+  pending: "Pending",
+  processing: "Sending",
+  sent: "Sent",
+  delivered: "Delivered",
+  bounced: "Bounced",
+  dead: "Failed",
+};
+
+// In-app payload kept on the job until the worker writes the user notification
+export interface InAppNotificationMetadata {
+  type: string;
+  topic: NotificationTopic;
+  propertyId?: string | null;
+  alertRuleId?: string | null;
+}
+
+// What a notification is about; investors choose channels per topic
+export const NOTIFICATION_TOPICS = ["otp", "property_launches", "property_alerts", "distributions", "kyc_status", "marketing"] as const;
+export type NotificationTopic = typeof NOTIFICATION_TOPICS[number];
+
+export const NOTIFICATION_TOPIC_LABELS: Record<NotificationTopic, { label: string; description: string }> = {
+  otp: { label: "Login codes", description: "One-time passwords for signing in" },
+  property_launches: { label: "Property launches", description: "New properties opening for investment" },
+  property_alerts: { label: "Watchlist alerts", description: "Alerts you set up on your watchlist" },
+  distributions: { label: "Distributions", description: "Rental income and exit payouts credited to you" },
+  kyc_status: { label: "KYC status", description: "Approval or rejection of your KYC submission" },
+  marketing: { label: "News and offers", description: "Product updates and promotions from fractOWN" },
+};
+
+// Channels that make sense per topic; login codes are never shown in-app
+export const NOTIFICATION_TOPIC_CHANNELS: Record<NotificationTopic, readonly NotificationChannel[]> = {
+  otp: ["sms", "email"],
+  property_launches: NOTIFICATION_CHANNELS,
+  property_alerts: NOTIFICATION_CHANNELS,
+  distributions: NOTIFICATION_CHANNELS,
+  kyc_status: NOTIFICATION_CHANNELS,
+  marketing: NOTIFICATION_CHANNELS,
+};
+
+// SMS login codes cannot be switched off, otherwise the investor could not sign in
+export const REQUIRED_NOTIFICATION_PREFERENCES: ReadonlyArray<{ topic: NotificationTopic; channel: NotificationChannel }> = [
+  { topic: "otp", channel: "sms" },
+];
+
+// Used until the investor saves a choice; marketing is opt-in
+export const DEFAULT_NOTIFICATION_PREFERENCES: Record<NotificationTopic, Partial<Record<NotificationChannel, boolean>>> = {
+  otp: { sms: true, email: false },
+  property_launches: { email: true, sms: false, in_app: true },
+  property_alerts: { email: true, sms: true, in_app: true },
+  distributions: { email: true, sms: true, in_app: true },
+  kyc_status: { email: true, sms: true, in_app: true },
+  marketing: { email: false, sms: false, in_app: false },
+};
+
+export type NotificationPreferences = Record<NotificationTopic, Partial<Record<NotificationChannel, boolean>>>;
+
+export const isRequiredNotificationPreference = (topic: NotificationTopic, channel: NotificationChannel) =>
+  REQUIRED_NOTIFICATION_PREFERENCES.some(pref => pref.topic === topic && pref.channel === channel);
@@ -0,0 +1,30 @@
+import type { Property } from "./schema";
+import type { CustomFieldType } from "./propertyTypes";
+
+// Compare two to four properties side by side
+export const MIN_COMPARE_PROPERTIES = 2;
+export const MAX_COMPARE_PROPERTIES = 4;
+
+// Which end of a row is best; rows without a direction are shown but never highlighted
+export type ComparisonDirection = "higher" | "lower" | null;
+
+export interface ComparisonRow {
+  key: string; // core property field or custom field id
+  label: string;
+  type: CustomFieldType; // drives formatting; core fields reuse the custom field types
+  direction: ComparisonDirection;
+  values: unknown[]; // one per property, in the order of PropertyComparison.properties; null when missing or hidden
+  best: number[]; // indexes into values; empty when there is nothing to rank
+  worst: number[];
+}
+
+export interface ComparisonSection {
+  key: string; // SECTION_CONFIG key
+  label: string;
+  rows: ComparisonRow[];
+}
+
+export interface PropertyComparison {
+  properties: Property[];
+  sections: ComparisonSection[];
+}
@@ -0,0 +1,35 @@
+/**
+ * Property lifecycle states and the transitions allowed between them
+ */
+
+export const PROPERTY_STATUSES = ["draft", "under_review", "live", "fully_funded", "closed", "exited"] as const;
+export type PropertyStatus = typeof PROPERTY_STATUSES[number];
+
+export const PROPERTY_STATUS_TRANSITIONS: Record<PropertyStatus, readonly PropertyStatus[]> = {
+  draft: ["under_review"],
+  under_review: ["draft", "live"],
+  live: ["fully_funded", "closed"],
+  fully_funded: ["live", "closed"], // back to live when cancellations free up units
+  closed: ["exited"],
+  exited: [],
+};
+
+// Statuses visible on public listings
+export const PUBLIC_PROPERTY_STATUSES: readonly PropertyStatus[] = ["live", "fully_funded", "closed", "exited"];
+
+export const PROPERTY_STATUS_LABELS: Record<PropertyStatus, string> = {
+  draft: "Draft",
+  under_review: "Under Review",
+  live: "Live",
+  fully_funded: "Fully Funded",
+  closed: "Closed",
+  exited: "Exited",
+};
+
+export function canTransition(from: PropertyStatus, to: PropertyStatus): boolean {
+  return PROPERTY_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isPropertyStatus(value: unknown): value is PropertyStatus {
+  return typeof value === "string" && (PROPERTY_STATUSES as readonly string[]).includes(value);
+}
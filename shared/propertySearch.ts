@@ -0,0 +1,51 @@
+import type { Property } from "./schema";
+
+// Property search sort orders, shared by the API and the listing UI
+export const PROPERTY_SEARCH_SORTS = [
+  "relevance",
+  "name",
+  "min_investment_asc",
+  "min_investment_desc",
+  "expected_return_desc",
+  "funding_progress_desc",
+] as const;
+
+export type PropertySearchSort = typeof PROPERTY_SEARCH_SORTS[number];
+
+export const PROPERTY_SEARCH_SORT_LABELS: Record<PropertySearchSort, string> = {
+  relevance: "Best match",
+  name: "Name",
+  min_investment_asc: "Minimum investment: low to high",
+  min_investment_desc: "Minimum investment: high to low",
+  expected_return_desc: "Highest expected return",
+  funding_progress_desc: "Most funded",
+};
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export interface FacetRange {
+  min: number | null;
+  max: number | null;
+}
+
+// Each facet is counted with every filter applied except its own,
+// so the alternatives to a selected value stay visible
+export interface PropertySearchFacets {
+  city: FacetCount[];
+  state: FacetCount[];
+  propertyType: FacetCount[];
+  status: FacetCount[];
+  customFields: Record<string, FacetCount[]>; // keyed by custom field id
+  minInvestment: FacetRange;
+  expectedReturn: FacetRange;
+}
+
+export interface PropertySearchResult {
+  items: Property[];
+  total: number;
+  nextCursor: string | null;
+  facets: PropertySearchFacets | null; // only on the first page; later pages share its facets
+}
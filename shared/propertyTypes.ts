@@ -7,7 +7,11 @@ export const CUSTOM_FIELD_TYPES = {
   EMAIL: 'email',
   URL: 'url',
   CURRENCY: 'currency',
-  PERCENTAGE: 'percentage'
+  PERCENTAGE: 'percentage',
+  SELECT: 'select',
+  MULTISELECT: 'multiselect',
+  LONGTEXT: 'longtext',
+  FILE: 'file'
 } as const;
 
 export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[keyof typeof CUSTOM_FIELD_TYPES];
@@ -21,13 +25,51 @@ export interface CustomField {
   defaultValue?: any;
   section: string;
   order: number;
-  options?: string[]; // For select/radio fields
+  options?: string[]; // For select/multiselect fields
   validation?: {
     min?: number;
     max?: number;
     pattern?: string;
     message?: string;
   };
+  visibleWhen?: CustomFieldCondition[] | null; // all conditions must hold for the field to show
+  filterable?: boolean; // offered as a filter and facet in property search
+}
+
+// Show a field only when another field's value is one of `values`.
+// `field` is either a property attribute from CONDITION_PROPERTY_ATTRIBUTES or another custom field id.
+export interface CustomFieldCondition {
+  field: string;
+  values: string[];
+}
+
+// Value stored for file reference fields
+export interface CustomFieldFileRef {
+  path: string; // /objects/uploads/<id>
+  name: string;
+}
+
+// Core property attributes custom fields can be conditioned on
+export const CONDITION_PROPERTY_ATTRIBUTES = {
+  propertyType: {
+    label: 'Property Type',
+    options: ['residential', 'commercial']
+  }
+} as const;
+
+const conditionValueMatches = (actual: unknown, expected: string[]) => {
+  if (Array.isArray(actual)) return actual.some(item => expected.includes(String(item)));
+  if (actual === undefined || actual === null || actual === '') return false;
+  return expected.includes(String(actual));
+};
+
+/**
+ * Whether a field should be shown (and validated) for a property.
+ * `values` holds the property's custom field values merged with its core attributes.
+ */
+export function isCustomFieldVisible(field: Pick<CustomField, 'visibleWhen'>, values: Record<string, unknown>): boolean {
+  if (!field.visibleWhen || field.visibleWhen.length === 0) return true;
+  return field.visibleWhen.every(condition => conditionValueMatches(values[condition.field], condition.values));
 }
 
 export const FIELD_SECTIONS = {
@@ -117,9 +159,37 @@ export const FIELD_TYPE_CONFIG = {
     icon: '📊',
     defaultValue: 0,
     validation: { min: 0, max: 100 }
+  },
+  [CUSTOM_FIELD_TYPES.SELECT]: {
+    label: 'Dropdown',
+    icon: '🔽',
+    defaultValue: ''
+  },
+  [CUSTOM_FIELD_TYPES.MULTISELECT]: {
+    label: 'Multi-select',
+    icon: '☑️',
+    defaultValue: []
+  },
+  [CUSTOM_FIELD_TYPES.LONGTEXT]: {
+    label: 'Long Text',
+    icon: '📄',
+    defaultValue: '',
+    validation: { maxLength: 5000 }
+  },
+  [CUSTOM_FIELD_TYPES.FILE]: {
+    label: 'File',
+    icon: '📎',
+    defaultValue: null
   }
 } as const;
 
+// Types whose values come from the field's options list
+export const OPTION_FIELD_TYPES: CustomFieldType[] = [CUSTOM_FIELD_TYPES.SELECT, CUSTOM_FIELD_TYPES.MULTISELECT];
+
+// Types property search can filter on: option/boolean fields by value, numeric fields by range
+export const FACET_FIELD_TYPES: CustomFieldType[] = [...OPTION_FIELD_TYPES, CUSTOM_FIELD_TYPES.BOOLEAN];
+export const RANGE_FIELD_TYPES: CustomFieldType[] = [CUSTOM_FIELD_TYPES.NUMBER, CUSTOM_FIELD_TYPES.CURRENCY, CUSTOM_FIELD_TYPES.PERCENTAGE];
+
 // Production Data Safety Configuration
 export const PRODUCTION_SAFETY_CONFIG = {
   // Environment detection
@@ -131,7 +201,7 @@ export const PRODUCTION_SAFETY_CONFIG = {
            ));
   },
   
-  // Data isolation for custom fields - environment-based storage keys
+  // Legacy browser storage key for custom field definitions; read once to import them to the server
   getCustomFieldStorageKey: () => {
     const isProductionEnv = PRODUCTION_SAFETY_CONFIG.isProduction();
     return isProductionEnv ? 'customFieldDefinitions_prod' : 'customFieldDefinitions_dev';
@@ -172,7 +242,8 @@ export const PRODUCTION_SAFETY_CONFIG = {
       switch (fieldType) {
         case 'boolean': return false;
         case 'number': case 'currency': case 'percentage': return 0;
-        case 'date': return null;
+        case 'date': case 'file': return null;
+        case 'multiselect': return [];
         default: return '';
       }
     }
@@ -1,7 +1,9 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, bigint, decimal, boolean, timestamp, jsonb, index } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, bigint, decimal, boolean, timestamp, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CUSTOM_FIELD_TYPES, FIELD_SECTIONS, type CustomFieldType } from "./propertyTypes";
+import { ADMIN_ROLES } from "./adminRoles";
 
 export const properties = pgTable("properties", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -14,35 +16,66 @@ export const properties = pgTable("properties", {
   minInvestment: bigint("min_investment", { mode: "number" }).notNull(), // in rupees
   expectedReturn: decimal("expected_return", { precision: 5, scale: 2 }), // percentage - nullable
 
-  fundingProgress: integer("funding_progress").notNull().default(0), // percentage 0-100
+  fundingProgress: integer("funding_progress").notNull().default(0), // percentage 0-100, derived from confirmed investments
+  totalUnits: integer("total_units").notNull().default(10000), // ownership units the property is divided into
   imageUrls: text("image_urls").array().notNull().default(sql`ARRAY[]::text[]`),
   attachments: jsonb("attachments").default(sql`'[]'::jsonb`), // Store file attachments with metadata
   customFields: jsonb("custom_fields").default(sql`'{}'::jsonb`), // Dynamic property metadata fields
   propertyType: text("property_type").notNull(), // 'residential' | 'commercial'
   isActive: boolean("is_active").notNull().default(true),
-});
+  tradingHalted: boolean("trading_halted").notNull().default(false), // admin kill switch for the secondary market
+  status: text("status").notNull().default("live"), // lifecycle state, see shared/propertyLifecycle.ts
+  statusChangedAt: timestamp("status_changed_at").notNull().defaultNow(),
+  fundingDeadline: timestamp("funding_deadline"), // the round closes automatically once this passes
+}, (table) => [
+  // Must match the expression used by the property search service
+  index("properties_search_idx").using("gin", sql`to_tsvector('english', ${table.name} || ' ' || ${table.description} || ' ' || ${table.location})`),
+]);
 
+// Contact form submissions, worked as sales leads through the pipeline stages in shared/leads.ts
 export const contacts = pgTable("contacts", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   email: text("email").notNull(),
   phone: text("phone").notNull(),
   investmentAmount: text("investment_amount").notNull(),
+  investmentMin: bigint("investment_min", { mode: "number" }), // rupees, parsed from investmentAmount
+  investmentMax: bigint("investment_max", { mode: "number" }), // null when open-ended
   message: text("message").notNull(),
+  spamScore: integer("spam_score").notNull().default(0),
+  spamReasons: text("spam_reasons").array().notNull().default(sql`ARRAY[]::text[]`),
+  isQuarantined: boolean("is_quarantined").notNull().default(false), // held back from the pipeline until an admin releases it
+  fingerprint: text("fingerprint"), // hash of email, phone and message for spotting resubmissions
+  ipAddress: text("ip_address"),
+  stage: text("stage").notNull().default("new"), // 'new' | 'contacted' | 'qualified' | 'invested' | 'lost'
+  assignedTo: varchar("assigned_to").references(() => adminUsers.id, { onDelete: "set null" }),
+  followUpAt: timestamp("follow_up_at"),
+  propertyId: varchar("property_id").references(() => properties.id, { onDelete: "set null" }), // property of interest
+  tags: text("tags").array().notNull().default(sql`ARRAY[]::text[]`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // registered investor this lead was linked to
   createdAt: timestamp("created_at").notNull().defaultNow(),
-});
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("contacts_stage_idx").on(table.stage),
+  index("contacts_assigned_to_idx").on(table.assignedTo),
+  index("contacts_fingerprint_idx").on(table.fingerprint),
+]);
 
 export const adminUsers = pgTable("admin_users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   email: text("email").notNull().unique(),
   passwordHash: text("password_hash").notNull(),
-  role: text("role").notNull().default("admin"),
+  role: text("role").notNull().default("admin"), // one of ADMIN_ROLES; legacy "admin" is treated as super_admin
   phoneNumber: text("phone_number"), // Optional phone number for notifications
   countryCode: text("country_code").default("+91"), // Default to India
   totpSecret: text("totp_secret"), // For authenticator app
   totpEnabled: boolean("totp_enabled").notNull().default(false),
   backupCodes: text("backup_codes").array(), // Emergency backup codes
+  isActive: boolean("is_active").notNull().default(true), // deactivated admins cannot sign in and lose their sessions
+  passwordChangedAt: timestamp("password_changed_at").notNull().defaultNow(), // drives the password expiry policy
+  deactivatedAt: timestamp("deactivated_at"),
+  deactivatedBy: varchar("deactivated_by"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -89,12 +122,41 @@ export const adminPasswordResetOtps = pgTable("admin_password_reset_otps", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Previous admin password hashes, checked so recent passwords are not reused
+export const adminPasswordHistory = pgTable("admin_password_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  adminId: varchar("admin_id").references(() => adminUsers.id, { onDelete: "cascade" }).notNull(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("admin_password_history_admin_idx").on(table.adminId, table.createdAt),
+]);
+
+// Invitations to join the admin team; the link carries a token of which only the hash is stored
+export const adminInvites = pgTable("admin_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  phoneNumber: text("phone_number"),
+  countryCode: text("country_code").default("+91"),
+  role: text("role").notNull(), // see ADMIN_ROLES
+  tokenHash: text("token_hash").notNull().unique(),
+  invitedBy: varchar("invited_by").references(() => adminUsers.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedAdminId: varchar("accepted_admin_id").references(() => adminUsers.id, { onDelete: "set null" }),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("admin_invites_email_idx").on(table.email),
+]);
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   countryCode: text("country_code").notNull(), // e.g., "+91"
   phoneNumber: text("phone_number").notNull().unique(),
   email: text("email"),
+  locale: text("locale").notNull().default("en"), // notification template language, see TEMPLATE_LOCALES
   isVerified: boolean("is_verified").notNull().default(false),
   isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -120,13 +182,363 @@ export const userSessions = pgTable("user_sessions", {
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
+// Investor commitments against a property, allocated in whole ownership units
+export const investments = pgTable("investments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  propertyId: varchar("property_id").references(() => properties.id).notNull(),
+  amount: bigint("amount", { mode: "number" }).notNull(), // in rupees, units * unitPrice
+  units: integer("units").notNull(),
+  unitPrice: decimal("unit_price", { precision: 14, scale: 2 }).notNull(), // totalValue / totalUnits at commit time
+  status: text("status").notNull().default("pending"), // 'pending' | 'confirmed' | 'cancelled'
+  confirmedAt: timestamp("confirmed_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("investments_user_idx").on(table.userId),
+  index("investments_property_idx").on(table.propertyId),
+]);
+
+// Gateway payments backing investments; an investment confirms once its payment is captured
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Exactly one of investmentId (primary round) or tradeId (secondary market purchase) is set
+  investmentId: varchar("investment_id").references(() => investments.id),
+  tradeId: varchar("trade_id").references(() => trades.id),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  gateway: text("gateway").notNull(), // 'razorpay' | 'mock'
+  gatewayOrderId: text("gateway_order_id").notNull().unique(),
+  gatewayPaymentId: text("gateway_payment_id"),
+  amount: decimal("amount", { precision: 14, scale: 2 }).notNull(), // in rupees; trade amounts can include paise
+  currency: text("currency").notNull().default("INR"),
+  status: text("status").notNull().default("created"), // 'created' | 'authorized' | 'captured' | 'failed' | 'refunded'
+  failureReason: text("failure_reason"),
+  capturedAt: timestamp("captured_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("payments_investment_idx").on(table.investmentId),
+  index("payments_trade_idx").on(table.tradeId),
+]);
+
+// Rental income distribution runs; committed runs are never edited
+export const distributions = pgTable("distributions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").references(() => properties.id).notNull(),
+  periodStart: timestamp("period_start").notNull(),
+  periodEnd: timestamp("period_end").notNull(),
+  grossRent: decimal("gross_rent", { precision: 14, scale: 2 }).notNull(),
+  expenses: decimal("expenses", { precision: 14, scale: 2 }).notNull().default("0"),
+  managementFee: decimal("management_fee", { precision: 14, scale: 2 }).notNull().default("0"),
+  netAmount: decimal("net_amount", { precision: 14, scale: 2 }).notNull(), // gross rent - expenses - management fee
+  tdsRate: decimal("tds_rate", { precision: 5, scale: 2 }).notNull(), // percentage withheld per payout
+  totalTds: decimal("total_tds", { precision: 14, scale: 2 }).notNull(),
+  distributedUnits: integer("distributed_units").notNull(), // confirmed units held at commit time
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("distributions_property_idx").on(table.propertyId),
+]);
+
+// Immutable per-investor payout lines written when a distribution is committed
+export const distributionLedger = pgTable("distribution_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  distributionId: varchar("distribution_id").references(() => distributions.id).notNull(),
+  propertyId: varchar("property_id").references(() => properties.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  units: integer("units").notNull(),
+  grossAmount: decimal("gross_amount", { precision: 14, scale: 2 }).notNull(),
+  tdsAmount: decimal("tds_amount", { precision: 14, scale: 2 }).notNull(),
+  netAmount: decimal("net_amount", { precision: 14, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("distribution_ledger_user_idx").on(table.userId),
+  index("distribution_ledger_distribution_idx").on(table.distributionId),
+]);
+
+// Secondary market limit orders; remaining units rest on the book until filled or cancelled
+export const marketOrders = pgTable("market_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").references(() => properties.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  side: text("side").notNull(), // 'buy' | 'sell'
+  price: decimal("price", { precision: 14, scale: 2 }).notNull(), // per unit, in rupees
+  units: integer("units").notNull(),
+  remainingUnits: integer("remaining_units").notNull(),
+  status: text("status").notNull().default("open"), // 'open' | 'partially_filled' | 'filled' | 'cancelled'
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("market_orders_book_idx").on(table.propertyId, table.side, table.status),
+  index("market_orders_user_idx").on(table.userId),
+]);
+
+// Matched secondary market trades; unit ownership moves from seller to buyer once the buyer's payment settles
+export const trades = pgTable("trades", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").references(() => properties.id).notNull(),
+  buyOrderId: varchar("buy_order_id").references(() => marketOrders.id).notNull(),
+  sellOrderId: varchar("sell_order_id").references(() => marketOrders.id).notNull(),
+  buyerId: varchar("buyer_id").references(() => users.id).notNull(),
+  sellerId: varchar("seller_id").references(() => users.id).notNull(),
+  units: integer("units").notNull(),
+  price: decimal("price", { precision: 14, scale: 2 }).notNull(), // resting order's price
+  grossAmount: decimal("gross_amount", { precision: 14, scale: 2 }).notNull(), // units * price, paid by the buyer
+  platformFee: decimal("platform_fee", { precision: 14, scale: 2 }).notNull(), // deducted from the seller's proceeds
+  sellerProceeds: decimal("seller_proceeds", { precision: 14, scale: 2 }).notNull(),
+  // New trades start as 'pending_settlement'; trades from before settlement existed were settled on match
+  status: text("status").notNull().default("settled"), // 'pending_settlement' | 'settled' | 'cancelled'
+  settledAt: timestamp("settled_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("trades_property_idx").on(table.propertyId),
+  index("trades_status_idx").on(table.status, table.createdAt),
+  index("trades_buyer_idx").on(table.buyerId),
+  index("trades_seller_idx").on(table.sellerId),
+]);
+
+// Admin-defined property custom fields; properties.custom_fields is keyed by these ids
+export const customFieldDefinitions = pgTable("custom_field_definitions", {
+  id: varchar("id").primaryKey(), // stable key referenced from property custom field values
+  name: text("name").notNull(),
+  displayName: text("display_name").notNull(),
+  type: text("type").notNull(), // see CUSTOM_FIELD_TYPES in shared/propertyTypes.ts
+  required: boolean("required").notNull().default(false),
+  defaultValue: jsonb("default_value"),
+  section: text("section").notNull(), // see FIELD_SECTIONS in shared/propertyTypes.ts
+  order: integer("sort_order").notNull().default(0), // position within the section
+  options: text("options").array(),
+  validation: jsonb("validation"),
+  visibleWhen: jsonb("visible_when"), // CustomFieldCondition[]; shown only when all hold
+  filterable: boolean("filterable").notNull().default(false), // offered as a filter and facet in property search
+  createdBy: varchar("created_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("custom_field_definitions_section_idx").on(table.section, table.order),
+]);
+
+// Every lifecycle transition a property goes through, with who made it
+export const propertyStatusHistory = pgTable("property_status_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").references(() => properties.id).notNull(),
+  fromStatus: text("from_status"), // null for the initial status
+  toStatus: text("to_status").notNull(),
+  reason: text("reason"),
+  changedBy: varchar("changed_by").references(() => adminUsers.id), // null for automatic transitions
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("property_status_history_property_idx").on(table.propertyId),
+]);
+
+// Published property valuations; the latest one sets the property's value and per-unit NAV
+export const propertyValuations = pgTable("property_valuations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  propertyId: varchar("property_id").references(() => properties.id).notNull(),
+  valuationDate: timestamp("valuation_date").notNull(),
+  value: bigint("value", { mode: "number" }).notNull(), // in rupees
+  navPerUnit: decimal("nav_per_unit", { precision: 14, scale: 2 }).notNull(), // value / total units at publish time
+  source: text("source").notNull(), // 'appraisal' | 'admin' | 'market'
+  appraiserName: text("appraiser_name"),
+  documentPath: text("document_path"), // appraisal report uploaded to object storage
+  notes: text("notes"),
+  publishedBy: varchar("published_by").references(() => adminUsers.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("property_valuations_property_date_idx").on(table.propertyId, table.valuationDate),
+]);
+
+// One KYC record per investor; investments require an approved record
+export const kycRecords = pgTable("kyc_records", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull().unique(),
+  fullName: text("full_name").notNull(),
+  dateOfBirth: timestamp("date_of_birth").notNull(),
+  panNumber: text("pan_number").notNull(),
+  aadhaarMasked: text("aadhaar_masked").notNull(), // XXXX-XXXX-1234; the full number is never stored
+  addressLine1: text("address_line1").notNull(),
+  addressLine2: text("address_line2"),
+  city: text("city").notNull(),
+  state: text("state").notNull(),
+  pincode: text("pincode").notNull(),
+  bankAccountName: text("bank_account_name").notNull(),
+  bankAccountNumberEncrypted: text("bank_account_number_encrypted").notNull(),
+  bankAccountLast4: text("bank_account_last4").notNull(),
+  ifscCode: text("ifsc_code").notNull(),
+  panDocumentPath: text("pan_document_path").notNull(), // private /objects/kyc/... paths
+  aadhaarDocumentPath: text("aadhaar_document_path").notNull(),
+  selfiePath: text("selfie_path").notNull(),
+  status: text("status").notNull().default("pending"), // 'pending' | 'approved' | 'rejected'
+  rejectionReason: text("rejection_reason"),
+  reviewedBy: varchar("reviewed_by").references(() => adminUsers.id),
+  reviewedAt: timestamp("reviewed_at"),
+  submittedAt: timestamp("submitted_at").notNull().defaultNow(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("kyc_records_status_idx").on(table.status),
+]);
+
+// Properties an investor follows; alert rules may target any property, watched or not
+export const watchlistItems = pgTable("watchlist_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  propertyId: varchar("property_id").references(() => properties.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("watchlist_items_user_property_idx").on(table.userId, table.propertyId),
+]);
+
+// Investor alert rules, evaluated as properties change; threshold rules fire once and then deactivate
+export const alertRules = pgTable("alert_rules", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // 'funding_threshold' | 'valuation_published' | 'live_in_city' | 'market_price_below'
+  propertyId: varchar("property_id").references(() => properties.id, { onDelete: "cascade" }), // all but live_in_city
+  city: text("city"), // live_in_city only
+  threshold: decimal("threshold", { precision: 14, scale: 2 }), // funding percent or per-unit price in rupees
+  isActive: boolean("is_active").notNull().default(true),
+  lastTriggeredAt: timestamp("last_triggered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("alert_rules_type_idx").on(table.type, table.isActive),
+  index("alert_rules_user_idx").on(table.userId),
+]);
+
+// In-app notifications shown to investors
+export const userNotifications = pgTable("user_notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: text("type").notNull(), // alert rule type, or the event that produced it, e.g. 'kyc_approved'
+  topic: text("topic").notNull().default("property_alerts"), // see NOTIFICATION_TOPICS
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  propertyId: varchar("property_id").references(() => properties.id, { onDelete: "set null" }),
+  alertRuleId: varchar("alert_rule_id").references(() => alertRules.id, { onDelete: "set null" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("user_notifications_user_idx").on(table.userId, table.createdAt),
+]);
+
+// Investor opt-ins per topic and channel; rows exist only where the investor changed a default
+export const userNotificationPreferences = pgTable("user_notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  topic: text("topic").notNull(), // see NOTIFICATION_TOPICS
+  channel: text("channel").notNull(), // 'email' | 'sms' | 'in_app'
+  enabled: boolean("enabled").notNull(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("user_notification_preferences_idx").on(table.userId, table.topic, table.channel),
+]);
+
+// Lead timeline: internal notes plus the stage and assignee changes made by admins
+export const leadActivities = pgTable("lead_activities", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").references(() => contacts.id, { onDelete: "cascade" }).notNull(),
+  adminId: varchar("admin_id").references(() => adminUsers.id, { onDelete: "set null" }),
+  type: text("type").notNull(), // 'note' | 'stage_change' | 'assignment' | 'message' | 'merge'
+  body: text("body").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("lead_activities_contact_idx").on(table.contactId, table.createdAt),
+]);
+
+// Emails and SMS captured by the outbox provider instead of being sent, for development and tests
+export const outboxMessages = pgTable("outbox_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").notNull(), // 'email' | 'sms'
+  recipient: text("recipient").notNull(),
+  subject: text("subject"), // email only
+  body: text("body").notNull(),
+  html: text("html"), // email only
+  redacted: boolean("redacted").notNull().default(false), // a login code or invite link was withheld
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  index("outbox_messages_recipient_idx").on(table.recipient, table.createdAt),
+]);
+
+// Durable email, SMS and in-app deliveries, worked off by the notification queue with retries
+export const notificationJobs = pgTable("notification_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  channel: text("channel").notNull(), // 'email' | 'sms' | 'in_app'
+  lane: text("lane").notNull().default("normal"), // 'high' for OTPs, 'normal' for everything else
+  recipient: text("recipient").notNull(), // email address, E.164 phone or user id
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  subject: text("subject"), // email subject or in-app title
+  body: text("body").notNull(),
+  html: text("html"), // email only
+  sensitive: boolean("sensitive").notNull().default(false), // body and html are encrypted; see isSensitiveTemplate
+  metadata: jsonb("metadata").default(sql`'{}'::jsonb`), // in-app type, propertyId and alertRuleId
+  status: text("status").notNull().default("pending"), // 'pending' | 'processing' | 'sent' | 'delivered' | 'bounced' | 'dead'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull(),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at"), // dead-lettered instead of sent after this, e.g. once a login code has expired
+  lockedAt: timestamp("locked_at"), // set while a worker holds the job
+  provider: text("provider"),
+  providerMessageId: text("provider_message_id"),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("notification_jobs_due_idx").on(table.status, table.lane, table.nextAttemptAt),
+  index("notification_jobs_provider_message_idx").on(table.provider, table.providerMessageId),
+  index("notification_jobs_created_idx").on(table.createdAt),
+]);
+
+// Admin edits to notification templates; every save is a new version and the latest one is used
+export const notificationTemplates = pgTable("notification_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull(), // see NOTIFICATION_TEMPLATES
+  channel: text("channel").notNull(), // 'email' | 'sms' | 'in_app'
+  locale: text("locale").notNull(), // see TEMPLATE_LOCALES
+  version: integer("version").notNull(),
+  subject: text("subject"), // email subject or in-app title
+  body: text("body").notNull(),
+  html: text("html"), // email only
+  revertedFrom: integer("reverted_from"), // version this one restored, 0 for the built-in default
+  createdBy: varchar("created_by").references(() => adminUsers.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("notification_templates_version_idx").on(table.key, table.channel, table.locale, table.version),
+]);
+
 export const insertPropertySchema = createInsertSchema(properties).omit({
   id: true,
+  statusChangedAt: true,
+}).extend({
+  fundingDeadline: z.coerce.date().nullable().optional(),
 });
 
+// Public contact form; pipeline fields are only set by admins
 export const insertContactSchema = createInsertSchema(contacts).omit({
   id: true,
+  investmentMin: true,
+  investmentMax: true,
+  spamScore: true,
+  spamReasons: true,
+  isQuarantined: true,
+  fingerprint: true,
+  ipAddress: true,
+  stage: true,
+  assignedTo: true,
+  followUpAt: true,
+  propertyId: true,
+  tags: true,
+  userId: true,
   createdAt: true,
+  updatedAt: true,
+});
+
+// What the public form posts: the contact plus the honeypot and timing token used for spam scoring
+export const contactSubmissionSchema = insertContactSchema.extend({
+  website: z.string().max(500).optional(),
+  formToken: z.string().max(200).optional(),
 });
 
 export const insertAdminUserSchema = createInsertSchema(adminUsers).omit({
@@ -134,6 +546,7 @@ export const insertAdminUserSchema = createInsertSchema(adminUsers).omit({
   createdAt: true,
 }).extend({
   password: z.string().min(6, "Password must be at least 6 characters"),
+  role: z.enum(ADMIN_ROLES).default("read_only"),
 });
 
 export const insertUserSchema = createInsertSchema(users).omit({
@@ -174,13 +587,53 @@ export const insertHomePageSectionSchema = createInsertSchema(homePageSections).
   updatedAt: true,
 });
 
+export const insertInvestmentSchema = createInsertSchema(investments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCustomFieldDefinitionSchema = createInsertSchema(customFieldDefinitions).omit({
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  id: z.string().trim().min(1).max(120).regex(/^[\w-]+$/, "Field id may only contain letters, numbers, _ and -"),
+  name: z.string().trim().min(1).max(120),
+  displayName: z.string().trim().min(1).max(200),
+  type: z.enum(Object.values(CUSTOM_FIELD_TYPES) as [CustomFieldType, ...CustomFieldType[]]),
+  section: z.enum(Object.values(FIELD_SECTIONS) as [string, ...string[]]),
+  order: z.number().int().min(0).default(0),
+  options: z.array(z.string()).nullable().optional(),
+  validation: z.object({
+    min: z.number().optional(),
+    max: z.number().optional(),
+    pattern: z.string().optional(),
+    message: z.string().optional(),
+  }).nullable().optional(),
+  visibleWhen: z.array(z.object({
+    field: z.string().trim().min(1).max(120),
+    values: z.array(z.string()).min(1).max(50),
+  })).max(10).nullable().optional(),
+});
+
 export const updatePropertySchema = createInsertSchema(properties).omit({
   id: true,
+  statusChangedAt: true,
+}).extend({
+  fundingDeadline: z.coerce.date().nullable().optional(),
 }).partial();
 
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
 export type Property = typeof properties.$inferSelect;
 export type InsertContact = z.infer<typeof insertContactSchema>;
+export type ContactSubmission = z.infer<typeof contactSubmissionSchema>;
 export type Contact = typeof contacts.$inferSelect;
 export type InsertAdminUser = z.infer<typeof insertAdminUserSchema>;
 export type InsertAdminUserDB = typeof adminUsers.$inferInsert;
@@ -195,8 +648,32 @@ export type InsertAdminSetting = z.infer<typeof insertAdminSettingSchema>;
 export type AdminSetting = typeof adminSettings.$inferSelect;
 export type InsertAdminSession = z.infer<typeof insertAdminSessionSchema>;
 export type AdminSession = typeof adminSessions.$inferSelect;
+export type AdminInvite = typeof adminInvites.$inferSelect;
 export type InsertAdminPasswordResetOtp = z.infer<typeof insertAdminPasswordResetOtpSchema>;
 export type AdminPasswordResetOtp = typeof adminPasswordResetOtps.$inferSelect;
 export type UpdateProperty = z.infer<typeof updatePropertySchema>;
 export type InsertHomePageSection = z.infer<typeof insertHomePageSectionSchema>;
 export type HomePageSection = typeof homePageSections.$inferSelect;
+export type InsertInvestment = z.infer<typeof insertInvestmentSchema>;
+export type Investment = typeof investments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type Payment = typeof payments.$inferSelect;
+export type Distribution = typeof distributions.$inferSelect;
+export type DistributionLedgerEntry = typeof distributionLedger.$inferSelect;
+export type KycRecord = typeof kycRecords.$inferSelect;
+export type MarketOrder = typeof marketOrders.$inferSelect;
+export type Trade = typeof trades.$inferSelect;
+export type PropertyValuation = typeof propertyValuations.$inferSelect;
+export type PropertyStatusChange = typeof propertyStatusHistory.$inferSelect;
+export type InsertCustomFieldDefinition = z.infer<typeof insertCustomFieldDefinitionSchema>;
+export type CustomFieldDefinition = typeof customFieldDefinitions.$inferSelect;
+export type WatchlistItem = typeof watchlistItems.$inferSelect;
+export type AlertRule = typeof alertRules.$inferSelect;
+export type UserNotification = typeof userNotifications.$inferSelect;
+export type UserNotificationPreference = typeof userNotificationPreferences.$inferSelect;
+export type LeadActivity = typeof leadActivities.$inferSelect;
+export type OutboxMessage = typeof outboxMessages.$inferSelect;
+export type NotificationJob = typeof notificationJobs.$inferSelect;
+// Admin delivery listings never carry message content, which can hold OTPs
+export type NotificationJobSummary = Omit<NotificationJob, "body" | "html">;
+export type NotificationTemplateVersion = typeof notificationTemplates.$inferSelect;